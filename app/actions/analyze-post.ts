@@ -1,8 +1,9 @@
 "use server";
 
-import { ApifyClient } from 'apify-client';
 import { getAuthenticatedUser } from '@/lib/auth';
 import { getOrCreateUser } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import { getICPCriteria, getICPScoringModel, matchLeadToICP, scoreLeadAgainstICP, type ICPScoreBreakdown } from '@/lib/icp';
 import {
     canAnalyze,
     getScrapingCaps,
@@ -11,32 +12,31 @@ import {
     settleAnalysisUsage,
     UsageInfo,
 } from '@/lib/usage';
+import {
+    scrapePostDetails,
+    scrapeReactions,
+    type PostData,
+    type Reactor,
+} from '@/lib/linkedin-scraper';
+import {
+    filterReactionsByType,
+    parseScrapeOptions,
+    resolveScrapeOptions,
+    type ResolvedScrapeOptions,
+    type ScrapeOptions,
+} from '@/lib/plans';
+
+export type { PostData, Reactor, ScrapeOptions };
+
+// Only analyzePost and filterByICP (used by the demo page) are server actions.
+// The step functions below are module-internal: a client must not be able to
+// run a scrape without a reservation, or settle one with counts it made up.
+// The dashboard analyzes posts through /api/analysis-jobs.
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-export interface PostData {
-    author: string;
-    authorHeadline?: string;
-    content: string;
-    totalReactions: number;
-    totalComments: number;
-    totalShares: number;
-    image?: string;
-    postImage?: string;
-    postUrl: string;
-    activityId?: string;
-}
-
-export interface Reactor {
-    name: string;
-    headline: string;
-    profileUrl: string;
-    profilePicture?: string;
-    reactionType: string;
-}
-
 interface PostFetchResult {
     success: boolean;
     post?: PostData;
@@ -48,22 +48,31 @@ interface PostFetchResult {
 
 interface ReactionsFetchResult {
     success: boolean;
+    // Only the reaction types asked for
     reactors?: Reactor[];
+    // Before the type filter; this is what gets billed
+    reactionsScraped?: number;
     error?: string;
 }
 
-// Commenter uses same structure as Reactor for consistency
-export interface Commenter {
+interface ICPLeadInput {
     name: string;
     headline: string;
     profileUrl: string;
-    profilePicture?: string;
-    commentText: string;
+    location?: string;
+    source?: 'reaction' | 'comment';
 }
 
-interface CommentsFetchResult {
+type ICPMatchedLead<T extends ICPLeadInput = ICPLeadInput> = T & {
+    matchesICP: boolean;
+    icpMatchReason: string;
+    icpScore: number;
+    icpScoreBreakdown: ICPScoreBreakdown;
+};
+
+interface ICPMatchFetchResult<T extends ICPLeadInput> {
     success: boolean;
-    commenters?: Commenter[];
+    leads?: ICPMatchedLead<T>[];
     error?: string;
 }
 
@@ -85,16 +94,19 @@ interface AnalysisResult {
     limitReached?: boolean;
 }
 
-// Initialize Apify client
-const apifyClient = new ApifyClient({
-    token: process.env.APIFY_API_TOKEN,
-});
+// Options come from the client, so they're validated here and clamped to the
+// plan's caps. Throws with the validation message on bad options.
+async function resolveActionScrapeOptions(accountId: string, options?: ScrapeOptions): Promise<ResolvedScrapeOptions> {
+    const parsed = parseScrapeOptions(options ?? {});
+    if (!parsed.success) throw new Error(parsed.error);
+    return resolveScrapeOptions(await getScrapingCaps(accountId), parsed.options);
+}
 
 // ============================================================================
 // STEP 1: Fetch Post Details Only
 // ============================================================================
 
-export async function fetchPostDetails(url: string): Promise<PostFetchResult> {
+async function fetchPostDetails(url: string, options?: ScrapeOptions): Promise<PostFetchResult> {
     let reservedUserId: string | null = null;
     let reservationId: string | null = null;
 
@@ -113,10 +125,17 @@ export async function fetchPostDetails(url: string): Promise<PostFetchResult> {
             };
         }
 
+        const parsed = parseScrapeOptions(options ?? {});
+        if (!parsed.success) {
+            return { success: false, error: parsed.error, limitReached: false };
+        }
+
         const user = await getOrCreateUser(userEmail);
-        reservedUserId = user.id;
+        const { account } = await getAccountContext(user);
+        reservedUserId = account.id;
 
-        const reservation = await reserveAnalysisCredits(user.id, url);
+        // Sized to the chosen caps, so pass the same options to the fetches below
+        const reservation = await reserveAnalysisCredits(account.id, url, user.id, parsed.options);
         if (!reservation.allowed) {
             return {
                 success: false,
@@ -138,64 +157,8 @@ export async function fetchPostDetails(url: string): Promise<PostFetchResult> {
 
         // Fetch post details using Apify Post Scraper
         console.log("🔍 Fetching post details...");
-        const postRun = await apifyClient.actor("d0DhjXPjkkwm4W5xK").call({
-            post_urls: [url]
-        });
-
-        const { items: postItems } = await apifyClient.dataset(postRun.defaultDatasetId).listItems();
-
-        if (!postItems || postItems.length === 0) {
-            throw new Error("Could not fetch post data. Please ensure it's a valid public LinkedIn post URL.");
-        }
-
-        const postData = postItems[0] as any;
-        console.log("✅ Post fetched:", postData.author?.name);
-
-        // Extract activity ID from URL or use the post ID
-        let activityId = "";
-        const activityMatch = url.match(/activity[:\-](\d+)/);
-        if (activityMatch && activityMatch[1]) {
-            activityId = activityMatch[1];
-        } else if (postData.post?.id) {
-            activityId = postData.post.id;
-        }
-
-        // Extract image
-        let fetchedImage: string | undefined;
-        
-        if (postData.media && Array.isArray(postData.media) && postData.media.length > 0) {
-             const firstMedia = postData.media[0];
-             if (typeof firstMedia === 'object' && firstMedia && 'url' in firstMedia) {
-                 fetchedImage = firstMedia.url;
-             }
-        }
-        if (!fetchedImage && postData.post?.images && Array.isArray(postData.post.images) && postData.post.images.length > 0) {
-            const firstImage = postData.post.images[0];
-            if (typeof firstImage === 'string') {
-                fetchedImage = firstImage;
-            } else if (typeof firstImage === 'object' && firstImage && 'url' in firstImage) {
-                fetchedImage = firstImage.url;
-            }
-        }
-        if (!fetchedImage && postData.post?.img) {
-            fetchedImage = postData.post.img;
-        }
-        if (!fetchedImage && postData.image) {
-            fetchedImage = postData.image;
-        }
-
-        const post: PostData = {
-            author: postData.author?.name || "Unknown Author",
-            authorHeadline: postData.author?.headline,
-            content: postData.post?.text || "",
-            totalReactions: postData.stats?.total_reactions || 0,
-            totalComments: postData.stats?.comments || 0,
-            totalShares: postData.stats?.shares || 0,
-            image: postData.author?.profile_picture,
-            postImage: fetchedImage,
-            postUrl: url,
-            activityId: activityId
-        };
+        const post = await scrapePostDetails(url);
+        console.log("✅ Post fetched:", post.author);
 
         console.log("✅ Post details complete");
         return { success: true, post, reservationId };
@@ -218,7 +181,7 @@ export async function fetchPostDetails(url: string): Promise<PostFetchResult> {
 // STEP 2: Fetch Reactions (using LinkedIn Post Reactions Scraper)
 // ============================================================================
 
-export async function fetchReactions(postUrl: string): Promise<ReactionsFetchResult> {
+async function fetchReactions(postUrl: string, options?: ScrapeOptions): Promise<ReactionsFetchResult> {
     try {
         console.log("=== STEP 2: FETCHING REACTIONS ===");
         console.log("Post URL:", postUrl);
@@ -229,81 +192,23 @@ export async function fetchReactions(postUrl: string): Promise<ReactionsFetchRes
         }
 
         const user = await getOrCreateUser(userEmail);
-        const caps = await getScrapingCaps(user.id);
+        const { account } = await getAccountContext(user);
+        const caps = await resolveActionScrapeOptions(account.id, options);
         console.log(`📊 Reaction cap: ${caps.reactionCap}`);
 
-        // Using the new LinkedIn Post Reactions Scraper (S6mgSO5lezSZKi0zN)
-        const reactionsRun = await apifyClient.actor("S6mgSO5lezSZKi0zN").call({
-            posts: [postUrl],
-            maxItems: caps.reactionCap,
-            profileScraperMode: "short"
-        });
-
-        const { items: reactionItems } = await apifyClient.dataset(reactionsRun.defaultDatasetId).listItems();
-        console.log(`✅ Fetched ${reactionItems.length} reactions`);
-
-        // Map the new scraper's output format to our Reactor interface
-        // New scraper returns: { actor: { name, position, linkedinUrl, pictureUrl }, reactionType }
-        const reactors: Reactor[] = reactionItems.map((item: any) => ({
-            name: item.actor?.name || "Unknown",
-            headline: item.actor?.position || "",
-            profileUrl: item.actor?.linkedinUrl || "",
-            profilePicture: item.actor?.pictureUrl || item.actor?.picture?.url || "",
-            reactionType: item.reactionType || "LIKE"
-        }));
-
-        return { success: true, reactors };
-
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-        console.error("❌ Reactions fetch error:", errorMessage);
-        return { success: false, error: errorMessage };
-    }
-}
-
-// ============================================================================
-// STEP 2B: Fetch Comments (using LinkedIn Post Comments Scraper)
-// ============================================================================
-
-export async function fetchComments(postUrl: string): Promise<CommentsFetchResult> {
-    try {
-        console.log("=== STEP 2B: FETCHING COMMENTS ===");
-        console.log("Post URL:", postUrl);
-
-        const userEmail = await getAuthenticatedUser();
-        if (!userEmail) {
-            return { success: false, error: "Please log in" };
+        if (caps.reactionCap === 0) {
+            return { success: true, reactors: [], reactionsScraped: 0 };
         }
 
-        const user = await getOrCreateUser(userEmail);
-        const caps = await getScrapingCaps(user.id);
-        console.log(`📊 Comment cap: ${caps.commentCap}`);
-
-        // Using LinkedIn Post Comments Scraper (ZI6ykbLlGS3APaPE8)
-        const commentsRun = await apifyClient.actor("ZI6ykbLlGS3APaPE8").call({
-            posts: [postUrl],
-            maxItems: caps.commentCap,
-            profileScraperMode: "short"
-        });
+        const scraped = await scrapeReactions(postUrl, caps.reactionCap);
+        const reactors = filterReactionsByType(scraped, caps.reactionTypes);
+        console.log(`✅ Fetched ${scraped.length} reactions, kept ${reactors.length}`);
 
-        const { items: commentItems } = await apifyClient.dataset(commentsRun.defaultDatasetId).listItems();
-        console.log(`✅ Fetched ${commentItems.length} comments`);
-
-        // Map the scraper's output format to our Commenter interface
-        // Comment scraper returns: { actor: { name, position, linkedinUrl, pictureUrl }, commentary }
-        const commenters: Commenter[] = commentItems.map((item: any) => ({
-            name: item.actor?.name || "Unknown",
-            headline: item.actor?.position || "",
-            profileUrl: item.actor?.linkedinUrl || "",
-            profilePicture: item.actor?.pictureUrl || item.actor?.picture?.url || "",
-            commentText: item.commentary || ""
-        }));
-
-        return { success: true, commenters };
+        return { success: true, reactors, reactionsScraped: scraped.length };
 
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-        console.error("❌ Comments fetch error:", errorMessage);
+        console.error("❌ Reactions fetch error:", errorMessage);
         return { success: false, error: errorMessage };
     }
 }
@@ -312,7 +217,7 @@ export async function fetchComments(postUrl: string): Promise<CommentsFetchResul
 // STEP 3: Track Usage (call after successful analysis)
 // ============================================================================
 
-export async function trackAnalysisUsage(
+async function trackAnalysisUsage(
     postUrl: string, 
     reactorsCount: number, 
     commentersCount: number = 0,
@@ -324,8 +229,9 @@ export async function trackAnalysisUsage(
         if (!reservationId) return { success: false, error: "Missing wallet reservation for this analysis" };
 
         const user = await getOrCreateUser(userEmail);
+        const { account } = await getAccountContext(user);
         
-        const usageResult = await settleAnalysisUsage(user.id, reservationId, {
+        const usageResult = await settleAnalysisUsage(account.id, reservationId, {
             postUrl,
             reactionsScraped: reactorsCount,
             commentsScraped: commentersCount,
@@ -336,7 +242,7 @@ export async function trackAnalysisUsage(
             return { success: false, error: usageResult.error || "Failed to deduct wallet credits" };
         }
 
-        const updatedUsage = await canAnalyze(user.id);
+        const updatedUsage = await canAnalyze(account.id);
         return { success: true, usage: updatedUsage.usage };
 
     } catch (error) {
@@ -345,7 +251,7 @@ export async function trackAnalysisUsage(
     }
 }
 
-export async function releaseAnalysisReservation(
+async function releaseAnalysisReservation(
     reservationId: string,
     postUrl?: string
 ): Promise<{ success: boolean; error?: string }> {
@@ -354,7 +260,8 @@ export async function releaseAnalysisReservation(
         if (!userEmail) return { success: false, error: "Please log in to release reservation" };
 
         const user = await getOrCreateUser(userEmail);
-        return await releaseReservedAnalysisCredits(user.id, reservationId, {
+        const { account } = await getAccountContext(user);
+        return await releaseReservedAnalysisCredits(account.id, reservationId, {
             postUrl,
             releaseReason: 'analysis_aborted',
         });
@@ -368,11 +275,11 @@ export async function releaseAnalysisReservation(
 // LEGACY: Combined function (kept for backwards compatibility)
 // ============================================================================
 
-export async function analyzePost(url: string): Promise<AnalysisResult> {
+export async function analyzePost(url: string, options?: ScrapeOptions): Promise<AnalysisResult> {
     let reservationId: string | undefined;
 
     // Step 1: Fetch post
-    const postResult = await fetchPostDetails(url);
+    const postResult = await fetchPostDetails(url, options);
     if (!postResult.success || !postResult.post) {
         return {
             success: false,
@@ -385,7 +292,7 @@ export async function analyzePost(url: string): Promise<AnalysisResult> {
     reservationId = postResult.reservationId;
 
     // Step 2: Fetch reactions (now uses full post URL instead of activity ID)
-    const reactionsResult = await fetchReactions(postResult.post.postUrl);
+    const reactionsResult = await fetchReactions(postResult.post.postUrl, options);
     if (!reactionsResult.success || !reactionsResult.reactors) {
         if (reservationId) await releaseAnalysisReservation(reservationId, url);
         return {
@@ -395,7 +302,7 @@ export async function analyzePost(url: string): Promise<AnalysisResult> {
     }
 
     // Step 3: Track usage
-    const usage = await trackAnalysisUsage(url, reactionsResult.reactors.length, 0, reservationId);
+    const usage = await trackAnalysisUsage(url, reactionsResult.reactionsScraped ?? reactionsResult.reactors.length, 0, reservationId);
     if (!usage.success) {
         return {
             success: false,
@@ -414,18 +321,55 @@ export async function analyzePost(url: string): Promise<AnalysisResult> {
     };
 }
 
-// Helper function to filter reactors based on ICP criteria
+// ============================================================================
+// STEP 3: ICP Matching (uses the user's saved ICP)
+// ============================================================================
+
+async function matchLeadsToICP<T extends ICPLeadInput>(leads: T[]): Promise<ICPMatchFetchResult<T>> {
+    try {
+        const userEmail = await getAuthenticatedUser();
+        if (!userEmail) {
+            return { success: false, error: "Please log in to analyze posts" };
+        }
+
+        const user = await getOrCreateUser(userEmail);
+        const { account } = await getAccountContext(user);
+        const criteria = getICPCriteria(account);
+        const model = getICPScoringModel(account);
+
+        return {
+            success: true,
+            leads: leads.map(lead => {
+                const result = matchLeadToICP(lead, criteria);
+                const { score, breakdown } = scoreLeadAgainstICP(lead, criteria, model);
+                return {
+                    ...lead,
+                    matchesICP: result.matches,
+                    icpMatchReason: result.reason,
+                    icpScore: score,
+                    icpScoreBreakdown: breakdown
+                };
+            })
+        };
+    } catch (error) {
+        console.error("Failed to match leads against ICP:", error);
+        return { success: false, error: "Failed to apply your ICP criteria" };
+    }
+}
+
+// Helper function to filter reactors based on ICP criteria.
+// Without explicit criteria, the authenticated user's saved ICP is used.
 export async function filterByICP(reactors: Reactor[], icpCriteria?: string[]): Promise<Reactor[]> {
-    // Simple ICP filtering based on job titles
-    const defaultKeywords = [
-        'ceo', 'cto', 'founder', 'director', 'vp', 'vice president',
-        'head of', 'chief', 'manager', 'lead', 'senior', 'principal'
-    ];
-
-    const keywords = icpCriteria || defaultKeywords;
-
-    return reactors.filter(reactor => {
-        const headline = reactor.headline.toLowerCase();
-        return keywords.some(keyword => headline.includes(keyword));
-    });
+    if (icpCriteria) {
+        const criteria = { includeKeywords: icpCriteria.map(k => k.toLowerCase()), excludeKeywords: [], locations: [], industries: [] };
+        return reactors.filter(reactor => matchLeadToICP(reactor, criteria).matches);
+    }
+
+    const result = await matchLeadsToICP(reactors);
+    if (!result.success || !result.leads) {
+        return [];
+    }
+
+    const matchedUrls = new Set(result.leads.filter(l => l.matchesICP).map(l => l.profileUrl));
+    return reactors.filter(reactor => matchedUrls.has(reactor.profileUrl));
 }
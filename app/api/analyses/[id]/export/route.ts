@@ -1,13 +1,16 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/auth';
-import { getOrCreateUser, getAnalysis, analysisToCSV } from '@/lib/data-store';
+import { getOrCreateUser, getAnalysis } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import { analysisToExportLeads, renderExport, resolveExportFormat } from '@/lib/export';
 
+// GET ?format=csv|json|xlsx|vcf (default: the user's saved export format)
 export async function GET(
-  request: Request,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const userEmail = await getAuthenticatedUser();
+    const userEmail = await getAuthenticatedUser('analyses:read');
 
     if (!userEmail) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -15,21 +18,30 @@ export async function GET(
 
     const { id } = await params;
     const user = await getOrCreateUser(userEmail);
-    const analysis = await getAnalysis(id, user.id);
+    const { account } = await getAccountContext(user);
+    const analysis = await getAnalysis(id, account.id);
 
     if (!analysis) {
       return NextResponse.json({ error: 'Analysis not found' }, { status: 404 });
     }
 
-    // Generate CSV
-    const csv = analysisToCSV(analysis);
+    const format = resolveExportFormat(request.nextUrl.searchParams.get('format'), user.settings);
+    const file = renderExport(analysisToExportLeads(analysis), format, {
+      filename: `leads-${id}`,
+      meta: {
+        postUrl: analysis.post_url,
+        author: analysis.post_data.author,
+        analyzedAt: analysis.created_at,
+        totalReactors: analysis.total_reactors,
+        qualifiedLeads: analysis.qualified_leads_count,
+      },
+    });
 
-    // Create response with CSV file
-    return new NextResponse(csv, {
+    return new NextResponse(file.body, {
       status: 200,
       headers: {
-        'Content-Type': 'text/csv',
-        'Content-Disposition': `attachment; filename="leads-${id}.csv"`,
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
       },
     });
   } catch (error) {
@@ -1,13 +1,14 @@
 import { NextResponse } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/auth';
 import { getOrCreateUser, getAnalysis, deleteAnalysis } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
 
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const userEmail = await getAuthenticatedUser();
+    const userEmail = await getAuthenticatedUser('analyses:read');
 
     if (!userEmail) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -15,7 +16,8 @@ export async function GET(
 
     const { id } = await params;
     const user = await getOrCreateUser(userEmail);
-    const analysis = await getAnalysis(id, user.id);
+    const { account } = await getAccountContext(user);
+    const analysis = await getAnalysis(id, account.id);
 
     if (!analysis) {
       return NextResponse.json({ error: 'Analysis not found' }, { status: 404 });
@@ -33,7 +35,7 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const userEmail = await getAuthenticatedUser();
+    const userEmail = await getAuthenticatedUser('analyses:write');
 
     if (!userEmail) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -41,7 +43,8 @@ export async function DELETE(
 
     const { id } = await params;
     const user = await getOrCreateUser(userEmail);
-    const deleted = await deleteAnalysis(id, user.id);
+    const { account } = await getAccountContext(user);
+    const deleted = await deleteAnalysis(id, account.id);
 
     if (!deleted) {
       return NextResponse.json({ error: 'Analysis not found' }, { status: 404 });
@@ -1,17 +1,21 @@
-import { NextResponse } from 'next/server';
+import { NextResponse, after } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/auth';
 import { getOrCreateUser, getAnalyses, saveAnalysis } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import { getICPCriteria, getICPScoringModel, matchLeadToICP, scoreLeadAgainstICP } from '@/lib/icp';
+import { dispatchWebhookEvent, toAnalysisWebhookData } from '@/lib/webhooks';
 
 export async function GET() {
   try {
-    const userEmail = await getAuthenticatedUser();
+    const userEmail = await getAuthenticatedUser('analyses:read');
 
     if (!userEmail) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
     const user = await getOrCreateUser(userEmail);
-    const analyses = await getAnalyses(user.id);
+    const { account } = await getAccountContext(user);
+    const analyses = await getAnalyses(account.id);
 
     return NextResponse.json({ analyses });
   } catch (error) {
@@ -22,22 +26,49 @@ export async function GET() {
 
 export async function POST(request: Request) {
   try {
-    const userEmail = await getAuthenticatedUser();
+    const userEmail = await getAuthenticatedUser('analyses:write');
 
     if (!userEmail) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
     const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
     
     // Note: Usage limits are checked and tracked in the analyze-post server action
     // This endpoint only saves the analysis results to database
 
     const body = await request.json();
 
+    // ICP matches, scores and the qualified count are always computed here
+    // from the account's saved ICP, never taken from the client
+    const criteria = getICPCriteria(account);
+    const scoringModel = getICPScoringModel(account);
+
+    const leads = body.leads.map((lead: any) => {
+      const source = lead.source === 'comment' ? 'comment' : 'reaction';
+      const headline = typeof lead.headline === 'string' ? lead.headline : '';
+      const location = typeof lead.location === 'string' ? lead.location : undefined;
+      const match = matchLeadToICP({ headline, location }, criteria);
+      const { score, breakdown } = scoreLeadAgainstICP({ headline, source }, criteria, scoringModel);
+
+      return {
+        name: lead.name,
+        headline: lead.headline,
+        profile_url: lead.profile_url,
+        profile_picture: lead.profile_picture,
+        matches_icp: match.matches,
+        icp_match_reason: match.reason,
+        icp_score: score,
+        icp_score_breakdown: breakdown,
+        source,
+        comment_text: lead.comment_text
+      };
+    });
+
     // Transform the body to match our Analysis type
     const analysisData = {
-      user_id: user.id,
+      user_id: account.id,
       post_url: body.post_url,
       post_data: {
         author: body.post_data.author,
@@ -50,20 +81,14 @@ export async function POST(request: Request) {
         total_shares: body.post_data.total_shares
       },
       total_reactors: body.total_reactors,
-      qualified_leads_count: body.qualified_leads_count,
-      leads: body.leads.map((lead: any) => ({
-        name: lead.name,
-        headline: lead.headline,
-        profile_url: lead.profile_url,
-        profile_picture: lead.profile_picture,
-        matches_icp: lead.matches_icp,
-        source: lead.source || 'reaction',
-        comment_text: lead.comment_text
-      }))
+      qualified_leads_count: leads.filter((lead: { matches_icp: boolean }) => lead.matches_icp).length,
+      leads
     };
 
     const analysis = await saveAnalysis(analysisData);
 
+    after(() => dispatchWebhookEvent(account.id, 'analysis.completed', toAnalysisWebhookData(analysis)));
+
     return NextResponse.json({ analysis });
   } catch (error) {
     console.error('Analysis save error:', error);
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import { batchLeadsToExportLeads, renderExport, resolveExportFormat } from '@/lib/export';
+import {
+  combineBatchLeads,
+  getAnalysisBatch,
+  getAnalysisBatchAnalyses,
+  getAnalysisBatchJobs,
+} from '@/lib/analysis-batches';
+
+// GET ?format=csv|json|xlsx|vcf (default: the user's saved export format)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+    const batch = await getAnalysisBatch(id, account.id);
+
+    if (!batch) {
+      return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+    }
+
+    const jobs = await getAnalysisBatchJobs(batch.id, account.id);
+    const analyses = await getAnalysisBatchAnalyses(jobs, account.id);
+    const leads = combineBatchLeads(analyses);
+
+    const format = resolveExportFormat(request.nextUrl.searchParams.get('format'), user.settings);
+    const file = renderExport(batchLeadsToExportLeads(leads), format, {
+      filename: `leads-${id}`,
+      meta: {
+        batchId: batch.id,
+        name: batch.name,
+        postUrls: analyses.map((analysis) => analysis.post_url),
+        createdAt: batch.created_at,
+        totalLeads: leads.length,
+        qualifiedLeads: leads.filter((lead) => lead.matches_icp).length,
+      },
+    });
+
+    return new NextResponse(file.body, {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('[Analysis Batches] Export error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
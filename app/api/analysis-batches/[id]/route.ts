@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import {
+  combineBatchLeads,
+  getAnalysisBatch,
+  getAnalysisBatchAnalyses,
+  getAnalysisBatchJobs,
+  getAnalysisBatchProgress,
+} from '@/lib/analysis-batches';
+
+// GET - Batch progress plus the combined lead list of its finished posts
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+    const batch = await getAnalysisBatch(id, account.id);
+
+    if (!batch) {
+      return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+    }
+
+    const jobs = await getAnalysisBatchJobs(batch.id, account.id);
+    const analyses = await getAnalysisBatchAnalyses(jobs, account.id);
+
+    return NextResponse.json({
+      batch,
+      jobs,
+      progress: getAnalysisBatchProgress(jobs),
+      leads: combineBatchLeads(analyses),
+    });
+  } catch (error) {
+    console.error('[Analysis Batches] Batch fetch error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import { estimateAnalysisBatch } from '@/lib/analysis-batches';
+
+// POST - Validate, dedupe and price a list of post URLs (nothing is reserved)
+export async function POST(request: NextRequest) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: { urls?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (!Array.isArray(body.urls)) {
+      return NextResponse.json({ error: 'urls must be an array of post URLs' }, { status: 400 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+    const estimate = await estimateAnalysisBatch(
+      account.id,
+      account.plan || 'free',
+      body.urls.filter((u): u is string => typeof u === 'string')
+    );
+
+    return NextResponse.json({ estimate });
+  } catch (error) {
+    console.error('[Analysis Batches] Estimate error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
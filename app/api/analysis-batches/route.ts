@@ -0,0 +1,105 @@
+// =============================================================================
+// ANALYSIS BATCHES API
+// =============================================================================
+//
+// POST - Reserve credits for a list of post URLs and queue one job per post
+// GET  - List the user's recent batches
+//
+// The client calls POST /api/analysis-batches/estimate first and shows the
+// total before confirming. POST re-validates the URLs itself, so a stale or
+// edited list can't slip past validation. See lib/analysis-batches.ts.
+// =============================================================================
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import { runAnalysisBatchJobs } from '@/lib/analysis-jobs';
+import {
+  MAX_BATCH_POSTS,
+  createAnalysisBatch,
+  getAnalysisBatches,
+  parsePostUrls,
+} from '@/lib/analysis-batches';
+
+// Leave after() some headroom under maxDuration; the cron sweeper finishes
+// any posts this request doesn't get to
+export const maxDuration = 300;
+const BATCH_TIME_BUDGET_MS = 240_000;
+
+export async function GET() {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+    const batches = await getAnalysisBatches(account.id);
+
+    return NextResponse.json({ batches });
+  } catch (error) {
+    console.error('[Analysis Batches] GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: { urls?: unknown; name?: string };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (!Array.isArray(body.urls)) {
+      return NextResponse.json({ error: 'urls must be an array of post URLs' }, { status: 400 });
+    }
+
+    const { valid, invalid } = parsePostUrls(body.urls.filter((u): u is string => typeof u === 'string'));
+
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { error: `${invalid.length} URL${invalid.length === 1 ? ' is' : 's are'} not a LinkedIn post URL`, invalid },
+        { status: 400 }
+      );
+    }
+
+    if (valid.length === 0) {
+      return NextResponse.json({ error: 'Add at least one LinkedIn post URL' }, { status: 400 });
+    }
+
+    if (valid.length > MAX_BATCH_POSTS) {
+      return NextResponse.json(
+        { error: `You can analyze up to ${MAX_BATCH_POSTS} posts at once` },
+        { status: 400 }
+      );
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+    const result = await createAnalysisBatch(account.id, valid, body.name, user.id);
+
+    if (!result.success || !result.batch) {
+      return NextResponse.json(
+        { error: result.error, limitReached: !!result.usage, usage: result.usage },
+        { status: result.usage ? 402 : 500 }
+      );
+    }
+
+    const batchId = result.batch.id;
+    after(() => runAnalysisBatchJobs(batchId, BATCH_TIME_BUDGET_MS));
+
+    return NextResponse.json({ batch: result.batch, jobs: result.jobs }, { status: 202 });
+  } catch (error) {
+    console.error('[Analysis Batches] POST error:', error);
+    return NextResponse.json({ error: 'Failed to start bulk analysis' }, { status: 500 });
+  }
+}
@@ -0,0 +1,111 @@
+// =============================================================================
+// ANALYSIS JOBS API
+// =============================================================================
+//
+// POST - Submit a post for background analysis
+//        { postUrl, reactionCap?, commentCap?, reactionTypes? }
+//        Caps default to (and can't exceed) the plan's; 0 turns reactions or
+//        comments off. reactionTypes keeps only those reactions as leads.
+// GET  - List the user's recent jobs (?active=1 for queued/running only,
+//        ?single=1 to leave out bulk batch and monitoring jobs)
+//
+// The POST handler reserves wallet credits in the user's session (so the
+// normal billing checks apply), stores the job, and schedules the worker with
+// after() so the response returns immediately. The page then polls
+// GET /api/analysis-jobs/[id]. See lib/analysis-jobs.ts for the worker.
+// =============================================================================
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import { reserveAnalysisCredits, releaseAnalysisReservation } from '@/lib/usage';
+import { normalizeLinkedInPostUrl } from '@/lib/linkedin-scraper';
+import { parseScrapeOptions } from '@/lib/plans';
+import { createAnalysisJob, getAnalysisJobs, runAnalysisJob } from '@/lib/analysis-jobs';
+
+// Apify runs take a few minutes; give after() room to finish the job
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  try {
+    const userEmail = await getAuthenticatedUser('analyses:read');
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+    const activeOnly = request.nextUrl.searchParams.get('active') === '1';
+    const singleOnly = request.nextUrl.searchParams.get('single') === '1';
+    const jobs = await getAnalysisJobs(account.id, { activeOnly, singleOnly });
+
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error('[Analysis Jobs] GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const userEmail = await getAuthenticatedUser('analyses:write');
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: { postUrl?: string; reactionCap?: unknown; commentCap?: unknown; reactionTypes?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const postUrl = normalizeLinkedInPostUrl(body.postUrl || '');
+    if (!postUrl) {
+      return NextResponse.json(
+        { error: 'Please enter a valid LinkedIn post URL (linkedin.com/posts/...)' },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseScrapeOptions(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+
+    // Reserve the max cost at the chosen caps up front (settled by the worker)
+    const reservation = await reserveAnalysisCredits(account.id, postUrl, user.id, parsed.options);
+    if (!reservation.allowed || !reservation.reservationId || !reservation.scrapeOptions) {
+      return NextResponse.json(
+        {
+          error: reservation.reason || 'Start a trial or add wallet credits to analyze posts.',
+          limitReached: true,
+          usage: reservation.usage,
+        },
+        { status: 402 }
+      );
+    }
+
+    let job;
+    try {
+      job = await createAnalysisJob(account.id, postUrl, reservation.reservationId, reservation.scrapeOptions);
+    } catch (error) {
+      await releaseAnalysisReservation(account.id, reservation.reservationId, {
+        postUrl,
+        releaseReason: 'job_create_failed',
+      });
+      throw error;
+    }
+
+    after(() => runAnalysisJob(job.id));
+
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    console.error('[Analysis Jobs] POST error:', error);
+    return NextResponse.json({ error: 'Failed to start analysis' }, { status: 500 });
+  }
+}
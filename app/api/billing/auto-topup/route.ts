@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import { isWalletPlan } from '@/lib/wallet';
+import { DodoError } from '@/lib/dodo';
+import {
+  getAutoTopUpCharges,
+  getAutoTopUpPeriodStart,
+  getAutoTopUpSettings,
+  getSavedPaymentMethodId,
+  parseAutoTopUpSettings,
+  saveAutoTopUpSettings,
+} from '@/lib/auto-topup';
+
+// ============================================================================
+// Auto Top-Up API (see lib/auto-topup.ts)
+// GET - Settings, plus this month's charges and how much of the cap they used
+// PUT - { enabled: false } or
+//       { enabled: true, packId, thresholdInCents, monthlyCapInCents }
+//       Enabling needs a paid plan and a payment method saved with Dodo.
+// Billing belongs to the workspace owner's own account.
+// ============================================================================
+
+export async function GET() {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account, role } = await getAccountContext(user);
+    const canManage = role === 'owner' && account.id === user.id;
+
+    const since = getAutoTopUpPeriodStart();
+    const [settings, charges] = await Promise.all([
+      getAutoTopUpSettings(account.id),
+      getAutoTopUpCharges(account.id, since),
+    ]);
+    const chargedThisMonth = charges
+      .filter((charge) => charge.status !== 'failed')
+      .reduce((sum, charge) => sum + charge.amount, 0);
+
+    return NextResponse.json({
+      success: true,
+      settings,
+      canManage,
+      charges,
+      chargedThisMonth,
+      periodStart: since,
+    });
+  } catch (error) {
+    console.error('[Auto Top-Up] GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const parsed = parseAutoTopUpSettings(body ?? {});
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account, role } = await getAccountContext(user);
+    if (role !== 'owner' || account.id !== user.id) {
+      return NextResponse.json({ error: 'Only the workspace owner can manage billing' }, { status: 403 });
+    }
+
+    if (parsed.settings.enabled) {
+      if (!user.plan || !isWalletPlan(user.plan)) {
+        return NextResponse.json(
+          { error: 'Auto top-up is available for paid plan subscribers only. Please upgrade first.' },
+          { status: 403 }
+        );
+      }
+
+      const paymentMethodId = user.dodo_customer_id
+        ? await getSavedPaymentMethodId(user.dodo_customer_id)
+        : null;
+      if (!paymentMethodId) {
+        return NextResponse.json(
+          { error: 'No saved payment method. Buy a credit pack once to save your card, then turn on auto top-up.' },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (!(await saveAutoTopUpSettings(user.id, parsed.settings))) {
+      return NextResponse.json({ error: 'Failed to save auto top-up settings' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, settings: await getAutoTopUpSettings(user.id) });
+  } catch (error) {
+    console.error('[Auto Top-Up] PUT error:', error);
+
+    if (error instanceof DodoError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode || 500 }
+      );
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -21,6 +21,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/auth';
 import { getOrCreateUser, getUserSubscription } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
 import { createClient } from '@/lib/supabase/server';
 import {
   getDodoClient,
@@ -79,6 +80,15 @@ export async function POST(request: NextRequest) {
     // STEP 3: Get user and verify they have an active subscription
     // =========================================================================
     const user = await getOrCreateUser(userEmail);
+    // Workspace members spend from the owner's wallet but can't change its billing
+    const { role } = await getAccountContext(user);
+    if (role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only the workspace owner can manage billing' },
+        { status: 403 }
+      );
+    }
+
     const subscription = await getUserSubscription(user.id);
 
     if (!subscription) {
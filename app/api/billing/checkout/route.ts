@@ -36,6 +36,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/auth';
 import { getOrCreateUser } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
 import { createClient } from '@/lib/supabase/server';
 import {
   getDodoClient,
@@ -154,6 +155,15 @@ export async function POST(request: NextRequest) {
     // STEP 3: Get or create user and Dodo customer
     // =========================================================================
     const user = await getOrCreateUser(userEmail);
+    // Workspace members spend from the owner's wallet but can't change its billing
+    const { role } = await getAccountContext(user);
+    if (role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only the workspace owner can manage billing' },
+        { status: 403 }
+      );
+    }
+
     const supabase = await createClient();
 
     // Check if user already has a Dodo customer ID
@@ -19,6 +19,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/auth';
 import { getOrCreateUser } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
 import {
   getDodoClient,
   withDodoErrorHandling,
@@ -74,6 +75,14 @@ export async function POST(request: NextRequest) {
     // STEP 3: Get user and verify they have a Dodo customer ID
     // =========================================================================
     const user = await getOrCreateUser(userEmail);
+    // Workspace members spend from the owner's wallet but can't change its billing
+    const { role } = await getAccountContext(user);
+    if (role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only the workspace owner can manage billing' },
+        { status: 403 }
+      );
+    }
 
     // @ts-ignore - dodo_customer_id is added via migration
     const dodoCustomerId = user.dodo_customer_id;
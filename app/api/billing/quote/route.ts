@@ -0,0 +1,203 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import {
+  cachePostStats,
+  claimPostStatsScrape,
+  getCachedPostStats,
+  getOrCreateUser,
+  getRecentPostAnalysisStats,
+} from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import { normalizeLinkedInPostUrl, scrapePostDetails } from '@/lib/linkedin-scraper';
+import { getLeadsToEnrich, MAX_ENRICH_BATCH_LEADS } from '@/lib/profile-enrichment';
+import { parseScrapeOptions } from '@/lib/plans';
+import {
+  checkWalletBillingAccess,
+  quoteAnalysisCost,
+  quoteEnrichmentCost,
+  type UsageQuote,
+} from '@/lib/usage';
+import { formatCredits } from '@/lib/wallet';
+
+// ============================================================================
+// Cost Quote API
+// POST { postUrl, reactionCap?, commentCap? }
+//                   - Analysis quote from the post's reactions and comments
+//                     under the plan caps, or lower ones as in
+//                     POST /api/analysis-jobs
+// POST { leadIds }  - Bulk enrichment quote for the leads that need it
+// Returns the expected and maximum (reserved) cost, the balance afterwards and
+// whether the reservation would succeed now. Nothing is reserved or charged.
+//
+// Post stats come from an analysis of the same post in the last
+// POST_STATS_MAX_AGE_HOURS, then from a quote scrape of it by any account in
+// that window (post_stats_cache), otherwise from a new post details scrape.
+// The scrape isn't free to us, so it needs billing access and each account
+// gets POST_STATS_SCRAPES_PER_HOUR attempts (counted before they start).
+// ============================================================================
+
+const POST_STATS_MAX_AGE_HOURS = 6;
+const POST_STATS_SCRAPES_PER_HOUR = 20;
+
+function withFormatting(quote: UsageQuote) {
+  return {
+    ...quote,
+    expectedCostFormatted: formatCredits(quote.expectedCost),
+    maxCostFormatted: formatCredits(quote.maxCost),
+    balanceFormatted: formatCredits(quote.balance),
+    balanceAfterFormatted: formatCredits(quote.balanceAfter),
+  };
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const userEmail = await getAuthenticatedUser('wallet:read');
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: { postUrl?: unknown; leadIds?: unknown; reactionCap?: unknown; commentCap?: unknown; reactionTypes?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if ((body.postUrl === undefined) === (body.leadIds === undefined)) {
+      return NextResponse.json({ error: 'Send either postUrl or leadIds' }, { status: 400 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+
+    // Enrichment
+    if (body.leadIds !== undefined) {
+      const leadIds = Array.isArray(body.leadIds)
+        ? Array.from(new Set(body.leadIds.filter((id): id is string => typeof id === 'string' && !!id)))
+        : [];
+
+      if (leadIds.length === 0) {
+        return NextResponse.json({ error: 'leadIds must be a non-empty list of lead ids' }, { status: 400 });
+      }
+      if (leadIds.length > MAX_ENRICH_BATCH_LEADS) {
+        return NextResponse.json(
+          { error: `You can enrich up to ${MAX_ENRICH_BATCH_LEADS} leads at a time` },
+          { status: 400 }
+        );
+      }
+
+      const leads = await getLeadsToEnrich(account.id, leadIds);
+      if (!leads) {
+        return NextResponse.json({ error: 'Failed to load leads' }, { status: 500 });
+      }
+
+      const quote = await quoteEnrichmentCost(account.id, leads.length);
+      return NextResponse.json({
+        success: true,
+        quote: withFormatting(
+          leads.length === 0
+            ? { ...quote, wouldSucceed: false, reason: 'None of the selected leads need enrichment.' }
+            : quote
+        ),
+        leadCount: leads.length,
+        // Already enriched/enriching, not a /in/ URL, or not found
+        skipped: leadIds.length - leads.length,
+      });
+    }
+
+    // Analysis
+    const postUrl = normalizeLinkedInPostUrl(typeof body.postUrl === 'string' ? body.postUrl : '');
+    if (!postUrl) {
+      return NextResponse.json(
+        { error: 'Please enter a valid LinkedIn post URL (linkedin.com/posts/...)' },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseScrapeOptions(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const since = new Date(Date.now() - POST_STATS_MAX_AGE_HOURS * 60 * 60 * 1000).toISOString();
+    const recent = await getRecentPostAnalysisStats(account.id, postUrl, since);
+    const cached = recent ? null : await getCachedPostStats(postUrl, since);
+
+    let stats: { totalReactions: number; totalComments: number; fetchedAt: string; source: 'analysis' | 'scrape' };
+    if (recent) {
+      stats = {
+        totalReactions: recent.post_data.total_reactions,
+        totalComments: recent.post_data.total_comments,
+        fetchedAt: recent.created_at,
+        source: 'analysis',
+      };
+    } else if (cached) {
+      stats = {
+        totalReactions: cached.total_reactions,
+        totalComments: cached.total_comments,
+        fetchedAt: cached.fetched_at,
+        source: 'scrape',
+      };
+    } else {
+      const access = await checkWalletBillingAccess(account.id);
+      if (!access.allowed) {
+        return NextResponse.json(
+          { error: access.reason, limitReached: true, topUpAvailable: true },
+          { status: 402 }
+        );
+      }
+
+      if (!process.env.APIFY_API_TOKEN) {
+        return NextResponse.json({ error: 'Apify API token not configured' }, { status: 500 });
+      }
+
+      // Recorded before the scrape starts, so concurrent quotes can't exceed the limit
+      const claim = await claimPostStatsScrape(account.id, postUrl, POST_STATS_SCRAPES_PER_HOUR);
+      if (!claim) {
+        return NextResponse.json({ error: 'Failed to check quote limits' }, { status: 500 });
+      }
+      if (!claim.allowed) {
+        return NextResponse.json(
+          {
+            error:
+              `You can quote up to ${POST_STATS_SCRAPES_PER_HOUR} new posts an hour. ` +
+              'Try again later, or analyze the post directly.',
+          },
+          { status: 429, headers: { 'Retry-After': String(claim.retryAfterSeconds ?? 60) } }
+        );
+      }
+
+      try {
+        const post = await scrapePostDetails(postUrl);
+        stats = {
+          totalReactions: post.totalReactions,
+          totalComments: post.totalComments,
+          fetchedAt: new Date().toISOString(),
+          source: 'scrape',
+        };
+        await cachePostStats({
+          post_url: postUrl,
+          total_reactions: post.totalReactions,
+          total_comments: post.totalComments,
+        });
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Could not fetch post data' },
+          { status: 422 }
+        );
+      }
+    }
+
+    const quote = await quoteAnalysisCost(account.id, stats, parsed.options);
+    return NextResponse.json({
+      success: true,
+      quote: withFormatting(quote),
+      postUrl,
+      statsSource: stats.source,
+      statsFetchedAt: stats.fetchedAt,
+    });
+  } catch (error) {
+    console.error('[Quote] POST error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/auth';
 import { getOrCreateUser, getUserBillingInfo, getUserSubscription } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
 
 // =============================================================================
 // TODO: DODO PAYMENT GATEWAY INTEGRATION
@@ -13,15 +14,16 @@ import { getOrCreateUser, getUserBillingInfo, getUserSubscription } from '@/lib/
 
 export async function GET() {
   try {
-    const userEmail = await getAuthenticatedUser();
+    const userEmail = await getAuthenticatedUser('wallet:read');
 
     if (!userEmail) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
     const user = await getOrCreateUser(userEmail);
-    const billingInfo = await getUserBillingInfo(user.id);
-    const subscription = await getUserSubscription(user.id);
+    const { account } = await getAccountContext(user);
+    const billingInfo = await getUserBillingInfo(account.id);
+    const subscription = await getUserSubscription(account.id);
 
     if (!billingInfo) {
       return NextResponse.json({ error: 'Failed to fetch billing info' }, { status: 500 });
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { canManageWorkspace, getAccountContext } from '@/lib/workspaces';
+import { deleteSpendLimit } from '@/lib/spend-limits';
+
+// DELETE - Remove a spend limit
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const user = await getOrCreateUser(userEmail);
+    const { account, role } = await getAccountContext(user);
+    if (!canManageWorkspace(role)) {
+      return NextResponse.json({ error: 'Only workspace admins can manage spend limits' }, { status: 403 });
+    }
+
+    if (!(await deleteSpendLimit(id, account.id))) {
+      return NextResponse.json({ error: 'Spend limit not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Spend Limits] DELETE error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { canManageWorkspace, getAccountContext } from '@/lib/workspaces';
+import { getSpendLimitStatuses, parseSpendLimitInput, saveSpendLimit } from '@/lib/spend-limits';
+
+// ============================================================================
+// Spend Limits API (see lib/spend-limits.ts)
+// GET - The account's limits with this period's spend against each
+// PUT - { actionType, period, limitInCents }: sets the limit for that action
+//       and period, creating it if needed
+// DELETE /api/billing/spend-limits/[id] removes one.
+// ============================================================================
+
+export async function GET() {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account, role } = await getAccountContext(user);
+    const limits = await getSpendLimitStatuses(account.id);
+
+    return NextResponse.json({ success: true, limits, canManage: canManageWorkspace(role) });
+  } catch (error) {
+    console.error('[Spend Limits] GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const parsed = parseSpendLimitInput(body ?? {});
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account, role } = await getAccountContext(user);
+    if (!canManageWorkspace(role)) {
+      return NextResponse.json({ error: 'Only workspace admins can manage spend limits' }, { status: 403 });
+    }
+
+    const limit = await saveSpendLimit(account.id, parsed.input);
+    if (!limit) {
+      return NextResponse.json({ error: 'Failed to save spend limit' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, limit });
+  } catch (error) {
+    console.error('[Spend Limits] PUT error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
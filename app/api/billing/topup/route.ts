@@ -34,6 +34,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/auth';
 import { getOrCreateUser } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
 import { createClient } from '@/lib/supabase/server';
 import { createAdminClient } from '@/lib/supabase/admin';
 import {
@@ -88,6 +89,14 @@ export async function POST(request: NextRequest) {
     // STEP 3: Validate user is on a paid plan
     // =========================================================================
     const user = await getOrCreateUser(userEmail);
+    // Workspace members spend from the owner's wallet but can't change its billing
+    const { role } = await getAccountContext(user);
+    if (role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only the workspace owner can manage billing' },
+        { status: 403 }
+      );
+    }
 
     // Only paid plan users can top up — free users should upgrade first
     if (!user.plan || !isWalletPlan(user.plan)) {
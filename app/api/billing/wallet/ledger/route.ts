@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { getAccountContext, getWorkspaceMembers } from '@/lib/workspaces';
+import { createClient } from '@/lib/supabase/server';
+import { formatCredits } from '@/lib/wallet';
+import {
+  MAX_WALLET_LEDGER_PAGE_SIZE,
+  WALLET_LEDGER_PAGE_SIZE,
+  decodeWalletLedgerCursor,
+  getWalletLedgerPage,
+  parseWalletLedgerFilters,
+  streamWalletLedgerCSV,
+} from '@/lib/wallet-ledger';
+
+// ============================================================================
+// Wallet Ledger API
+// GET ?cursor=&limit=50 (max 200) plus the filters in parseWalletLedgerFilters
+//     One page of wallet transactions, newest first, with each reservation's
+//     settlement or release. Returns nextCursor (null on the last page) and,
+//     on the first page, the number of matching transactions.
+// GET ?format=csv&...filters
+//     Every matching transaction as a CSV download, streamed page by page.
+// ============================================================================
+
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  try {
+    const userEmail = await getAuthenticatedUser('wallet:read');
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const filters = parseWalletLedgerFilters(params);
+
+    const cursor = params.get('cursor');
+    if (cursor && !decodeWalletLedgerCursor(cursor)) {
+      return NextResponse.json({ error: 'Invalid cursor; start again without one' }, { status: 400 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account, workspace, agency } = await getAccountContext(user);
+
+    // Spend is attributed to the member who caused it
+    const actorEmails = new Map<string, string>([[user.id, user.email]]);
+    if (workspace) {
+      for (const member of await getWorkspaceMembers(workspace.id)) {
+        actorEmails.set(member.user_id, member.email);
+      }
+    }
+    if (agency) actorEmails.set(agency.id, agency.email);
+
+    if (params.get('format') === 'csv') {
+      // Pages are read after this handler returns, so bind the client to the request now
+      const supabase = await createClient();
+      const body = streamWalletLedgerCSV(account.id, filters, actorEmails, supabase);
+      const date = new Date().toISOString().slice(0, 10);
+
+      return new NextResponse(body, {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="wallet-ledger-${date}.csv"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    const limitParam = parseInt(params.get('limit') || '', 10);
+    const limit = Number.isNaN(limitParam)
+      ? WALLET_LEDGER_PAGE_SIZE
+      : Math.min(MAX_WALLET_LEDGER_PAGE_SIZE, Math.max(1, limitParam));
+
+    const page = await getWalletLedgerPage(account.id, filters, { cursor, limit });
+
+    return NextResponse.json({
+      success: true,
+      entries: page.entries.map((entry) => ({
+        id: entry.id,
+        type: entry.type,
+        amount: entry.amount,
+        amountFormatted: formatCredits(Math.abs(entry.amount)),
+        balanceAfter: entry.balanceAfter,
+        balanceAfterFormatted: formatCredits(entry.balanceAfter),
+        reason: entry.reason,
+        actionType: entry.actionType ?? null,
+        postUrl: entry.postUrl,
+        reservation: entry.reservation,
+        refundOfReservationId: entry.refundOfReservationId,
+        actorUserId: entry.actorUserId,
+        actorEmail: entry.actorUserId ? actorEmails.get(entry.actorUserId) ?? null : null,
+        createdAt: entry.createdAt,
+      })),
+      nextCursor: page.nextCursor,
+      total: page.total,
+    });
+  } catch (error) {
+    console.error('[Wallet Ledger] GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -15,6 +15,7 @@
 // ==========
 // GET /api/billing/wallet - Get current balance and status
 // GET /api/billing/wallet?history=true - Include transaction history
+// GET /api/billing/wallet/ledger - Filtered, paged ledger and CSV download
 //
 // Created: 2nd January 2026
 // =============================================================================
@@ -22,6 +23,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/auth';
 import { getOrCreateUser } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
 import {
   getWalletStatus,
   getWalletTransactions,
@@ -74,7 +76,7 @@ export async function GET(request: NextRequest) {
     // =========================================================================
     // STEP 1: Authenticate user
     // =========================================================================
-    const userEmail = await getAuthenticatedUser();
+    const userEmail = await getAuthenticatedUser('wallet:read');
 
     if (!userEmail) {
       return NextResponse.json(
@@ -87,11 +89,12 @@ export async function GET(request: NextRequest) {
     // STEP 2: Get user record
     // =========================================================================
     const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
 
     // =========================================================================
     // STEP 3: Get wallet status
     // =========================================================================
-    const walletStatus = await getWalletStatus(user.id);
+    const walletStatus = await getWalletStatus(account.id);
 
     if (!walletStatus) {
       return NextResponse.json(
@@ -103,10 +106,11 @@ export async function GET(request: NextRequest) {
     // =========================================================================
     // STEP 4: Calculate usage statistics
     // =========================================================================
-    const planConfig = walletStatus.plan !== 'free'
+    // Agency client sub-accounts only have the budget allocated to them
+    const planConfig = walletStatus.plan !== 'free' && !account.parent_user_id
       ? WALLET_PLANS[walletStatus.plan as WalletPlanId]
       : null;
-    const isTrialing = !!user.trial_ends_at && new Date(user.trial_ends_at) > new Date();
+    const isTrialing = !!account.trial_ends_at && new Date(account.trial_ends_at) > new Date();
 
     // Calculate how much PLAN credits have been spent this period.
     // We subtract purchased credits from the balance first, since purchased
@@ -184,7 +188,7 @@ export async function GET(request: NextRequest) {
       const limitParam = request.nextUrl.searchParams.get('limit');
       const limit = Math.min(100, Math.max(1, parseInt(limitParam || '20', 10)));
 
-      const transactions = await getWalletTransactions(user.id, limit);
+      const transactions = await getWalletTransactions(account.id, limit);
 
       response.transactions = transactions.map((tx) => ({
         id: tx.id,
@@ -195,6 +199,7 @@ export async function GET(request: NextRequest) {
         balanceAfterFormatted: formatCredits(tx.balanceAfter),
         reason: tx.reason,
         actionType: tx.actionType,
+        actorUserId: tx.actorUserId,
         createdAt: tx.createdAt,
       }));
     }
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { canManageWorkspace, getAccountContext } from '@/lib/workspaces';
+import { isAgencyPlan, parseBudgetAmount, transferClientBudget } from '@/lib/client-accounts';
+
+// POST - { amount } move budget in cents: positive allocates agency credits
+// to the client, negative returns client credits to the agency (owner/admin).
+// The response splits the amount into planCredits and purchasedCredits.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const parsed = parseBudgetAmount(body?.amount);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const user = await getOrCreateUser(userEmail);
+    const { account, agency, role } = await getAccountContext(user);
+    const agencyAccount = agency ?? account;
+    if (!canManageWorkspace(role)) {
+      return NextResponse.json({ error: 'Only workspace admins can change client budgets' }, { status: 403 });
+    }
+    if (!isAgencyPlan(agencyAccount.plan)) {
+      return NextResponse.json({ error: 'Client accounts are available on the Scale plan.' }, { status: 403 });
+    }
+
+    const result = await transferClientBudget(agencyAccount.id, id, parsed.amount, user.id);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      agencyBalance: result.agencyBalance,
+      clientBalance: result.clientBalance,
+      planCredits: result.planCredits,
+      purchasedCredits: result.purchasedCredits,
+    });
+  } catch (error) {
+    console.error('[Clients] Budget POST error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
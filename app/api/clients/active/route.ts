@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import { ACTIVE_CLIENT_COOKIE, getClientAccount, isAgencyPlan } from '@/lib/client-accounts';
+
+// PUT - { clientId } switch the dashboard to a client sub-account, or
+// { clientId: null } back to the agency's own account
+export async function PUT(request: Request) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const clientId = body?.clientId;
+    if (clientId !== null && typeof clientId !== 'string') {
+      return NextResponse.json({ error: 'clientId must be a string or null' }, { status: 400 });
+    }
+
+    if (clientId === null) {
+      const response = NextResponse.json({ success: true, activeClientId: null });
+      response.cookies.delete(ACTIVE_CLIENT_COOKIE);
+      return response;
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account, agency } = await getAccountContext(user);
+    const agencyAccount = agency ?? account;
+    if (!isAgencyPlan(agencyAccount.plan) || !(await getClientAccount(agencyAccount.id, clientId))) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+    }
+
+    const response = NextResponse.json({ success: true, activeClientId: clientId });
+    response.cookies.set(ACTIVE_CLIENT_COOKIE, clientId, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      maxAge: 60 * 60 * 24 * 365,
+    });
+    return response;
+  } catch (error) {
+    console.error('[Clients] Switch error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
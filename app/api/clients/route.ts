@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { canManageWorkspace, getAccountContext } from '@/lib/workspaces';
+import {
+  createClientAccount,
+  getClientSpendReport,
+  isAgencyPlan,
+  parseClientName,
+} from '@/lib/client-accounts';
+
+// ============================================================================
+// Agency Clients API
+// GET  ?days=30 - the agency's clients with their budget and spend over the
+//                 last N days (1-365), plus the active client
+// POST - { name } create a client sub-account (owner/admin, Scale plan)
+// See lib/client-accounts.ts
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const daysParam = parseInt(request.nextUrl.searchParams.get('days') || '30', 10);
+    const days = Math.min(365, Math.max(1, Number.isNaN(daysParam) ? 30 : daysParam));
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const user = await getOrCreateUser(userEmail);
+    const { account, agency, role } = await getAccountContext(user);
+    const agencyAccount = agency ?? account;
+
+    if (!isAgencyPlan(agencyAccount.plan)) {
+      return NextResponse.json({
+        success: true,
+        available: false,
+        canManage: false,
+        clients: [],
+        activeClientId: null,
+        agencyBalance: agencyAccount.wallet_balance,
+        since,
+      });
+    }
+
+    const clients = await getClientSpendReport(agencyAccount.id, since);
+
+    return NextResponse.json({
+      success: true,
+      available: true,
+      canManage: canManageWorkspace(role),
+      clients,
+      activeClientId: agency ? account.id : null,
+      agencyBalance: agencyAccount.wallet_balance,
+      since,
+    });
+  } catch (error) {
+    console.error('[Clients] GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const parsed = parseClientName(body?.name);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account, agency, role } = await getAccountContext(user);
+    if (!canManageWorkspace(role)) {
+      return NextResponse.json({ error: 'Only workspace admins can add clients' }, { status: 403 });
+    }
+
+    const result = await createClientAccount(agency ?? account, parsed.name);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, client: result.client });
+  } catch (error) {
+    console.error('[Clients] POST error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
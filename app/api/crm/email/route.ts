@@ -0,0 +1,165 @@
+// =============================================================================
+// CRM EMAIL FINDER API
+// =============================================================================
+//
+// POST - Find and verify the work email for a CRM lead
+//        ({ leadId }, or { profileUrl } for a lead already saved to the CRM)
+//
+// FLOW:
+// =====
+// 1. Load the lead; if it already has an email, return it without charging
+// 2. Build provider input (name + company) from enriched data or the headline
+// 3. Reserve CREDIT_COSTS.emailLookup ('email_lookup')
+// 4. Ask the configured provider (lib/email-finder.ts)
+//    - found / risky: settle the reservation
+//    - not_found: release it (no email, no charge)
+//    - provider error: release it
+// 5. Store email, email_status, provider and timestamp on the lead
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getCRMLead, getCRMLeadByProfileUrl, getOrCreateUser, updateCRMLead } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import { buildEmailLookupInput, getEmailFinderProvider, type EmailLookupResult } from '@/lib/email-finder';
+import {
+  getUsageInfo,
+  releaseEmailLookupReservation,
+  reserveEmailLookupCredits,
+  settleEmailLookupUsage,
+} from '@/lib/usage';
+
+export async function POST(request: NextRequest) {
+  let reservationUserId: string | null = null;
+  let reservationId: string | null = null;
+
+  try {
+    const userEmail = await getAuthenticatedUser('crm:write');
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: { leadId?: unknown; profileUrl?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const leadId = typeof body.leadId === 'string' ? body.leadId : '';
+    const profileUrl = typeof body.profileUrl === 'string' ? body.profileUrl : '';
+    if (!leadId && !profileUrl) {
+      return NextResponse.json({ error: 'leadId or profileUrl is required' }, { status: 400 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+    const lead = leadId
+      ? await getCRMLead(leadId, account.id)
+      : await getCRMLeadByProfileUrl(account.id, profileUrl);
+    if (!lead) {
+      return NextResponse.json({ error: 'Lead not found' }, { status: 404 });
+    }
+
+    // Already paid for - don't charge again
+    if (lead.email && (lead.email_status === 'found' || lead.email_status === 'risky')) {
+      return NextResponse.json({ success: true, lead, charged: false });
+    }
+
+    const provider = getEmailFinderProvider();
+    if (!provider) {
+      return NextResponse.json({ error: 'Email finder is not configured' }, { status: 503 });
+    }
+
+    const input = buildEmailLookupInput(lead);
+    if (!input) {
+      return NextResponse.json(
+        { error: "We couldn't tell where this lead works. Enrich the lead first, then try again." },
+        { status: 422 }
+      );
+    }
+
+    // -------------------------------------------------------------------------
+    // Reserve
+    // -------------------------------------------------------------------------
+    const reservation = await reserveEmailLookupCredits(account.id, lead.id, user.id);
+    if (!reservation.allowed || !reservation.reservationId) {
+      return NextResponse.json(
+        {
+          error: reservation.reason || 'Start a trial or add wallet credits to find emails.',
+          usage: reservation.usage,
+          limitReached: true,
+        },
+        { status: 402 }
+      );
+    }
+    reservationUserId = account.id;
+    reservationId = reservation.reservationId;
+
+    // -------------------------------------------------------------------------
+    // Look up, then settle or release
+    // -------------------------------------------------------------------------
+    console.log(`[Email] Looking up email for lead ${lead.id} via ${provider.name}`);
+    const result: EmailLookupResult = await provider.findEmail(input);
+
+    let charged = false;
+    if (result.status === 'not_found') {
+      await releaseEmailLookupReservation(account.id, reservationId, {
+        leadId: lead.id,
+        provider: result.provider,
+        releaseReason: 'email_not_found',
+      });
+      reservationId = null;
+    } else {
+      const settlement = await settleEmailLookupUsage(account.id, reservationId, {
+        leadId: lead.id,
+        emailStatus: result.status,
+        provider: result.provider,
+      });
+      if (!settlement.success) {
+        await releaseEmailLookupReservation(account.id, reservationId, {
+          leadId: lead.id,
+          releaseReason: 'settlement_failed',
+        });
+        reservationId = null;
+        return NextResponse.json(
+          { error: settlement.error || 'Unable to deduct wallet credits for email lookup.', limitReached: true },
+          { status: 402 }
+        );
+      }
+      reservationId = null;
+      charged = true;
+    }
+
+    // -------------------------------------------------------------------------
+    // Store the outcome on the lead
+    // -------------------------------------------------------------------------
+    const updatedLead = await updateCRMLead(lead.id, account.id, {
+      email: result.email,
+      email_status: result.status,
+      email_provider: result.provider,
+      email_checked_at: new Date().toISOString(),
+    });
+
+    if (!updatedLead) {
+      // Already charged; still hand the email back so it isn't lost
+      console.error(`[Email] Failed to save email result for lead ${lead.id}`);
+    }
+
+    const usage = charged ? await getUsageInfo(account.id) : null;
+
+    return NextResponse.json({
+      success: true,
+      lead: updatedLead || { ...lead, email: result.email, email_status: result.status },
+      charged,
+      usage,
+    });
+  } catch (error) {
+    if (reservationUserId && reservationId) {
+      await releaseEmailLookupReservation(reservationUserId, reservationId, { releaseReason: 'lookup_error' });
+    }
+
+    console.error('[Email] POST error:', error);
+    return NextResponse.json({ error: 'Email lookup failed' }, { status: 500 });
+  }
+}
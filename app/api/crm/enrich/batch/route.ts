@@ -0,0 +1,80 @@
+// =============================================================================
+// BULK ENRICHMENT API
+// =============================================================================
+//
+// POST - Enrich selected CRM leads in the background ({ leadIds })
+//
+// Credits for the whole batch are reserved up front; the leads are scraped
+// several per Apify run after the response is sent, and the reservation is
+// settled only for the profiles found. See lib/profile-enrichment.ts.
+// =============================================================================
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import { MAX_ENRICH_BATCH_LEADS, runEnrichmentBatch, startEnrichmentBatch } from '@/lib/profile-enrichment';
+
+// runEnrichmentBatch stops taking new chunks with headroom under this
+export const maxDuration = 300;
+
+export async function POST(request: NextRequest) {
+  try {
+    const userEmail = await getAuthenticatedUser('crm:write');
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!process.env.APIFY_API_TOKEN) {
+      return NextResponse.json({ error: 'Apify API token not configured' }, { status: 500 });
+    }
+
+    let body: { leadIds?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const leadIds = Array.isArray(body.leadIds)
+      ? Array.from(new Set(body.leadIds.filter((id): id is string => typeof id === 'string' && !!id)))
+      : [];
+
+    if (leadIds.length === 0) {
+      return NextResponse.json({ error: 'leadIds is required' }, { status: 400 });
+    }
+    if (leadIds.length > MAX_ENRICH_BATCH_LEADS) {
+      return NextResponse.json(
+        { error: `You can enrich up to ${MAX_ENRICH_BATCH_LEADS} leads at a time` },
+        { status: 400 }
+      );
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+    const result = await startEnrichmentBatch(account.id, leadIds, user.id);
+
+    if (!result.success || !result.reservationId || !result.leads) {
+      return NextResponse.json(
+        { error: result.error, limitReached: result.limitReached, usage: result.usage },
+        { status: result.limitReached ? 402 : 400 }
+      );
+    }
+
+    const { reservationId, leads } = result;
+    after(() => runEnrichmentBatch(account.id, reservationId, leads));
+
+    return NextResponse.json(
+      {
+        success: true,
+        leadIds: leads.map((lead) => lead.id),
+        queued: leads.length,
+        skipped: result.skipped,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('[Enrich Batch] POST error:', error);
+    return NextResponse.json({ error: 'Failed to start bulk enrichment' }, { status: 500 });
+  }
+}
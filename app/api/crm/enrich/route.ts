@@ -1,14 +1,29 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { ApifyClient } from 'apify-client';
 import { getAuthenticatedUser } from '@/lib/auth';
-import { getOrCreateUser } from '@/lib/data-store';
+import { getCRMLead, getOrCreateUser, updateCRMLead, type CRMLead } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import {
+  extractLinkedInUsername,
+  getEnrichedLeadUpdates,
+  isProfileFound,
+  LINKEDIN_PROFILE_ACTOR_ID,
+  toEnrichedData,
+} from '@/lib/profile-enrichment';
 import { canEnrich, reserveEnrichmentCredits, releaseEnrichmentReservation, settleEnrichmentUsage } from '@/lib/usage';
+import { dispatchWebhookEvent, toCRMLeadsWebhookData } from '@/lib/webhooks';
 
 // ============================================================================
 // LinkedIn Profile Enrichment API
 // Uses Apify to scrape LinkedIn profile data
 // ============================================================================
 //
+// POST { leadId } enriches a CRM lead and saves enriched_data and
+// enrichment_status on the lead itself, in the same flow as the wallet
+// settlement: reserve -> 'enriching' -> scrape -> save -> settle.
+// Not found / errors release the reservation and mark the lead 'failed'.
+// POST { profileUrl } only returns the profile (onboarding).
+//
 // SECURITY FIX - 2nd January 2026
 // ================================
 // REMOVED: skipUsageTracking parameter that was previously accepted from request body.
@@ -23,15 +38,15 @@ import { canEnrich, reserveEnrichmentCredits, releaseEnrichmentReservation, sett
 // ============================================================================
 
 const APIFY_TOKEN = process.env.APIFY_API_TOKEN;
-const LINKEDIN_SCRAPER_ACTOR_ID = "VhxlqQXRwhW8H5hNV";
 
 export async function POST(request: NextRequest) {
   let reservationUserId: string | null = null;
   let reservationId: string | null = null;
+  let enrichingLeadId: string | null = null;
 
   try {
     // Check authentication first
-    const userEmail = await getAuthenticatedUser();
+    const userEmail = await getAuthenticatedUser('crm:write');
     if (!userEmail) {
       return NextResponse.json(
         { error: 'Please log in to enrich profiles' },
@@ -40,7 +55,8 @@ export async function POST(request: NextRequest) {
     }
 
     const user = await getOrCreateUser(userEmail);
-    reservationUserId = user.id;
+    const { account } = await getAccountContext(user);
+    reservationUserId = account.id;
 
     if (!APIFY_TOKEN) {
       return NextResponse.json(
@@ -49,29 +65,38 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const body = await request.json();
-    // SECURITY: Only extract profileUrl and username from request body.
+    let body: { leadId?: unknown; profileUrl?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    // SECURITY: Only extract leadId / profileUrl from request body.
     // DO NOT accept skipUsageTracking or any other billing-related flags from user input.
-    const { profileUrl, username } = body;
-
-    // Extract username from URL if not provided
-    let linkedinUsername = username;
-    if (!linkedinUsername && profileUrl) {
-      // Extract from URLs like: https://linkedin.com/in/username or https://www.linkedin.com/in/username/
-      const match = profileUrl.match(/linkedin\.com\/in\/([^\/\?]+)/);
-      if (match) {
-        linkedinUsername = match[1];
+    let lead: CRMLead | null = null;
+    if (typeof body.leadId === 'string' && body.leadId) {
+      lead = await getCRMLead(body.leadId, account.id);
+      if (!lead) {
+        return NextResponse.json({ error: 'Lead not found' }, { status: 404 });
+      }
+      if (lead.enrichment_status === 'enriching') {
+        return NextResponse.json({ error: 'This lead is already being enriched' }, { status: 409 });
       }
     }
 
+    // Without a lead (onboarding looks up the user's own profile) the profile
+    // is only returned, not saved
+    const profileUrl = lead?.profile_url ?? (typeof body.profileUrl === 'string' ? body.profileUrl : '');
+    const linkedinUsername = extractLinkedInUsername(profileUrl);
     if (!linkedinUsername) {
       return NextResponse.json(
-        { error: 'LinkedIn username or profile URL required' },
+        { error: 'A CRM lead or linkedin.com/in/ profile URL is required' },
         { status: 400 }
       );
     }
 
-    const reservation = await reserveEnrichmentCredits(user.id);
+    const reservation = await reserveEnrichmentCredits(account.id, user.id);
     if (!reservation.allowed) {
       return NextResponse.json(
         {
@@ -92,11 +117,18 @@ export async function POST(request: NextRequest) {
     }
 
     console.log(`[Enrich] Starting enrichment for: ${linkedinUsername}`);
+    if (lead) {
+      await updateCRMLead(lead.id, account.id, {
+        enrichment_status: 'enriching',
+        enrichment_started_at: new Date().toISOString(),
+      });
+      enrichingLeadId = lead.id;
+    }
 
     const client = new ApifyClient({ token: APIFY_TOKEN });
 
     // Run the scraper (without email to save credits/time)
-    const run = await client.actor(LINKEDIN_SCRAPER_ACTOR_ID).call({
+    const run = await client.actor(LINKEDIN_PROFILE_ACTOR_ID).call({
       username: linkedinUsername,
       includeEmail: false
     });
@@ -105,8 +137,10 @@ export async function POST(request: NextRequest) {
     const { items } = await client.dataset(run.defaultDatasetId).listItems();
 
     if (!items || items.length === 0) {
-      await releaseEnrichmentReservation(user.id, reservationId, { username: linkedinUsername, releaseReason: 'no_profile_data' });
+      await releaseEnrichmentReservation(account.id, reservationId, { username: linkedinUsername, releaseReason: 'no_profile_data' });
       reservationId = null;
+      if (lead) await updateCRMLead(lead.id, account.id, { enrichment_status: 'failed' });
+      enrichingLeadId = null;
       return NextResponse.json(
         { error: 'No profile data returned', profile: null },
         { status: 404 }
@@ -116,9 +150,11 @@ export async function POST(request: NextRequest) {
     const rawProfile = items[0] as any;
 
     // Check if profile was found
-    if (rawProfile.message === "No profile found or wrong input") {
-      await releaseEnrichmentReservation(user.id, reservationId, { username: linkedinUsername, releaseReason: 'profile_not_found' });
+    if (!isProfileFound(rawProfile)) {
+      await releaseEnrichmentReservation(account.id, reservationId, { username: linkedinUsername, releaseReason: 'profile_not_found' });
       reservationId = null;
+      if (lead) await updateCRMLead(lead.id, account.id, { enrichment_status: 'failed' });
+      enrichingLeadId = null;
       return NextResponse.json(
         { error: 'Profile not found', profile: null },
         { status: 404 }
@@ -126,68 +162,36 @@ export async function POST(request: NextRequest) {
     }
 
     // Transform the data into our clean structure
-    // Handle potentially missing fields gracefully
-    const enrichedProfile = {
-      // Basic info - always try to get these
-      fullName: rawProfile.basic_info?.fullname || null,
-      firstName: rawProfile.basic_info?.first_name || null,
-      lastName: rawProfile.basic_info?.last_name || null,
-      headline: rawProfile.basic_info?.headline || null,
-      profileUrl: rawProfile.basic_info?.profile_url || `https://linkedin.com/in/${linkedinUsername}`,
-      profilePicture: rawProfile.basic_info?.profile_picture_url || null,
-      
-      // About/Bio
-      about: rawProfile.basic_info?.about || null,
-      
-      // Location
-      location: rawProfile.basic_info?.location?.full || null,
-      city: rawProfile.basic_info?.location?.city || null,
-      country: rawProfile.basic_info?.location?.country || null,
-      
-      // Current company
-      currentCompany: rawProfile.basic_info?.current_company || null,
-      currentCompanyUrl: rawProfile.basic_info?.current_company_url || null,
-      
-      // Stats
-      followerCount: rawProfile.basic_info?.follower_count || null,
-      connectionCount: rawProfile.basic_info?.connection_count || null,
-      
-      // Flags
-      isCreator: rawProfile.basic_info?.is_creator || false,
-      isInfluencer: rawProfile.basic_info?.is_influencer || false,
-      isPremium: rawProfile.basic_info?.is_premium || false,
-      openToWork: rawProfile.basic_info?.open_to_work || false,
-      
-      // Topics they post about
-      topics: rawProfile.basic_info?.creator_hashtags || [],
-      
-      // Experience - take top 3 most recent
-      experience: (rawProfile.experience || []).slice(0, 3).map((exp: any) => ({
-        title: exp.title || null,
-        company: exp.company || null,
-        duration: exp.duration || null,
-        isCurrent: exp.is_current || false,
-        companyLogo: exp.company_logo_url || null,
-      })),
-      
-      // Education - take top 2
-      education: (rawProfile.education || []).slice(0, 2).map((edu: any) => ({
-        school: edu.school || null,
-        duration: edu.duration || null,
-        schoolLogo: edu.school_logo_url || null,
-      })),
-      
-      // Metadata
-      enrichedAt: new Date().toISOString(),
-    };
+    const enrichedProfile = toEnrichedData(rawProfile, linkedinUsername);
 
     console.log(`[Enrich] Successfully enriched: ${linkedinUsername}`);
 
+    // Save before settling so a paid enrichment is never lost; if the save
+    // fails the reservation is released by the catch below
+    let enrichedLead: CRMLead | null = null;
+    if (lead) {
+      enrichedLead = await updateCRMLead(lead.id, account.id, getEnrichedLeadUpdates(lead, enrichedProfile));
+      if (!enrichedLead) {
+        throw new Error('Failed to save enriched profile');
+      }
+    }
+
     // Wallet reservation - 2026-05-18 15:28 IST, paras: settle the pre-Apify reservation before returning enriched profile data.
-    const usageResult = await settleEnrichmentUsage(user.id, reservationId);
+    const usageResult = await settleEnrichmentUsage(account.id, reservationId);
     if (!usageResult.success) {
-      await releaseEnrichmentReservation(user.id, reservationId, { username: linkedinUsername, releaseReason: 'settlement_failed' });
+      await releaseEnrichmentReservation(account.id, reservationId, { username: linkedinUsername, releaseReason: 'settlement_failed' });
       reservationId = null;
+      // Not paid for - put the lead back the way it was
+      if (lead) {
+        await updateCRMLead(lead.id, account.id, {
+          enrichment_status: lead.enrichment_status,
+          enriched_data: lead.enriched_data ?? null,
+          name: lead.name,
+          headline: lead.headline,
+          profile_picture: lead.profile_picture ?? null,
+        } as Partial<CRMLead>);
+      }
+      enrichingLeadId = null;
       return NextResponse.json(
         {
           error: usageResult.error || 'Unable to deduct wallet credits for enrichment.',
@@ -197,13 +201,20 @@ export async function POST(request: NextRequest) {
       );
     }
     reservationId = null;
+    enrichingLeadId = null;
+
+    if (enrichedLead) {
+      const leadForEvent = enrichedLead;
+      after(() => dispatchWebhookEvent(account.id, 'crm_lead.enriched', toCRMLeadsWebhookData([leadForEvent])));
+    }
 
     // Get updated usage
-    const updatedUsage = await canEnrich(user.id);
+    const updatedUsage = await canEnrich(account.id);
 
     return NextResponse.json({
       success: true,
       profile: enrichedProfile,
+      lead: enrichedLead,
       usage: updatedUsage.usage
     });
 
@@ -211,6 +222,9 @@ export async function POST(request: NextRequest) {
     if (reservationUserId && reservationId) {
       await releaseEnrichmentReservation(reservationUserId, reservationId, { releaseReason: 'enrichment_error' });
     }
+    if (reservationUserId && enrichingLeadId) {
+      await updateCRMLead(enrichingLeadId, reservationUserId, { enrichment_status: 'failed' });
+    }
 
     console.error('[Enrich] Error:', error);
     return NextResponse.json(
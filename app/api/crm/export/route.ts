@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getCRMLeadsPage, getOrCreateUser } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import { parseCRMLeadFilters } from '@/lib/crm-leads';
+import { createClient } from '@/lib/supabase/server';
+import { crmLeadsToExportLeads, parseExportColumns, resolveExportFormat, streamExport } from '@/lib/export';
+
+// ============================================================================
+// CRM Export API
+// GET ?format=csv|json|xlsx|vcf (default: the user's saved export format)
+//     &search=&status=&stage=&tags=...   same filters as the CRM list
+//                                        (see parseCRMLeadFilters)
+//     &columns=name,email,...  subset/order of columns (default: all)
+//
+// The body is streamed page by page from the database.
+// ============================================================================
+
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  try {
+    const userEmail = await getAuthenticatedUser('crm:read');
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+    const params = request.nextUrl.searchParams;
+
+    const columns = parseExportColumns(params.get('columns'));
+    if (!columns.success) {
+      return NextResponse.json({ error: columns.error }, { status: 400 });
+    }
+
+    const filters = parseCRMLeadFilters(params);
+    const format = resolveExportFormat(params.get('format'), user.settings);
+
+    // Pages are read after this handler returns, so bind the client to the request now
+    const supabase = await createClient();
+    // Keyset paging; streamExport's offset is only used for its own bookkeeping
+    let cursor: string | null = null;
+    let exhausted = false;
+    const file = streamExport(
+      async (_offset, limit) => {
+        if (exhausted) return [];
+        const page = await getCRMLeadsPage(account.id, filters, { cursor, limit }, supabase);
+        cursor = page.nextCursor;
+        exhausted = !cursor;
+        return crmLeadsToExportLeads(page.leads);
+      },
+      format,
+      { filename: 'crm-leads', columns: columns.columns, meta: { filters } }
+    );
+
+    return new NextResponse(file.body, {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('[CRM Export] GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
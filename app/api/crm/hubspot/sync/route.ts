@@ -0,0 +1,82 @@
+// =============================================================================
+// HUBSPOT PUSH API
+// =============================================================================
+//
+// POST - Push selected CRM leads to HubSpot ({ leadIds })
+//
+// Runs in the request (HubSpot calls are fast) and returns the updated leads
+// with their hubspot_sync_status. See lib/hubspot.ts.
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import { getCRMIntegration } from '@/lib/crm-integrations';
+import {
+  HubSpotApiError,
+  MAX_HUBSPOT_SYNC_LEADS,
+  isHubSpotConfigured,
+  syncLeadsToHubSpot,
+} from '@/lib/hubspot';
+
+export const maxDuration = 300;
+
+export async function POST(request: NextRequest) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isHubSpotConfigured()) {
+      return NextResponse.json({ error: 'HubSpot integration is not configured' }, { status: 503 });
+    }
+
+    let body: { leadIds?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const leadIds = Array.isArray(body.leadIds)
+      ? Array.from(new Set(body.leadIds.filter((id): id is string => typeof id === 'string' && !!id)))
+      : [];
+
+    if (leadIds.length === 0) {
+      return NextResponse.json({ error: 'leadIds is required' }, { status: 400 });
+    }
+    if (leadIds.length > MAX_HUBSPOT_SYNC_LEADS) {
+      return NextResponse.json(
+        { error: `You can push up to ${MAX_HUBSPOT_SYNC_LEADS} leads at a time` },
+        { status: 400 }
+      );
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+    if (!(await getCRMIntegration(account.id, 'hubspot'))) {
+      return NextResponse.json({ error: 'Connect HubSpot in Settings first' }, { status: 409 });
+    }
+
+    const result = await syncLeadsToHubSpot(account.id, leadIds);
+
+    return NextResponse.json({
+      success: true,
+      synced: result.synced,
+      failed: result.failed,
+      leads: result.leads,
+    });
+  } catch (error) {
+    console.error('[HubSpot Sync] POST error:', error);
+    // Per-lead errors are recorded on the lead; this is the token refresh failing
+    if (error instanceof HubSpotApiError) {
+      return NextResponse.json(
+        { error: 'HubSpot rejected the connection. Reconnect HubSpot in Settings.' },
+        { status: 502 }
+      );
+    }
+    return NextResponse.json({ error: 'Failed to push leads to HubSpot' }, { status: 500 });
+  }
+}
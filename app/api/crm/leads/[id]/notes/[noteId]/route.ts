@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { canManageWorkspace, getAccountContext } from '@/lib/workspaces';
+import { deleteCRMLeadNote } from '@/lib/crm-leads';
+
+// DELETE - remove a note; members can only delete their own, admins any
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; noteId: string }> }
+) {
+  try {
+    const userEmail = await getAuthenticatedUser('crm:write');
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, noteId } = await params;
+    const user = await getOrCreateUser(userEmail);
+    const { account, role } = await getAccountContext(user);
+
+    const deleted = await deleteCRMLeadNote(
+      account.id,
+      id,
+      noteId,
+      canManageWorkspace(role) ? undefined : user.id
+    );
+    if (!deleted) {
+      return NextResponse.json({ error: 'Note not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[CRM Notes] DELETE error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser, getCRMLead } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import { addCRMLeadNote, getCRMLeadNotes, parseCRMLeadNoteBody } from '@/lib/crm-leads';
+
+// ============================================================================
+// CRM Lead Notes API
+// GET  - the lead's notes, newest first
+// POST - { body } add a timestamped note
+// See lib/crm-leads.ts
+// ============================================================================
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userEmail = await getAuthenticatedUser('crm:read');
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+
+    const lead = await getCRMLead(id, account.id);
+    if (!lead) {
+      return NextResponse.json({ error: 'Lead not found' }, { status: 404 });
+    }
+
+    const notes = await getCRMLeadNotes(account.id, lead.id);
+
+    return NextResponse.json({ success: true, notes });
+  } catch (error) {
+    console.error('[CRM Notes] GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userEmail = await getAuthenticatedUser('crm:write');
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const parsed = parseCRMLeadNoteBody(body?.body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+
+    const lead = await getCRMLead(id, account.id);
+    if (!lead) {
+      return NextResponse.json({ error: 'Lead not found' }, { status: 404 });
+    }
+
+    const note = await addCRMLeadNote(account.id, lead.id, { id: user.id, email: userEmail }, parsed.body);
+
+    return NextResponse.json({ success: true, note });
+  } catch (error) {
+    console.error('[CRM Notes] POST error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
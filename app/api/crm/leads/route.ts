@@ -1,23 +1,68 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/auth';
-import { getOrCreateUser, getCRMLeads, addCRMLeads, deleteCRMLeads, updateCRMLead } from '@/lib/data-store';
+import {
+  getOrCreateUser,
+  getCRMLeadsPage,
+  decodeCRMLeadCursor,
+  addCRMLeads,
+  deleteCRMLeads,
+  updateCRMLead,
+  updateCRMLeads,
+} from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import { getICPCriteria, getICPScoringModel, scoreLeadAgainstICP } from '@/lib/icp';
+import {
+  CRM_LEADS_PAGE_SIZE,
+  MAX_BULK_LEAD_UPDATES,
+  MAX_CRM_LEADS_PAGE_SIZE,
+  parseCRMLeadFilters,
+  parseCRMLeadUpdate,
+} from '@/lib/crm-leads';
+import { autoPushLeadsToHubSpot } from '@/lib/hubspot';
+import { resetStaleEnrichments } from '@/lib/profile-enrichment';
+import { dispatchWebhookEvent, toCRMLeadsWebhookData } from '@/lib/webhooks';
 
 // ============================================================================
 // CRM Leads API - CRUD operations for leads
 // ============================================================================
 
-// GET - Fetch all CRM leads for the user
+// GET - One page of the account's CRM leads
+//       ?cursor=&limit=50 (max 200) plus the filters in parseCRMLeadFilters.
+//       Returns nextCursor (null on the last page) and, on the first page,
+//       the total number of matching leads.
 export async function GET(request: NextRequest) {
   try {
-    const userEmail = await getAuthenticatedUser();
+    const userEmail = await getAuthenticatedUser('crm:read');
     if (!userEmail) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const params = request.nextUrl.searchParams;
+    const filters = parseCRMLeadFilters(params);
+
+    const cursor = params.get('cursor');
+    if (cursor && !decodeCRMLeadCursor(cursor, filters.sort ?? 'added')) {
+      return NextResponse.json({ error: 'Invalid cursor; start again without one' }, { status: 400 });
+    }
+
+    const limitParam = parseInt(params.get('limit') || '', 10);
+    const limit = Number.isNaN(limitParam)
+      ? CRM_LEADS_PAGE_SIZE
+      : Math.min(MAX_CRM_LEADS_PAGE_SIZE, Math.max(1, limitParam));
+
     const user = await getOrCreateUser(userEmail);
-    const leads = await getCRMLeads(user.id);
+    const { account } = await getAccountContext(user);
+    // The CRM page polls while any lead is 'enriching'; don't let a dead run
+    // keep it polling forever
+    if (!cursor) await resetStaleEnrichments(account.id);
+    const page = await getCRMLeadsPage(account.id, filters, { cursor, limit });
 
-    return NextResponse.json({ success: true, leads });
+    return NextResponse.json({
+      success: true,
+      leads: page.leads,
+      nextCursor: page.nextCursor,
+      total: page.total,
+    });
   } catch (error: any) {
     console.error('[CRM Leads] GET error:', error);
     return NextResponse.json(
@@ -30,12 +75,13 @@ export async function GET(request: NextRequest) {
 // POST - Add leads to CRM
 export async function POST(request: NextRequest) {
   try {
-    const userEmail = await getAuthenticatedUser();
+    const userEmail = await getAuthenticatedUser('crm:write');
     if (!userEmail) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
     const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
     const body = await request.json();
     
     // Accept single lead or array of leads
@@ -51,7 +97,10 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Format leads for storage
+    // Format leads for storage (score with the user's current ICP model)
+    const criteria = getICPCriteria(account);
+    const scoringModel = getICPScoringModel(account);
+
     const formattedLeads = leadsToAdd.map((lead: any) => ({
       name: lead.name,
       headline: lead.headline || '',
@@ -59,9 +108,20 @@ export async function POST(request: NextRequest) {
       profile_picture: lead.profile_picture,
       source_analysis_id: lead.source_analysis_id,
       source_post_url: lead.source_post_url,
+      icp_score: scoreLeadAgainstICP(
+        { headline: lead.headline || '', source: lead.source === 'comment' ? 'comment' : 'reaction' },
+        criteria,
+        scoringModel
+      ).score,
     }));
 
-    const addedLeads = await addCRMLeads(user.id, formattedLeads);
+    const addedLeads = await addCRMLeads(account.id, formattedLeads);
+
+    // No-op unless HubSpot is connected with auto-push on
+    after(() => autoPushLeadsToHubSpot(account.id, addedLeads.map((lead) => lead.id)));
+    if (addedLeads.length > 0) {
+      after(() => dispatchWebhookEvent(account.id, 'crm_lead.added', toCRMLeadsWebhookData(addedLeads)));
+    }
 
     return NextResponse.json({
       success: true,
@@ -81,12 +141,13 @@ export async function POST(request: NextRequest) {
 // DELETE - Remove leads from CRM
 export async function DELETE(request: NextRequest) {
   try {
-    const userEmail = await getAuthenticatedUser();
+    const userEmail = await getAuthenticatedUser('crm:write');
     if (!userEmail) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
     const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
     const body = await request.json();
     
     // Accept single id or array of ids
@@ -99,7 +160,7 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    const deleted = await deleteCRMLeads(user.id, ids);
+    const deleted = await deleteCRMLeads(account.id, ids);
 
     return NextResponse.json({
       success: true,
@@ -114,27 +175,65 @@ export async function DELETE(request: NextRequest) {
   }
 }
 
-// PATCH - Update a lead (e.g., enrichment status)
+// PATCH - Update a lead's user-editable fields (tags, stage, owner), or
+// { ids, ...fields } to apply the same change to several leads
 export async function PATCH(request: NextRequest) {
   try {
-    const userEmail = await getAuthenticatedUser();
+    const userEmail = await getAuthenticatedUser('crm:write');
     if (!userEmail) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
     const user = await getOrCreateUser(userEmail);
-    const body = await request.json();
-    
-    const { id, ...updates } = body;
-    
-    if (!id) {
+    const { account } = await getAccountContext(user);
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const { id, ids, ...fields } = body ?? {};
+
+    if (ids !== undefined) {
+      if (
+        !Array.isArray(ids) ||
+        ids.length === 0 ||
+        ids.some((leadId) => !leadId || typeof leadId !== 'string')
+      ) {
+        return NextResponse.json({ error: 'ids must be a non-empty array of lead IDs' }, { status: 400 });
+      }
+      if (ids.length > MAX_BULK_LEAD_UPDATES) {
+        return NextResponse.json(
+          { error: `At most ${MAX_BULK_LEAD_UPDATES} leads can be updated at once` },
+          { status: 400 }
+        );
+      }
+    } else if (!id || typeof id !== 'string') {
       return NextResponse.json(
         { error: 'Lead ID required' },
         { status: 400 }
       );
     }
 
-    const updatedLead = await updateCRMLead(id, user.id, updates);
+    // System fields (enrichment, email, score) only change through server code
+    const parsed = parseCRMLeadUpdate(fields);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    if (ids !== undefined) {
+      // Leads that don't exist or belong to another account are skipped
+      const leads = await updateCRMLeads(ids as string[], account.id, parsed.updates);
+      return NextResponse.json({
+        success: true,
+        updated: leads.length,
+        leads
+      });
+    }
+
+    const updatedLead = await updateCRMLead(id as string, account.id, parsed.updates);
 
     if (!updatedLead) {
       return NextResponse.json(
@@ -155,4 +254,3 @@ export async function PATCH(request: NextRequest) {
     );
   }
 }
-
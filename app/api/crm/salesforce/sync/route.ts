@@ -0,0 +1,97 @@
+// =============================================================================
+// SALESFORCE PUSH API
+// =============================================================================
+//
+// POST - Push CRM leads to Salesforce
+//        { leadIds }      - from the CRM page
+//        { profileUrls }  - from the analysis detail page, after the selected
+//                           rows have been added to the CRM
+//
+// Runs in the request and returns the updated leads with their
+// salesforce_sync_status. See lib/salesforce.ts.
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getCRMLeadByProfileUrl, getOrCreateUser } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import { getCRMIntegration } from '@/lib/crm-integrations';
+import {
+  MAX_SALESFORCE_SYNC_LEADS,
+  SalesforceApiError,
+  isSalesforceConfigured,
+  syncLeadsToSalesforce,
+} from '@/lib/salesforce';
+
+export const maxDuration = 300;
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? Array.from(new Set(value.filter((item): item is string => typeof item === 'string' && !!item)))
+    : [];
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isSalesforceConfigured()) {
+      return NextResponse.json({ error: 'Salesforce integration is not configured' }, { status: 503 });
+    }
+
+    let body: { leadIds?: unknown; profileUrls?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const leadIds = toStringList(body.leadIds);
+    const profileUrls = toStringList(body.profileUrls);
+
+    if (leadIds.length === 0 && profileUrls.length === 0) {
+      return NextResponse.json({ error: 'leadIds or profileUrls is required' }, { status: 400 });
+    }
+    if (leadIds.length + profileUrls.length > MAX_SALESFORCE_SYNC_LEADS) {
+      return NextResponse.json(
+        { error: `You can push up to ${MAX_SALESFORCE_SYNC_LEADS} leads at a time` },
+        { status: 400 }
+      );
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+    if (!(await getCRMIntegration(account.id, 'salesforce'))) {
+      return NextResponse.json({ error: 'Connect Salesforce in Settings first' }, { status: 409 });
+    }
+
+    // Profiles that aren't in the CRM are skipped
+    const matched = await Promise.all(profileUrls.map((url) => getCRMLeadByProfileUrl(account.id, url)));
+    const ids = Array.from(new Set([
+      ...leadIds,
+      ...matched.filter((lead) => lead !== null).map((lead) => lead.id),
+    ]));
+
+    const result = await syncLeadsToSalesforce(account.id, ids);
+
+    return NextResponse.json({
+      success: true,
+      synced: result.synced,
+      failed: result.failed,
+      leads: result.leads,
+    });
+  } catch (error) {
+    console.error('[Salesforce Sync] POST error:', error);
+    // Per-lead errors are recorded on the lead; this is the token refresh failing
+    if (error instanceof SalesforceApiError) {
+      return NextResponse.json(
+        { error: 'Salesforce rejected the connection. Reconnect Salesforce in Settings.' },
+        { status: 502 }
+      );
+    }
+    return NextResponse.json({ error: 'Failed to push leads to Salesforce' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser, getCRMStats } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+
+// ============================================================================
+// CRM Stats API
+// GET - account-wide lead counts (total, enriched, pending, per stage) for the
+//       CRM page, which only loads one page of leads at a time
+// ============================================================================
+
+export async function GET() {
+  try {
+    const userEmail = await getAuthenticatedUser('crm:read');
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+    const stats = await getCRMStats(account.id);
+
+    return NextResponse.json({ success: true, ...stats });
+  } catch (error) {
+    console.error('[CRM Stats] GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import { getCRMSyncLog } from '@/lib/crm-integrations';
+
+// ============================================================================
+// CRM Sync Log API
+// GET ?leadId= - HubSpot/Salesforce pushes for one lead, newest first
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const leadId = request.nextUrl.searchParams.get('leadId');
+    if (!leadId) {
+      return NextResponse.json({ error: 'leadId is required' }, { status: 400 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+    const entries = await getCRMSyncLog(account.id, leadId);
+
+    return NextResponse.json({ success: true, entries });
+  } catch (error) {
+    console.error('[CRM Sync Log] GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
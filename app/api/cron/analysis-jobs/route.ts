@@ -0,0 +1,32 @@
+// =============================================================================
+// CRON: ANALYSIS JOB SWEEPER
+// =============================================================================
+//
+// Picks up analysis jobs that were never started (after() didn't run) or
+// whose worker died mid-run, and fails jobs that are out of attempts so their
+// wallet reservation is released.
+//
+// Schedule every few minutes (e.g. Vercel Cron or an external scheduler) with:
+//   Authorization: Bearer $CRON_SECRET
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { processPendingAnalysisJobs } from '@/lib/analysis-jobs';
+
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await processPendingAnalysisJobs();
+    console.log('[Cron] Analysis jobs processed:', result);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('[Cron] Analysis job sweep error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+// =============================================================================
+// CRON: PROFILE MONITORING CHECKER
+// =============================================================================
+//
+// Checks monitored profiles that are due for new posts and queues analysis
+// jobs for them. The jobs themselves are run by /api/cron/analysis-jobs.
+//
+// Schedule every 15-30 minutes (e.g. Vercel Cron or an external scheduler) with:
+//   Authorization: Bearer $CRON_SECRET
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { processDueMonitoredProfiles } from '@/lib/profile-monitoring';
+
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await processDueMonitoredProfiles();
+    console.log('[Cron] Monitored profiles checked:', result);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('[Cron] Profile monitoring error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
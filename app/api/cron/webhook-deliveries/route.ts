@@ -0,0 +1,31 @@
+// =============================================================================
+// CRON: WEBHOOK DELIVERY RETRIES
+// =============================================================================
+//
+// Retries outbound webhook deliveries whose last attempt failed and whose
+// backoff has passed (see WEBHOOK_RETRY_DELAYS_MINUTES in lib/webhooks.ts).
+//
+// Schedule every minute (e.g. Vercel Cron or an external scheduler) with:
+//   Authorization: Bearer $CRON_SECRET
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { processDueWebhookDeliveries } from '@/lib/webhooks';
+
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await processDueWebhookDeliveries();
+    console.log('[Cron] Webhook deliveries retried:', result);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('[Cron] Webhook deliveries error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+// =============================================================================
+// AI POST DISCOVERY API
+// =============================================================================
+//
+// POST - Run a billed discovery search ({ topic } or { useICP: true })
+// GET  - The user's recent searches with their ranked results
+//
+// See lib/post-discovery.ts for query building, ranking and billing.
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import { getPostSearches, searchPostsForUser } from '@/lib/post-discovery';
+import { CREDIT_COSTS } from '@/lib/wallet';
+
+// Each search query is an Apify run
+export const maxDuration = 120;
+
+export async function GET() {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+    const searches = await getPostSearches(account.id);
+
+    return NextResponse.json({ searches, searchCost: CREDIT_COSTS.aiSearch });
+  } catch (error) {
+    console.error('[Discovery] GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: { topic?: unknown; useICP?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const topic = typeof body.topic === 'string' ? body.topic.slice(0, 200) : '';
+    const useICP = body.useICP === true;
+
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+    const result = await searchPostsForUser(account, { topic, useICP, actorUserId: user.id });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, limitReached: result.limitReached, usage: result.usage },
+        { status: result.limitReached ? 402 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, search: result.search });
+  } catch (error) {
+    console.error('[Discovery] POST error:', error);
+    return NextResponse.json({ error: 'Search failed' }, { status: 500 });
+  }
+}
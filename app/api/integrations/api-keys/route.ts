@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { API_KEY_SCOPES, createApiKey, getApiKeys, parseApiKeyInput } from '@/lib/api-keys';
+
+// ============================================================================
+// API Keys API
+// GET  - the user's keys (without secrets) and the scopes they can grant
+// POST - { name, scopes } create a key; the key is only returned here
+// See lib/api-keys.ts
+// ============================================================================
+
+export async function GET() {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const keys = await getApiKeys(user.id);
+
+    return NextResponse.json({ success: true, keys, scopes: API_KEY_SCOPES });
+  } catch (error) {
+    console.error('[API Keys] GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const parsed = parseApiKeyInput(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const result = await createApiKey(user.id, parsed.input);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, apiKey: result.apiKey, key: result.key });
+  } catch (error) {
+    console.error('[API Keys] POST error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { canManageWorkspace, getAccountContext } from '@/lib/workspaces';
+import { saveCRMIntegration } from '@/lib/crm-integrations';
+import {
+  HUBSPOT_OAUTH_STATE_COOKIE,
+  exchangeHubSpotCode,
+  getHubSpotAccount,
+  getHubSpotRedirectUri,
+} from '@/lib/hubspot';
+
+// ============================================================================
+// HubSpot OAuth - callback
+// HubSpot redirects here with ?code=&state=. Stores the connection and
+// sends the user back to Settings > Integrations with ?hubspot=connected|error.
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  const settingsUrl = new URL('/dashboard/settings?tab=integrations', request.nextUrl.origin);
+  const redirectWith = (result: 'connected' | 'error') => {
+    settingsUrl.searchParams.set('hubspot', result);
+    const response = NextResponse.redirect(settingsUrl);
+    response.cookies.delete({ name: HUBSPOT_OAUTH_STATE_COOKIE, path: '/api/integrations/hubspot' });
+    return response;
+  };
+
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.redirect(new URL('/login', request.nextUrl.origin));
+    }
+
+    const code = request.nextUrl.searchParams.get('code');
+    const state = request.nextUrl.searchParams.get('state');
+    const expectedState = request.cookies.get(HUBSPOT_OAUTH_STATE_COOKIE)?.value;
+
+    if (!code || !state || !expectedState || state !== expectedState) {
+      console.error('[HubSpot OAuth] Missing code or state mismatch');
+      return redirectWith('error');
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account, role } = await getAccountContext(user);
+    if (!canManageWorkspace(role)) {
+      console.error('[HubSpot OAuth] Workspace member cannot connect integrations');
+      return redirectWith('error');
+    }
+
+    const tokens = await exchangeHubSpotCode(code, getHubSpotRedirectUri());
+    const portal = await getHubSpotAccount(tokens.accessToken);
+
+    await saveCRMIntegration(account.id, 'hubspot', tokens, portal);
+
+    return redirectWith('connected');
+  } catch (error) {
+    console.error('[HubSpot OAuth] Callback error:', error);
+    return redirectWith('error');
+  }
+}
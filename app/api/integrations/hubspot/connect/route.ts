@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import {
+  HUBSPOT_OAUTH_STATE_COOKIE,
+  getHubSpotAuthorizeUrl,
+  getHubSpotRedirectUri,
+  isHubSpotConfigured,
+} from '@/lib/hubspot';
+
+// ============================================================================
+// HubSpot OAuth - start
+// GET redirects to HubSpot's consent screen. The state is kept in an
+// httpOnly cookie and checked by the callback.
+// ============================================================================
+
+export async function GET() {
+  const userEmail = await getAuthenticatedUser();
+  if (!userEmail) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!isHubSpotConfigured()) {
+    return NextResponse.json({ error: 'HubSpot integration is not configured' }, { status: 503 });
+  }
+
+  const state = crypto.randomUUID();
+  const response = NextResponse.redirect(getHubSpotAuthorizeUrl(state, getHubSpotRedirectUri()));
+  response.cookies.set(HUBSPOT_OAUTH_STATE_COOKIE, state, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/api/integrations/hubspot',
+    maxAge: 600,
+  });
+  return response;
+}
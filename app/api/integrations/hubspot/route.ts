@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { canManageWorkspace, getAccountContext } from '@/lib/workspaces';
+import {
+  deleteCRMIntegration,
+  getCRMIntegration,
+  toCRMIntegrationStatus,
+  updateCRMIntegrationSettings,
+  type CRMIntegrationSettings,
+} from '@/lib/crm-integrations';
+import {
+  HUBSPOT_FIELDS,
+  isHubSpotConfigured,
+  parseHubSpotFieldMapping,
+  resolveHubSpotFieldMapping,
+} from '@/lib/hubspot';
+
+// ============================================================================
+// HubSpot Integration API
+// GET    - connection status, settings and the resolved field mapping
+// PUT    - { auto_push?, field_mapping? } update settings
+// DELETE - disconnect (leads keep their hubspot_* fields)
+// ============================================================================
+
+function toResponse(status: ReturnType<typeof toCRMIntegrationStatus>) {
+  const mapping = resolveHubSpotFieldMapping(status.settings.field_mapping);
+  return {
+    success: true,
+    configured: isHubSpotConfigured(),
+    integration: status,
+    fields: HUBSPOT_FIELDS.map((field) => ({
+      key: field.key,
+      label: field.label,
+      object: field.object,
+      defaultProperty: field.defaultProperty,
+      property: mapping[field.key],
+    })),
+  };
+}
+
+export async function GET() {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+    const integration = await getCRMIntegration(account.id, 'hubspot');
+
+    return NextResponse.json(toResponse(toCRMIntegrationStatus('hubspot', integration)));
+  } catch (error) {
+    console.error('[HubSpot] GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account, role } = await getAccountContext(user);
+    if (!canManageWorkspace(role)) {
+      return NextResponse.json({ error: 'Only workspace admins can manage integrations' }, { status: 403 });
+    }
+    const integration = await getCRMIntegration(account.id, 'hubspot');
+    if (!integration) {
+      return NextResponse.json({ error: 'HubSpot is not connected' }, { status: 404 });
+    }
+
+    const settings: CRMIntegrationSettings = { ...integration.settings };
+
+    if ('auto_push' in body) {
+      if (typeof body.auto_push !== 'boolean') {
+        return NextResponse.json({ error: 'auto_push must be a boolean' }, { status: 400 });
+      }
+      settings.auto_push = body.auto_push;
+    }
+
+    if ('field_mapping' in body) {
+      const parsed = parseHubSpotFieldMapping(body.field_mapping);
+      if (!parsed.success) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      settings.field_mapping = { ...settings.field_mapping, ...parsed.mapping };
+    }
+
+    const updated = await updateCRMIntegrationSettings(account.id, 'hubspot', settings);
+    if (!updated) {
+      return NextResponse.json({ error: 'Failed to save HubSpot settings' }, { status: 500 });
+    }
+
+    return NextResponse.json(toResponse(toCRMIntegrationStatus('hubspot', updated)));
+  } catch (error) {
+    console.error('[HubSpot] PUT error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account, role } = await getAccountContext(user);
+    if (!canManageWorkspace(role)) {
+      return NextResponse.json({ error: 'Only workspace admins can manage integrations' }, { status: 403 });
+    }
+    const deleted = await deleteCRMIntegration(account.id, 'hubspot');
+    if (!deleted) {
+      return NextResponse.json({ error: 'Failed to disconnect HubSpot' }, { status: 500 });
+    }
+
+    return NextResponse.json(toResponse(toCRMIntegrationStatus('hubspot', null)));
+  } catch (error) {
+    console.error('[HubSpot] DELETE error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
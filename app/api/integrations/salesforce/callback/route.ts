@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { canManageWorkspace, getAccountContext } from '@/lib/workspaces';
+import { saveCRMIntegration } from '@/lib/crm-integrations';
+import {
+  SALESFORCE_OAUTH_STATE_COOKIE,
+  exchangeSalesforceCode,
+  getSalesforceRedirectUri,
+} from '@/lib/salesforce';
+
+// ============================================================================
+// Salesforce OAuth - callback
+// Salesforce redirects here with ?code=&state=. Stores the connection (with
+// the org's instance URL) and sends the user back to Settings > Integrations
+// with ?salesforce=connected|error.
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  const settingsUrl = new URL('/dashboard/settings?tab=integrations', request.nextUrl.origin);
+  const redirectWith = (result: 'connected' | 'error') => {
+    settingsUrl.searchParams.set('salesforce', result);
+    const response = NextResponse.redirect(settingsUrl);
+    response.cookies.delete({ name: SALESFORCE_OAUTH_STATE_COOKIE, path: '/api/integrations/salesforce' });
+    return response;
+  };
+
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.redirect(new URL('/login', request.nextUrl.origin));
+    }
+
+    const code = request.nextUrl.searchParams.get('code');
+    const state = request.nextUrl.searchParams.get('state');
+    const expectedState = request.cookies.get(SALESFORCE_OAUTH_STATE_COOKIE)?.value;
+
+    if (!code || !state || !expectedState || state !== expectedState) {
+      console.error('[Salesforce OAuth] Missing code or state mismatch');
+      return redirectWith('error');
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account, role } = await getAccountContext(user);
+    if (!canManageWorkspace(role)) {
+      console.error('[Salesforce OAuth] Workspace member cannot connect integrations');
+      return redirectWith('error');
+    }
+
+    const { tokens, account: org } = await exchangeSalesforceCode(code, getSalesforceRedirectUri());
+
+    await saveCRMIntegration(account.id, 'salesforce', tokens, org);
+
+    return redirectWith('connected');
+  } catch (error) {
+    console.error('[Salesforce OAuth] Callback error:', error);
+    return redirectWith('error');
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import {
+  SALESFORCE_OAUTH_STATE_COOKIE,
+  getSalesforceAuthorizeUrl,
+  getSalesforceRedirectUri,
+  isSalesforceConfigured,
+} from '@/lib/salesforce';
+
+// ============================================================================
+// Salesforce OAuth - start
+// GET redirects to Salesforce's consent screen. The state is kept in an
+// httpOnly cookie and checked by the callback.
+// ============================================================================
+
+export async function GET() {
+  const userEmail = await getAuthenticatedUser();
+  if (!userEmail) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!isSalesforceConfigured()) {
+    return NextResponse.json({ error: 'Salesforce integration is not configured' }, { status: 503 });
+  }
+
+  const state = crypto.randomUUID();
+  const response = NextResponse.redirect(getSalesforceAuthorizeUrl(state, getSalesforceRedirectUri()));
+  response.cookies.set(SALESFORCE_OAUTH_STATE_COOKIE, state, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/api/integrations/salesforce',
+    maxAge: 600,
+  });
+  return response;
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { canManageWorkspace, getAccountContext } from '@/lib/workspaces';
+import {
+  deleteCRMIntegration,
+  getCRMIntegration,
+  toCRMIntegrationStatus,
+  updateCRMIntegrationSettings,
+  type CRMIntegrationSettings,
+} from '@/lib/crm-integrations';
+import {
+  SALESFORCE_FIELDS,
+  isSalesforceConfigured,
+  parseSalesforceFieldMapping,
+  resolveSalesforceFieldMapping,
+} from '@/lib/salesforce';
+
+// ============================================================================
+// Salesforce Integration API
+// GET    - connection status, settings and the resolved field mapping
+// PUT    - { field_mapping } update settings
+// DELETE - disconnect (leads keep their salesforce_* fields)
+// ============================================================================
+
+function toResponse(status: ReturnType<typeof toCRMIntegrationStatus>) {
+  const mapping = resolveSalesforceFieldMapping(status.settings.field_mapping);
+  return {
+    success: true,
+    configured: isSalesforceConfigured(),
+    integration: status,
+    fields: SALESFORCE_FIELDS.map((field) => ({
+      key: field.key,
+      label: field.label,
+      object: field.object,
+      defaultProperty: field.defaultProperty,
+      property: mapping[field.key],
+    })),
+  };
+}
+
+export async function GET() {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+    const integration = await getCRMIntegration(account.id, 'salesforce');
+
+    return NextResponse.json(toResponse(toCRMIntegrationStatus('salesforce', integration)));
+  } catch (error) {
+    console.error('[Salesforce] GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account, role } = await getAccountContext(user);
+    if (!canManageWorkspace(role)) {
+      return NextResponse.json({ error: 'Only workspace admins can manage integrations' }, { status: 403 });
+    }
+    const integration = await getCRMIntegration(account.id, 'salesforce');
+    if (!integration) {
+      return NextResponse.json({ error: 'Salesforce is not connected' }, { status: 404 });
+    }
+
+    const settings: CRMIntegrationSettings = { ...integration.settings };
+
+    if ('field_mapping' in body) {
+      const parsed = parseSalesforceFieldMapping(body.field_mapping);
+      if (!parsed.success) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      settings.field_mapping = { ...settings.field_mapping, ...parsed.mapping };
+    }
+
+    const updated = await updateCRMIntegrationSettings(account.id, 'salesforce', settings);
+    if (!updated) {
+      return NextResponse.json({ error: 'Failed to save Salesforce settings' }, { status: 500 });
+    }
+
+    return NextResponse.json(toResponse(toCRMIntegrationStatus('salesforce', updated)));
+  } catch (error) {
+    console.error('[Salesforce] PUT error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account, role } = await getAccountContext(user);
+    if (!canManageWorkspace(role)) {
+      return NextResponse.json({ error: 'Only workspace admins can manage integrations' }, { status: 403 });
+    }
+    const deleted = await deleteCRMIntegration(account.id, 'salesforce');
+    if (!deleted) {
+      return NextResponse.json({ error: 'Failed to disconnect Salesforce' }, { status: 500 });
+    }
+
+    return NextResponse.json(toResponse(toCRMIntegrationStatus('salesforce', null)));
+  } catch (error) {
+    console.error('[Salesforce] DELETE error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
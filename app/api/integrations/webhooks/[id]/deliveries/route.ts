@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import { getWebhookDeliveries } from '@/lib/webhooks';
+
+// GET - Delivery log for one endpoint, newest first
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+    const deliveries = await getWebhookDeliveries(id, account.id);
+
+    return NextResponse.json({ success: true, deliveries });
+  } catch (error) {
+    console.error('[Webhooks] Deliveries error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { canManageWorkspace, getAccountContext } from '@/lib/workspaces';
+import { getWebhookEndpoint, sendTestWebhook } from '@/lib/webhooks';
+
+// POST - Send a webhook.test event now and return the delivery (one attempt, no retries)
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const user = await getOrCreateUser(userEmail);
+    const { account, role } = await getAccountContext(user);
+    if (!canManageWorkspace(role)) {
+      return NextResponse.json({ error: 'Only workspace admins can manage integrations' }, { status: 403 });
+    }
+    const endpoint = await getWebhookEndpoint(id, account.id);
+
+    if (!endpoint) {
+      return NextResponse.json({ error: 'Webhook endpoint not found' }, { status: 404 });
+    }
+
+    const delivery = await sendTestWebhook(endpoint);
+    if (!delivery) {
+      return NextResponse.json({ error: 'Failed to send test event' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, delivery });
+  } catch (error) {
+    console.error('[Webhooks] Test error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
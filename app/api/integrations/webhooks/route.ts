@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { canManageWorkspace, getAccountContext } from '@/lib/workspaces';
+import {
+  WEBHOOK_EVENTS,
+  createWebhookEndpoint,
+  getWebhookEndpoints,
+  parseWebhookEndpointInput,
+} from '@/lib/webhooks';
+
+// ============================================================================
+// Webhook Endpoints API
+// GET  - the user's endpoints and the events they can subscribe to
+// POST - { url, events, description? } add an endpoint
+// See lib/webhooks.ts
+// ============================================================================
+
+export async function GET() {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+    const endpoints = await getWebhookEndpoints(account.id);
+
+    return NextResponse.json({ success: true, endpoints, events: WEBHOOK_EVENTS });
+  } catch (error) {
+    console.error('[Webhooks] GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const parsed = parseWebhookEndpointInput(body, 'create');
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { url, events } = parsed.input;
+    if (!url || !events) {
+      return NextResponse.json({ error: 'url and events are required' }, { status: 400 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account, role } = await getAccountContext(user);
+    if (!canManageWorkspace(role)) {
+      return NextResponse.json({ error: 'Only workspace admins can manage integrations' }, { status: 403 });
+    }
+    const result = await createWebhookEndpoint(account.id, { ...parsed.input, url, events });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, endpoint: result.endpoint });
+  } catch (error) {
+    console.error('[Webhooks] POST error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
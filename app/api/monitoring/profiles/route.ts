@@ -0,0 +1,90 @@
+// =============================================================================
+// MONITORED PROFILES API
+// =============================================================================
+//
+// GET  - List the user's monitored profiles and recent automatic analyses
+// POST - Start monitoring a profile (charges the one-time setup fee)
+//
+// See lib/profile-monitoring.ts for the scheduled checker.
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import { getAnalysisJobs } from '@/lib/analysis-jobs';
+import { CREDIT_COSTS, getPlanWalletConfig } from '@/lib/wallet';
+import {
+  MONITOR_CHECK_INTERVAL_HOURS,
+  addMonitoredProfile,
+  getMonitoredProfiles,
+} from '@/lib/profile-monitoring';
+
+export async function GET() {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+    const [profiles, jobs] = await Promise.all([
+      getMonitoredProfiles(account.id),
+      getAnalysisJobs(account.id, { monitoredOnly: true, limit: 30 }),
+    ]);
+
+    const planConfig = getPlanWalletConfig(account.plan || 'free');
+
+    return NextResponse.json({
+      profiles,
+      jobs,
+      pricing: {
+        available: !!planConfig,
+        setupCost: CREDIT_COSTS.profileMonitoringSetup,
+        checkCost: CREDIT_COSTS.profileMonitoringCheck,
+        checkIntervalHours: MONITOR_CHECK_INTERVAL_HOURS,
+        reactionCap: planConfig?.monitoredReactions ?? 0,
+        commentCap: planConfig?.monitoredComments ?? 0,
+      },
+    });
+  } catch (error) {
+    console.error('[Monitoring] GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: { profileUrl?: string };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
+    const result = await addMonitoredProfile(account, body.profileUrl || '', user.id);
+
+    if (!result.success) {
+      const status = result.reason === 'duplicate' ? 409
+        : result.reason === 'plan' || result.reason === 'credits' ? 402
+        : 400;
+      return NextResponse.json(
+        { error: result.error, limitReached: status === 402 },
+        { status }
+      );
+    }
+
+    return NextResponse.json({ success: true, profile: result.profile });
+  } catch (error) {
+    console.error('[Monitoring] POST error:', error);
+    return NextResponse.json({ error: 'Failed to add profile' }, { status: 500 });
+  }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { buildOpenApiSpec } from '@/lib/openapi';
+
+// ============================================================================
+// OpenAPI API
+// GET - OpenAPI description of the routes that accept API keys (public)
+// See lib/openapi.ts
+// ============================================================================
+
+export async function GET() {
+  return NextResponse.json(buildOpenApiSpec(), {
+    headers: { 'Cache-Control': 'public, max-age=3600' },
+  });
+}
@@ -1,6 +1,26 @@
 import { NextResponse } from 'next/server';
 import { getAuthenticatedUser } from '@/lib/auth';
-import { getOrCreateUser, updateUserSettings } from '@/lib/data-store';
+import {
+  ACCOUNT_SETTING_KEYS,
+  getOrCreateUser,
+  updateUserSettings,
+  updateUserSettingsById,
+  type User,
+  type UserSettings,
+} from '@/lib/data-store';
+import { getAccountContext } from '@/lib/workspaces';
+import { normalizeICPScoringModel } from '@/lib/icp';
+import { isExportFormat } from '@/lib/export';
+
+// The user with the account's ICP settings, which are the ones analyses use
+function withAccountSettings(user: User, account: User): User {
+  if (account.id === user.id) return user;
+  const settings = { ...user.settings };
+  for (const key of ACCOUNT_SETTING_KEYS) {
+    Object.assign(settings, { [key]: account.settings[key] });
+  }
+  return { ...user, settings };
+}
 
 export async function GET() {
   try {
@@ -11,8 +31,9 @@ export async function GET() {
     }
 
     const user = await getOrCreateUser(userEmail);
+    const { account } = await getAccountContext(user);
 
-    return NextResponse.json({ user });
+    return NextResponse.json({ user: withAccountSettings(user, account) });
   } catch (error) {
     console.error('User fetch error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -33,13 +54,41 @@ export async function PUT(request: Request) {
       return NextResponse.json({ error: 'Settings required' }, { status: 400 });
     }
 
-    const user = await updateUserSettings(userEmail, settings);
+    if (settings.default_export_format !== undefined && !isExportFormat(settings.default_export_format)) {
+      return NextResponse.json({ error: 'Unsupported export format' }, { status: 400 });
+    }
+
+    if (settings.icp_scoring !== undefined) {
+      settings.icp_scoring = normalizeICPScoringModel(settings.icp_scoring);
+    }
+
+    const { account } = await getAccountContext(await getOrCreateUser(userEmail));
+    const userSettings: Partial<UserSettings> = { ...settings };
+    const accountSettings: Partial<UserSettings> = {};
+    if (account.email !== userEmail) {
+      for (const key of ACCOUNT_SETTING_KEYS) {
+        if (key in userSettings) {
+          Object.assign(accountSettings, { [key]: userSettings[key] });
+          delete userSettings[key];
+        }
+      }
+    }
+
+    const user = await updateUserSettings(userEmail, userSettings);
 
     if (!user) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ user });
+    const updatedAccount = Object.keys(accountSettings).length > 0
+      ? await updateUserSettingsById(account.id, accountSettings)
+      : account;
+
+    if (!updatedAccount) {
+      return NextResponse.json({ error: 'Failed to save ICP settings' }, { status: 500 });
+    }
+
+    return NextResponse.json({ user: withAccountSettings(user, updatedAccount) });
   } catch (error) {
     console.error('User update error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -28,6 +28,7 @@ import {
   CREDIT_PACKS,
 } from '@/lib/wallet';
 import { syncActiveDodoSubscription } from '@/lib/dodo-subscription-sync';
+import { completeAutoTopUpCharge } from '@/lib/auto-topup';
 
 // Raw body needed for signature verification
 export const runtime = 'nodejs';
@@ -337,6 +338,8 @@ async function handlePaymentSucceeded(
       }
 
       const pack = CREDIT_PACKS[creditPackId];
+      // Set when lib/auto-topup.ts started this charge
+      const autoTopUpId = data.metadata?.auto_topup_id;
 
       // Find user by customer_id
       const { data: packUser, error: packUserError } = await supabase
@@ -372,6 +375,9 @@ async function handlePaymentSucceeded(
             },
             { planId: creditPackId, billingPeriod: 'one_time' }
           );
+          if (autoTopUpId) {
+            await completeAutoTopUpCharge(autoTopUpId, { status: 'succeeded', paymentId: payment_id }, supabase);
+          }
 
           return { success: true, message: `Credit pack ${creditPackId} already applied` };
         }
@@ -382,7 +388,7 @@ async function handlePaymentSucceeded(
         packUser.id,
         pack.creditsInCents,
         creditPackId,
-        { payment_id, dodo_product_id: product_id },
+        { payment_id, dodo_product_id: product_id, ...(autoTopUpId ? { auto_topup_id: autoTopUpId } : {}) },
         supabase  // Pass admin client from webhook context (bypasses RLS)
       );
 
@@ -391,6 +397,10 @@ async function handlePaymentSucceeded(
         return { success: false, message: addResult.error };
       }
 
+      if (autoTopUpId) {
+        await completeAutoTopUpCharge(autoTopUpId, { status: 'succeeded', paymentId: payment_id }, supabase);
+      }
+
       // Mark the matching topup checkout session as completed.
       // The checkout callback page polls /api/checkout/status which checks this.
       await updateMatchingPendingCheckout(
@@ -632,6 +642,14 @@ async function handlePaymentFailed(
         }
       );
 
+      if (data.metadata?.auto_topup_id) {
+        await completeAutoTopUpCharge(
+          data.metadata.auto_topup_id,
+          { status: 'failed', paymentId: data.payment_id, error: 'Payment failed' },
+          supabase
+        );
+      }
+
       // Log the failure
       await supabase.from('usage_logs').insert({
         user_id: user.id,
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { acceptWorkspaceInvite } from '@/lib/workspaces';
+
+// POST - Accept an invite addressed to the signed-in user's email
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const user = await getOrCreateUser(userEmail);
+    const result = await acceptWorkspaceInvite(id, user);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status || 400 });
+    }
+
+    return NextResponse.json({ success: true, workspace: result.workspace });
+  } catch (error) {
+    console.error('[Workspace] Invite accept error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import { canManageWorkspace, deleteWorkspaceInvite, getAccountContext } from '@/lib/workspaces';
+
+// DELETE - Revoke an invite (owner/admin) or decline one addressed to you
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const user = await getOrCreateUser(userEmail);
+    const { role, workspace } = await getAccountContext(user);
+
+    const deleted = (workspace && canManageWorkspace(role)
+      && await deleteWorkspaceInvite(id, { workspaceId: workspace.id }))
+      || await deleteWorkspaceInvite(id, { email: userEmail });
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Invite not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Workspace] Invite DELETE error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import {
+  canManageWorkspace,
+  getAccountContext,
+  inviteWorkspaceMember,
+  parseWorkspaceInviteInput,
+} from '@/lib/workspaces';
+
+// POST - { email, role } invite someone to the workspace (owner/admin)
+export async function POST(request: Request) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const parsed = parseWorkspaceInviteInput(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { role, workspace } = await getAccountContext(user);
+    if (!workspace) {
+      return NextResponse.json({ error: 'You are not in a workspace' }, { status: 404 });
+    }
+    if (!canManageWorkspace(role)) {
+      return NextResponse.json({ error: 'Only workspace admins can invite members' }, { status: 403 });
+    }
+
+    const result = await inviteWorkspaceMember(workspace.id, parsed.input, user.id);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, invite: result.invite });
+  } catch (error) {
+    console.error('[Workspace] Invite POST error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import {
+  canManageWorkspace,
+  getAccountContext,
+  getWorkspaceMembers,
+  removeWorkspaceMember,
+  updateWorkspaceMemberRole,
+} from '@/lib/workspaces';
+
+// ============================================================================
+// Workspace member API
+// PATCH  - { role: 'admin' | 'member' } change a member's role (owner only)
+// DELETE - remove a member (admins remove members, the owner removes anyone)
+//          or leave the workspace (your own user id). The owner can't leave.
+// ============================================================================
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (body?.role !== 'admin' && body?.role !== 'member') {
+      return NextResponse.json({ error: 'role must be admin or member' }, { status: 400 });
+    }
+
+    const { userId } = await params;
+    const user = await getOrCreateUser(userEmail);
+    const { role, workspace } = await getAccountContext(user);
+    if (!workspace) {
+      return NextResponse.json({ error: 'You are not in a workspace' }, { status: 404 });
+    }
+    if (role !== 'owner') {
+      return NextResponse.json({ error: 'Only the workspace owner can change roles' }, { status: 403 });
+    }
+
+    const updated = await updateWorkspaceMemberRole(workspace.id, userId, body.role);
+    if (!updated) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Workspace] Member PATCH error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { userId } = await params;
+    const user = await getOrCreateUser(userEmail);
+    const { role, workspace } = await getAccountContext(user);
+    if (!workspace) {
+      return NextResponse.json({ error: 'You are not in a workspace' }, { status: 404 });
+    }
+
+    if (userId === user.id) {
+      if (role === 'owner') {
+        return NextResponse.json({ error: 'The workspace owner can\'t leave the workspace' }, { status: 400 });
+      }
+    } else {
+      const target = (await getWorkspaceMembers(workspace.id)).find((member) => member.user_id === userId);
+      if (!target || target.role === 'owner') {
+        return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+      }
+      // Admins manage members; only the owner removes admins
+      if (!canManageWorkspace(role) || (target.role === 'admin' && role !== 'owner')) {
+        return NextResponse.json({ error: 'You don\'t have permission to remove this member' }, { status: 403 });
+      }
+    }
+
+    const removed = await removeWorkspaceMember(workspace.id, userId);
+    if (!removed) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Workspace] Member DELETE error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
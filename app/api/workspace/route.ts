@@ -0,0 +1,155 @@
+import { NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/auth';
+import { getOrCreateUser } from '@/lib/data-store';
+import {
+  WORKSPACE_ROLES,
+  canManageWorkspace,
+  createWorkspace,
+  getAccountContext,
+  getInvitesForEmail,
+  getWorkspaceInvites,
+  getWorkspaceMembers,
+  getWorkspaceMemberSpend,
+  parseWorkspaceName,
+  renameWorkspace,
+} from '@/lib/workspaces';
+
+// ============================================================================
+// Workspace API
+// GET   - the user's workspace, role, members with their spend this billing
+//         period, pending invites (admins) and invites addressed to the user
+// POST  - { name } turn the user's account into a workspace
+// PATCH - { name } rename (owner/admin)
+// See lib/workspaces.ts
+// ============================================================================
+
+// Spend window when the account's wallet has never been reset
+const DEFAULT_SPEND_WINDOW_DAYS = 30;
+
+export async function GET() {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const context = await getAccountContext(user);
+    const { role, workspace } = context;
+    // Team spend is drawn from the agency's own wallet, not an active client's
+    const account = context.agency ?? context.account;
+
+    if (!workspace) {
+      return NextResponse.json({
+        success: true,
+        userId: user.id,
+        workspace: null,
+        role,
+        members: [],
+        invites: [],
+        pendingInvites: await getInvitesForEmail(userEmail),
+        spend: {},
+        spendSince: null,
+        roles: WORKSPACE_ROLES,
+      });
+    }
+
+    const spendSince = account.wallet_reset_at
+      || new Date(Date.now() - DEFAULT_SPEND_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const [members, invites, spend] = await Promise.all([
+      getWorkspaceMembers(workspace.id),
+      canManageWorkspace(role) ? getWorkspaceInvites(workspace.id) : Promise.resolve([]),
+      getWorkspaceMemberSpend(account.id, spendSince),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      userId: user.id,
+      workspace,
+      role,
+      members,
+      invites,
+      pendingInvites: [],
+      spend,
+      spendSince,
+      roles: WORKSPACE_ROLES,
+    });
+  } catch (error) {
+    console.error('[Workspace] GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const parsed = parseWorkspaceName(body?.name);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const result = await createWorkspace(user, parsed.name);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, workspace: result.workspace });
+  } catch (error) {
+    console.error('[Workspace] POST error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: Request) {
+  try {
+    const userEmail = await getAuthenticatedUser();
+    if (!userEmail) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const parsed = parseWorkspaceName(body?.name);
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const user = await getOrCreateUser(userEmail);
+    const { role, workspace } = await getAccountContext(user);
+    if (!workspace) {
+      return NextResponse.json({ error: 'You are not in a workspace' }, { status: 404 });
+    }
+    if (!canManageWorkspace(role)) {
+      return NextResponse.json({ error: 'Only workspace admins can rename the workspace' }, { status: 403 });
+    }
+
+    const updated = await renameWorkspace(workspace.id, parsed.name);
+    if (!updated) {
+      return NextResponse.json({ error: 'Failed to rename workspace' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, workspace: updated });
+  } catch (error) {
+    console.error('[Workspace] PATCH error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,528 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/toast";
+import {
+  ArrowLeft,
+  ArrowRight,
+  BadgeCheck,
+  CheckCircle2,
+  Download,
+  FileUp,
+  Layers,
+  Linkedin,
+  Loader2,
+  Plus,
+  Wallet,
+  XCircle,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { AnalysisJob } from "@/lib/analysis-jobs";
+import type { AnalysisBatch, AnalysisBatchEstimate, AnalysisBatchProgress, BatchLead } from "@/lib/analysis-batches";
+
+const BATCH_POLL_INTERVAL_MS = 4000;
+
+/**
+ * Pulls candidate post URLs out of pasted text or a CSV file. Any cell or
+ * line containing linkedin.com is kept; the server does the real validation.
+ */
+function extractPostUrls(text: string): string[] {
+  return text
+    .split(/[\s,;]+/)
+    .map((token) => token.replace(/^["']+|["']+$/g, '').trim())
+    .filter((token) => token.toLowerCase().includes('linkedin.com'));
+}
+
+function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+export default function BulkAnalyzePage() {
+  const router = useRouter();
+  const { addToast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [input, setInput] = useState("");
+  const [name, setName] = useState("");
+  const [estimate, setEstimate] = useState<AnalysisBatchEstimate | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const [batchId, setBatchId] = useState<string | null>(null);
+  const [batch, setBatch] = useState<AnalysisBatch | null>(null);
+  const [jobs, setJobs] = useState<AnalysisJob[]>([]);
+  const [progress, setProgress] = useState<AnalysisBatchProgress | null>(null);
+  const [leads, setLeads] = useState<BatchLead[]>([]);
+  const [icpOnly, setIcpOnly] = useState(true);
+  const [addingToCRM, setAddingToCRM] = useState(false);
+
+  // Resume a batch from the URL (?batch=...) so a refresh keeps progress
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get('batch');
+    if (id) setBatchId(id);
+  }, []);
+
+  // Poll the batch until every post has finished
+  useEffect(() => {
+    if (!batchId) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/analysis-batches/${batchId}`);
+        if (!response.ok) {
+          if (response.status === 404) {
+            addToast("error", "Batch not found", "It may have been deleted.");
+            setBatchId(null);
+            return;
+          }
+          throw new Error('Failed to load batch');
+        }
+
+        const data = await response.json();
+        if (cancelled) return;
+
+        setBatch(data.batch);
+        setJobs(data.jobs);
+        setProgress(data.progress);
+        setLeads(data.leads);
+
+        if (data.progress.done) {
+          window.dispatchEvent(new CustomEvent('usage-updated'));
+          return;
+        }
+      } catch (error) {
+        console.error('Failed to poll batch:', error);
+      }
+
+      if (!cancelled) {
+        timer = setTimeout(poll, BATCH_POLL_INTERVAL_MS);
+      }
+    };
+
+    poll();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [batchId, addToast]);
+
+  const handleFileUpload = async (file: File) => {
+    const text = await file.text();
+    const urls = extractPostUrls(text);
+    if (urls.length === 0) {
+      addToast("error", "No LinkedIn URLs found", `${file.name} doesn't contain any linkedin.com links`);
+      return;
+    }
+    setInput((prev) => [prev.trim(), ...urls].filter(Boolean).join('\n'));
+    setEstimate(null);
+    addToast("success", `Imported ${urls.length} URLs`, file.name);
+  };
+
+  const handleEstimate = async () => {
+    const urls = extractPostUrls(input);
+    if (urls.length === 0) {
+      addToast("error", "No URLs to analyze", "Paste one LinkedIn post URL per line or upload a CSV");
+      return;
+    }
+
+    setIsEstimating(true);
+    try {
+      const response = await fetch('/api/analysis-batches/estimate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ urls }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        addToast("error", "Could not check URLs", data.error);
+        return;
+      }
+
+      setEstimate(data.estimate);
+    } catch (error) {
+      console.error('Failed to estimate batch:', error);
+      addToast("error", "Could not check URLs", "Could not connect to the server");
+    } finally {
+      setIsEstimating(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!estimate) return;
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/analysis-batches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ urls: estimate.valid, name }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        addToast("error", "Bulk analysis not started", data.error);
+        return;
+      }
+
+      window.dispatchEvent(new CustomEvent('usage-updated'));
+      setEstimate(null);
+      setInput("");
+      setBatchId(data.batch.id);
+      router.replace(`/dashboard/analyze/bulk?batch=${data.batch.id}`);
+    } catch (error) {
+      console.error('Failed to start batch:', error);
+      addToast("error", "Bulk analysis not started", "Could not connect to the server");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAddToCRM = async (leadsToAdd: BatchLead[]) => {
+    if (leadsToAdd.length === 0) return;
+
+    setAddingToCRM(true);
+    try {
+      const response = await fetch('/api/crm/leads', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          leads: leadsToAdd.map((lead) => ({
+            name: lead.name,
+            headline: lead.headline,
+            profile_url: lead.profile_url,
+            profile_picture: lead.profile_picture,
+            // CRM keeps a single source; use the first post the lead engaged with
+            source_analysis_id: lead.posts[0]?.analysis_id,
+            source_post_url: lead.posts[0]?.post_url,
+            source: lead.source,
+          })),
+        }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        const skippedMsg = data.skipped > 0 ? ` (${data.skipped} duplicates skipped)` : '';
+        addToast("success", `Added ${data.added} leads to CRM${skippedMsg}`, "Go to CRM page to enrich and find emails");
+      } else {
+        addToast("error", "Failed to add leads", data.error);
+      }
+    } catch (error) {
+      console.error('Failed to add to CRM:', error);
+      addToast("error", "Failed to add leads", "Could not connect to the server");
+    } finally {
+      setAddingToCRM(false);
+    }
+  };
+
+  const handleNewBatch = () => {
+    setBatchId(null);
+    setBatch(null);
+    setJobs([]);
+    setProgress(null);
+    setLeads([]);
+    router.replace('/dashboard/analyze/bulk');
+  };
+
+  const visibleLeads = icpOnly ? leads.filter((l) => l.matches_icp) : leads;
+  const multiPostLeads = leads.filter((l) => l.posts.length > 1).length;
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => router.push('/dashboard/analyze')}>
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h1 className="text-lg font-bold tracking-tight">Bulk Post Analysis</h1>
+            <p className="text-muted-foreground text-xs">
+              Analyze many posts at once and get one combined lead list
+            </p>
+          </div>
+        </div>
+        {batchId && progress?.done && (
+          <Button size="sm" variant="outline" onClick={handleNewBatch}>
+            <Layers className="w-3.5 h-3.5 mr-1.5" />
+            New Batch
+          </Button>
+        )}
+      </div>
+
+      {/* INPUT */}
+      {!batchId && (
+        <div className="bg-card/30 border border-border/50 rounded-xl p-4 md:p-6 space-y-4">
+          <div className="space-y-2">
+            <label className="text-xs font-medium">Post URLs</label>
+            <textarea
+              value={input}
+              onChange={(e) => {
+                setInput(e.target.value);
+                setEstimate(null);
+              }}
+              placeholder={"https://www.linkedin.com/posts/...\nhttps://www.linkedin.com/feed/update/urn:li:activity:..."}
+              rows={8}
+              className="w-full rounded-lg border border-border/50 bg-background/50 px-3 py-2 text-sm font-mono focus:outline-none focus:border-primary/50"
+            />
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] text-muted-foreground">
+                One URL per line, or upload a CSV with a column of post URLs
+              </p>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.txt,text/csv,text/plain"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFileUpload(file);
+                  e.target.value = '';
+                }}
+              />
+              <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => fileInputRef.current?.click()}>
+                <FileUp className="w-3 h-3 mr-1" />
+                Upload CSV
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-medium">Batch name (optional)</label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Competitor launch posts"
+              className="h-9 text-sm"
+            />
+          </div>
+
+          {!estimate ? (
+            <Button size="sm" className="w-full" onClick={handleEstimate} disabled={!input.trim() || isEstimating}>
+              {isEstimating ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <>Check URLs &amp; Estimate Cost <ArrowRight className="ml-1.5 w-3.5 h-3.5" /></>}
+            </Button>
+          ) : (
+            <div className="rounded-lg border border-border/50 bg-background/50 p-4 space-y-3">
+              <div className="grid grid-cols-3 gap-3 text-center">
+                <div>
+                  <div className="text-lg font-bold">{estimate.valid.length}</div>
+                  <div className="text-[10px] text-muted-foreground">Posts to analyze</div>
+                </div>
+                <div>
+                  <div className="text-lg font-bold">{estimate.duplicates.length}</div>
+                  <div className="text-[10px] text-muted-foreground">Duplicates removed</div>
+                </div>
+                <div>
+                  <div className={cn("text-lg font-bold", estimate.invalid.length > 0 && "text-red-500")}>{estimate.invalid.length}</div>
+                  <div className="text-[10px] text-muted-foreground">Invalid URLs</div>
+                </div>
+              </div>
+
+              {estimate.invalid.length > 0 && (
+                <div className="text-xs text-red-500 space-y-0.5 max-h-24 overflow-y-auto">
+                  {estimate.invalid.map((u) => (
+                    <div key={u} className="truncate">✗ {u}</div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-center justify-between border-t border-border/50 pt-3 text-sm">
+                <div className="flex items-center gap-2">
+                  <Wallet className="w-4 h-4 text-primary" />
+                  <span>
+                    Up to <span className="font-semibold">{estimate.totalCostFormatted}</span>
+                    <span className="text-muted-foreground text-xs"> ({formatCents(estimate.perPostCost)} max per post)</span>
+                  </span>
+                </div>
+                <span className="text-xs text-muted-foreground">Balance {estimate.walletFormatted}</span>
+              </div>
+              <p className="text-[10px] text-muted-foreground">
+                Credits are reserved per post and you&apos;re only charged for the reactions and comments actually scraped. Unused credits are returned.
+              </p>
+
+              {estimate.valid.length > estimate.maxPosts && (
+                <p className="text-xs text-red-500">You can analyze up to {estimate.maxPosts} posts at once. Remove some URLs to continue.</p>
+              )}
+              {estimate.invalid.length > 0 && (
+                <p className="text-xs text-red-500">Fix or remove the invalid URLs to continue.</p>
+              )}
+              {!estimate.canAfford && estimate.valid.length > 0 && (
+                <div className="flex items-center justify-between text-xs text-amber-600 dark:text-amber-400">
+                  <span>Not enough credits for this batch.</span>
+                  <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => router.push('/dashboard/settings?tab=billing')}>
+                    Add Credits
+                  </Button>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" className="flex-1" onClick={() => setEstimate(null)}>
+                  Edit
+                </Button>
+                <Button
+                  size="sm"
+                  className="flex-1"
+                  onClick={handleConfirm}
+                  disabled={
+                    isSubmitting ||
+                    !estimate.canAfford ||
+                    estimate.invalid.length > 0 ||
+                    estimate.valid.length > estimate.maxPosts
+                  }
+                >
+                  {isSubmitting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : `Analyze ${estimate.valid.length} Posts`}
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* PROGRESS */}
+      {batchId && progress && (
+        <div className="bg-card/30 border border-border/50 rounded-xl p-4 space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">{batch?.name || 'Bulk analysis'}</span>
+            <span className="text-xs text-muted-foreground">
+              {progress.completed + progress.failed} / {progress.total} posts done
+              {progress.failed > 0 && <span className="text-red-500"> • {progress.failed} failed</span>}
+            </span>
+          </div>
+          <div className="h-1.5 rounded-full bg-border/30 overflow-hidden">
+            <div
+              className="h-full bg-primary transition-all duration-500"
+              style={{ width: `${progress.total ? ((progress.completed + progress.failed) / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {jobs.map((job) => (
+              <div key={job.id} className="flex items-center gap-2 text-xs">
+                {job.status === 'completed' ? (
+                  <CheckCircle2 className="w-3.5 h-3.5 text-emerald-500 shrink-0" />
+                ) : job.status === 'failed' ? (
+                  <XCircle className="w-3.5 h-3.5 text-red-500 shrink-0" />
+                ) : (
+                  <Loader2 className={cn("w-3.5 h-3.5 shrink-0", job.status === 'running' ? "animate-spin text-primary" : "text-muted-foreground")} />
+                )}
+                <span className="truncate flex-1 text-muted-foreground">{job.post_data?.author || job.post_url}</span>
+                {job.status === 'completed' && (
+                  <span className="text-muted-foreground">{job.qualified_leads_count ?? 0} ICP</span>
+                )}
+                {job.status === 'failed' && (
+                  <span className="text-red-500 truncate max-w-[40%]" title={job.error || undefined}>{job.error}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* COMBINED LEADS */}
+      {batchId && leads.length > 0 && (
+        <div className="bg-card/30 border border-border/50 rounded-xl overflow-hidden">
+          <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-border/50">
+            <div className="text-xs text-muted-foreground">
+              <span className="font-medium text-foreground">{leads.length}</span> unique leads •{' '}
+              <span className="text-emerald-500 font-medium">{leads.filter((l) => l.matches_icp).length}</span> ICP matches •{' '}
+              {multiPostLeads} engaged with multiple posts
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                variant={icpOnly ? "default" : "ghost"}
+                className={cn("h-7 text-xs", icpOnly && "bg-emerald-500/20 text-emerald-500 hover:bg-emerald-500/30")}
+                onClick={() => setIcpOnly(!icpOnly)}
+              >
+                ICP only
+              </Button>
+              <a href={`/api/analysis-batches/${batchId}/export`}>
+                <Button size="sm" variant="outline" className="h-7 text-xs">
+                  <Download className="w-3 h-3 mr-1" />
+                  Export
+                </Button>
+              </a>
+              <Button
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => handleAddToCRM(visibleLeads)}
+                disabled={addingToCRM || visibleLeads.length === 0}
+              >
+                {addingToCRM ? <Loader2 className="w-3 h-3 animate-spin" /> : <><Plus className="w-3 h-3 mr-1" />Add {visibleLeads.length} to CRM</>}
+              </Button>
+            </div>
+          </div>
+
+          <div className="max-h-[600px] overflow-y-auto">
+            {visibleLeads.map((lead) => (
+              <div key={lead.profile_url} className="flex items-center gap-3 px-3 py-2.5 border-b border-border/30 hover:bg-muted/40">
+                <div className="w-8 h-8 rounded-full overflow-hidden bg-muted ring-1 ring-border/50 flex-shrink-0">
+                  {lead.profile_picture ? (
+                    <Image src={lead.profile_picture} alt={lead.name} width={32} height={32} unoptimized className="w-full h-full object-cover" />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center text-xs font-medium text-muted-foreground">
+                      {lead.name.charAt(0)}
+                    </div>
+                  )}
+                </div>
+                <div className="w-40 flex-shrink-0 min-w-0">
+                  <span className="text-sm font-medium truncate block">{lead.name}</span>
+                </div>
+                <div className="flex-1 min-w-0">
+                  <span className="text-sm text-muted-foreground truncate block">{lead.headline}</span>
+                </div>
+
+                {/* Per-post attribution */}
+                <div className="w-48 flex-shrink-0 flex flex-wrap gap-1">
+                  {lead.posts.map((post) => (
+                    <a
+                      key={post.analysis_id}
+                      href={post.post_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      title={post.comment_text || post.post_url}
+                      className={cn(
+                        "px-1.5 py-0.5 rounded text-[10px] border truncate max-w-full",
+                        post.source === 'comment'
+                          ? "bg-primary/10 text-primary border-primary/20"
+                          : "bg-muted text-muted-foreground border-border/50"
+                      )}
+                    >
+                      {post.author}
+                    </a>
+                  ))}
+                </div>
+
+                <div className="w-10 flex-shrink-0 text-xs font-medium tabular-nums">
+                  {lead.icp_score ?? '—'}
+                </div>
+                <div className="w-12 flex-shrink-0">
+                  {lead.matches_icp && (
+                    <span title={lead.icp_match_reason} className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-emerald-500/10 text-emerald-500 border border-emerald-500/20">
+                      <BadgeCheck className="w-3 h-3" />
+                      ICP
+                    </span>
+                  )}
+                </div>
+                <a href={lead.profile_url} target="_blank" rel="noopener noreferrer">
+                  <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-[#0077b5] hover:bg-[#0077b5]/10">
+                    <Linkedin className="w-3.5 h-3.5" />
+                  </Button>
+                </a>
+                <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => handleAddToCRM([lead])} disabled={addingToCRM}>
+                  <Plus className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
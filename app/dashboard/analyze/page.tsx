@@ -1,9 +1,10 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/toast";
 import {
   Search,
   CheckCircle2,
@@ -27,10 +28,69 @@ import {
   Send,
   Download,
   AlertTriangle,
-  Wallet
+  Wallet,
+  SlidersHorizontal
 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { fetchPostDetails, fetchReactions, fetchComments, trackAnalysisUsage, releaseAnalysisReservation, filterByICP, PostData, Reactor, Commenter } from "@/app/actions/analyze-post";
+import { getPlanLimits, REACTION_TYPES, type ReactionType, type ScrapeOptions } from "@/lib/plans";
+import type { Analysis } from "@/lib/data-store";
+import type { AnalysisJob, AnalysisJobStep } from "@/lib/analysis-jobs";
+
+// Order of worker steps, used to replay logs for steps skipped between polls
+const JOB_STEP_ORDER: AnalysisJobStep[] = [
+  'queued',
+  'fetching_post',
+  'fetching_reactions',
+  'fetching_comments',
+  'matching_icp',
+  'saving',
+  'done',
+];
+
+const JOB_POLL_INTERVAL_MS = 2500;
+
+function getProgressStepForJob(step: AnalysisJobStep): number {
+  if (step === 'queued' || step === 'fetching_post') return 1;
+  if (step === 'fetching_reactions' || step === 'fetching_comments') return 2;
+  if (step === 'matching_icp' || step === 'saving') return 3;
+  return 4;
+}
+
+function getJobStepLogs(step: AnalysisJobStep, job: AnalysisJob): string[] {
+  const post = job.post_data;
+  switch (step) {
+    case 'fetching_post':
+      return ["🔍 Fetching post details..."];
+    case 'fetching_reactions':
+      return post
+        ? [
+          `✅ Post found by ${post.author}`,
+          `📊 Total engagement: ${post.total_reactions.toLocaleString()} reactions, ${post.total_comments} comments`,
+          `🎯 Found ${post.total_reactions.toLocaleString()} total reactions`,
+          "📥 Fetching reactor profiles...",
+        ]
+        : [];
+    case 'fetching_comments':
+      return [
+        `✅ Fetched ${job.reactions_count ?? 0} reactor profiles`,
+        ...(post && post.total_comments > 0
+          ? [`💬 Found ${post.total_comments} comments`, "📥 Fetching commenter profiles..."]
+          : []),
+      ];
+    case 'matching_icp':
+      return [
+        ...(job.comments_count ? [`✅ Fetched ${job.comments_count} commenter profiles`] : []),
+        "🔬 Analyzing profiles against ICP criteria...",
+        "🚫 Filtering out unqualified leads...",
+      ];
+    case 'saving':
+      return [`✅ ${job.qualified_leads_count ?? 0} leads match your ICP criteria`];
+    case 'done':
+      return ["📧 Email enrichment ready", "🎉 Analysis complete!"];
+    default:
+      return [];
+  }
+}
 
 const STEPS = [
   { id: 1, label: "Post Analysis", icon: Search },
@@ -56,6 +116,8 @@ interface Lead {
   profileUrl: string;
   profilePicture?: string;
   matchesICP: boolean;
+  icpMatchReason?: string;
+  icpScore?: number;
   source?: 'reaction' | 'comment';
   commentText?: string;
 }
@@ -163,17 +225,63 @@ function LinkedInPostCard({ post }: { post: PostInfo }) {
   );
 }
 
-function LeadCard({ lead, index }: { lead: Lead; index: number }) {
-  const [emailStatus, setEmailStatus] = useState<'idle' | 'finding' | 'found' | 'view'>('idle');
-
-  const handleFindEmail = () => {
+function LeadCard({
+  lead,
+  index,
+  sourceAnalysisId,
+  sourcePostUrl
+}: {
+  lead: Lead;
+  index: number;
+  sourceAnalysisId: string | null;
+  sourcePostUrl: string;
+}) {
+  const [emailStatus, setEmailStatus] = useState<'idle' | 'finding' | 'found' | 'risky' | 'not_found'>('idle');
+  const [email, setEmail] = useState<string | null>(null);
+  const [emailError, setEmailError] = useState<string | null>(null);
+
+  // Saves the lead to the CRM (no-op if already there), then looks up the
+  // email on the CRM lead so the result and charge are stored in one place
+  const handleFindEmail = async () => {
     setEmailStatus('finding');
-    setTimeout(() => {
-      setEmailStatus('found');
-      setTimeout(() => {
-        setEmailStatus('view');
-      }, 1500);
-    }, 2000);
+    setEmailError(null);
+    try {
+      const addRes = await fetch('/api/crm/leads', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: lead.name,
+          headline: lead.headline,
+          profile_url: lead.profileUrl,
+          profile_picture: lead.profilePicture,
+          source_analysis_id: sourceAnalysisId || undefined,
+          source_post_url: sourcePostUrl || undefined,
+          source: lead.source,
+        })
+      });
+      if (!addRes.ok) {
+        throw new Error("Couldn't save this lead to your CRM");
+      }
+
+      const res = await fetch('/api/crm/email', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ profileUrl: lead.profileUrl })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Email lookup failed');
+      }
+
+      setEmail(data.lead.email || null);
+      setEmailStatus(data.lead.email_status || 'not_found');
+      if (data.charged) {
+        window.dispatchEvent(new CustomEvent('usage-updated'));
+      }
+    } catch (e) {
+      setEmailError(e instanceof Error ? e.message : 'Email lookup failed');
+      setEmailStatus('idle');
+    }
   };
 
   return (
@@ -211,11 +319,16 @@ function LeadCard({ lead, index }: { lead: Lead; index: number }) {
               <ExternalLink className="w-2.5 h-2.5 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground" />
             </a>
             {lead.matchesICP && (
-              <span className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-full bg-emerald-500/10 text-emerald-500 text-[9px] font-medium border border-emerald-500/20">
+              <span title={lead.icpMatchReason} className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-full bg-emerald-500/10 text-emerald-500 text-[9px] font-medium border border-emerald-500/20">
                 <BadgeCheck className="w-2.5 h-2.5" />
                 Match
               </span>
             )}
+            {lead.icpScore !== undefined && (
+              <span className="text-[9px] font-medium text-muted-foreground tabular-nums">
+                {lead.icpScore}/100
+              </span>
+            )}
           </div>
           <p className="text-xs text-muted-foreground line-clamp-1 group-hover:text-foreground/80 transition-colors">
             {lead.headline}
@@ -224,44 +337,49 @@ function LeadCard({ lead, index }: { lead: Lead; index: number }) {
       </div>
 
       <div className="flex items-center justify-end md:pl-4 md:border-l border-border/50 flex-shrink-0">
-        <Button
-          size="sm"
-          variant={emailStatus === 'view' ? "secondary" : "outline"}
-          className={cn(
-            "h-7 min-w-[100px] text-xs transition-all duration-300 font-medium",
-            emailStatus === 'idle' && "hover:bg-primary hover:text-primary-foreground hover:border-primary",
-            emailStatus === 'finding' && "opacity-80 cursor-wait",
-            emailStatus === 'found' && "bg-emerald-500/10 text-emerald-500 border-emerald-500/20 hover:bg-emerald-500/20",
-            emailStatus === 'view' && "bg-secondary text-secondary-foreground"
-          )}
-          onClick={handleFindEmail}
-          disabled={emailStatus === 'finding' || emailStatus === 'found'}
-        >
-          {emailStatus === 'idle' && (
-            <>
-              <Mail className="w-3 h-3 mr-1" />
-              Find Email
-            </>
-          )}
-          {emailStatus === 'finding' && (
-            <>
-              <Loader2 className="w-3 h-3 mr-1 animate-spin" />
-              Finding...
-            </>
-          )}
-          {emailStatus === 'found' && (
-            <>
-              <Check className="w-3 h-3 mr-1" />
-              Found
-            </>
-          )}
-          {emailStatus === 'view' && (
-            <>
-              <Eye className="w-3 h-3 mr-1" />
-              View
-            </>
-          )}
-        </Button>
+        {email ? (
+          <a
+            href={`mailto:${email}`}
+            title={emailStatus === 'risky' ? 'Unverified: the domain accepts all addresses' : 'Verified email'}
+            className={cn(
+              "inline-flex items-center h-7 px-2 rounded-md text-xs font-medium border max-w-[200px]",
+              emailStatus === 'risky'
+                ? "bg-amber-500/10 text-amber-500 border-amber-500/20"
+                : "bg-emerald-500/10 text-emerald-500 border-emerald-500/20"
+            )}
+          >
+            <Check className="w-3 h-3 mr-1 flex-shrink-0" />
+            <span className="truncate">{email}</span>
+          </a>
+        ) : (
+          <Button
+            size="sm"
+            variant="outline"
+            className={cn(
+              "h-7 min-w-[100px] text-xs transition-all duration-300 font-medium",
+              emailStatus === 'idle' && "hover:bg-primary hover:text-primary-foreground hover:border-primary",
+              emailStatus === 'finding' && "opacity-80 cursor-wait",
+              emailError && "text-red-500 border-red-500/30"
+            )}
+            title={emailError || undefined}
+            onClick={handleFindEmail}
+            disabled={emailStatus === 'finding' || emailStatus === 'not_found'}
+          >
+            {emailStatus === 'idle' && (
+              <>
+                <Mail className="w-3 h-3 mr-1" />
+                {emailError ? 'Retry' : 'Find Email'}
+              </>
+            )}
+            {emailStatus === 'finding' && (
+              <>
+                <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                Finding...
+              </>
+            )}
+            {emailStatus === 'not_found' && 'No email found'}
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -269,6 +387,7 @@ function LeadCard({ lead, index }: { lead: Lead; index: number }) {
 
 export default function AnalyzePage() {
   const router = useRouter();
+  const { addToast } = useToast();
   const [url, setUrl] = useState("");
   const [status, setStatus] = useState<'idle' | 'processing' | 'complete' | 'error'>('idle');
   const [progressStep, setProgressStep] = useState(0);
@@ -299,6 +418,27 @@ export default function AnalyzePage() {
   const [showTopUpDialog, setShowTopUpDialog] = useState(false);
   const [topUpLoading, setTopUpLoading] = useState<string | null>(null);
 
+  // Pre-flight cost quote for the pasted URL (see /api/billing/quote)
+  const [quote, setQuote] = useState<{
+    expectedCostFormatted: string;
+    maxCostFormatted: string;
+    balanceAfterFormatted: string;
+    totalReactions: number;
+    totalComments: number;
+    wouldSucceed: boolean;
+    reason?: string;
+  } | null>(null);
+  const [quoteLoading, setQuoteLoading] = useState(false);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+
+  // Per-analysis scrape depth; blank caps mean the plan's
+  const [showScrapeOptions, setShowScrapeOptions] = useState(false);
+  const [reactionsOn, setReactionsOn] = useState(true);
+  const [commentsOn, setCommentsOn] = useState(true);
+  const [reactionCap, setReactionCap] = useState('');
+  const [commentCap, setCommentCap] = useState('');
+  const [reactionTypes, setReactionTypes] = useState<ReactionType[]>([]);
+
   const refreshBilling = async () => {
     try {
       const res = await fetch('/api/billing');
@@ -341,257 +481,234 @@ export default function AnalyzePage() {
     setTopUpLoading(null);
   };
 
-  const handleAnalyze = async () => {
-    if (!url) return;
+  // ========================================
+  // BACKGROUND JOB POLLING
+  // ========================================
+  // The analysis runs server-side (see lib/analysis-jobs.ts). The page only
+  // submits a job and polls it, so closing the tab doesn't lose the results
+  // or leave credits reserved.
+  const [jobId, setJobId] = useState<string | null>(null);
+  const lastJobStepRef = useRef<AnalysisJobStep>('queued');
+
+  const applyJobProgress = (job: AnalysisJob) => {
+    const previousIndex = JOB_STEP_ORDER.indexOf(lastJobStepRef.current);
+    const currentIndex = JOB_STEP_ORDER.indexOf(job.step);
+
+    if (currentIndex > previousIndex) {
+      const newLogs = JOB_STEP_ORDER
+        .slice(previousIndex + 1, currentIndex + 1)
+        .flatMap(step => getJobStepLogs(step, job));
+      setLogs(prev => [...prev, ...newLogs]);
+      lastJobStepRef.current = job.step;
+    }
 
-    let reservationId: string | null = null;
+    if (job.post_data) {
+      setPostInfo({
+        author: job.post_data.author,
+        authorHeadline: job.post_data.author_headline,
+        authorImage: job.post_data.author_image,
+        content: job.post_data.content,
+        postImage: job.post_data.post_image,
+        totalReactions: job.post_data.total_reactions,
+        totalComments: job.post_data.total_comments,
+        totalShares: job.post_data.total_shares
+      });
+      setTotalReactorsCount(job.post_data.total_reactions);
+    }
 
-    try {
-      // ========================================
-      // STEP 1: Fetch Post Details
-      // ========================================
-      setStatus('processing');
-      setProgressStep(1);
-      setActiveTab(1);
-      setError(null);
-      setSavedAnalysisId(null);
-      setLogs(["🔄 Connecting to LinkedIn...", "🔍 Fetching post details..."]);
-
-      const postResult = await fetchPostDetails(url);
+    const step = getProgressStepForJob(job.step);
+    setProgressStep(step);
+    setActiveTab(step);
+  };
 
-      // Handle wallet access errors
-      if (postResult.limitReached) {
-        setError(postResult.error || "Start a trial or add wallet credits to analyze posts.");
-        setStatus('error');
-        return;
-      }
+  const loadCompletedAnalysis = async (analysisId: string) => {
+    const res = await fetch(`/api/analyses/${analysisId}`);
+    const data = await res.json();
+    if (!res.ok || !data.analysis) {
+      throw new Error(data.error || "Analysis finished but could not be loaded");
+    }
 
-      if (!postResult.success || !postResult.post) {
-        throw new Error(postResult.error || "Failed to fetch post");
-      }
+    const analysis = data.analysis as Analysis;
+    const leads: Lead[] = analysis.leads.map(l => ({
+      name: l.name,
+      headline: l.headline,
+      profileUrl: l.profile_url,
+      profilePicture: l.profile_picture,
+      matchesICP: l.matches_icp,
+      icpMatchReason: l.icp_match_reason,
+      icpScore: l.icp_score,
+      source: l.source,
+      commentText: l.comment_text
+    }));
+
+    setAllReactors(leads);
+    setQualifiedLeads(leads.filter(l => l.matchesICP));
+    setSavedAnalysisId(analysis.id);
+  };
 
-      reservationId = postResult.reservationId || null;
-      if (!reservationId) {
-        throw new Error("Unable to reserve wallet credits. Please try again.");
-      }
+  useEffect(() => {
+    if (!jobId) return;
 
-      const post = postResult.post;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
 
-      // Show post card immediately
-      setPostInfo({
-        author: post.author,
-        authorHeadline: post.authorHeadline,
-        authorImage: post.image,
-        content: post.content,
-        postImage: post.postImage,
-        totalReactions: post.totalReactions,
-        totalComments: post.totalComments,
-        totalShares: post.totalShares
-      });
+    const poll = async () => {
+      try {
+        const res = await fetch(`/api/analysis-jobs/${jobId}`);
+        const data = await res.json();
+        if (cancelled) return;
 
-      setLogs(prev => [
-        ...prev,
-        `✅ Post found by ${post.author}`,
-        `📊 Total engagement: ${post.totalReactions.toLocaleString()} reactions, ${post.totalComments} comments`
-      ]);
-
-      // Small delay to show post card before moving on
-      await new Promise(resolve => setTimeout(resolve, 1500));
-
-      // ========================================
-      // STEP 2: Fetch Reactions
-      // ========================================
-      setProgressStep(2);
-      setActiveTab(2);
-      setTotalReactorsCount(post.totalReactions);
-      setLogs(prev => [
-        ...prev,
-        `🎯 Found ${post.totalReactions.toLocaleString()} total reactions`,
-        `📥 Fetching reactor profiles...`
-      ]);
-
-      const reactionsResult = await fetchReactions(post.postUrl);
-
-      if (!reactionsResult.success || !reactionsResult.reactors) {
-        throw new Error(reactionsResult.error || "Failed to fetch reactions");
-      }
+        if (!res.ok || !data.job) {
+          throw new Error(data.error || "Lost track of the analysis job");
+        }
+
+        const job = data.job as AnalysisJob;
+        applyJobProgress(job);
+
+        if (job.status === 'completed' && job.analysis_id) {
+          await loadCompletedAnalysis(job.analysis_id);
+          if (cancelled) return;
+          setStatus('complete');
+          setJobId(null);
+          await refreshBilling();
+          window.dispatchEvent(new CustomEvent('usage-updated'));
+          return;
+        }
 
-      const reactors = reactionsResult.reactors;
-      setLogs(prev => [...prev, `✅ Fetched ${reactors.length} reactor profiles`]);
-
-      // ========================================
-      // STEP 2B: Fetch Comments (if post has comments)
-      // ========================================
-      let commenters: Commenter[] = [];
-      if (post.totalComments > 0) {
-        setLogs(prev => [
-          ...prev,
-          `💬 Found ${post.totalComments} comments`,
-          `📥 Fetching commenter profiles...`
-        ]);
-
-        const commentsResult = await fetchComments(post.postUrl);
-        
-        if (commentsResult.success && commentsResult.commenters) {
-          commenters = commentsResult.commenters;
-          setLogs(prev => [...prev, `✅ Fetched ${commenters.length} commenter profiles`]);
-        } else {
-          // Don't fail the whole analysis if comments fail - just log it
-          setLogs(prev => [...prev, `⚠️ Could not fetch comments (continuing with reactions)`]);
+        if (job.status === 'failed') {
+          const errorMsg = job.error || "Analysis failed";
+          setError(errorMsg);
+          setStatus('error');
+          setLogs(prev => [...prev, `❌ Error: ${errorMsg}`]);
+          setJobId(null);
+          await refreshBilling();
+          window.dispatchEvent(new CustomEvent('usage-updated'));
+          return;
         }
+
+        timer = setTimeout(poll, JOB_POLL_INTERVAL_MS);
+      } catch (err) {
+        if (cancelled) return;
+        const errorMsg = err instanceof Error ? err.message : "An error occurred";
+        setError(errorMsg);
+        setStatus('error');
+        setLogs(prev => [...prev, `❌ Error: ${errorMsg}`]);
+        setJobId(null);
       }
+    };
 
-      // Small delay before ICP filtering
-      await new Promise(resolve => setTimeout(resolve, 1000));
+    poll();
 
-      // ========================================
-      // STEP 3: ICP Filtering
-      // ========================================
-      setProgressStep(3);
-      setActiveTab(3);
-      setLogs(prev => [
-        ...prev,
-        "🔬 Analyzing profiles against ICP criteria...",
-        "🚫 Filtering out unqualified leads..."
-      ]);
-
-      // Combine reactors and commenters into leads
-      const reactorLeads: Lead[] = reactors.map(r => ({
-        name: r.name,
-        headline: r.headline,
-        profileUrl: r.profileUrl,
-        profilePicture: r.profilePicture,
-        matchesICP: false,
-        source: 'reaction' as const
-      }));
-
-      const commenterLeads: Lead[] = commenters.map(c => ({
-        name: c.name,
-        headline: c.headline,
-        profileUrl: c.profileUrl,
-        profilePicture: c.profilePicture,
-        matchesICP: false,
-        source: 'comment' as const,
-        commentText: c.commentText
-      }));
-
-      // Combine and dedupe by profileUrl (same person might react AND comment)
-      const allLeadsMap = new Map<string, Lead>();
-      [...reactorLeads, ...commenterLeads].forEach(lead => {
-        if (!allLeadsMap.has(lead.profileUrl)) {
-          allLeadsMap.set(lead.profileUrl, lead);
-        }
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [jobId]);
+
+  // Resume a job that is still running (e.g. the tab was closed and reopened).
+  // Bulk batch and monitoring jobs run in the background and aren't resumed here.
+  useEffect(() => {
+    const resumeActiveJob = async () => {
+      try {
+        const res = await fetch('/api/analysis-jobs?active=1&single=1');
+        const data = await res.json();
+        const activeJob = (data.jobs as AnalysisJob[] | undefined)?.[0];
+        if (!activeJob) return;
+
+        setUrl(activeJob.post_url);
+        setStatus('processing');
+        setError(null);
+        setLogs(["🔄 Resuming your analysis in progress..."]);
+        lastJobStepRef.current = 'queued';
+        setJobId(activeJob.id);
+      } catch {}
+    };
+    resumeActiveJob();
+  }, []);
+
+  const planLimits = getPlanLimits(usage?.plan || 'free');
+
+  const getScrapeOptions = (): ScrapeOptions => ({
+    reactionCap: reactionsOn ? (reactionCap ? Number(reactionCap) : undefined) : 0,
+    commentCap: commentsOn ? (commentCap ? Number(commentCap) : undefined) : 0,
+    reactionTypes: reactionsOn && reactionTypes.length > 0 ? reactionTypes : undefined,
+  });
+
+  // Any change to the options makes the quote stale
+  const updateScrapeOptions = (update: () => void) => {
+    update();
+    setQuote(null);
+    setQuoteError(null);
+  };
+
+  const toggleReactionType = (type: ReactionType) => {
+    updateScrapeOptions(() =>
+      setReactionTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type])
+    );
+  };
+
+  const handleQuote = async () => {
+    if (!url) return;
+    setQuoteLoading(true);
+    setQuoteError(null);
+    try {
+      const res = await fetch('/api/billing/quote', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ postUrl: url, ...getScrapeOptions() }),
       });
-      const leads: Lead[] = Array.from(allLeadsMap.values());
-
-      // Filter by ICP - convert leads back to Reactor format for the filter function
-      const leadsAsReactors: Reactor[] = leads.map(l => ({
-        name: l.name,
-        headline: l.headline,
-        profileUrl: l.profileUrl,
-        profilePicture: l.profilePicture,
-        reactionType: l.source === 'comment' ? 'COMMENT' : 'LIKE'
-      }));
-
-      const filtered = await filterByICP(leadsAsReactors);
-      const qualifiedLeadsList: Lead[] = filtered.map(r => {
-        const originalLead = leads.find(l => l.profileUrl === r.profileUrl);
-        return {
-          name: r.name,
-          headline: r.headline,
-          profileUrl: r.profileUrl,
-          profilePicture: r.profilePicture,
-          matchesICP: true,
-          source: originalLead?.source,
-          commentText: originalLead?.commentText
-        };
+      const data = await res.json();
+      if (!res.ok) {
+        setQuoteError(data.error || "Couldn't estimate the cost");
+        return;
+      }
+      setQuote(data.quote);
+    } catch {
+      setQuoteError("Couldn't estimate the cost");
+    } finally {
+      setQuoteLoading(false);
+    }
+  };
+
+  const handleAnalyze = async () => {
+    if (!url) return;
+
+    setStatus('processing');
+    setProgressStep(1);
+    setActiveTab(1);
+    setError(null);
+    setSavedAnalysisId(null);
+    setPostInfo(null);
+    setAllReactors([]);
+    setQualifiedLeads([]);
+    lastJobStepRef.current = 'queued';
+    setLogs(["🔄 Connecting to LinkedIn...", "⏳ Analysis queued — you can leave this page, it keeps running"]);
+
+    try {
+      const res = await fetch('/api/analysis-jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ postUrl: url, ...getScrapeOptions() })
       });
+      const data = await res.json();
 
-      // Wallet reservation - 2026-05-18 15:28 IST, paras: settle reserved credits before showing or saving paid analysis results.
-      const usageResult = await trackAnalysisUsage(url, reactors.length, commenters.length, reservationId);
-      if (!usageResult.success) {
-        await releaseAnalysisReservation(reservationId, url);
-        reservationId = null;
-        setError(usageResult.error || "We could not charge your wallet for this analysis. Please add credits and try again.");
+      // Handle wallet access errors
+      if (data.limitReached) {
+        setError(data.error || "Start a trial or add wallet credits to analyze posts.");
         setStatus('error');
-        await refreshBilling();
-        window.dispatchEvent(new CustomEvent('usage-updated'));
         return;
       }
-      reservationId = null;
-
-      setAllReactors(leads);
-      setQualifiedLeads(qualifiedLeadsList);
 
-      setLogs(prev => [
-        ...prev,
-        `✅ ${qualifiedLeadsList.length} leads match your ICP criteria`
-      ]);
+      if (!res.ok || !data.job) {
+        throw new Error(data.error || "Failed to start analysis");
+      }
 
+      // Credits are reserved as soon as the job is accepted
       await refreshBilling();
       window.dispatchEvent(new CustomEvent('usage-updated'));
 
-      // Save the analysis
-      try {
-        const saveRes = await fetch('/api/analyses', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            post_url: url,
-            post_data: {
-              author: post.author,
-              author_headline: post.authorHeadline,
-              author_image: post.image,
-              content: post.content,
-              post_image: post.postImage,
-              total_reactions: post.totalReactions,
-              total_comments: post.totalComments,
-              total_shares: post.totalShares
-            },
-            total_reactors: post.totalReactions,
-            qualified_leads_count: qualifiedLeadsList.length,
-            leads: qualifiedLeadsList.map(l => ({
-              name: l.name,
-              headline: l.headline,
-              profile_url: l.profileUrl,
-              profile_picture: l.profilePicture,
-              matches_icp: l.matchesICP,
-              source: l.source || 'reaction',
-              comment_text: l.commentText
-            }))
-          })
-        });
-        
-        const saveData = await saveRes.json();
-        if (saveData.analysis?.id) {
-          setSavedAnalysisId(saveData.analysis.id);
-        }
-      } catch (e) {
-        console.error('Failed to save analysis:', e);
-      }
-
-      // Small delay before showing results
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
-      // ========================================
-      // STEP 4: Show Results
-      // ========================================
-      setStatus('complete');
-      setProgressStep(4);
-      setActiveTab(4);
-      setLogs(prev => [
-        ...prev,
-        "📧 Email enrichment ready",
-        `🎉 Analysis complete!`
-      ]);
-
+      setJobId(data.job.id);
     } catch (err) {
-      if (reservationId) {
-        await releaseAnalysisReservation(reservationId, url);
-        await refreshBilling();
-        window.dispatchEvent(new CustomEvent('usage-updated'));
-      }
-
       setStatus('error');
       const errorMsg = err instanceof Error ? err.message : "An error occurred";
       setError(errorMsg);
@@ -616,16 +733,24 @@ export default function AnalyzePage() {
     if (!savedAnalysisId) return;
     
     try {
+      // Format defaults to the one saved in Settings; the server names the file
       const res = await fetch(`/api/analyses/${savedAnalysisId}/export`);
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        addToast("error", "Export failed", data.error || "Please try again");
+        return;
+      }
       const blob = await res.blob();
+      const filename = res.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1];
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `leads-${savedAnalysisId}.csv`;
+      a.download = filename || `leads-${savedAnalysisId}`;
       a.click();
       window.URL.revokeObjectURL(url);
     } catch (e) {
       console.error('Export failed:', e);
+      addToast("error", "Export failed", "Could not connect to the server");
     }
   };
 
@@ -758,7 +883,11 @@ export default function AnalyzePage() {
                   placeholder="Paste LinkedIn Post URL (e.g., linkedin.com/posts/...)"
                   className="pl-8 h-10 text-sm bg-background/50 border-border/50 focus:border-primary/50 transition-all rounded-lg"
                   value={url}
-                  onChange={(e) => setUrl(e.target.value)}
+                  onChange={(e) => {
+                    setUrl(e.target.value);
+                    setQuote(null);
+                    setQuoteError(null);
+                  }}
                   onKeyDown={(e) => e.key === 'Enter' && handleAnalyze()}
                 />
               </div>
@@ -779,9 +908,129 @@ export default function AnalyzePage() {
                   "Paste URL to Start"
                 )}
               </Button>
-              <p className="text-[10px] text-center text-muted-foreground">
-                Uses wallet credits • plan caps apply
-              </p>
+              {quote ? (
+                <p className={cn(
+                  "text-[11px] text-center",
+                  quote.wouldSucceed ? "text-muted-foreground" : "text-amber-500"
+                )}>
+                  {quote.totalReactions.toLocaleString()} reactions, {quote.totalComments.toLocaleString()} comments
+                  {' '}• about {quote.expectedCostFormatted} (reserves up to {quote.maxCostFormatted})
+                  {' '}• {quote.balanceAfterFormatted} left after
+                  {!quote.wouldSucceed && quote.reason && <span className="block">{quote.reason}</span>}
+                </p>
+              ) : (
+                <p className="text-[10px] text-center text-muted-foreground">
+                  Uses wallet credits • plan caps apply •{' '}
+                  <button
+                    onClick={() => setShowScrapeOptions(prev => !prev)}
+                    className="text-primary hover:underline"
+                  >
+                    Scrape options
+                  </button>
+                  {url && !isWalletEmpty && (
+                    <>
+                      {' '}•{' '}
+                      <button
+                        onClick={handleQuote}
+                        disabled={quoteLoading}
+                        className="text-primary hover:underline disabled:opacity-50"
+                      >
+                        {quoteLoading ? <Loader2 className="inline w-3 h-3 animate-spin" /> : "Estimate cost"}
+                      </button>
+                    </>
+                  )}
+                </p>
+              )}
+              {quoteError && (
+                <p className="text-[11px] text-center text-red-500">{quoteError}</p>
+              )}
+              {showScrapeOptions && (
+                <div className="p-3 rounded-lg border border-border/50 bg-card/30 space-y-3">
+                  <div className="flex items-center gap-2 text-xs font-medium">
+                    <SlidersHorizontal className="w-3.5 h-3.5 text-primary" />
+                    Scrape depth for this analysis
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1.5">
+                      <Button
+                        size="sm"
+                        variant={reactionsOn ? 'secondary' : 'outline'}
+                        className="w-full h-7 text-xs"
+                        // One of the two has to stay on
+                        disabled={reactionsOn && !commentsOn}
+                        onClick={() => updateScrapeOptions(() => setReactionsOn(prev => !prev))}
+                      >
+                        <ThumbsUp className="w-3 h-3 mr-1.5" />
+                        Reactions {reactionsOn ? 'on' : 'off'}
+                      </Button>
+                      <Input
+                        type="number"
+                        min="1"
+                        max={planLimits.reactionCap}
+                        step="1"
+                        placeholder={`Up to ${planLimits.reactionCap}`}
+                        value={reactionCap}
+                        disabled={!reactionsOn}
+                        onChange={(e) => updateScrapeOptions(() => setReactionCap(e.target.value))}
+                        className="h-7 text-xs"
+                      />
+                    </div>
+                    <div className="space-y-1.5">
+                      <Button
+                        size="sm"
+                        variant={commentsOn ? 'secondary' : 'outline'}
+                        className="w-full h-7 text-xs"
+                        disabled={commentsOn && !reactionsOn}
+                        onClick={() => updateScrapeOptions(() => setCommentsOn(prev => !prev))}
+                      >
+                        <MessageCircle className="w-3 h-3 mr-1.5" />
+                        Comments {commentsOn ? 'on' : 'off'}
+                      </Button>
+                      <Input
+                        type="number"
+                        min="1"
+                        max={planLimits.commentCap}
+                        step="1"
+                        placeholder={`Up to ${planLimits.commentCap}`}
+                        value={commentCap}
+                        disabled={!commentsOn}
+                        onChange={(e) => updateScrapeOptions(() => setCommentCap(e.target.value))}
+                        className="h-7 text-xs"
+                      />
+                    </div>
+                  </div>
+                  {reactionsOn && (
+                    <div className="space-y-1.5">
+                      <div className="text-[11px] text-muted-foreground">
+                        Keep only these reactions {reactionTypes.length === 0 && '(all when none are picked)'}
+                      </div>
+                      <div className="flex flex-wrap gap-1.5">
+                        {REACTION_TYPES.map((type) => (
+                          <Button
+                            key={type.value}
+                            size="sm"
+                            variant={reactionTypes.includes(type.value) ? 'secondary' : 'outline'}
+                            className="h-6 px-2 text-[11px]"
+                            onClick={() => toggleReactionType(type.value)}
+                          >
+                            {type.label}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  <p className="text-[10px] text-muted-foreground">
+                    Credits are reserved for the caps you pick, up to your plan&apos;s. Every scraped reaction is
+                    charged; the reaction filter only decides which become leads.
+                  </p>
+                </div>
+              )}
+              <button
+                onClick={() => router.push('/dashboard/analyze/bulk')}
+                className="w-full text-[11px] text-center text-primary hover:underline"
+              >
+                Have several posts? Analyze them in bulk
+              </button>
             </div>
           </div>
         )}
@@ -976,7 +1225,7 @@ export default function AnalyzePage() {
                   <div className="flex-1 overflow-y-auto">
                     <div className="grid gap-3 pb-3">
                       {qualifiedLeads.slice(0, 10).map((lead, index) => (
-                        <LeadCard key={index} lead={lead} index={index} />
+                        <LeadCard key={index} lead={lead} index={index} sourceAnalysisId={savedAnalysisId} sourcePostUrl={url} />
                       ))}
                     </div>
                     {qualifiedLeads.length > 10 && (
@@ -1,10 +1,19 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useToast, useConfirm } from "@/components/ui/toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { cn } from "@/lib/utils";
+import { EXPORT_COLUMNS, EXPORT_FORMATS, type ExportColumnKey, type ExportFormat } from "@/lib/export";
 import {
   Search,
   Users,
@@ -26,7 +35,15 @@ import {
   Briefcase,
   UserCheck,
   Mail,
-  CheckCircle2
+  CheckCircle2,
+  ArrowUpDown,
+  CloudUpload,
+  Kanban,
+  List,
+  MessageSquare,
+  Tag,
+  UserRound,
+  X
 } from "lucide-react";
 import Link from "next/link";
 
@@ -76,9 +93,82 @@ interface CRMLead {
   profile_picture?: string;
   source_analysis_id?: string;
   source_post_url?: string;
+  icp_score?: number;
   added_at: string;
   enrichment_status: 'pending' | 'enriching' | 'enriched' | 'failed';
   enriched_data?: EnrichedData;
+  email?: string | null;
+  email_status?: 'found' | 'risky' | 'not_found' | null;
+  hubspot_contact_id?: string | null;
+  hubspot_sync_status?: 'synced' | 'failed' | null;
+  hubspot_sync_error?: string | null;
+  hubspot_synced_at?: string | null;
+  salesforce_id?: string | null;
+  salesforce_object?: 'Lead' | 'Contact' | null;
+  salesforce_sync_status?: 'synced' | 'failed' | null;
+  salesforce_sync_error?: string | null;
+  salesforce_synced_at?: string | null;
+  notes?: string | null;
+  tags: string[];
+  stage: CRMLeadStage;
+  owner?: string | null;
+}
+
+type CRMLeadStage = 'new' | 'contacted' | 'replied' | 'meeting' | 'won' | 'lost';
+
+// Mirrors CRM_LEAD_STAGES in lib/crm-leads.ts (server-only)
+const CRM_LEAD_STAGES: { value: CRMLeadStage; label: string; color: string }[] = [
+  { value: 'new', label: 'New', color: 'bg-slate-500/10 text-slate-400 border-slate-500/20' },
+  { value: 'contacted', label: 'Contacted', color: 'bg-blue-500/10 text-blue-500 border-blue-500/20' },
+  { value: 'replied', label: 'Replied', color: 'bg-violet-500/10 text-violet-500 border-violet-500/20' },
+  { value: 'meeting', label: 'Meeting', color: 'bg-amber-500/10 text-amber-500 border-amber-500/20' },
+  { value: 'won', label: 'Won', color: 'bg-emerald-500/10 text-emerald-500 border-emerald-500/20' },
+  { value: 'lost', label: 'Lost', color: 'bg-red-500/10 text-red-500 border-red-500/20' },
+];
+
+const STAGE_BY_VALUE = new Map(CRM_LEAD_STAGES.map((stage) => [stage.value, stage]));
+
+// Mirrors CRMLeadNote in lib/crm-leads.ts
+interface CRMLeadNote {
+  id: string;
+  lead_id: string;
+  author_user_id: string | null;
+  author_email: string | null;
+  body: string;
+  created_at: string;
+}
+
+// Mirrors getCRMStats in lib/data-store.ts
+interface CRMStats {
+  totalLeads: number;
+  enrichedLeads: number;
+  pendingLeads: number;
+  stageCounts: Record<CRMLeadStage, number>;
+}
+
+// From GET /api/workspace; offered as lead owners
+interface WorkspaceMemberOption {
+  user_id: string;
+  email: string;
+  full_name: string | null;
+}
+
+type CRMIntegrationProvider = 'hubspot' | 'salesforce';
+
+const INTEGRATION_NAMES: Record<CRMIntegrationProvider, string> = {
+  hubspot: 'HubSpot',
+  salesforce: 'Salesforce',
+};
+
+// Mirrors CRMSyncLogEntry in lib/crm-integrations.ts
+interface CRMSyncLogEntry {
+  id: string;
+  provider: CRMIntegrationProvider;
+  action: 'created' | 'updated' | 'matched' | 'failed';
+  external_object: string | null;
+  external_id: string | null;
+  error: string | null;
+  created_at: string;
 }
 
 // ============================================================================
@@ -236,16 +326,22 @@ function LeadRow({
   onSelect,
   onEnrich,
   onGetEmail,
+  isFindingEmail,
   isExpanded,
-  onToggleExpand
+  onToggleExpand,
+  onShowSyncLog,
+  onOpenDetails
 }: { 
   lead: CRMLead; 
   isSelected: boolean;
   onSelect: (selected: boolean) => void;
   onEnrich: () => void;
   onGetEmail: () => void;
+  isFindingEmail: boolean;
   isExpanded: boolean;
   onToggleExpand: () => void;
+  onShowSyncLog: () => void;
+  onOpenDetails: () => void;
 }) {
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -338,6 +434,7 @@ function LeadRow({
             <span className="text-sm font-medium text-foreground truncate">
               {displayName}
             </span>
+            <StageBadge stage={lead.stage} />
             {/* Status badge */}
             {lead.enrichment_status === 'enriched' && (
               <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-emerald-500/10 text-emerald-500">
@@ -349,12 +446,65 @@ function LeadRow({
                 <Loader2 className="w-3 h-3 animate-spin" />
               </span>
             )}
+            {/* CRM push status - opens the sync log */}
+            {lead.hubspot_sync_status === 'synced' && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onShowSyncLog();
+                }}
+                className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-orange-500/10 text-orange-500"
+                title={lead.hubspot_synced_at ? `Pushed to HubSpot ${new Date(lead.hubspot_synced_at).toLocaleString()}` : 'In HubSpot'}
+              >
+                <CloudUpload className="w-3 h-3" />
+                HubSpot
+              </button>
+            )}
+            {lead.hubspot_sync_status === 'failed' && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onShowSyncLog();
+                }}
+                className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-red-500/10 text-red-500"
+                title={lead.hubspot_sync_error || 'HubSpot push failed'}
+              >
+                <CloudUpload className="w-3 h-3" />
+                HubSpot failed
+              </button>
+            )}
+            {lead.salesforce_sync_status === 'synced' && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onShowSyncLog();
+                }}
+                className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-sky-500/10 text-sky-500"
+                title={lead.salesforce_synced_at ? `Pushed to Salesforce ${new Date(lead.salesforce_synced_at).toLocaleString()}` : 'In Salesforce'}
+              >
+                <CloudUpload className="w-3 h-3" />
+                Salesforce {lead.salesforce_object === 'Contact' ? 'Contact' : 'Lead'}
+              </button>
+            )}
+            {lead.salesforce_sync_status === 'failed' && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onShowSyncLog();
+                }}
+                className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-red-500/10 text-red-500"
+                title={lead.salesforce_sync_error || 'Salesforce push failed'}
+              >
+                <CloudUpload className="w-3 h-3" />
+                Salesforce failed
+              </button>
+            )}
           </div>
           <p className="text-xs text-muted-foreground truncate">
             {displayHeadline}
           </p>
-          {/* Show company/location if enriched */}
-          {(displayCompany || displayLocation) && (
+          {/* Show company/location if enriched, plus owner and tags */}
+          {(displayCompany || displayLocation || lead.owner || lead.tags.length > 0) && (
             <div className="flex items-center gap-3 mt-0.5 text-[10px] text-muted-foreground">
               {displayCompany && (
                 <span className="inline-flex items-center gap-1">
@@ -368,10 +518,32 @@ function LeadRow({
                   {displayLocation}
                 </span>
               )}
+              {lead.owner && (
+                <span className="inline-flex items-center gap-1">
+                  <UserRound className="w-3 h-3" />
+                  {lead.owner}
+                </span>
+              )}
+              {lead.tags.length > 0 && (
+                <span className="inline-flex items-center gap-1 truncate">
+                  <Tag className="w-3 h-3 flex-shrink-0" />
+                  {lead.tags.join(', ')}
+                </span>
+              )}
             </div>
           )}
         </div>
 
+        {/* ICP Score */}
+        <div className={cn(
+          "flex-shrink-0 w-12 text-xs font-medium tabular-nums",
+          lead.icp_score === undefined || lead.icp_score === null
+            ? "text-muted-foreground"
+            : lead.icp_score >= 70 ? "text-emerald-500" : lead.icp_score >= 40 ? "text-amber-500" : "text-muted-foreground"
+        )}>
+          {lead.icp_score ?? '—'}
+        </div>
+
         {/* Added Date */}
         <div className="flex-shrink-0 w-20 text-xs text-muted-foreground">
           {formatDate(lead.added_at)}
@@ -379,6 +551,18 @@ function LeadRow({
 
         {/* Actions */}
         <div className="flex items-center gap-2 flex-shrink-0">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-muted-foreground"
+            title="Stage, owner, tags and notes"
+            onClick={(e) => {
+              e.stopPropagation();
+              onOpenDetails();
+            }}
+          >
+            <MessageSquare className="w-4 h-4" />
+          </Button>
           <a 
             href={lead.profile_url} 
             target="_blank" 
@@ -427,18 +611,40 @@ function LeadRow({
                 <CheckCircle2 className="w-3 h-3" />
                 Enriched
               </span>
-              <Button
-                variant="outline"
-                size="sm"
-                className="h-8 text-xs"
-                onClick={(e) => {
-                  e.stopPropagation();
-                  onGetEmail();
-                }}
-              >
-                <Mail className="w-3 h-3 mr-1.5" />
-                Get Email
-              </Button>
+              {lead.email ? (
+                <a
+                  href={`mailto:${lead.email}`}
+                  onClick={(e) => e.stopPropagation()}
+                  title={lead.email_status === 'risky' ? 'Unverified: the domain accepts all addresses' : 'Verified email'}
+                  className={cn(
+                    "inline-flex items-center gap-1 px-2 py-1 rounded-md text-[10px] font-medium border max-w-[180px]",
+                    lead.email_status === 'risky'
+                      ? "bg-amber-500/10 text-amber-500 border-amber-500/20"
+                      : "bg-emerald-500/10 text-emerald-500 border-emerald-500/20"
+                  )}
+                >
+                  <Mail className="w-3 h-3 flex-shrink-0" />
+                  <span className="truncate">{lead.email}</span>
+                </a>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 text-xs"
+                  disabled={isFindingEmail}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onGetEmail();
+                  }}
+                >
+                  {isFindingEmail ? (
+                    <Loader2 className="w-3 h-3 mr-1.5 animate-spin" />
+                  ) : (
+                    <Mail className="w-3 h-3 mr-1.5" />
+                  )}
+                  {lead.email_status === 'not_found' ? 'Retry Email' : 'Get Email'}
+                </Button>
+              )}
             </>
           )}
 
@@ -515,6 +721,653 @@ function StatCard({
   );
 }
 
+// ============================================================================
+// EXPORT DIALOG
+// ============================================================================
+
+// Analysis-only columns are always empty for CRM leads
+const CRM_EXPORT_COLUMNS = EXPORT_COLUMNS.filter(
+  (column) => !['matchesICP', 'icpReason', 'source', 'commentText'].includes(column.key)
+);
+
+function ExportDialog({
+  open,
+  onOpenChange,
+  leadCount,
+  isExporting,
+  onExport,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  leadCount: number;
+  isExporting: boolean;
+  onExport: (format: ExportFormat | null, columns: ExportColumnKey[]) => void;
+}) {
+  // null = the default format saved in Settings
+  const [format, setFormat] = useState<ExportFormat | null>(null);
+  const [columns, setColumns] = useState<Set<ExportColumnKey>>(
+    () => new Set(CRM_EXPORT_COLUMNS.map((column) => column.key))
+  );
+
+  const toggleColumn = (key: ExportColumnKey) => {
+    const next = new Set(columns);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    setColumns(next);
+  };
+
+  const allSelected = columns.size === CRM_EXPORT_COLUMNS.length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Export leads</DialogTitle>
+          <DialogDescription>
+            Exports the {leadCount} lead{leadCount !== 1 ? 's' : ''} matching your current search and filters.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <p className="text-xs font-medium text-muted-foreground mb-2">Format</p>
+            <div className="flex flex-wrap gap-1.5">
+              <Button
+                variant={format === null ? "secondary" : "outline"}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setFormat(null)}
+              >
+                Default
+              </Button>
+              {EXPORT_FORMATS.map((option) => (
+                <Button
+                  key={option.value}
+                  variant={format === option.value ? "secondary" : "outline"}
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setFormat(option.value)}
+                  title={option.description}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {format !== 'vcf' && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-xs font-medium text-muted-foreground">Columns</p>
+                <button
+                  className="text-xs text-primary hover:underline"
+                  onClick={() =>
+                    setColumns(allSelected ? new Set() : new Set(CRM_EXPORT_COLUMNS.map((column) => column.key)))
+                  }
+                >
+                  {allSelected ? 'Clear all' : 'Select all'}
+                </button>
+              </div>
+              <div className="grid grid-cols-3 gap-x-3 gap-y-1.5 max-h-56 overflow-y-auto">
+                {CRM_EXPORT_COLUMNS.map((column) => (
+                  <label key={column.key} className="flex items-center gap-2 text-xs cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={columns.has(column.key)}
+                      onChange={() => toggleColumn(column.key)}
+                      className="accent-primary"
+                    />
+                    {column.header}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() =>
+              // Keep the picker's order rather than the click order
+              onExport(format, CRM_EXPORT_COLUMNS.map((column) => column.key).filter((key) => columns.has(key)))
+            }
+            disabled={isExporting || (format !== 'vcf' && columns.size === 0)}
+          >
+            {isExporting ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="w-4 h-4 mr-2" />
+            )}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ============================================================================
+// SYNC LOG DIALOG - Every HubSpot/Salesforce push for one lead
+// ============================================================================
+const SYNC_ACTION_LABELS: Record<CRMSyncLogEntry['action'], string> = {
+  created: 'Created',
+  updated: 'Updated',
+  matched: 'Matched existing',
+  failed: 'Failed',
+};
+
+function SyncLogDialog({
+  lead,
+  onOpenChange,
+}: {
+  lead: CRMLead | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [entries, setEntries] = useState<CRMSyncLogEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const leadId = lead?.id;
+
+  useEffect(() => {
+    if (!leadId) return;
+
+    const fetchLog = async () => {
+      setLoading(true);
+      try {
+        const res = await fetch(`/api/crm/sync-log?leadId=${encodeURIComponent(leadId)}`);
+        const data = await res.json();
+        setEntries(data.success ? data.entries : []);
+      } catch (error) {
+        console.error('Failed to fetch sync log:', error);
+        setEntries([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchLog();
+  }, [leadId]);
+
+  return (
+    <Dialog open={!!lead} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Sync history</DialogTitle>
+          <DialogDescription>
+            {lead ? `Pushes of ${lead.enriched_data?.fullName || lead.name} to connected CRMs` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No pushes yet</p>
+        ) : (
+          <div className="max-h-[360px] overflow-y-auto rounded-lg border border-border/50 divide-y divide-border/30">
+            {entries.map((entry) => (
+              <div key={entry.id} className="px-3 py-2 text-sm">
+                <div className="flex items-center justify-between gap-3">
+                  <span className="font-medium">
+                    {INTEGRATION_NAMES[entry.provider]}
+                    <span className={cn(
+                      "ml-2 text-xs font-normal",
+                      entry.action === 'failed' ? "text-red-500" : "text-muted-foreground"
+                    )}>
+                      {SYNC_ACTION_LABELS[entry.action]}
+                      {entry.external_object && ` ${entry.external_object}`}
+                    </span>
+                  </span>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {new Date(entry.created_at).toLocaleString()}
+                  </span>
+                </div>
+                {entry.external_id && (
+                  <p className="text-xs text-muted-foreground font-mono mt-0.5">{entry.external_id}</p>
+                )}
+                {entry.error && (
+                  <p className="text-xs text-red-500 mt-0.5">{entry.error}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ============================================================================
+// PIPELINE - Stage badge, bulk stage menu, lead details and the Kanban board
+// ============================================================================
+function StageBadge({ stage }: { stage: CRMLeadStage }) {
+  const config = STAGE_BY_VALUE.get(stage) ?? CRM_LEAD_STAGES[0];
+  return (
+    <span className={cn("inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium border", config.color)}>
+      {config.label}
+    </span>
+  );
+}
+
+function StageMenu({
+  count,
+  disabled,
+  onSelect,
+}: {
+  count: number;
+  disabled: boolean;
+  onSelect: (stage: CRMLeadStage) => void;
+}) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-7 text-xs"
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+      >
+        {disabled ? (
+          <Loader2 className="w-3 h-3 mr-1.5 animate-spin" />
+        ) : (
+          <Kanban className="w-3 h-3 mr-1.5" />
+        )}
+        Stage ({count})
+        <ChevronDown className="w-3 h-3 ml-1" />
+      </Button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 top-full z-50 mt-1 w-36 rounded-lg border border-border/50 bg-popover p-1 shadow-xl">
+            {CRM_LEAD_STAGES.map((stage) => (
+              <button
+                key={stage.value}
+                onClick={() => {
+                  setOpen(false);
+                  onSelect(stage.value);
+                }}
+                className="flex w-full items-center rounded-md px-2 py-1.5 text-xs text-muted-foreground hover:bg-muted/50 hover:text-foreground transition-colors"
+              >
+                {stage.label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+type CRMLeadFields = Partial<Pick<CRMLead, 'stage' | 'owner' | 'tags'>>;
+
+function LeadDetailsDialog({
+  lead,
+  members,
+  currentUserId,
+  canDeleteAnyNote,
+  onOpenChange,
+  onUpdate,
+}: {
+  lead: CRMLead | null;
+  members: WorkspaceMemberOption[];
+  currentUserId: string | null;
+  canDeleteAnyNote: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUpdate: (fields: CRMLeadFields) => Promise<boolean>;
+}) {
+  const { addToast } = useToast();
+  const [notes, setNotes] = useState<CRMLeadNote[]>([]);
+  const [loadingNotes, setLoadingNotes] = useState(false);
+  const [noteDraft, setNoteDraft] = useState("");
+  const [savingNote, setSavingNote] = useState(false);
+  const [tagDraft, setTagDraft] = useState("");
+  const [ownerDraft, setOwnerDraft] = useState("");
+  const leadId = lead?.id;
+  const leadOwner = lead?.owner;
+
+  useEffect(() => {
+    if (!leadId) return;
+    setNoteDraft("");
+    setTagDraft("");
+
+    const fetchNotes = async () => {
+      setLoadingNotes(true);
+      try {
+        const res = await fetch(`/api/crm/leads/${encodeURIComponent(leadId)}/notes`);
+        const data = await res.json();
+        setNotes(data.success ? data.notes : []);
+      } catch (error) {
+        console.error('Failed to fetch lead notes:', error);
+        setNotes([]);
+      } finally {
+        setLoadingNotes(false);
+      }
+    };
+
+    fetchNotes();
+  }, [leadId]);
+
+  useEffect(() => {
+    setOwnerDraft(leadOwner || "");
+  }, [leadId, leadOwner]);
+
+  const handleAddNote = async () => {
+    if (!lead || !noteDraft.trim()) return;
+    setSavingNote(true);
+    try {
+      const res = await fetch(`/api/crm/leads/${encodeURIComponent(lead.id)}/notes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body: noteDraft }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        addToast("error", "Note not saved", data.error || "Please try again");
+        return;
+      }
+      setNotes(prev => [data.note, ...prev]);
+      setNoteDraft("");
+    } catch (error) {
+      console.error('Failed to add note:', error);
+      addToast("error", "Note not saved", "Could not connect to the server");
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  const handleDeleteNote = async (note: CRMLeadNote) => {
+    if (!lead) return;
+    try {
+      const res = await fetch(
+        `/api/crm/leads/${encodeURIComponent(lead.id)}/notes/${encodeURIComponent(note.id)}`,
+        { method: 'DELETE' }
+      );
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        addToast("error", "Note not deleted", data.error || "Please try again");
+        return;
+      }
+      setNotes(prev => prev.filter(n => n.id !== note.id));
+    } catch (error) {
+      console.error('Failed to delete note:', error);
+      addToast("error", "Note not deleted", "Could not connect to the server");
+    }
+  };
+
+  const handleAddTag = async () => {
+    if (!lead) return;
+    const tag = tagDraft.trim().toLowerCase();
+    if (!tag || lead.tags.includes(tag)) {
+      setTagDraft("");
+      return;
+    }
+    if (await onUpdate({ tags: [...lead.tags, tag] })) {
+      setTagDraft("");
+    }
+  };
+
+  const handleSaveOwner = () => {
+    if (!lead || ownerDraft.trim() === (lead.owner || "")) return;
+    onUpdate({ owner: ownerDraft.trim() || null });
+  };
+
+  return (
+    <Dialog open={!!lead} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>{lead ? lead.enriched_data?.fullName || lead.name : ''}</DialogTitle>
+          <DialogDescription className="truncate">
+            {lead ? lead.enriched_data?.headline || lead.headline : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {lead && (
+          <div className="space-y-4">
+            <div>
+              <p className="text-xs font-medium text-muted-foreground mb-2">Stage</p>
+              <div className="flex flex-wrap gap-1.5">
+                {CRM_LEAD_STAGES.map((stage) => (
+                  <Button
+                    key={stage.value}
+                    variant={lead.stage === stage.value ? "secondary" : "outline"}
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => lead.stage !== stage.value && onUpdate({ stage: stage.value })}
+                  >
+                    {stage.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-xs font-medium text-muted-foreground mb-2">Owner</p>
+              {members.length > 0 ? (
+                <div className="flex flex-wrap gap-1.5">
+                  <Button
+                    variant={!lead.owner ? "secondary" : "outline"}
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => lead.owner && onUpdate({ owner: null })}
+                  >
+                    Unassigned
+                  </Button>
+                  {members.map((member) => (
+                    <Button
+                      key={member.user_id}
+                      variant={lead.owner === member.email ? "secondary" : "outline"}
+                      size="sm"
+                      className="h-7 text-xs"
+                      title={member.email}
+                      onClick={() => lead.owner !== member.email && onUpdate({ owner: member.email })}
+                    >
+                      {member.full_name || member.email}
+                    </Button>
+                  ))}
+                </div>
+              ) : (
+                <Input
+                  value={ownerDraft}
+                  onChange={(e) => setOwnerDraft(e.target.value)}
+                  onBlur={handleSaveOwner}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSaveOwner()}
+                  placeholder="Unassigned"
+                  maxLength={100}
+                  className="h-8 text-xs"
+                />
+              )}
+            </div>
+
+            <div>
+              <p className="text-xs font-medium text-muted-foreground mb-2">Tags</p>
+              <div className="flex flex-wrap items-center gap-1.5">
+                {lead.tags.map((tag) => (
+                  <span
+                    key={tag}
+                    className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-[11px] border bg-muted/40 text-muted-foreground border-border/50"
+                  >
+                    {tag}
+                    <button
+                      onClick={() => onUpdate({ tags: lead.tags.filter((t) => t !== tag) })}
+                      className="hover:text-foreground"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+                <Input
+                  value={tagDraft}
+                  onChange={(e) => setTagDraft(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAddTag()}
+                  placeholder="Add tag"
+                  maxLength={40}
+                  className="h-7 w-28 text-xs"
+                />
+              </div>
+            </div>
+
+            <div>
+              <p className="text-xs font-medium text-muted-foreground mb-2">Notes</p>
+              <textarea
+                value={noteDraft}
+                onChange={(e) => setNoteDraft(e.target.value)}
+                placeholder="Called, sent a follow-up..."
+                rows={3}
+                maxLength={5000}
+                className="w-full rounded-lg border border-border/50 bg-background/50 px-3 py-2 text-sm focus:outline-none focus:border-primary/50"
+              />
+              <div className="flex justify-end mt-1.5">
+                <Button size="sm" className="h-7 text-xs" onClick={handleAddNote} disabled={savingNote || !noteDraft.trim()}>
+                  {savingNote && <Loader2 className="w-3 h-3 mr-1.5 animate-spin" />}
+                  Add Note
+                </Button>
+              </div>
+
+              {loadingNotes ? (
+                <div className="flex items-center justify-center py-6">
+                  <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : notes.length > 0 && (
+                <div className="mt-3 max-h-[240px] overflow-y-auto rounded-lg border border-border/50 divide-y divide-border/30">
+                  {notes.map((note) => (
+                    <div key={note.id} className="group px-3 py-2 text-sm">
+                      <div className="flex items-center justify-between gap-3 text-xs text-muted-foreground">
+                        <span className="truncate">{note.author_email || 'Imported note'}</span>
+                        <span className="flex items-center gap-2 shrink-0">
+                          {new Date(note.created_at).toLocaleString()}
+                          {(canDeleteAnyNote || note.author_user_id === currentUserId) && (
+                            <button
+                              onClick={() => handleDeleteNote(note)}
+                              className="opacity-0 group-hover:opacity-100 hover:text-red-500 transition-opacity"
+                              title="Delete note"
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </button>
+                          )}
+                        </span>
+                      </div>
+                      <p className="mt-0.5 whitespace-pre-wrap break-words">{note.body}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** Kanban view: one column per stage; drag a card to move the lead */
+function PipelineBoard({
+  leads,
+  onMove,
+  onOpen,
+}: {
+  leads: CRMLead[];
+  onMove: (id: string, stage: CRMLeadStage) => void;
+  onOpen: (lead: CRMLead) => void;
+}) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [overStage, setOverStage] = useState<CRMLeadStage | null>(null);
+
+  return (
+    <div className="grid grid-cols-6 gap-3 overflow-x-auto pb-2">
+      {CRM_LEAD_STAGES.map((stage) => {
+        const stageLeads = leads.filter((lead) => lead.stage === stage.value);
+        return (
+          <div
+            key={stage.value}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setOverStage(stage.value);
+            }}
+            onDragLeave={() => setOverStage((prev) => (prev === stage.value ? null : prev))}
+            onDrop={(e) => {
+              e.preventDefault();
+              const id = e.dataTransfer.getData('text/plain');
+              const lead = leads.find((l) => l.id === id);
+              if (lead && lead.stage !== stage.value) onMove(id, stage.value);
+              setDraggingId(null);
+              setOverStage(null);
+            }}
+            className={cn(
+              "min-w-[180px] rounded-lg border bg-card/30 flex flex-col transition-colors",
+              overStage === stage.value ? "border-primary/50 bg-primary/5" : "border-border/50"
+            )}
+          >
+            <div className="flex items-center justify-between px-3 py-2 border-b border-border/50">
+              <StageBadge stage={stage.value} />
+              <span className="text-xs text-muted-foreground tabular-nums">{stageLeads.length}</span>
+            </div>
+
+            <div className="flex-1 space-y-2 p-2 min-h-[120px] max-h-[600px] overflow-y-auto">
+              {stageLeads.map((lead) => (
+                <div
+                  key={lead.id}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData('text/plain', lead.id);
+                    setDraggingId(lead.id);
+                  }}
+                  onDragEnd={() => setDraggingId(null)}
+                  onClick={() => onOpen(lead)}
+                  className={cn(
+                    "rounded-md border border-border/50 bg-background/60 p-2 cursor-grab hover:border-border transition-opacity",
+                    draggingId === lead.id && "opacity-50"
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs font-medium truncate">
+                      {lead.enriched_data?.fullName || lead.name}
+                    </span>
+                    {lead.icp_score !== undefined && lead.icp_score !== null && (
+                      <span className={cn(
+                        "text-[10px] font-medium tabular-nums",
+                        lead.icp_score >= 70 ? "text-emerald-500" : lead.icp_score >= 40 ? "text-amber-500" : "text-muted-foreground"
+                      )}>
+                        {lead.icp_score}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-[10px] text-muted-foreground line-clamp-2 mt-0.5">
+                    {lead.enriched_data?.headline || lead.headline}
+                  </p>
+                  {(lead.owner || lead.tags.length > 0) && (
+                    <div className="flex flex-wrap items-center gap-1 mt-1.5">
+                      {lead.owner && (
+                        <span className="inline-flex items-center gap-0.5 text-[10px] text-muted-foreground truncate max-w-full">
+                          <UserRound className="w-3 h-3 flex-shrink-0" />
+                          {lead.owner}
+                        </span>
+                      )}
+                      {lead.tags.map((tag) => (
+                        <span key={tag} className="px-1 rounded text-[10px] bg-muted/60 text-muted-foreground">
+                          {tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 // ============================================================================
 // MAIN CRM PAGE
 // ============================================================================
@@ -524,45 +1377,201 @@ export default function CRMPage() {
   
   const [leads, setLeads] = useState<CRMLead[]>([]);
   const [loading, setLoading] = useState(true);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [matchingTotal, setMatchingTotal] = useState<number | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [stats, setStats] = useState<CRMStats | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [selectedLeads, setSelectedLeads] = useState<Set<string>>(new Set());
   const [filterStatus, setFilterStatus] = useState<'all' | 'pending' | 'enriched'>('all');
+  const [filterStage, setFilterStage] = useState<'all' | CRMLeadStage>('all');
+  const [view, setView] = useState<'list' | 'board'>('list');
+  const [sortBy, setSortBy] = useState<'added' | 'score'>('added');
   const [expandedLeads, setExpandedLeads] = useState<Set<string>>(new Set());
+  const [findingEmailIds, setFindingEmailIds] = useState<Set<string>>(new Set());
+  const [bulkEnrichIds, setBulkEnrichIds] = useState<Set<string> | null>(null);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [connectedIntegrations, setConnectedIntegrations] = useState<CRMIntegrationProvider[]>([]);
+  const [pushingTo, setPushingTo] = useState<CRMIntegrationProvider | null>(null);
+  const [syncLogLead, setSyncLogLead] = useState<CRMLead | null>(null);
+  const [detailsLeadId, setDetailsLeadId] = useState<string | null>(null);
+  const [isUpdatingStage, setIsUpdatingStage] = useState(false);
+  const [members, setMembers] = useState<WorkspaceMemberOption[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [canManageWorkspace, setCanManageWorkspace] = useState(true);
+  // "Select All Pending" selects the first page once the pending filter loads
+  const selectAllOnLoad = useRef(false);
+
+  // Search waits for a pause in typing
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // Filtering, search and sorting happen server-side; the board shows every
+  // stage as a column, so it ignores the stage filter
+  const listStage = view === 'list' ? filterStage : 'all';
+  const listParams = useMemo(() => {
+    const params = new URLSearchParams({ sort: sortBy });
+    if (filterStatus !== 'all') params.set('status', filterStatus);
+    if (listStage !== 'all') params.set('stage', listStage);
+    if (debouncedSearch) params.set('search', debouncedSearch);
+    return params.toString();
+  }, [sortBy, filterStatus, listStage, debouncedSearch]);
 
-  // Load leads from API on mount
+  // First page whenever the filters change; more load on demand
   useEffect(() => {
+    let cancelled = false;
+
     const fetchLeads = async () => {
       try {
-        const response = await fetch('/api/crm/leads');
+        const response = await fetch(`/api/crm/leads?${listParams}`);
         const data = await response.json();
-        if (data.success) {
-          setLeads(data.leads);
+        if (cancelled || !data.success) return;
+
+        setLeads(data.leads);
+        setNextCursor(data.nextCursor);
+        setMatchingTotal(data.total);
+        if (selectAllOnLoad.current) {
+          selectAllOnLoad.current = false;
+          setSelectedLeads(new Set((data.leads as CRMLead[]).map(l => l.id)));
         }
       } catch (error) {
         console.error('Failed to fetch CRM leads:', error);
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     };
 
     fetchLeads();
+    return () => {
+      cancelled = true;
+    };
+  }, [listParams]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const response = await fetch(`/api/crm/leads?${listParams}&cursor=${encodeURIComponent(nextCursor)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        addToast("error", "Couldn't load more leads", data.error || "Please try again");
+        return;
+      }
+      setLeads(prev => {
+        const loaded = new Set(prev.map(l => l.id));
+        return [...prev, ...(data.leads as CRMLead[]).filter(l => !loaded.has(l.id))];
+      });
+      setNextCursor(data.nextCursor);
+    } catch (error) {
+      console.error('Failed to load more CRM leads:', error);
+      addToast("error", "Couldn't load more leads", "Could not connect to the server");
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Account-wide counts for the stat cards and stage filter
+  const fetchStats = useCallback(async () => {
+    try {
+      const response = await fetch('/api/crm/stats');
+      const data = await response.json();
+      if (data.success) {
+        setStats(data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch CRM stats:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats]);
+
+  // Workspace members are offered as lead owners
+  useEffect(() => {
+    const fetchWorkspace = async () => {
+      try {
+        const response = await fetch('/api/workspace');
+        const data = await response.json();
+        if (!response.ok) return;
+        setMembers(data.members || []);
+        setCurrentUserId(data.userId);
+        setCanManageWorkspace(!data.workspace || data.role === 'owner' || data.role === 'admin');
+      } catch (error) {
+        console.error('Failed to fetch workspace:', error);
+      }
+    };
+
+    fetchWorkspace();
+  }, []);
+
+  // Only offer pushing to HubSpot/Salesforce once connected in Settings
+  useEffect(() => {
+    const fetchIntegrationStatus = async () => {
+      const providers: CRMIntegrationProvider[] = ['hubspot', 'salesforce'];
+      const connected = await Promise.all(providers.map(async (provider) => {
+        try {
+          const response = await fetch(`/api/integrations/${provider}`);
+          const data = await response.json();
+          return !!data.integration?.connected;
+        } catch (error) {
+          console.error(`Failed to fetch ${INTEGRATION_NAMES[provider]} status:`, error);
+          return false;
+        }
+      }));
+      setConnectedIntegrations(providers.filter((_, i) => connected[i]));
+    };
+
+    fetchIntegrationStatus();
   }, []);
 
-  // Filter leads
-  const filteredLeads = leads.filter(lead => {
-    const matchesSearch = !searchQuery ||
-      lead.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      lead.headline.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesFilter = filterStatus === 'all' || 
-      (filterStatus === 'pending' && lead.enrichment_status === 'pending') ||
-      (filterStatus === 'enriched' && lead.enrichment_status === 'enriched');
-    return matchesSearch && matchesFilter;
-  });
+  // Poll while a bulk enrichment batch is running
+  useEffect(() => {
+    if (!bulkEnrichIds) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const ids = Array.from(bulkEnrichIds).join(',');
+        const response = await fetch(`/api/crm/leads?ids=${encodeURIComponent(ids)}&limit=${bulkEnrichIds.size}`);
+        const data = await response.json();
+        if (!data.success) return;
+
+        const batchLeads = data.leads as CRMLead[];
+        const updated = new Map(batchLeads.map(l => [l.id, l]));
+        setLeads(prev => prev.map(l => updated.get(l.id) || l));
+        if (batchLeads.some(l => l.enrichment_status === 'enriching')) return;
+
+        const enriched = batchLeads.filter(l => l.enrichment_status === 'enriched').length;
+        setBulkEnrichIds(null);
+        fetchStats();
+        window.dispatchEvent(new CustomEvent('usage-updated'));
+        addToast(
+          enriched > 0 ? "success" : "warning",
+          "Enrichment finished",
+          `${enriched} of ${bulkEnrichIds.size} leads enriched. You were only charged for profiles found.`
+        );
+      } catch (error) {
+        console.error('Failed to poll enrichment progress:', error);
+      }
+    }, 5000);
+
+    return () => clearInterval(interval);
+  }, [bulkEnrichIds, addToast, fetchStats]);
+
+  // Hide leads moved out of the filtered stage since the page was fetched
+  const filteredLeads = listStage === 'all'
+    ? leads
+    : leads.filter(lead => lead.stage === listStage);
 
   // Stats
-  const totalLeads = leads.length;
-  const enrichedCount = leads.filter(l => l.enrichment_status === 'enriched').length;
-  const pendingCount = leads.filter(l => l.enrichment_status === 'pending').length;
+  const totalLeads = stats?.totalLeads ?? 0;
+  const enrichedCount = stats?.enrichedLeads ?? 0;
+  const pendingCount = stats?.pendingLeads ?? 0;
+  const detailsLead = leads.find(l => l.id === detailsLeadId) || null;
 
   // Toggle functions
   const toggleSelectAll = () => {
@@ -593,7 +1602,7 @@ export default function CRMPage() {
     setExpandedLeads(newSet);
   };
 
-  // Enrich a single lead
+  // Enrich a single lead (the enrich route saves the result on the lead)
   const handleEnrich = async (id: string) => {
     const lead = leads.find(l => l.id === id);
     if (!lead) return;
@@ -603,95 +1612,116 @@ export default function CRMPage() {
       l.id === id ? { ...l, enrichment_status: 'enriching' as const } : l
     ));
 
-    // Also update status in database
-    await fetch('/api/crm/leads', {
-      method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ id, enrichment_status: 'enriching' })
-    });
-
     try {
       const response = await fetch('/api/crm/enrich', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ profileUrl: lead.profile_url })
+        body: JSON.stringify({ leadId: id })
       });
 
       const data = await response.json();
 
-      if (data.success && data.profile) {
-        // Update in database
-        await fetch('/api/crm/leads', {
-          method: 'PATCH',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            id,
-            enrichment_status: 'enriched',
-            enriched_data: data.profile,
-            name: data.profile.fullName || lead.name,
-            headline: data.profile.headline || lead.headline,
-            profile_picture: data.profile.profilePicture || lead.profile_picture,
-          })
-        });
-
-        setLeads(prev => prev.map(l => 
-          l.id === id ? { 
-            ...l, 
-            enrichment_status: 'enriched' as const,
-            enriched_data: data.profile,
-            name: data.profile.fullName || l.name,
-            headline: data.profile.headline || l.headline,
-            profile_picture: data.profile.profilePicture || l.profile_picture,
-          } : l
-        ));
+      if (data.success && data.lead) {
+        setLeads(prev => prev.map(l => (l.id === id ? data.lead : l)));
         // Auto-expand to show results
         setExpandedLeads(prev => new Set([...prev, id]));
+        fetchStats();
+        window.dispatchEvent(new CustomEvent('usage-updated'));
       } else {
-        // Update failed status in database
-        await fetch('/api/crm/leads', {
-          method: 'PATCH',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ id, enrichment_status: 'failed' })
-        });
-
+        if (data.limitReached) {
+          addToast("error", "Enrichment failed", data.error);
+        }
         setLeads(prev => prev.map(l => 
           l.id === id ? { ...l, enrichment_status: 'failed' as const } : l
         ));
       }
     } catch (error) {
       console.error('Enrichment failed:', error);
-      
-      // Update failed status in database
-      await fetch('/api/crm/leads', {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ id, enrichment_status: 'failed' })
-      });
-
       setLeads(prev => prev.map(l => 
         l.id === id ? { ...l, enrichment_status: 'failed' as const } : l
       ));
     }
   };
 
-  // Get email for a lead (placeholder - would use email finding API)
+  // Find and verify a lead's email (charged only when an email is found)
   const handleGetEmail = async (id: string) => {
     const lead = leads.find(l => l.id === id);
     if (!lead) return;
 
-    // For now, show a toast that this feature is coming
-    // In the future, this would call an email finder API
-    addToast("info", "Email finder coming soon", `We'll help you find ${lead.name}'s email address`);
+    setFindingEmailIds(prev => new Set([...prev, id]));
+    try {
+      const response = await fetch('/api/crm/email', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ leadId: id })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        addToast("error", "Email lookup failed", data.error);
+        return;
+      }
+
+      setLeads(prev => prev.map(l =>
+        l.id === id ? { ...l, email: data.lead.email, email_status: data.lead.email_status } : l
+      ));
+      if (data.charged) {
+        window.dispatchEvent(new CustomEvent('usage-updated'));
+      }
+
+      if (data.lead.email_status === 'found') {
+        addToast("success", "Email found", data.lead.email);
+      } else if (data.lead.email_status === 'risky') {
+        addToast("warning", "Unverified email found", `${data.lead.email} could not be fully verified`);
+      } else {
+        addToast("info", "No email found", `You weren't charged for ${lead.name}`);
+      }
+    } catch (error) {
+      console.error('Email lookup failed:', error);
+      addToast("error", "Email lookup failed", "Could not connect to the server");
+    } finally {
+      setFindingEmailIds(prev => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+      });
+    }
   };
 
-  // Bulk actions
+  // Bulk actions - enrichment runs server-side; we poll until the batch settles
   const handleBulkEnrich = async () => {
-    const selectedArray = Array.from(selectedLeads);
-    for (const id of selectedArray) {
+    const ids = Array.from(selectedLeads).filter(id => {
       const lead = leads.find(l => l.id === id);
-      if (lead && lead.enrichment_status === 'pending') {
-        await handleEnrich(id);
+      return lead && (lead.enrichment_status === 'pending' || lead.enrichment_status === 'failed');
+    });
+    if (ids.length === 0) {
+      addToast("info", "Nothing to enrich", "The selected leads are already enriched");
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/crm/enrich/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ leadIds: ids })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        addToast("error", "Enrichment not started", data.error);
+        return;
       }
+
+      const queued = new Set<string>(data.leadIds);
+      setLeads(prev => prev.map(l =>
+        queued.has(l.id) ? { ...l, enrichment_status: 'enriching' as const } : l
+      ));
+      setBulkEnrichIds(queued);
+      setSelectedLeads(new Set());
+      addToast("info", "Enrichment started", `Enriching ${queued.size} leads in the background`);
+    } catch (error) {
+      console.error('Bulk enrichment failed:', error);
+      addToast("error", "Enrichment not started", "Could not connect to the server");
     }
   };
 
@@ -717,7 +1747,9 @@ export default function CRMPage() {
       if (data.success) {
         const count = selectedLeads.size;
         setLeads(prev => prev.filter(l => !selectedLeads.has(l.id)));
+        setMatchingTotal(prev => (prev === null ? null : Math.max(0, prev - count)));
         setSelectedLeads(new Set());
+        fetchStats();
         addToast("success", "Leads deleted", `${count} leads removed from your CRM`);
       } else {
         addToast("error", "Delete failed", data.error || "Could not delete leads");
@@ -728,28 +1760,136 @@ export default function CRMPage() {
     }
   };
 
-  const handleExport = () => {
-    // Create CSV
-    const headers = ['Name', 'Headline', 'Company', 'Location', 'LinkedIn URL', 'Status'];
-    const rows = leads.map(l => [
-      l.enriched_data?.fullName || l.name,
-      l.enriched_data?.headline || l.headline,
-      l.enriched_data?.currentCompany || '',
-      l.enriched_data?.location || '',
-      l.profile_url,
-      l.enrichment_status
-    ]);
-    
-    const csv = [headers.join(','), ...rows.map(r => r.map(c => `"${c}"`).join(','))].join('\n');
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'crm-leads.csv';
-    a.click();
-    window.URL.revokeObjectURL(url);
+  // Stage, owner and tag edits from the details dialog and the board
+  const handleUpdateLead = async (id: string, fields: CRMLeadFields): Promise<boolean> => {
+    try {
+      const response = await fetch('/api/crm/leads', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, ...fields })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        addToast("error", "Lead not updated", data.error || "Please try again");
+        return false;
+      }
+      setLeads(prev => prev.map(l => (l.id === id ? data.lead : l)));
+      if (fields.stage) fetchStats();
+      return true;
+    } catch (error) {
+      console.error('Failed to update lead:', error);
+      addToast("error", "Lead not updated", "Could not connect to the server");
+      return false;
+    }
+  };
+
+  const handleMoveLead = async (id: string, stage: CRMLeadStage) => {
+    const previous = leads.find(l => l.id === id)?.stage;
+    setLeads(prev => prev.map(l => (l.id === id ? { ...l, stage } : l)));
+    if (!(await handleUpdateLead(id, { stage })) && previous) {
+      setLeads(prev => prev.map(l => (l.id === id ? { ...l, stage: previous } : l)));
+    }
+  };
+
+  const handleBulkStage = async (stage: CRMLeadStage) => {
+    setIsUpdatingStage(true);
+    try {
+      const response = await fetch('/api/crm/leads', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: Array.from(selectedLeads), stage })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        addToast("error", "Stage not changed", data.error || "Please try again");
+        return;
+      }
+
+      const updated = new Map<string, CRMLead>(data.leads.map((lead: CRMLead) => [lead.id, lead]));
+      setLeads(prev => prev.map(lead => updated.get(lead.id) || lead));
+      setSelectedLeads(new Set());
+      fetchStats();
+      addToast("success", "Stage changed", `${data.updated} lead${data.updated !== 1 ? 's' : ''} moved to ${STAGE_BY_VALUE.get(stage)?.label}`);
+    } catch (error) {
+      console.error('Bulk stage change failed:', error);
+      addToast("error", "Stage not changed", "Could not connect to the server");
+    } finally {
+      setIsUpdatingStage(false);
+    }
+  };
+
+  const handlePushToIntegration = async (provider: CRMIntegrationProvider) => {
+    const name = INTEGRATION_NAMES[provider];
+    const leadIds = Array.from(selectedLeads);
+    setPushingTo(provider);
+    try {
+      const res = await fetch(`/api/crm/${provider}/sync`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ leadIds }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        addToast("error", `${name} push failed`, data.error || "Please try again");
+        return;
+      }
+
+      const updated = new Map<string, CRMLead>(data.leads.map((lead: CRMLead) => [lead.id, lead]));
+      setLeads(prev => prev.map(lead => updated.get(lead.id) || lead));
+
+      if (data.failed > 0) {
+        addToast("warning", "Pushed with errors", `${data.synced} pushed, ${data.failed} failed. Click a failed badge for details.`);
+      } else {
+        addToast("success", `Pushed to ${name}`, `${data.synced} lead${data.synced !== 1 ? 's' : ''} synced`);
+      }
+    } catch (error) {
+      console.error(`${name} push failed:`, error);
+      addToast("error", `${name} push failed`, "Could not connect to the server");
+    } finally {
+      setPushingTo(null);
+    }
   };
 
+  // Exports server-side with the list's current filters; the server names the file
+  const handleExport = async (format: ExportFormat | null, columns: ExportColumnKey[]) => {
+    const params = new URLSearchParams({ status: filterStatus, sort: sortBy });
+    if (searchQuery.trim()) params.set('search', searchQuery.trim());
+    if (view === 'list' && filterStage !== 'all') params.set('stage', filterStage);
+    if (format) params.set('format', format);
+    if (format !== 'vcf') params.set('columns', columns.join(','));
+
+    setIsExporting(true);
+    try {
+      const res = await fetch(`/api/crm/export?${params}`);
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        addToast("error", "Export failed", data.error || "Please try again");
+        return;
+      }
+      const blob = await res.blob();
+      const filename = res.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1];
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename || 'crm-leads';
+      a.click();
+      window.URL.revokeObjectURL(url);
+      setShowExportDialog(false);
+    } catch (error) {
+      console.error('Export failed:', error);
+      addToast("error", "Export failed", "Could not connect to the server");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const loadMoreButton = (
+    <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleLoadMore} disabled={isLoadingMore}>
+      {isLoadingMore && <Loader2 className="w-3 h-3 mr-1.5 animate-spin" />}
+      Load more
+    </Button>
+  );
+
   // Loading state
   if (loading) {
     return (
@@ -772,12 +1912,59 @@ export default function CRMPage() {
             Manage and enrich your leads
           </p>
         </div>
-        <Button variant="outline" size="sm" onClick={handleExport}>
-          <Download className="w-4 h-4 mr-2" />
-          Export CSV
-        </Button>
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-1 p-0.5 rounded-md bg-muted/50 border border-border/50">
+            <Button
+              variant={view === 'list' ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setView('list')}
+              className="h-7 px-2 text-xs"
+            >
+              <List className="w-3.5 h-3.5 mr-1.5" />
+              List
+            </Button>
+            <Button
+              variant={view === 'board' ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => {
+                setView('board');
+                setSelectedLeads(new Set());
+              }}
+              className="h-7 px-2 text-xs"
+            >
+              <Kanban className="w-3.5 h-3.5 mr-1.5" />
+              Board
+            </Button>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setShowExportDialog(true)}>
+            <Download className="w-4 h-4 mr-2" />
+            Export
+          </Button>
+        </div>
       </div>
 
+      <ExportDialog
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+        leadCount={matchingTotal ?? filteredLeads.length}
+        isExporting={isExporting}
+        onExport={handleExport}
+      />
+
+      <SyncLogDialog
+        lead={syncLogLead}
+        onOpenChange={(open) => !open && setSyncLogLead(null)}
+      />
+
+      <LeadDetailsDialog
+        lead={detailsLead}
+        members={members}
+        currentUserId={currentUserId}
+        canDeleteAnyNote={canManageWorkspace}
+        onOpenChange={(open) => !open && setDetailsLeadId(null)}
+        onUpdate={(fields) => (detailsLeadId ? handleUpdateLead(detailsLeadId, fields) : Promise.resolve(false))}
+      />
+
       {/* Stats */}
       <div className="grid grid-cols-3 gap-4">
         <StatCard 
@@ -800,6 +1987,35 @@ export default function CRMPage() {
         />
       </div>
 
+      {/* Stage filter */}
+      {view === 'list' && totalLeads > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <Button
+            variant={filterStage === 'all' ? "secondary" : "outline"}
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setFilterStage('all')}
+          >
+            All stages
+            <span className="ml-1.5 text-muted-foreground tabular-nums">{totalLeads}</span>
+          </Button>
+          {CRM_LEAD_STAGES.map((stage) => (
+            <Button
+              key={stage.value}
+              variant={filterStage === stage.value ? "secondary" : "outline"}
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => setFilterStage(stage.value)}
+            >
+              {stage.label}
+              <span className="ml-1.5 text-muted-foreground tabular-nums">
+                {stats?.stageCounts[stage.value] ?? 0}
+              </span>
+            </Button>
+          ))}
+        </div>
+      )}
+
       {/* Leads Table */}
       <div className="rounded-lg border border-border/50 bg-card/30 overflow-hidden">
         {/* Table Header */}
@@ -807,7 +2023,7 @@ export default function CRMPage() {
           <div className="flex items-center gap-3">
             <span className="text-sm font-medium">Leads</span>
             <span className="text-xs text-muted-foreground bg-muted px-2 py-0.5 rounded">
-              {filteredLeads.length}
+              {matchingTotal ?? filteredLeads.length}
             </span>
             {selectedLeads.size > 0 && (
               <span className="text-xs text-primary bg-primary/10 px-2 py-0.5 rounded">
@@ -825,10 +2041,33 @@ export default function CRMPage() {
                   size="sm" 
                   className="h-7 text-xs"
                   onClick={handleBulkEnrich}
+                  disabled={bulkEnrichIds !== null}
                 >
                   <Sparkles className="w-3 h-3 mr-1.5" />
                   Enrich ({selectedLeads.size})
                 </Button>
+                {connectedIntegrations.map((provider) => (
+                  <Button 
+                    key={provider}
+                    variant="outline" 
+                    size="sm" 
+                    className="h-7 text-xs"
+                    onClick={() => handlePushToIntegration(provider)}
+                    disabled={pushingTo !== null}
+                  >
+                    {pushingTo === provider ? (
+                      <Loader2 className="w-3 h-3 mr-1.5 animate-spin" />
+                    ) : (
+                      <CloudUpload className="w-3 h-3 mr-1.5" />
+                    )}
+                    {INTEGRATION_NAMES[provider]} ({selectedLeads.size})
+                  </Button>
+                ))}
+                <StageMenu
+                  count={selectedLeads.size}
+                  disabled={isUpdatingStage}
+                  onSelect={handleBulkStage}
+                />
                 <Button 
                   variant="outline" 
                   size="sm" 
@@ -880,80 +2119,121 @@ export default function CRMPage() {
                 Enriched
               </Button>
             </div>
-          </div>
-        </div>
 
-        {/* Column Headers */}
-        <div className="flex items-center gap-3 px-4 py-2 border-b border-border/30 bg-muted/20 text-[10px] font-medium text-muted-foreground uppercase tracking-wider">
-          <div className="flex-shrink-0 w-5"></div>
-          <div className="flex-shrink-0 w-5">
-            <div
-              className={cn(
-                "w-4 h-4 rounded border-2 transition-all flex items-center justify-center cursor-pointer",
-                selectedLeads.size === filteredLeads.length && filteredLeads.length > 0
-                  ? "bg-primary border-primary" 
-                  : "border-muted-foreground/30 hover:border-muted-foreground/50"
-              )}
-              onClick={toggleSelectAll}
+            {/* Sort */}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setSortBy(sortBy === 'added' ? 'score' : 'added')}
+              className="h-7 text-xs gap-1.5 text-muted-foreground"
             >
-              {selectedLeads.size === filteredLeads.length && filteredLeads.length > 0 && (
-                <Check className="w-3 h-3 text-primary-foreground" />
-              )}
-            </div>
+              <ArrowUpDown className="w-3 h-3" />
+              {sortBy === 'score' ? 'Score' : 'Newest'}
+            </Button>
           </div>
-          <div className="flex-shrink-0 w-10"></div>
-          <div className="flex-1">Lead</div>
-          <div className="flex-shrink-0 w-20">Added</div>
-          <div className="flex-shrink-0 w-32 text-right">Actions</div>
         </div>
 
-        {/* Rows */}
-        <div>
-          {filteredLeads.length === 0 ? (
-            leads.length === 0 ? (
+        {view === 'board' ? (
+          <div className="p-3">
+            {totalLeads === 0 ? (
               <EmptyState />
             ) : (
-              <div className="text-center py-12">
-                <Search className="w-8 h-8 mx-auto mb-3 text-muted-foreground/40" />
-                <p className="text-sm text-muted-foreground">No leads match your search</p>
+              <>
+                <PipelineBoard
+                  leads={filteredLeads}
+                  onMove={handleMoveLead}
+                  onOpen={(lead) => setDetailsLeadId(lead.id)}
+                />
+                {nextCursor && (
+                  <div className="flex justify-center pt-3">
+                    {loadMoreButton}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        ) : (
+          <>
+            {/* Column Headers */}
+            <div className="flex items-center gap-3 px-4 py-2 border-b border-border/30 bg-muted/20 text-[10px] font-medium text-muted-foreground uppercase tracking-wider">
+              <div className="flex-shrink-0 w-5"></div>
+              <div className="flex-shrink-0 w-5">
+                <div
+                  className={cn(
+                    "w-4 h-4 rounded border-2 transition-all flex items-center justify-center cursor-pointer",
+                    selectedLeads.size === filteredLeads.length && filteredLeads.length > 0
+                      ? "bg-primary border-primary" 
+                      : "border-muted-foreground/30 hover:border-muted-foreground/50"
+                  )}
+                  onClick={toggleSelectAll}
+                >
+                  {selectedLeads.size === filteredLeads.length && filteredLeads.length > 0 && (
+                    <Check className="w-3 h-3 text-primary-foreground" />
+                  )}
+                </div>
               </div>
-            )
-          ) : (
-            filteredLeads.map((lead) => (
-              <LeadRow
-                key={lead.id}
-                lead={lead}
-                isSelected={selectedLeads.has(lead.id)}
-                onSelect={(selected) => toggleSelect(lead.id, selected)}
-                onEnrich={() => handleEnrich(lead.id)}
-                onGetEmail={() => handleGetEmail(lead.id)}
-                isExpanded={expandedLeads.has(lead.id)}
-                onToggleExpand={() => toggleExpand(lead.id)}
-              />
-            ))
-          )}
-        </div>
+              <div className="flex-shrink-0 w-10"></div>
+              <div className="flex-1">Lead</div>
+              <div className="flex-shrink-0 w-12">Score</div>
+              <div className="flex-shrink-0 w-20">Added</div>
+              <div className="flex-shrink-0 w-32 text-right">Actions</div>
+            </div>
 
-        {/* Footer */}
-        {filteredLeads.length > 0 && (
-          <div className="flex items-center justify-between px-4 py-2 border-t border-border/30 bg-muted/20">
-            <div className="flex items-center gap-4 text-xs text-muted-foreground">
-              <span>
-                <span className="text-foreground font-medium">{filteredLeads.length}</span> leads
-              </span>
-              <span>
-                <span className="text-emerald-500 font-medium">{enrichedCount}</span> enriched
-              </span>
+            {/* Rows */}
+            <div>
+              {filteredLeads.length === 0 ? (
+                totalLeads === 0 ? (
+                  <EmptyState />
+                ) : (
+                  <div className="text-center py-12">
+                    <Search className="w-8 h-8 mx-auto mb-3 text-muted-foreground/40" />
+                    <p className="text-sm text-muted-foreground">No leads match your search</p>
+                  </div>
+                )
+              ) : (
+                filteredLeads.map((lead) => (
+                  <LeadRow
+                    key={lead.id}
+                    lead={lead}
+                    isSelected={selectedLeads.has(lead.id)}
+                    onSelect={(selected) => toggleSelect(lead.id, selected)}
+                    onEnrich={() => handleEnrich(lead.id)}
+                    onGetEmail={() => handleGetEmail(lead.id)}
+                    isFindingEmail={findingEmailIds.has(lead.id)}
+                    isExpanded={expandedLeads.has(lead.id)}
+                    onToggleExpand={() => toggleExpand(lead.id)}
+                    onShowSyncLog={() => setSyncLogLead(lead)}
+                    onOpenDetails={() => setDetailsLeadId(lead.id)}
+                  />
+                ))
+              )}
             </div>
-            <p className="text-[10px] text-muted-foreground">
-              Click the arrow to expand enriched profiles
-            </p>
-          </div>
+
+            {/* Footer */}
+            {filteredLeads.length > 0 && (
+              <div className="flex items-center justify-between px-4 py-2 border-t border-border/30 bg-muted/20">
+                <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                  <span>
+                    <span className="text-foreground font-medium">{filteredLeads.length}</span>
+                    {matchingTotal !== null && matchingTotal > filteredLeads.length && ` of ${matchingTotal}`} leads
+                  </span>
+                  <span>
+                    <span className="text-emerald-500 font-medium">{enrichedCount}</span> enriched
+                  </span>
+                </div>
+                {nextCursor ? loadMoreButton : (
+                  <p className="text-[10px] text-muted-foreground">
+                    Click the arrow to expand enriched profiles
+                  </p>
+                )}
+              </div>
+            )}
+          </>
         )}
       </div>
 
       {/* Quick Action Card */}
-      {leads.length > 0 && pendingCount > 0 && (
+      {totalLeads > 0 && pendingCount > 0 && (
         <div className="rounded-lg border border-primary/20 bg-primary/5 p-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-3">
@@ -966,9 +2246,12 @@ export default function CRMPage() {
               </div>
             </div>
             <Button onClick={() => {
-              setFilterStatus('pending');
-              const pendingIds = leads.filter(l => l.enrichment_status === 'pending').map(l => l.id);
-              setSelectedLeads(new Set(pendingIds));
+              if (filterStatus === 'pending') {
+                setSelectedLeads(new Set(leads.filter(l => l.enrichment_status === 'pending').map(l => l.id)));
+              } else {
+                selectAllOnLoad.current = true;
+                setFilterStatus('pending');
+              }
             }}>
               <Sparkles className="w-4 h-4 mr-2" />
               Select All Pending
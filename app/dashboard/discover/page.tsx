@@ -0,0 +1,245 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/toast";
+import {
+  ArrowRight,
+  Compass,
+  ExternalLink,
+  Loader2,
+  MessageCircle,
+  Search,
+  Share2,
+  Target,
+  ThumbsUp,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { DiscoveredPost, PostSearch } from "@/lib/post-discovery";
+
+function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function formatPostedAt(date?: string): string {
+  if (!date) return '';
+  const days = Math.floor((Date.now() - new Date(date).getTime()) / (24 * 60 * 60 * 1000));
+  if (days <= 0) return 'Today';
+  if (days === 1) return 'Yesterday';
+  return `${days}d ago`;
+}
+
+export default function DiscoverPage() {
+  const router = useRouter();
+  const { addToast } = useToast();
+
+  const [topic, setTopic] = useState("");
+  const [searches, setSearches] = useState<PostSearch[]>([]);
+  const [activeSearchId, setActiveSearchId] = useState<string | null>(null);
+  const [searchCost, setSearchCost] = useState<number | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [analyzingUrl, setAnalyzingUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSearches = async () => {
+      try {
+        const res = await fetch('/api/discovery/search');
+        const data = await res.json();
+        setSearches(data.searches || []);
+        setSearchCost(data.searchCost ?? null);
+        if (data.searches?.length) setActiveSearchId(data.searches[0].id);
+      } catch (e) {
+        console.error('Failed to fetch searches:', e);
+      }
+    };
+    fetchSearches();
+  }, []);
+
+  const runSearch = async (useICP: boolean) => {
+    if (!useICP && !topic.trim()) return;
+
+    setSearching(true);
+    try {
+      const res = await fetch('/api/discovery/search', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(useICP ? { useICP: true } : { topic }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        addToast("error", "Search failed", data.error);
+        return;
+      }
+
+      setSearches((prev) => [data.search, ...prev]);
+      setActiveSearchId(data.search.id);
+      window.dispatchEvent(new CustomEvent('usage-updated'));
+    } catch (e) {
+      console.error('Search failed:', e);
+      addToast("error", "Search failed", "Could not connect to the server");
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleAnalyze = async (post: DiscoveredPost) => {
+    setAnalyzingUrl(post.postUrl);
+    try {
+      const res = await fetch('/api/analysis-jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ postUrl: post.postUrl }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        addToast("error", "Analysis not started", data.error);
+        return;
+      }
+
+      window.dispatchEvent(new CustomEvent('usage-updated'));
+      // The analyze page picks up the active job and shows its progress
+      router.push('/dashboard/analyze');
+    } catch (e) {
+      console.error('Failed to start analysis:', e);
+      addToast("error", "Analysis not started", "Could not connect to the server");
+    } finally {
+      setAnalyzingUrl(null);
+    }
+  };
+
+  const activeSearch = searches.find((s) => s.id === activeSearchId) || null;
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div>
+        <h1 className="text-lg font-bold tracking-tight">Discover Posts</h1>
+        <p className="text-muted-foreground text-xs">
+          Find recent high-engagement posts where your buyers are likely to react
+        </p>
+      </div>
+
+      {/* Search */}
+      <div className="bg-card/30 border border-border/50 rounded-xl p-4 space-y-2">
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <div className="absolute inset-y-0 left-2.5 flex items-center pointer-events-none">
+              <Search className="h-4 w-4 text-muted-foreground" />
+            </div>
+            <Input
+              value={topic}
+              onChange={(e) => setTopic(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && runSearch(false)}
+              placeholder="Topic, e.g. revenue operations tooling"
+              className="pl-8 h-9 text-sm"
+            />
+          </div>
+          <Button size="sm" className="h-9" onClick={() => runSearch(false)} disabled={searching || !topic.trim()}>
+            {searching ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : "Search"}
+          </Button>
+          <Button size="sm" variant="outline" className="h-9" onClick={() => runSearch(true)} disabled={searching}>
+            <Target className="w-3.5 h-3.5 mr-1" />
+            Use my ICP
+          </Button>
+        </div>
+        {searchCost !== null && (
+          <p className="text-[10px] text-muted-foreground">
+            {formatCents(searchCost)} per search • only charged when the search completes
+          </p>
+        )}
+      </div>
+
+      {/* Previous searches */}
+      {searches.length > 1 && (
+        <div className="flex flex-wrap gap-1.5">
+          {searches.map((s) => (
+            <button
+              key={s.id}
+              onClick={() => setActiveSearchId(s.id)}
+              className={cn(
+                "px-2 py-1 rounded-md text-xs border transition-colors",
+                s.id === activeSearchId
+                  ? "bg-primary/10 text-primary border-primary/30"
+                  : "text-muted-foreground border-border/50 hover:bg-muted/40"
+              )}
+            >
+              {s.used_icp && <Target className="w-3 h-3 inline mr-1" />}
+              {s.query}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Results */}
+      {!activeSearch ? (
+        <div className="rounded-xl border border-dashed border-border/50 p-10 text-center">
+          <Compass className="w-8 h-8 text-muted-foreground mx-auto mb-3" />
+          <p className="text-sm font-medium">Search a topic or use your ICP</p>
+          <p className="text-xs text-muted-foreground mt-1">
+            Results are ranked by engagement, relevance, how ICP-like the author is, and recency.
+          </p>
+        </div>
+      ) : activeSearch.results.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-border/50 p-10 text-center text-sm text-muted-foreground">
+          No recent posts found for &ldquo;{activeSearch.query}&rdquo;. Try a broader topic.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {activeSearch.results.map((post) => (
+            <div key={post.postUrl} className="flex gap-3 bg-card/30 border border-border/50 rounded-xl p-3">
+              <div
+                className={cn(
+                  "w-11 h-11 rounded-lg flex flex-col items-center justify-center flex-shrink-0 text-sm font-bold tabular-nums",
+                  post.score >= 70 ? "bg-emerald-500/10 text-emerald-500" : post.score >= 40 ? "bg-amber-500/10 text-amber-500" : "bg-muted text-muted-foreground"
+                )}
+                title={Object.entries(post.breakdown).map(([signal, points]) => `${signal}: ${points}`).join('\n')}
+              >
+                {post.score}
+              </div>
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="font-medium truncate">{post.authorName || 'Unknown author'}</span>
+                  {post.authorHeadline && (
+                    <span className="text-muted-foreground truncate">{post.authorHeadline}</span>
+                  )}
+                  {post.postedAt && (
+                    <span className="text-muted-foreground shrink-0">• {formatPostedAt(post.postedAt)}</span>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground line-clamp-2">{post.content}</p>
+                <div className="flex items-center gap-3 text-[11px] text-muted-foreground">
+                  <span className="flex items-center gap-1"><ThumbsUp className="w-3 h-3" />{post.totalReactions}</span>
+                  <span className="flex items-center gap-1"><MessageCircle className="w-3 h-3" />{post.totalComments}</span>
+                  <span className="flex items-center gap-1"><Share2 className="w-3 h-3" />{post.totalShares}</span>
+                  {post.matchedTerms.length > 0 && (
+                    <span className="truncate">Matches: {post.matchedTerms.join(', ')}</span>
+                  )}
+                </div>
+              </div>
+              <div className="flex flex-col gap-1.5 flex-shrink-0">
+                <Button
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => handleAnalyze(post)}
+                  disabled={analyzingUrl !== null}
+                >
+                  {analyzingUrl === post.postUrl ? <Loader2 className="w-3 h-3 animate-spin" /> : <>Analyze<ArrowRight className="w-3 h-3 ml-1" /></>}
+                </Button>
+                <a href={post.postUrl} target="_blank" rel="noopener noreferrer">
+                  <Button size="sm" variant="ghost" className="h-7 text-xs w-full">
+                    <ExternalLink className="w-3 h-3 mr-1" />
+                    Open
+                  </Button>
+                </a>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
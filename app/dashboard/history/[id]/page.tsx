@@ -21,9 +21,13 @@ import {
   ArrowUpDown,
   Circle,
   Database,
-  Plus
+  Plus,
+  CloudUpload
 } from "lucide-react";
 
+// Matches MAX_SALESFORCE_SYNC_LEADS in lib/salesforce.ts (server-only)
+const MAX_SALESFORCE_PUSH = 100;
+
 // ============================================================================
 // LINEAR-STYLE TABLE ROW COMPONENT
 // ============================================================================
@@ -94,10 +98,29 @@ function LeadRow({
         </span>
       </div>
 
+      {/* ICP Score */}
+      <div className="flex-shrink-0 w-12">
+        {lead.icp_score !== undefined ? (
+          <span
+            title={lead.icp_score_breakdown
+              ? Object.entries(lead.icp_score_breakdown).map(([signal, points]) => `${signal}: ${points}`).join('\n')
+              : undefined}
+            className={cn(
+              "text-xs font-medium tabular-nums",
+              lead.icp_score >= 70 ? "text-emerald-500" : lead.icp_score >= 40 ? "text-amber-500" : "text-muted-foreground"
+            )}
+          >
+            {lead.icp_score}
+          </span>
+        ) : (
+          <span className="text-xs text-muted-foreground">—</span>
+        )}
+      </div>
+
       {/* ICP Badge */}
       <div className="flex-shrink-0 w-14">
         {lead.matches_icp && (
-          <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-emerald-500/10 text-emerald-500 border border-emerald-500/20">
+          <span title={lead.icp_match_reason} className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-emerald-500/10 text-emerald-500 border border-emerald-500/20">
             <BadgeCheck className="w-3 h-3" />
             ICP
           </span>
@@ -151,11 +174,13 @@ export default function AnalysisDetailPage() {
   const [analysis, setAnalysis] = useState<Analysis | null>(null);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
-  const [filterICP, setFilterICP] = useState(false);
+  const [filterICP, setFilterICP] = useState(true);
   const [selectedLeads, setSelectedLeads] = useState<Set<number>>(new Set());
-  const [sortBy, setSortBy] = useState<'name' | 'icp'>('icp');
+  const [sortBy, setSortBy] = useState<'score' | 'icp' | 'name'>('score');
   const [deletedIndices, setDeletedIndices] = useState<Set<number>>(new Set());
   const [addingToCRM, setAddingToCRM] = useState(false);
+  const [salesforceConnected, setSalesforceConnected] = useState(false);
+  const [pushingToSalesforce, setPushingToSalesforce] = useState(false);
 
   useEffect(() => {
     const fetchAnalysis = async () => {
@@ -174,6 +199,21 @@ export default function AnalysisDetailPage() {
     fetchAnalysis();
   }, [id]);
 
+  // Only offer "Push to Salesforce" once it's connected in Settings
+  useEffect(() => {
+    const fetchSalesforceStatus = async () => {
+      try {
+        const res = await fetch('/api/integrations/salesforce');
+        const data = await res.json();
+        setSalesforceConnected(!!data.integration?.connected);
+      } catch (e) {
+        console.error('Failed to fetch Salesforce status:', e);
+      }
+    };
+
+    fetchSalesforceStatus();
+  }, []);
+
   const handleDeleteAnalysis = async () => {
     const confirmed = await confirm({
       title: "Delete Analysis",
@@ -197,12 +237,14 @@ export default function AnalysisDetailPage() {
 
   const handleExport = async () => {
     try {
+      // Format defaults to the one saved in Settings; the server names the file
       const res = await fetch(`/api/analyses/${id}/export`);
       const blob = await res.blob();
+      const filename = res.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1];
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `leads-${id}.csv`;
+      a.download = filename || `leads-${id}`;
       a.click();
       window.URL.revokeObjectURL(url);
     } catch (e) {
@@ -233,6 +275,7 @@ export default function AnalysisDetailPage() {
           profile_picture: lead.profile_picture,
           source_analysis_id: id,
           source_post_url: analysis?.post_url,
+          source: lead.source,
         })
       });
 
@@ -255,6 +298,16 @@ export default function AnalysisDetailPage() {
     }
   };
 
+  const toCRMLeadInput = (lead: Lead) => ({
+    name: lead.name,
+    headline: lead.headline,
+    profile_url: lead.profile_url,
+    profile_picture: lead.profile_picture,
+    source_analysis_id: id,
+    source_post_url: analysis?.post_url,
+    source: lead.source,
+  });
+
   const handleAddAllToCRM = async (leadsToAdd: { lead: Lead; originalIndex: number }[]) => {
     const confirmed = await confirm({
       title: "Add leads to CRM",
@@ -270,16 +323,7 @@ export default function AnalysisDetailPage() {
       const response = await fetch('/api/crm/leads', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          leads: leadsToAdd.map(({ lead }) => ({
-            name: lead.name,
-            headline: lead.headline,
-            profile_url: lead.profile_url,
-            profile_picture: lead.profile_picture,
-            source_analysis_id: id,
-            source_post_url: analysis?.post_url,
-          }))
-        })
+        body: JSON.stringify({ leads: leadsToAdd.map(({ lead }) => toCRMLeadInput(lead)) })
       });
 
       const data = await response.json();
@@ -298,6 +342,51 @@ export default function AnalysisDetailPage() {
     }
   };
 
+  // Salesforce pushes CRM leads, so selected rows are added to the CRM first
+  // (already-added ones are skipped) and then pushed by profile URL
+  const handlePushToSalesforce = async (leadsToPush: { lead: Lead; originalIndex: number }[]) => {
+    if (leadsToPush.length > MAX_SALESFORCE_PUSH) {
+      addToast("error", "Too many leads selected", `You can push up to ${MAX_SALESFORCE_PUSH} leads at a time`);
+      return;
+    }
+
+    setPushingToSalesforce(true);
+    try {
+      const addResponse = await fetch('/api/crm/leads', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ leads: leadsToPush.map(({ lead }) => toCRMLeadInput(lead)) })
+      });
+      const added = await addResponse.json();
+      if (!added.success) {
+        addToast("error", "Salesforce push failed", added.error || "Could not add leads to CRM");
+        return;
+      }
+
+      const res = await fetch('/api/crm/salesforce/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ profileUrls: leadsToPush.map(({ lead }) => lead.profile_url) })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        addToast("error", "Salesforce push failed", data.error || "Please try again");
+        return;
+      }
+
+      if (data.failed > 0) {
+        addToast("warning", "Pushed with errors", `${data.synced} pushed, ${data.failed} failed. See the CRM page for details.`);
+      } else {
+        addToast("success", "Pushed to Salesforce", `${data.synced} lead${data.synced !== 1 ? 's' : ''} synced`);
+      }
+    } catch (error) {
+      console.error('Salesforce push failed:', error);
+      addToast("error", "Salesforce push failed", "Could not connect to the server");
+    } finally {
+      setPushingToSalesforce(false);
+    }
+  };
+
   const handleDeleteSelected = async () => {
     const confirmed = await confirm({
       title: "Delete selected leads",
@@ -357,8 +446,13 @@ export default function AnalysisDetailPage() {
     return matchesSearch && matchesICP;
   });
 
-  // Sort: ICP matches first, then by name
-  if (sortBy === 'icp') {
+  // Sort: highest score first, or ICP matches first, or by name
+  if (sortBy === 'score') {
+    displayLeads = [...displayLeads].sort((a, b) => {
+      const diff = (b.lead.icp_score ?? -1) - (a.lead.icp_score ?? -1);
+      return diff !== 0 ? diff : a.lead.name.localeCompare(b.lead.name);
+    });
+  } else if (sortBy === 'icp') {
     displayLeads = [...displayLeads].sort((a, b) => {
       if (a.lead.matches_icp === b.lead.matches_icp) return a.lead.name.localeCompare(b.lead.name);
       return b.lead.matches_icp ? 1 : -1;
@@ -440,6 +534,23 @@ export default function AnalysisDetailPage() {
               Add All to CRM
             </Button>
 
+            {salesforceConnected && selectedLeads.size > 0 && (
+              <Button 
+                variant="outline"
+                size="sm" 
+                onClick={() => handlePushToSalesforce(displayLeads.filter(({ originalIndex }) => selectedLeads.has(originalIndex)))}
+                className="h-7 text-xs"
+                disabled={pushingToSalesforce}
+              >
+                {pushingToSalesforce ? (
+                  <Loader2 className="w-3 h-3 mr-1.5 animate-spin" />
+                ) : (
+                  <CloudUpload className="w-3 h-3 mr-1.5" />
+                )}
+                Salesforce ({selectedLeads.size})
+              </Button>
+            )}
+
             {selectedLeads.size > 0 && (
               <Button 
                 variant="outline"
@@ -480,10 +591,11 @@ export default function AnalysisDetailPage() {
             <Button
               variant="ghost"
               size="sm"
-              onClick={() => setSortBy(sortBy === 'icp' ? 'name' : 'icp')}
+              onClick={() => setSortBy(sortBy === 'score' ? 'icp' : sortBy === 'icp' ? 'name' : 'score')}
               className="h-7 text-xs gap-1.5 text-muted-foreground"
             >
               <ArrowUpDown className="w-3 h-3" />
+              {sortBy === 'score' ? 'Score' : sortBy === 'icp' ? 'ICP' : 'Name'}
             </Button>
           </div>
         </div>
@@ -508,6 +620,7 @@ export default function AnalysisDetailPage() {
           <div className="flex-shrink-0 w-8"></div>
           <div className="w-40 flex-shrink-0">Name</div>
           <div className="flex-1">Title / Headline</div>
+          <div className="flex-shrink-0 w-12">Score</div>
           <div className="flex-shrink-0 w-14">Match</div>
           <div className="flex-shrink-0 w-32 text-right">Actions</div>
         </div>
@@ -23,6 +23,7 @@ import {
   LayoutGrid,
   List,
   Clock,
+  Wallet,
   Zap
 } from "lucide-react";
 
@@ -83,6 +84,11 @@ function AnalysisCard({
                 <ExternalLink className="w-3.5 h-3.5" />
               </Button>
             </a>
+            <Link href={`/dashboard/wallet?post=${encodeURIComponent(analysis.post_url)}`} title="Wallet activity for this post">
+              <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-foreground">
+                <Wallet className="w-3.5 h-3.5" />
+              </Button>
+            </Link>
             <Button 
               variant="ghost" 
               size="icon" 
@@ -247,12 +253,14 @@ export default function HistoryPage() {
 
   const handleExport = async (id: string) => {
     try {
+      // Format defaults to the one saved in Settings; the server names the file
       const res = await fetch(`/api/analyses/${id}/export`);
       const blob = await res.blob();
+      const filename = res.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1];
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `leads-${id}.csv`;
+      a.download = filename || `leads-${id}`;
       a.click();
       window.URL.revokeObjectURL(url);
     } catch (e) {
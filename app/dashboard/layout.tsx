@@ -23,7 +23,9 @@ import { Sidebar } from "@/components/dashboard/sidebar";
 import { Providers } from "@/components/providers";
 // MIGRATION: Now using shared auth utility instead of local implementation
 import { getAuthenticatedUser } from "@/lib/auth";
-import { getOrCreateUser, getCRMLeads, getUserBillingInfo } from "@/lib/data-store";
+import { getOrCreateUser, getCRMLeadCount, getUserBillingInfo } from "@/lib/data-store";
+import { getAccountContext, getInvitesForEmail } from "@/lib/workspaces";
+import { getClientAccounts, isAgencyPlan } from "@/lib/client-accounts";
 
 export default async function DashboardLayout({
   children,
@@ -41,13 +43,18 @@ export default async function DashboardLayout({
   // Get or create user in our data store
   const user = await getOrCreateUser(userEmail);
 
-  // Redirect to onboarding if not completed
-  if (!user.onboarding_completed) {
+  const { account, agency } = await getAccountContext(user);
+  const agencyAccount = agency ?? account;
+
+  // Redirect to onboarding if not completed. Workspace members use the
+  // owner's onboarding, and invitees can accept an invite first.
+  if (!account.onboarding_completed && (await getInvitesForEmail(userEmail)).length === 0) {
     redirect("/onboarding");
   }
 
-  const crmLeads = await getCRMLeads(user.id);
-  const billingInfo = await getUserBillingInfo(user.id);
+  const crmLeadsCount = await getCRMLeadCount(account.id);
+  const billingInfo = await getUserBillingInfo(account.id);
+  const clients = isAgencyPlan(agencyAccount.plan) ? await getClientAccounts(agencyAccount.id) : null;
 
   // Prepare initial usage for sidebar
   const initialUsage = billingInfo ? {
@@ -79,7 +86,13 @@ export default async function DashboardLayout({
           <div className="absolute top-0 z-[-2] h-screen w-screen bg-[radial-gradient(ellipse_80%_80%_at_50%_-20%,rgba(120,119,198,0.1),rgba(255,255,255,0))]" />
         </div>
 
-        <Sidebar userEmail={userEmail} crmLeadsCount={crmLeads.length} initialUsage={initialUsage} />
+        <Sidebar
+          userEmail={userEmail}
+          crmLeadsCount={crmLeadsCount}
+          initialUsage={initialUsage}
+          clients={clients?.map(({ id, name }) => ({ id, name }))}
+          activeClientId={agency ? account.id : null}
+        />
 
         <div className="pl-44">
           <main className="p-6">{children}</main>
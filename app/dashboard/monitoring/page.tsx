@@ -0,0 +1,332 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast, useConfirm } from "@/components/ui/toast";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  ChevronRight,
+  Linkedin,
+  Loader2,
+  Pause,
+  Play,
+  Plus,
+  Radar,
+  Trash2,
+  XCircle,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { MonitoredProfile } from "@/lib/profile-monitoring";
+import type { AnalysisJob } from "@/lib/analysis-jobs";
+
+interface MonitoringPricing {
+  available: boolean;
+  setupCost: number;
+  checkCost: number;
+  checkIntervalHours: number;
+  reactionCap: number;
+  commentCap: number;
+}
+
+function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function formatRelative(date: string | null): string {
+  if (!date) return 'Never';
+  const minutes = Math.round((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 60 * 24) return `${Math.round(minutes / 60)}h ago`;
+  return new Date(date).toLocaleDateString();
+}
+
+export default function MonitoringPage() {
+  const router = useRouter();
+  const { addToast } = useToast();
+  const confirm = useConfirm();
+
+  const [profiles, setProfiles] = useState<MonitoredProfile[]>([]);
+  const [jobs, setJobs] = useState<AnalysisJob[]>([]);
+  const [pricing, setPricing] = useState<MonitoringPricing | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [profileUrl, setProfileUrl] = useState("");
+  const [adding, setAdding] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const fetchProfiles = async () => {
+    try {
+      const res = await fetch('/api/monitoring/profiles');
+      const data = await res.json();
+      setProfiles(data.profiles || []);
+      setJobs(data.jobs || []);
+      setPricing(data.pricing || null);
+    } catch (e) {
+      console.error('Failed to fetch monitored profiles:', e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchProfiles();
+  }, []);
+
+  const handleAdd = async () => {
+    if (!profileUrl.trim() || !pricing) return;
+
+    const confirmed = await confirm({
+      title: "Monitor this profile?",
+      description: `Setup costs ${formatCents(pricing.setupCost)}. Each check for new posts costs ${formatCents(pricing.checkCost)} (every ${pricing.checkIntervalHours}h), and each new post is analyzed with up to ${pricing.reactionCap} reactions and ${pricing.commentCap} comments.`,
+      confirmText: "Start Monitoring",
+      cancelText: "Cancel"
+    });
+
+    if (!confirmed) return;
+
+    setAdding(true);
+    try {
+      const res = await fetch('/api/monitoring/profiles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ profileUrl }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        addToast("error", "Could not add profile", data.error);
+        return;
+      }
+
+      setProfiles((prev) => [data.profile, ...prev]);
+      setProfileUrl("");
+      window.dispatchEvent(new CustomEvent('usage-updated'));
+      addToast("success", "Monitoring started", "We'll check for new posts shortly");
+    } catch (e) {
+      console.error('Failed to add profile:', e);
+      addToast("error", "Could not add profile", "Could not connect to the server");
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleToggle = async (profile: MonitoredProfile) => {
+    setUpdatingId(profile.id);
+    try {
+      const res = await fetch(`/api/monitoring/profiles/${profile.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ is_active: !profile.is_active }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        addToast("error", "Update failed", data.error);
+        return;
+      }
+
+      setProfiles((prev) => prev.map((p) => (p.id === profile.id ? data.profile : p)));
+    } catch (e) {
+      console.error('Failed to update profile:', e);
+      addToast("error", "Update failed", "Could not connect to the server");
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleDelete = async (profile: MonitoredProfile) => {
+    const confirmed = await confirm({
+      title: "Stop monitoring",
+      description: `Stop monitoring ${profile.name || profile.profile_url}? Analyses already created stay in your history.`,
+      confirmText: "Stop Monitoring",
+      cancelText: "Cancel",
+      variant: "destructive"
+    });
+
+    if (!confirmed) return;
+
+    setUpdatingId(profile.id);
+    try {
+      const res = await fetch(`/api/monitoring/profiles/${profile.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        addToast("error", "Delete failed", "Please try again");
+        return;
+      }
+      setProfiles((prev) => prev.filter((p) => p.id !== profile.id));
+    } catch (e) {
+      console.error('Failed to delete profile:', e);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div>
+        <h1 className="text-lg font-bold tracking-tight">Profile Monitoring</h1>
+        <p className="text-muted-foreground text-xs">
+          Watch LinkedIn creators and automatically analyze their new posts
+        </p>
+      </div>
+
+      {pricing && !pricing.available ? (
+        <div className="flex items-center justify-between p-3 rounded-lg bg-amber-500/10 border border-amber-500/20">
+          <div className="flex items-center gap-2 text-sm">
+            <AlertTriangle className="w-4 h-4 text-amber-500 shrink-0" />
+            <span className="text-amber-600 dark:text-amber-400">
+              Profile monitoring is available on the Pro, Growth and Scale plans.
+            </span>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => router.push('/dashboard/settings?tab=billing')} className="shrink-0 ml-3">
+            View Plans
+          </Button>
+        </div>
+      ) : (
+        <div className="bg-card/30 border border-border/50 rounded-xl p-4 space-y-2">
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <div className="absolute inset-y-0 left-2.5 flex items-center pointer-events-none">
+                <Linkedin className="h-4 w-4 text-muted-foreground" />
+              </div>
+              <Input
+                value={profileUrl}
+                onChange={(e) => setProfileUrl(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                placeholder="linkedin.com/in/creator-name"
+                className="pl-8 h-9 text-sm"
+              />
+            </div>
+            <Button size="sm" className="h-9" onClick={handleAdd} disabled={!profileUrl.trim() || adding}>
+              {adding ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <><Plus className="w-3.5 h-3.5 mr-1" />Monitor</>}
+            </Button>
+          </div>
+          {pricing && (
+            <p className="text-[10px] text-muted-foreground">
+              {formatCents(pricing.setupCost)} setup • {formatCents(pricing.checkCost)} per check every {pricing.checkIntervalHours}h •
+              new posts analyzed with up to {pricing.reactionCap} reactions and {pricing.commentCap} comments
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Profiles */}
+      {profiles.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-border/50 p-10 text-center">
+          <Radar className="w-8 h-8 text-muted-foreground mx-auto mb-3" />
+          <p className="text-sm font-medium">No monitored profiles yet</p>
+          <p className="text-xs text-muted-foreground mt-1">
+            Add a creator your buyers follow and we&apos;ll pull leads from every new post.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-card/30 border border-border/50 rounded-xl overflow-hidden">
+          {profiles.map((profile) => (
+            <div key={profile.id} className="flex items-center gap-3 px-3 py-2.5 border-b border-border/30 last:border-b-0">
+              <div className="w-8 h-8 rounded-full overflow-hidden bg-muted ring-1 ring-border/50 flex-shrink-0">
+                {profile.profile_picture ? (
+                  <Image src={profile.profile_picture} alt={profile.name || ''} width={32} height={32} unoptimized className="w-full h-full object-cover" />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center text-xs font-medium text-muted-foreground">
+                    {(profile.name || profile.profile_url.split('/').pop() || '?').charAt(0).toUpperCase()}
+                  </div>
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <a href={profile.profile_url} target="_blank" rel="noopener noreferrer" className="text-sm font-medium truncate block hover:underline">
+                  {profile.name || profile.profile_url.replace('https://www.linkedin.com', '')}
+                </a>
+                <span className="text-xs text-muted-foreground truncate block">
+                  {profile.last_error ? (
+                    <span className="text-amber-500">{profile.last_error}</span>
+                  ) : (
+                    profile.headline || 'Waiting for first check'
+                  )}
+                </span>
+              </div>
+              <div className="w-28 flex-shrink-0 text-xs text-muted-foreground">
+                <div>{profile.posts_analyzed} posts analyzed</div>
+                <div className="text-[10px]">Checked {formatRelative(profile.last_checked_at)}</div>
+              </div>
+              <span
+                className={cn(
+                  "px-1.5 py-0.5 rounded text-[10px] font-medium border",
+                  profile.is_active
+                    ? "bg-emerald-500/10 text-emerald-500 border-emerald-500/20"
+                    : "bg-muted text-muted-foreground border-border/50"
+                )}
+              >
+                {profile.is_active ? 'Active' : 'Paused'}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => handleToggle(profile)}
+                disabled={updatingId === profile.id}
+                title={profile.is_active ? 'Pause' : 'Resume'}
+              >
+                {profile.is_active ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-muted-foreground hover:text-red-500"
+                onClick={() => handleDelete(profile)}
+                disabled={updatingId === profile.id}
+                title="Stop monitoring"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Automatic analyses */}
+      {jobs.length > 0 && (
+        <div className="space-y-2">
+          <h2 className="text-sm font-semibold">Automatic Analyses</h2>
+          <div className="bg-card/30 border border-border/50 rounded-xl overflow-hidden">
+            {jobs.map((job) => (
+              <div key={job.id} className="flex items-center gap-2 px-3 py-2 border-b border-border/30 last:border-b-0 text-xs">
+                {job.status === 'completed' ? (
+                  <CheckCircle2 className="w-3.5 h-3.5 text-emerald-500 shrink-0" />
+                ) : job.status === 'failed' ? (
+                  <XCircle className="w-3.5 h-3.5 text-red-500 shrink-0" />
+                ) : (
+                  <Loader2 className={cn("w-3.5 h-3.5 shrink-0", job.status === 'running' ? "animate-spin text-primary" : "text-muted-foreground")} />
+                )}
+                <span className="flex-1 truncate text-muted-foreground">
+                  {job.post_data?.content?.slice(0, 120) || job.post_url}
+                </span>
+                <span className="text-muted-foreground shrink-0">{formatRelative(job.created_at)}</span>
+                {job.analysis_id && (
+                  <Link href={`/dashboard/history/${job.analysis_id}`}>
+                    <Button variant="ghost" size="sm" className="h-6 text-xs">
+                      {job.qualified_leads_count ?? 0} ICP
+                      <ChevronRight className="w-3 h-3 ml-0.5" />
+                    </Button>
+                  </Link>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ import { PaymentVerificationBanner } from "@/components/dashboard/payment-verifi
 // MIGRATION: Using shared auth utility instead of local jose implementation
 import { getAuthenticatedUser } from "@/lib/auth";
 import { getOrCreateUser, getUserStats, getAnalyses, getUserBillingInfo } from "@/lib/data-store";
+import { getAccountContext, getInvitesForEmail } from "@/lib/workspaces";
 import { createAdminClient } from "@/lib/supabase/admin";
 import {
   ArrowRight,
@@ -21,6 +22,7 @@ import {
   TrendingUp,
   Zap,
   AlertTriangle,
+  Users,
   Wallet
 } from "lucide-react";
 
@@ -32,9 +34,11 @@ export default async function DashboardPage() {
   }
 
   const user = await getOrCreateUser(userEmail);
-  const stats = await getUserStats(user.id);
-  const recentAnalyses = await getAnalyses(user.id);
-  const billing = await getUserBillingInfo(user.id);
+  const { account, workspace } = await getAccountContext(user);
+  const stats = await getUserStats(account.id);
+  const recentAnalyses = await getAnalyses(account.id);
+  const billing = await getUserBillingInfo(account.id);
+  const invites = workspace ? [] : await getInvitesForEmail(userEmail);
   const adminSupabase = createAdminClient();
   const { data: pendingCheckout } = await adminSupabase
     .from("checkout_sessions")
@@ -56,6 +60,19 @@ export default async function DashboardPage() {
         <PaymentVerificationBanner callbackToken={pendingCheckout.callback_token} />
       )}
 
+      {invites.length > 0 && (
+        <Link
+          href="/dashboard/settings?tab=team"
+          className="flex items-center gap-2 rounded-lg border border-primary/30 bg-primary/5 p-3 text-sm hover:bg-primary/10 transition-colors"
+        >
+          <Users className="h-4 w-4 text-primary shrink-0" />
+          <span className="flex-1">
+            You&apos;ve been invited to join <span className="font-medium">{invites[0].workspace_name}</span>
+          </span>
+          <ArrowRight className="h-4 w-4 text-muted-foreground" />
+        </Link>
+      )}
+
       {/* Welcome Header */}
       <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3">
         <div>
@@ -25,16 +25,43 @@ import {
   ChevronRight,
   Sparkles,
   Wallet,
+  Plug,
+  KeyRound,
+  Users,
+  Briefcase,
 } from "lucide-react";
 // Import from credit-packs.ts (not wallet.ts) because wallet.ts imports
 // server-only Supabase modules that can't be used in client components.
 import { CREDIT_PACKS, type CreditPackId } from "@/lib/credit-packs";
+import {
+  DEFAULT_ICP_SCORING_MODEL,
+  FUNCTION_OPTIONS,
+  type ICPScoreSignal,
+  type ICPScoringModel,
+} from "@/lib/icp";
+import { EXPORT_FORMATS, type ExportFormat } from "@/lib/export";
+import { CRMIntegration } from "@/components/dashboard/crm-integration";
+import { WebhookEndpoints } from "@/components/dashboard/webhook-endpoints";
+import { ApiKeys } from "@/components/dashboard/api-keys";
+import { WorkspaceTeam } from "@/components/dashboard/workspace-team";
+import { AgencyClients } from "@/components/dashboard/agency-clients";
+import { AutoTopUp } from "@/components/dashboard/auto-topup";
+import { SpendLimits } from "@/components/dashboard/spend-limits";
+
+const SCORE_SIGNALS: { id: ICPScoreSignal; label: string; description: string }[] = [
+  { id: "seniority", label: "Title seniority", description: "C-level and founders score highest" },
+  { id: "function", label: "Function", description: "Matches your target functions (or ICP keywords)" },
+  { id: "company", label: "Company keywords", description: "Company keywords or target industries" },
+  { id: "location", label: "Location", description: "Inside your target regions" },
+  { id: "engagement", label: "Engagement", description: "Commented vs only reacted" },
+];
 
 interface UserSettings {
   icp_keywords: string[];
   exclude_keywords: string[];
-  default_export_format: "csv" | "json";
+  default_export_format: ExportFormat;
   notifications_enabled: boolean;
+  icp_scoring?: ICPScoringModel;
 }
 
 interface UserData {
@@ -72,13 +99,17 @@ interface BillingInfo {
   cardExpiry: string | null;
 }
 
-type SettingsTab = "account" | "billing" | "icp" | "export" | "notifications" | "danger";
+type SettingsTab = "account" | "team" | "clients" | "billing" | "icp" | "export" | "integrations" | "api-keys" | "notifications" | "danger";
 
 const TABS: { id: SettingsTab; label: string; icon: typeof User }[] = [
   { id: "account", label: "Account", icon: User },
+  { id: "team", label: "Team", icon: Users },
+  { id: "clients", label: "Clients", icon: Briefcase },
   { id: "billing", label: "Billing & Usage", icon: CreditCard },
   { id: "icp", label: "ICP Filters", icon: Target },
   { id: "export", label: "Export", icon: FileText },
+  { id: "integrations", label: "Integrations", icon: Plug },
+  { id: "api-keys", label: "API Keys", icon: KeyRound },
   { id: "notifications", label: "Notifications", icon: Bell },
   { id: "danger", label: "Danger Zone", icon: Shield },
 ];
@@ -193,12 +224,14 @@ export default function SettingsPage() {
   // Form state
   const [icpKeywords, setIcpKeywords] = useState<string[]>([]);
   const [excludeKeywords, setExcludeKeywords] = useState<string[]>([]);
-  const [exportFormat, setExportFormat] = useState<"csv" | "json">("csv");
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
+  const [scoringModel, setScoringModel] = useState<ICPScoringModel>(DEFAULT_ICP_SCORING_MODEL);
 
   // New keyword inputs
   const [newIcpKeyword, setNewIcpKeyword] = useState("");
   const [newExcludeKeyword, setNewExcludeKeyword] = useState("");
+  const [newCompanyKeyword, setNewCompanyKeyword] = useState("");
 
   useEffect(() => {
     const fetchUser = async () => {
@@ -211,6 +244,9 @@ export default function SettingsPage() {
           setExcludeKeywords(data.user.settings.exclude_keywords || []);
           setExportFormat(data.user.settings.default_export_format || "csv");
           setNotificationsEnabled(data.user.settings.notifications_enabled ?? true);
+          if (data.user.settings.icp_scoring) {
+            setScoringModel({ ...DEFAULT_ICP_SCORING_MODEL, ...data.user.settings.icp_scoring });
+          }
         }
       } catch (e) {
         console.error("Failed to fetch user:", e);
@@ -262,6 +298,7 @@ export default function SettingsPage() {
             exclude_keywords: excludeKeywords,
             default_export_format: exportFormat,
             notifications_enabled: notificationsEnabled,
+            icp_scoring: scoringModel,
           },
         }),
       });
@@ -340,6 +377,32 @@ export default function SettingsPage() {
     setExcludeKeywords(excludeKeywords.filter((k) => k !== keyword));
   };
 
+  const setScoreWeight = (signal: ICPScoreSignal, weight: number) => {
+    setScoringModel({ ...scoringModel, weights: { ...scoringModel.weights, [signal]: weight } });
+  };
+
+  const toggleTargetFunction = (value: string) => {
+    const targetFunctions = scoringModel.targetFunctions.includes(value)
+      ? scoringModel.targetFunctions.filter((f) => f !== value)
+      : [...scoringModel.targetFunctions, value];
+    setScoringModel({ ...scoringModel, targetFunctions });
+  };
+
+  const addCompanyKeyword = () => {
+    const keyword = newCompanyKeyword.trim().toLowerCase();
+    if (keyword && !scoringModel.companyKeywords.includes(keyword)) {
+      setScoringModel({ ...scoringModel, companyKeywords: [...scoringModel.companyKeywords, keyword] });
+      setNewCompanyKeyword("");
+    }
+  };
+
+  const removeCompanyKeyword = (keyword: string) => {
+    setScoringModel({
+      ...scoringModel,
+      companyKeywords: scoringModel.companyKeywords.filter((k) => k !== keyword),
+    });
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -715,6 +778,12 @@ export default function SettingsPage() {
                       </div>
                     )}
 
+                    {/* Auto Top-Up — recharges a pack when the balance runs low */}
+                    {billing.plan !== 'free' && <AutoTopUp />}
+
+                    {/* Spend Limits — per-action caps with budget alerts */}
+                    {billing.plan !== 'free' && <SpendLimits />}
+
                     {/* Cancel Subscription */}
                     {billing.plan !== 'free' && (
                       <div className="space-y-3">
@@ -845,6 +914,108 @@ export default function SettingsPage() {
                   </div>
                 </div>
 
+                <div className="border-t border-border/50" />
+
+                {/* Lead Scoring */}
+                <div className="space-y-3">
+                  <div>
+                    <label className="text-sm font-medium">Lead Scoring</label>
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      Every lead gets a 0–100 score. Weights are relative to each other.
+                    </p>
+                  </div>
+                  <div className="space-y-3">
+                    {SCORE_SIGNALS.map((signal) => (
+                      <div key={signal.id} className="flex items-center gap-4">
+                        <div className="w-40 flex-shrink-0">
+                          <div className="text-sm">{signal.label}</div>
+                          <div className="text-[11px] text-muted-foreground">{signal.description}</div>
+                        </div>
+                        <input
+                          type="range"
+                          min={0}
+                          max={100}
+                          step={5}
+                          value={scoringModel.weights[signal.id]}
+                          onChange={(e) => setScoreWeight(signal.id, Number(e.target.value))}
+                          className="flex-1 accent-primary"
+                        />
+                        <span className="w-8 text-right text-sm tabular-nums text-muted-foreground">
+                          {scoringModel.weights[signal.id]}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Target Functions */}
+                <div className="space-y-3">
+                  <div>
+                    <label className="text-sm font-medium">Target Functions</label>
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      Leave empty to use your include keywords instead
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {FUNCTION_OPTIONS.map((option) => (
+                      <button
+                        key={option.value}
+                        onClick={() => toggleTargetFunction(option.value)}
+                        className={cn(
+                          "px-2.5 py-1 rounded-md text-sm border transition-colors",
+                          scoringModel.targetFunctions.includes(option.value)
+                            ? "bg-primary/10 text-primary border-primary/20"
+                            : "border-border/50 text-muted-foreground hover:border-border"
+                        )}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Company Keywords */}
+                <div className="space-y-3">
+                  <div>
+                    <label className="text-sm font-medium">Company Keywords</label>
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      Matched against the headline and, once enriched, the current company
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {scoringModel.companyKeywords.map((keyword) => (
+                      <span
+                        key={keyword}
+                        className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md bg-primary/10 text-primary text-sm border border-primary/20"
+                      >
+                        {keyword}
+                        <button
+                          onClick={() => removeCompanyKeyword(keyword)}
+                          className="hover:bg-primary/20 rounded p-0.5"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </span>
+                    ))}
+                    {scoringModel.companyKeywords.length === 0 && (
+                      <span className="text-sm text-muted-foreground">No keywords added</span>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="e.g., b2b, series a, startup"
+                      value={newCompanyKeyword}
+                      onChange={(e) => setNewCompanyKeyword(e.target.value)}
+                      onKeyDown={(e) =>
+                        e.key === "Enter" && (e.preventDefault(), addCompanyKeyword())
+                      }
+                    />
+                    <Button variant="outline" size="icon" onClick={addCompanyKeyword}>
+                      <Plus className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+
                 <div className="pt-4">
                   <Button onClick={handleSave} disabled={saving}>
                     {saving ? (
@@ -881,34 +1052,23 @@ export default function SettingsPage() {
                 <div className="space-y-3">
                   <label className="text-sm font-medium">Default Format</label>
                   <div className="grid grid-cols-2 gap-3">
-                    <button
-                      onClick={() => setExportFormat("csv")}
-                      className={cn(
-                        "p-4 rounded-lg border-2 text-left transition-all",
-                        exportFormat === "csv"
-                          ? "border-primary bg-primary/5"
-                          : "border-border/50 hover:border-border"
-                      )}
-                    >
-                      <div className="font-medium">CSV</div>
-                      <div className="text-xs text-muted-foreground mt-1">
-                        Excel, Google Sheets
-                      </div>
-                    </button>
-                    <button
-                      onClick={() => setExportFormat("json")}
-                      className={cn(
-                        "p-4 rounded-lg border-2 text-left transition-all",
-                        exportFormat === "json"
-                          ? "border-primary bg-primary/5"
-                          : "border-border/50 hover:border-border"
-                      )}
-                    >
-                      <div className="font-medium">JSON</div>
-                      <div className="text-xs text-muted-foreground mt-1">
-                        API integrations
-                      </div>
-                    </button>
+                    {EXPORT_FORMATS.map((format) => (
+                      <button
+                        key={format.value}
+                        onClick={() => setExportFormat(format.value)}
+                        className={cn(
+                          "p-4 rounded-lg border-2 text-left transition-all",
+                          exportFormat === format.value
+                            ? "border-primary bg-primary/5"
+                            : "border-border/50 hover:border-border"
+                        )}
+                      >
+                        <div className="font-medium">{format.label}</div>
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {format.description}
+                        </div>
+                      </button>
+                    ))}
                   </div>
                 </div>
 
@@ -935,6 +1095,89 @@ export default function SettingsPage() {
               </div>
             )}
 
+            {/* Integrations Tab */}
+            {activeTab === "integrations" && (
+              <div className="space-y-6">
+                <div>
+                  <h2 className="text-xl font-semibold">Integrations</h2>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Send your CRM leads to the tools your team already uses
+                  </p>
+                </div>
+
+                <CRMIntegration
+                  provider="hubspot"
+                  name="HubSpot"
+                  description="Push CRM leads to HubSpot as contacts and companies"
+                  accountLabel="Portal"
+                  objects={[
+                    { object: "contact", label: "Contact" },
+                    { object: "company", label: "Company" },
+                  ]}
+                  mappingHint="HubSpot internal property names. Leave a field empty to skip it."
+                  supportsAutoPush
+                />
+
+                <CRMIntegration
+                  provider="salesforce"
+                  name="Salesforce"
+                  description="Push CRM leads to Salesforce as Leads, or link them to existing Contacts"
+                  accountLabel="Org"
+                  objects={[
+                    { object: "lead", label: "Lead" },
+                    { object: "contact", label: "Contact matching" },
+                  ]}
+                  mappingHint="Salesforce field API names (custom fields end in __c). Leave a field empty to skip it. Existing Contacts are matched on the LinkedIn URL and email fields below."
+                />
+
+                <div className="border-t border-border/50 pt-6">
+                  <WebhookEndpoints />
+                </div>
+              </div>
+            )}
+
+            {/* Team Tab */}
+            {activeTab === "team" && (
+              <div className="space-y-6">
+                <div>
+                  <h2 className="text-xl font-semibold">Team</h2>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Share one wallet, CRM and analysis history with your team
+                  </p>
+                </div>
+
+                <WorkspaceTeam />
+              </div>
+            )}
+
+            {/* Clients Tab */}
+            {activeTab === "clients" && (
+              <div className="space-y-6">
+                <div>
+                  <h2 className="text-xl font-semibold">Clients</h2>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Keep each client&apos;s leads, ICP, history and spend separate, with a budget from your wallet
+                  </p>
+                </div>
+
+                <AgencyClients />
+              </div>
+            )}
+
+            {/* API Keys Tab */}
+            {activeTab === "api-keys" && (
+              <div className="space-y-6">
+                <div>
+                  <h2 className="text-xl font-semibold">API Keys</h2>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Use the REST API to run analyses, manage CRM leads and check your wallet from your own tools
+                  </p>
+                </div>
+
+                <ApiKeys />
+              </div>
+            )}
+
             {/* Notifications Tab */}
             {activeTab === "notifications" && (
               <div className="space-y-6">
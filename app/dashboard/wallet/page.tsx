@@ -0,0 +1,433 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/toast";
+import {
+  ArrowDownLeft,
+  ArrowUpRight,
+  CornerDownRight,
+  Download,
+  ExternalLink,
+  Link2,
+  Loader2,
+  Wallet,
+  X,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { WalletReservationOutcome } from "@/lib/wallet-ledger";
+
+// Mirrors WALLET_ACTION_TYPES in lib/wallet-ledger.ts (server-only)
+const ACTION_TYPES = [
+  { value: 'post_analysis', label: 'Post analysis' },
+  { value: 'profile_enrichment', label: 'Enrichment' },
+  { value: 'email_lookup', label: 'Email lookup' },
+  { value: 'ai_search', label: 'Discovery' },
+  { value: 'profile_monitoring', label: 'Monitoring' },
+] as const;
+
+type ActionType = typeof ACTION_TYPES[number]['value'];
+
+const ACTION_LABELS: Record<string, string> = Object.fromEntries(
+  ACTION_TYPES.map((action) => [action.value, action.label])
+);
+
+// Mirrors the GET /api/billing/wallet/ledger entries
+interface LedgerEntry {
+  id: string;
+  type: 'credit' | 'debit';
+  amount: number;
+  amountFormatted: string;
+  balanceAfter: number;
+  balanceAfterFormatted: string;
+  reason: string | null;
+  actionType: string | null;
+  postUrl: string | null;
+  reservation: WalletReservationOutcome | null;
+  refundOfReservationId: string | null;
+  actorUserId: string | null;
+  actorEmail: string | null;
+  createdAt: string;
+}
+
+function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function formatTimestamp(date: string): string {
+  return new Date(date).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/** Local midnight of a yyyy-mm-dd input value, `addDays` later, as ISO */
+function dayStart(value: string, addDays = 0): string {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day + addDays).toISOString();
+}
+
+// ============================================================================
+// RESERVATION OUTCOME
+// ============================================================================
+function ReservationOutcome({ reservation }: { reservation: WalletReservationOutcome }) {
+  const badge = {
+    reserved: { label: 'Reserved', className: 'bg-amber-500/10 text-amber-500 border-amber-500/20' },
+    settled: { label: 'Settled', className: 'bg-emerald-500/10 text-emerald-500 border-emerald-500/20' },
+    released: { label: 'Released', className: 'bg-muted/60 text-muted-foreground border-border/50' },
+  }[reservation.status];
+
+  return (
+    <div className="space-y-1">
+      <span className={cn("inline-block px-1.5 py-0.5 rounded text-[10px] font-medium border", badge.className)}>
+        {badge.label}
+      </span>
+      <div className="text-[11px] text-muted-foreground tabular-nums">
+        Held {formatCents(reservation.reservedAmount)}
+        {reservation.actualAmount !== null && (
+          <> · charged {formatCents(reservation.actualAmount)}</>
+        )}
+        {!!reservation.refundAmount && (
+          <> · refunded {formatCents(reservation.refundAmount)}</>
+        )}
+      </div>
+      {reservation.releaseReason === 'expired_reservation' && (
+        <div className="text-[11px] text-muted-foreground">Work didn&apos;t finish; released automatically</div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// MAIN PAGE COMPONENT
+// ============================================================================
+export default function WalletActivityPage() {
+  const { addToast } = useToast();
+
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [matchingTotal, setMatchingTotal] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  const [actionTypes, setActionTypes] = useState<Set<ActionType>>(new Set());
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [postUrl, setPostUrl] = useState("");
+  const [debouncedPostUrl, setDebouncedPostUrl] = useState("");
+
+  // History links here with ?post= to show one analysis's spend
+  useEffect(() => {
+    const post = new URLSearchParams(window.location.search).get("post");
+    if (post) {
+      setPostUrl(post);
+      setDebouncedPostUrl(post);
+    }
+  }, []);
+
+  // The post filter waits for a pause in typing
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedPostUrl(postUrl.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [postUrl]);
+
+  const filterParams = useMemo(() => {
+    const params = new URLSearchParams();
+    if (actionTypes.size > 0) params.set('action', Array.from(actionTypes).join(','));
+    if (fromDate) params.set('created_after', dayStart(fromDate));
+    if (toDate) params.set('created_before', dayStart(toDate, 1));
+    if (debouncedPostUrl) params.set('post', debouncedPostUrl);
+    return params.toString();
+  }, [actionTypes, fromDate, toDate, debouncedPostUrl]);
+
+  const hasFilters = filterParams !== '';
+
+  // First page whenever the filters change; more load on demand
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchEntries = async () => {
+      try {
+        const res = await fetch(`/api/billing/wallet/ledger?${filterParams}`);
+        const data = await res.json();
+        if (cancelled) return;
+        if (!res.ok) {
+          addToast("error", "Couldn't load wallet activity", data.error || "Please try again");
+          return;
+        }
+        setEntries(data.entries);
+        setNextCursor(data.nextCursor);
+        setMatchingTotal(data.total);
+      } catch (e) {
+        console.error('Failed to fetch wallet activity:', e);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchEntries();
+    return () => {
+      cancelled = true;
+    };
+  }, [filterParams, addToast]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const res = await fetch(`/api/billing/wallet/ledger?${filterParams}&cursor=${encodeURIComponent(nextCursor)}`);
+      const data = await res.json();
+      if (!res.ok) {
+        addToast("error", "Couldn't load more activity", data.error || "Please try again");
+        return;
+      }
+      setEntries(prev => {
+        const loaded = new Set(prev.map(e => e.id));
+        return [...prev, ...(data.entries as LedgerEntry[]).filter(e => !loaded.has(e.id))];
+      });
+      setNextCursor(data.nextCursor);
+    } catch (e) {
+      console.error('Failed to load more wallet activity:', e);
+      addToast("error", "Couldn't load more activity", "Could not connect to the server");
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const toggleActionType = (value: ActionType) => {
+    setActionTypes(prev => {
+      const next = new Set(prev);
+      if (next.has(value)) next.delete(value);
+      else next.add(value);
+      return next;
+    });
+  };
+
+  const clearFilters = () => {
+    setActionTypes(new Set());
+    setFromDate("");
+    setToDate("");
+    setPostUrl("");
+    setDebouncedPostUrl("");
+  };
+
+  const loadedIds = useMemo(() => new Set(entries.map(e => e.id)), [entries]);
+
+  // Totals over the loaded rows; reservations count what they finally charged
+  const loadedTotals = useMemo(() => {
+    let charged = 0;
+    let credited = 0;
+    for (const entry of entries) {
+      if (entry.refundOfReservationId) continue;
+      if (entry.reservation) {
+        charged += entry.reservation.actualAmount ?? entry.reservation.reservedAmount;
+      } else if (entry.amount < 0) {
+        charged -= entry.amount;
+      } else {
+        credited += entry.amount;
+      }
+    }
+    return { charged, credited };
+  }, [entries]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto mb-3" />
+          <p className="text-sm text-muted-foreground">Loading wallet activity...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Wallet Activity</h1>
+          <p className="text-muted-foreground text-sm mt-1">
+            Every credit and charge, with reservations and what they finally cost
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Link href="/dashboard/settings?tab=billing">
+            <Button variant="ghost" size="sm">
+              <Wallet className="w-4 h-4 mr-2" />
+              Billing
+            </Button>
+          </Link>
+          <a href={`/api/billing/wallet/ledger?format=csv${hasFilters ? `&${filterParams}` : ''}`} download>
+            <Button variant="outline" size="sm">
+              <Download className="w-4 h-4 mr-2" />
+              Download CSV
+            </Button>
+          </a>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="p-4 rounded-lg border border-border/50 bg-card/30 space-y-3">
+        <div className="flex flex-wrap items-center gap-1.5">
+          <Button
+            variant={actionTypes.size === 0 ? "secondary" : "outline"}
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setActionTypes(new Set())}
+          >
+            All actions
+          </Button>
+          {ACTION_TYPES.map((action) => (
+            <Button
+              key={action.value}
+              variant={actionTypes.has(action.value) ? "secondary" : "outline"}
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => toggleActionType(action.value)}
+            >
+              {action.label}
+            </Button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            From
+            <Input
+              type="date"
+              value={fromDate}
+              max={toDate || undefined}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="h-7 w-36 text-xs"
+            />
+            to
+            <Input
+              type="date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => setToDate(e.target.value)}
+              className="h-7 w-36 text-xs"
+            />
+          </div>
+          <div className="relative flex-1 min-w-[220px]">
+            <Link2 className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+            <Input
+              value={postUrl}
+              onChange={(e) => setPostUrl(e.target.value)}
+              placeholder="Source post URL"
+              className="h-7 pl-8 text-xs"
+            />
+          </div>
+          {hasFilters && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={clearFilters}>
+              <X className="w-3 h-3 mr-1.5" />
+              Clear
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Ledger */}
+      <div className="rounded-lg border border-border/50 bg-card/30 overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border/50 bg-muted/30">
+          <div className="flex items-center gap-3">
+            <span className="text-sm font-medium">Transactions</span>
+            {matchingTotal !== null && (
+              <span className="text-xs text-muted-foreground bg-muted px-2 py-0.5 rounded">
+                {matchingTotal}
+              </span>
+            )}
+          </div>
+          {entries.length > 0 && (
+            <div className="text-xs text-muted-foreground tabular-nums">
+              Shown: {formatCents(loadedTotals.charged)} charged · {formatCents(loadedTotals.credited)} added
+            </div>
+          )}
+        </div>
+
+        {entries.length === 0 ? (
+          <div className="p-8 text-center text-sm text-muted-foreground">
+            {hasFilters ? 'No transactions match these filters' : 'No wallet activity yet'}
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-[140px_1fr_90px_90px_220px] gap-4 px-4 py-2 border-b border-border/50 text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
+              <div>Date</div>
+              <div>Description</div>
+              <div className="text-right">Amount</div>
+              <div className="text-right">Balance</div>
+              <div>Reservation</div>
+            </div>
+            <div className="divide-y divide-border/50">
+              {entries.map((entry) => (
+                <div
+                  key={entry.id}
+                  id={`tx-${entry.id}`}
+                  className="grid grid-cols-[140px_1fr_90px_90px_220px] gap-4 px-4 py-3 text-sm target:bg-primary/5"
+                >
+                  <div className="text-xs text-muted-foreground">{formatTimestamp(entry.createdAt)}</div>
+                  <div className="min-w-0 space-y-0.5">
+                    <div className="truncate">{entry.reason || (entry.type === 'credit' ? 'Credit' : 'Charge')}</div>
+                    <div className="flex flex-wrap items-center gap-x-2 text-[11px] text-muted-foreground">
+                      {entry.actionType && <span>{ACTION_LABELS[entry.actionType] || entry.actionType}</span>}
+                      {entry.actorEmail && <span>{entry.actorEmail}</span>}
+                      {entry.postUrl && (
+                        <a
+                          href={entry.postUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 hover:text-foreground"
+                        >
+                          <ExternalLink className="w-3 h-3" />
+                          Post
+                        </a>
+                      )}
+                    </div>
+                  </div>
+                  <div
+                    className={cn(
+                      "text-right tabular-nums font-medium inline-flex items-start justify-end gap-1",
+                      entry.amount < 0 ? "text-foreground" : "text-emerald-500"
+                    )}
+                  >
+                    {entry.amount < 0 ? <ArrowUpRight className="w-3.5 h-3.5 mt-0.5" /> : <ArrowDownLeft className="w-3.5 h-3.5 mt-0.5" />}
+                    {entry.amount < 0 ? '-' : '+'}{entry.amountFormatted}
+                  </div>
+                  <div className="text-right tabular-nums text-muted-foreground">{entry.balanceAfterFormatted}</div>
+                  <div>
+                    {entry.reservation && <ReservationOutcome reservation={entry.reservation} />}
+                    {entry.refundOfReservationId && (
+                      <div className="inline-flex items-center gap-1 text-[11px] text-muted-foreground">
+                        <CornerDownRight className="w-3 h-3" />
+                        {loadedIds.has(entry.refundOfReservationId) ? (
+                          <a href={`#tx-${entry.refundOfReservationId}`} className="hover:text-foreground underline-offset-2 hover:underline">
+                            Unused part of a reservation
+                          </a>
+                        ) : (
+                          'Unused part of an earlier reservation'
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+            {nextCursor && (
+              <div className="flex justify-center p-3 border-t border-border/50">
+                <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleLoadMore} disabled={isLoadingMore}>
+                  {isLoadingMore && <Loader2 className="w-3 h-3 mr-1.5 animate-spin" />}
+                  Load more
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, ArrowDownLeft, ArrowUpRight, Briefcase, Loader2, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/components/ui/toast';
+import { cn } from '@/lib/utils';
+
+// Mirrors lib/client-accounts.ts (server-only)
+interface ClientSpend {
+  id: string;
+  name: string;
+  walletBalance: number;
+  createdAt: string;
+  spent: number;
+  spentByAction: Record<string, number>;
+}
+
+interface ClientsData {
+  available: boolean;
+  canManage: boolean;
+  clients: ClientSpend[];
+  activeClientId: string | null;
+  agencyBalance: number;
+  since: string;
+}
+
+const PERIODS = [7, 30, 90] as const;
+
+const ACTION_LABELS: Record<string, string> = {
+  post_analysis: 'Analyses',
+  profile_enrichment: 'Enrichment',
+  email_lookup: 'Email lookups',
+  ai_search: 'Discovery',
+  profile_monitoring: 'Monitoring',
+};
+
+function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+/**
+ * Settings > Clients: agency client sub-accounts with their budgets and a
+ * spend report over the last 7/30/90 days.
+ */
+export function AgencyClients() {
+  const { addToast } = useToast();
+  const [days, setDays] = useState<typeof PERIODS[number]>(30);
+  const [data, setData] = useState<ClientsData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  const [newName, setNewName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  // Dollar amounts typed per client, keyed by client id
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchClients = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/clients?days=${days}`);
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error);
+      setData(json);
+      setLoadFailed(false);
+    } catch (error) {
+      console.error('Failed to load clients:', error);
+      setLoadFailed(true);
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchClients();
+  }, [fetchClients]);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const res = await fetch('/api/clients', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newName }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        addToast('error', 'Could not add client', json.error || 'Please try again');
+        return;
+      }
+      setData((prev) => prev && {
+        ...prev,
+        clients: [...prev.clients, { ...json.client, spent: 0, spentByAction: {} }],
+      });
+      setNewName('');
+      addToast('success', 'Client added', 'Allocate a budget, then switch to it from the sidebar');
+    } catch (error) {
+      console.error('Failed to create client:', error);
+      addToast('error', 'Could not add client', 'Could not connect to the server');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleTransfer = async (client: ClientSpend, direction: 1 | -1) => {
+    const dollars = parseFloat(amounts[client.id] || '');
+    if (!Number.isFinite(dollars) || dollars <= 0) {
+      addToast('error', 'Enter an amount', 'Use a dollar amount greater than zero');
+      return;
+    }
+
+    setBusyId(client.id);
+    try {
+      const res = await fetch(`/api/clients/${client.id}/budget`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ amount: direction * Math.round(dollars * 100) }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        addToast('error', 'Budget not updated', json.error || 'Please try again');
+        return;
+      }
+      setData((prev) => prev && {
+        ...prev,
+        agencyBalance: json.agencyBalance,
+        clients: prev.clients.map((c) => (c.id === client.id ? { ...c, walletBalance: json.clientBalance } : c)),
+      });
+      setAmounts((prev) => ({ ...prev, [client.id]: '' }));
+      window.dispatchEvent(new Event('usage-updated'));
+    } catch (error) {
+      console.error('Failed to update client budget:', error);
+      addToast('error', 'Budget not updated', 'Could not connect to the server');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (loadFailed || !data) {
+    return (
+      <div className="flex items-center gap-2 p-3 rounded-lg bg-red-500/10 text-red-500 border border-red-500/20 text-sm">
+        <AlertCircle className="w-4 h-4 shrink-0" />
+        <span>Couldn&apos;t load your clients.</span>
+      </div>
+    );
+  }
+
+  if (!data.available) {
+    return (
+      <p className="text-sm text-muted-foreground p-4 rounded-lg border border-dashed border-border/50 text-center">
+        Client sub-accounts are available on the Scale plan.
+      </p>
+    );
+  }
+
+  const totalSpent = data.clients.reduce((sum, client) => sum + client.spent, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="font-medium flex items-center gap-2">
+            <Briefcase className="w-4 h-4" />
+            Agency wallet {formatCents(data.agencyBalance)}
+          </div>
+          <div className="text-sm text-muted-foreground">
+            {formatCents(totalSpent)} spent across clients since {new Date(data.since).toLocaleDateString()}
+          </div>
+        </div>
+        <div className="flex rounded-md border border-border/50 overflow-hidden">
+          {PERIODS.map((period) => (
+            <button
+              key={period}
+              onClick={() => setDays(period)}
+              className={cn(
+                'px-2.5 py-1 text-xs transition-colors',
+                days === period ? 'bg-primary/10 text-primary' : 'text-muted-foreground hover:bg-muted'
+              )}
+            >
+              {period}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {data.canManage && (
+        <div className="flex items-center gap-2">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Client name"
+            maxLength={80}
+          />
+          <Button onClick={handleCreate} disabled={creating || !newName.trim()}>
+            {creating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+            Add Client
+          </Button>
+        </div>
+      )}
+
+      {data.clients.length === 0 && (
+        <p className="text-sm text-muted-foreground p-4 rounded-lg border border-dashed border-border/50 text-center">
+          No clients yet
+        </p>
+      )}
+
+      {data.clients.map((client) => (
+        <div key={client.id} className="p-4 rounded-lg border border-border/50 bg-card/30 space-y-3">
+          <div className="flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <div className="font-medium text-sm truncate flex items-center gap-2">
+                {client.name}
+                {client.id === data.activeClientId && (
+                  <span className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-amber-500/10 text-amber-500">
+                    Active
+                  </span>
+                )}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                Budget left {formatCents(client.walletBalance)} · spent {formatCents(client.spent)} in the last {days} days
+              </div>
+            </div>
+          </div>
+
+          {Object.keys(client.spentByAction).length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {Object.entries(client.spentByAction).map(([action, cents]) => (
+                <span
+                  key={action}
+                  className="px-2 py-0.5 rounded text-[11px] border bg-muted/40 text-muted-foreground border-border/50"
+                >
+                  {ACTION_LABELS[action] || action} {formatCents(cents)}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {data.canManage && (
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={amounts[client.id] ?? ''}
+                onChange={(e) => setAmounts((prev) => ({ ...prev, [client.id]: e.target.value }))}
+                placeholder="Amount ($)"
+                className="h-8 w-32 text-xs"
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-8 text-xs"
+                onClick={() => handleTransfer(client, 1)}
+                disabled={busyId === client.id}
+              >
+                <ArrowUpRight className="w-3 h-3 mr-1.5" />
+                Allocate
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-8 text-xs"
+                onClick={() => handleTransfer(client, -1)}
+                disabled={busyId === client.id || client.walletBalance <= 0}
+              >
+                <ArrowDownLeft className="w-3 h-3 mr-1.5" />
+                Return to agency
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AlertCircle, Check, Copy, ExternalLink, KeyRound, Loader2, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useConfirm, useToast } from '@/components/ui/toast';
+import { cn } from '@/lib/utils';
+
+// Mirrors lib/api-keys.ts (server-only)
+interface ApiKeyScope {
+  scope: string;
+  description: string;
+}
+
+interface ApiKey {
+  id: string;
+  name: string;
+  key_prefix: string;
+  scopes: string[];
+  rate_limit_per_minute: number;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+/** Settings > API Keys: create scoped keys (shown once), list and revoke them */
+export function ApiKeys() {
+  const { addToast } = useToast();
+  const confirm = useConfirm();
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  const [showForm, setShowForm] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newScopes, setNewScopes] = useState<Set<string>>(new Set());
+  const [creating, setCreating] = useState(false);
+  // Plaintext of the key just created; the API never returns it again
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchKeys = async () => {
+      try {
+        const res = await fetch('/api/integrations/api-keys');
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+        setKeys(data.keys);
+        setScopes(data.scopes);
+      } catch (error) {
+        console.error('Failed to load API keys:', error);
+        setLoadFailed(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchKeys();
+  }, []);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const res = await fetch('/api/integrations/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newName, scopes: Array.from(newScopes) }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        addToast('error', 'Could not create key', data.error || 'Please try again');
+        return;
+      }
+      setKeys((prev) => [data.apiKey, ...prev]);
+      setCreatedKey(data.key);
+      setShowForm(false);
+      setNewName('');
+      setNewScopes(new Set());
+    } catch (error) {
+      console.error('Failed to create API key:', error);
+      addToast('error', 'Could not create key', 'Could not connect to the server');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (key: ApiKey) => {
+    const confirmed = await confirm({
+      title: 'Revoke API key',
+      description: `Requests using "${key.name}" will be rejected immediately. This cannot be undone.`,
+      confirmText: 'Revoke',
+      cancelText: 'Cancel',
+      variant: 'destructive',
+    });
+    if (!confirmed) return;
+
+    try {
+      const res = await fetch(`/api/integrations/api-keys/${key.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        addToast('error', 'Revoke failed', data.error || 'Please try again');
+        return;
+      }
+      setKeys((prev) => prev.map((k) => (k.id === key.id ? { ...k, revoked_at: new Date().toISOString() } : k)));
+      addToast('success', 'API key revoked');
+    } catch (error) {
+      console.error('Failed to revoke API key:', error);
+      addToast('error', 'Revoke failed', 'Could not connect to the server');
+    }
+  };
+
+  const handleCopyKey = async (key: string) => {
+    try {
+      await navigator.clipboard.writeText(key);
+      addToast('success', 'API key copied');
+    } catch {
+      addToast('error', 'Copy failed', 'Select the key and copy it manually');
+    }
+  };
+
+  const toggleNewScope = (scope: string) => {
+    const next = new Set(newScopes);
+    if (next.has(scope)) next.delete(scope);
+    else next.add(scope);
+    setNewScopes(next);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (loadFailed) {
+    return (
+      <div className="flex items-center gap-2 p-3 rounded-lg bg-red-500/10 text-red-500 border border-red-500/20 text-sm">
+        <AlertCircle className="w-4 h-4 shrink-0" />
+        <span>Couldn&apos;t load your API keys.</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="font-medium flex items-center gap-2">
+            <KeyRound className="w-4 h-4" />
+            Keys
+          </div>
+          <div className="text-sm text-muted-foreground">
+            Send as <code className="text-xs font-mono">Authorization: Bearer gk_...</code>.{' '}
+            <a
+              href="/api/openapi"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-primary hover:underline"
+            >
+              OpenAPI spec
+              <ExternalLink className="w-3 h-3" />
+            </a>
+          </div>
+        </div>
+        {!showForm && (
+          <Button size="sm" variant="outline" onClick={() => setShowForm(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Create Key
+          </Button>
+        )}
+      </div>
+
+      {createdKey && (
+        <div className="p-4 rounded-lg border border-emerald-500/30 bg-emerald-500/5 space-y-2">
+          <div className="text-sm font-medium">Copy your new API key now. You won&apos;t be able to see it again.</div>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 min-w-0 truncate text-xs font-mono bg-muted/40 px-2 py-1 rounded">
+              {createdKey}
+            </code>
+            <button
+              onClick={() => handleCopyKey(createdKey)}
+              className="p-1 rounded hover:bg-muted transition-colors"
+              title="Copy"
+            >
+              <Copy className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setCreatedKey(null)}>
+            Done
+          </Button>
+        </div>
+      )}
+
+      {showForm && (
+        <div className="p-4 rounded-lg border border-border/50 bg-card/30 space-y-3">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Key name (e.g. Zapier, reporting script)"
+            maxLength={100}
+          />
+          <div className="space-y-2">
+            {scopes.map((scope) => (
+              <label key={scope.scope} className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={newScopes.has(scope.scope)}
+                  onChange={() => toggleNewScope(scope.scope)}
+                  className="mt-0.5"
+                />
+                <span className="text-sm">
+                  <span className="font-mono text-xs">{scope.scope}</span>
+                  <span className="block text-xs text-muted-foreground">{scope.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <Button size="sm" onClick={handleCreate} disabled={creating || !newName.trim() || newScopes.size === 0}>
+              {creating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Check className="w-4 h-4 mr-2" />}
+              Create Key
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setShowForm(false)} disabled={creating}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {keys.length === 0 && !showForm && (
+        <p className="text-sm text-muted-foreground p-4 rounded-lg border border-dashed border-border/50 text-center">
+          No API keys yet
+        </p>
+      )}
+
+      {keys.map((key) => (
+        <div
+          key={key.id}
+          className={cn(
+            'p-4 rounded-lg border border-border/50 bg-card/30 space-y-2',
+            key.revoked_at && 'opacity-60'
+          )}
+        >
+          <div className="flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <div className="font-medium text-sm truncate">{key.name}</div>
+              <div className="font-mono text-xs text-muted-foreground">{key.key_prefix}…</div>
+            </div>
+            {key.revoked_at ? (
+              <span className="px-1.5 py-0.5 rounded text-xs font-medium bg-red-500/10 text-red-500 shrink-0">
+                Revoked
+              </span>
+            ) : (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 text-xs text-red-500 hover:text-red-400 hover:bg-red-500/10 shrink-0"
+                onClick={() => handleRevoke(key)}
+              >
+                <Trash2 className="w-3 h-3 mr-1.5" />
+                Revoke
+              </Button>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {key.scopes.map((scope) => (
+              <span
+                key={scope}
+                className="px-2 py-0.5 rounded text-[11px] font-mono border bg-primary/10 text-primary border-primary/30"
+              >
+                {scope}
+              </span>
+            ))}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Created {new Date(key.created_at).toLocaleDateString()}
+            {' · '}
+            {key.last_used_at ? `Last used ${new Date(key.last_used_at).toLocaleString()}` : 'Never used'}
+            {' · '}
+            {key.rate_limit_per_minute} requests/min
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AlertCircle, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/components/ui/toast';
+import { cn } from '@/lib/utils';
+import { CREDIT_PACKS, type CreditPackId } from '@/lib/credit-packs';
+
+// Mirrors lib/auto-topup.ts (server-only)
+interface AutoTopUpSettings {
+  enabled: boolean;
+  packId: CreditPackId | null;
+  thresholdInCents: number | null;
+  monthlyCapInCents: number | null;
+}
+
+interface AutoTopUpCharge {
+  id: string;
+  packId: string;
+  amount: number;
+  balanceAtTrigger: number;
+  status: 'pending' | 'succeeded' | 'failed';
+  error: string | null;
+  createdAt: string;
+}
+
+interface AutoTopUpData {
+  settings: AutoTopUpSettings;
+  canManage: boolean;
+  charges: AutoTopUpCharge[];
+  chargedThisMonth: number;
+}
+
+const STATUS_STYLES: Record<AutoTopUpCharge['status'], string> = {
+  pending: 'bg-amber-500/10 text-amber-500',
+  succeeded: 'bg-emerald-500/10 text-emerald-500',
+  failed: 'bg-red-500/10 text-red-500',
+};
+
+function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+/**
+ * Settings > Billing: recharge a credit pack automatically when a charge
+ * leaves the wallet below a threshold, up to a monthly cap.
+ */
+export function AutoTopUp() {
+  const { addToast } = useToast();
+  const [data, setData] = useState<AutoTopUpData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const [enabled, setEnabled] = useState(false);
+  const [packId, setPackId] = useState<CreditPackId>('credit_25');
+  // Dollar amounts as typed
+  const [threshold, setThreshold] = useState('5');
+  const [monthlyCap, setMonthlyCap] = useState('100');
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const res = await fetch('/api/billing/auto-topup');
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error);
+        setData(json);
+        const settings: AutoTopUpSettings = json.settings;
+        setEnabled(settings.enabled);
+        if (settings.packId) setPackId(settings.packId);
+        if (settings.thresholdInCents !== null) setThreshold(String(settings.thresholdInCents / 100));
+        if (settings.monthlyCapInCents !== null) setMonthlyCap(String(settings.monthlyCapInCents / 100));
+      } catch (error) {
+        console.error('Failed to load auto top-up settings:', error);
+        setLoadFailed(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchSettings();
+  }, []);
+
+  const handleSave = async (nextEnabled: boolean) => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/billing/auto-topup', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          nextEnabled
+            ? {
+                enabled: true,
+                packId,
+                thresholdInCents: Math.round(parseFloat(threshold) * 100),
+                monthlyCapInCents: Math.round(parseFloat(monthlyCap) * 100),
+              }
+            : { enabled: false }
+        ),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        addToast('error', 'Auto top-up not saved', json.error || 'Please try again');
+        return;
+      }
+      setEnabled(json.settings.enabled);
+      setData((prev) => prev && { ...prev, settings: json.settings });
+      addToast(
+        'success',
+        nextEnabled ? 'Auto top-up on' : 'Auto top-up off',
+        nextEnabled
+          ? `${CREDIT_PACKS[packId].name} pack when your balance drops below ${formatCents(json.settings.thresholdInCents)}`
+          : undefined
+      );
+    } catch (error) {
+      console.error('Failed to save auto top-up settings:', error);
+      addToast('error', 'Auto top-up not saved', 'Could not connect to the server');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (loadFailed || !data) {
+    return (
+      <div className="flex items-center gap-2 p-3 rounded-lg bg-red-500/10 text-red-500 border border-red-500/20 text-sm">
+        <AlertCircle className="w-4 h-4 shrink-0" />
+        <span>Couldn&apos;t load auto top-up settings.</span>
+      </div>
+    );
+  }
+
+  const capInCents = Math.round(parseFloat(monthlyCap) * 100);
+
+  return (
+    <div className="p-6 rounded-xl border border-border/50 bg-card space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <RefreshCw className="w-5 h-5 text-primary" />
+            <h3 className="font-semibold">Auto Top-Up</h3>
+            {enabled && (
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-500/20 text-green-500">On</span>
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Buy a pack with your saved card when your balance drops below a threshold, so analyses don&apos;t stop
+            mid-campaign.
+          </p>
+        </div>
+        {data.canManage && enabled && (
+          <Button variant="outline" size="sm" onClick={() => handleSave(false)} disabled={saving}>
+            Turn off
+          </Button>
+        )}
+      </div>
+
+      {data.canManage ? (
+        <>
+          <div className="grid grid-cols-3 gap-3">
+            {(Object.values(CREDIT_PACKS) as typeof CREDIT_PACKS[CreditPackId][]).map((pack) => (
+              <button
+                key={pack.id}
+                onClick={() => setPackId(pack.id)}
+                className={cn(
+                  'p-3 rounded-lg border text-left transition-all',
+                  packId === pack.id ? 'border-primary bg-primary/5' : 'hover:border-primary/50'
+                )}
+              >
+                <div className="font-semibold">${(pack.priceInCents / 100).toFixed(0)}</div>
+                <div className="text-xs text-muted-foreground">{formatCents(pack.creditsInCents)} credits</div>
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1.5">
+              <span className="text-xs text-muted-foreground">When balance drops below ($)</span>
+              <Input
+                type="number"
+                min="1"
+                step="1"
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+              />
+            </label>
+            <label className="space-y-1.5">
+              <span className="text-xs text-muted-foreground">Monthly cap ($)</span>
+              <Input
+                type="number"
+                min="1"
+                step="1"
+                value={monthlyCap}
+                onChange={(e) => setMonthlyCap(e.target.value)}
+              />
+            </label>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-xs text-muted-foreground">
+              {formatCents(data.chargedThisMonth)} charged this month
+              {Number.isFinite(capInCents) && capInCents > 0 && <> of {formatCents(capInCents)}</>}
+              . At most one charge each time your balance crosses the threshold.
+            </p>
+            <Button size="sm" onClick={() => handleSave(true)} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {enabled ? 'Save' : 'Turn on'}
+            </Button>
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">Only the workspace owner can change auto top-up.</p>
+      )}
+
+      {data.charges.length > 0 && (
+        <div className="divide-y divide-border/50 rounded-lg border border-border/50">
+          {data.charges.map((charge) => (
+            <div key={charge.id} className="flex items-center justify-between px-3 py-2 text-xs">
+              <div>
+                <div>
+                  {formatCents(charge.amount)} · {new Date(charge.createdAt).toLocaleString()}
+                </div>
+                <div className="text-muted-foreground">
+                  Balance was {formatCents(charge.balanceAtTrigger)}
+                  {charge.error && <> · {charge.error}</>}
+                </div>
+              </div>
+              <span className={cn('px-1.5 py-0.5 rounded text-[10px] font-medium capitalize', STATUS_STYLES[charge.status])}>
+                {charge.status}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
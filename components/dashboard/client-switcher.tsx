@@ -0,0 +1,103 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { Briefcase, Check, ChevronDown, Loader2, Settings } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export interface ClientOption {
+  id: string;
+  name: string;
+}
+
+interface ClientSwitcherProps {
+  clients: ClientOption[];
+  activeClientId: string | null;
+}
+
+/**
+ * Sidebar picker for agency client sub-accounts (lib/client-accounts.ts).
+ * Switching reloads the page, since every view reads from the active account.
+ */
+export function ClientSwitcher({ clients, activeClientId }: ClientSwitcherProps) {
+  const [open, setOpen] = useState(false);
+  const [switching, setSwitching] = useState(false);
+  const active = clients.find((client) => client.id === activeClientId);
+
+  const handleSwitch = async (clientId: string | null) => {
+    setOpen(false);
+    if (clientId === (activeClientId ?? null)) return;
+
+    setSwitching(true);
+    try {
+      const res = await fetch("/api/clients/active", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ clientId }),
+      });
+      if (!res.ok) throw new Error("Switch failed");
+      window.location.reload();
+    } catch (e) {
+      console.error("Failed to switch client:", e);
+      setSwitching(false);
+    }
+  };
+
+  return (
+    <div className="relative border-b border-border/50 p-2">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={switching}
+        className={cn(
+          "w-full flex items-center gap-1.5 rounded-md border px-2 py-1.5 text-[10px] font-medium transition-colors",
+          active
+            ? "border-amber-500/30 bg-amber-500/10 text-amber-500"
+            : "border-border/50 text-muted-foreground hover:bg-muted/50"
+        )}
+      >
+        {switching ? (
+          <Loader2 className="h-3 w-3 animate-spin flex-shrink-0" />
+        ) : (
+          <Briefcase className="h-3 w-3 flex-shrink-0" />
+        )}
+        <span className="flex-1 truncate text-left">{active ? active.name : "Agency account"}</span>
+        <ChevronDown className={cn("h-3 w-3 flex-shrink-0 transition-transform", open && "rotate-180")} />
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute left-2 right-2 top-full z-50 mt-1 max-h-72 overflow-y-auto rounded-lg border border-border/50 bg-popover p-1 shadow-xl">
+            {[{ id: null, name: "Agency account" }, ...clients].map((option) => {
+              const selected = option.id === (activeClientId ?? null);
+              return (
+                <button
+                  key={option.id ?? "agency"}
+                  onClick={() => handleSwitch(option.id)}
+                  className={cn(
+                    "flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-[10px] transition-colors",
+                    selected ? "text-foreground" : "text-muted-foreground hover:bg-muted/50 hover:text-foreground"
+                  )}
+                >
+                  <span className="flex-1 truncate text-left">{option.name}</span>
+                  {selected && <Check className="h-3 w-3 text-primary flex-shrink-0" />}
+                </button>
+              );
+            })}
+
+            <div className="my-1 h-px bg-border/50" />
+
+            <Link
+              href="/dashboard/settings?tab=clients"
+              onClick={() => setOpen(false)}
+              className="flex items-center gap-2 rounded-md px-2 py-1.5 text-[10px] text-muted-foreground hover:bg-muted/50 hover:text-foreground transition-colors"
+            >
+              <Settings className="h-3 w-3" />
+              Manage clients
+            </Link>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AlertCircle, Check, Link2, Loader2, Save, Unplug } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useConfirm, useToast } from '@/components/ui/toast';
+import { cn } from '@/lib/utils';
+
+// Mirrors GET /api/integrations/{hubspot,salesforce} (lib/hubspot.ts and
+// lib/salesforce.ts are server-only)
+interface CRMIntegrationField {
+  key: string;
+  label: string;
+  object: string;
+  defaultProperty: string;
+  property: string;
+}
+
+interface CRMIntegrationResponse {
+  configured: boolean;
+  integration: {
+    connected: boolean;
+    accountId: string | null;
+    accountName: string | null;
+    connectedAt: string | null;
+    settings: { auto_push?: boolean };
+  };
+  fields: CRMIntegrationField[];
+}
+
+interface CRMIntegrationProps {
+  provider: 'hubspot' | 'salesforce';
+  /** Display name, e.g. "HubSpot" */
+  name: string;
+  /** Shown while not connected */
+  description: string;
+  /** Prefix for the connected account, e.g. "Portal" */
+  accountLabel: string;
+  /** Field mapping sections, in order */
+  objects: { object: string; label: string }[];
+  mappingHint: string;
+  /** Show the "push new leads automatically" toggle */
+  supportsAutoPush?: boolean;
+}
+
+/** Connection, settings and field mapping for one CRM provider */
+export function CRMIntegration({
+  provider,
+  name,
+  description,
+  accountLabel,
+  objects,
+  mappingHint,
+  supportsAutoPush = false,
+}: CRMIntegrationProps) {
+  const { addToast } = useToast();
+  const confirm = useConfirm();
+  const [data, setData] = useState<CRMIntegrationResponse | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const applyResponse = (response: CRMIntegrationResponse) => {
+    setData(response);
+    setMapping(Object.fromEntries(response.fields.map((field) => [field.key, field.property])));
+  };
+
+  useEffect(() => {
+    const fetchIntegration = async () => {
+      try {
+        const res = await fetch(`/api/integrations/${provider}`);
+        if (res.ok) applyResponse(await res.json());
+      } catch (error) {
+        console.error(`Failed to load ${name} integration:`, error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchIntegration();
+  }, [provider, name]);
+
+  // Result of the OAuth round trip (see /api/integrations/{provider}/callback)
+  useEffect(() => {
+    const result = new URLSearchParams(window.location.search).get(provider);
+    if (result === 'connected') {
+      addToast('success', `${name} connected`, 'You can now push leads from the CRM page');
+    } else if (result === 'error') {
+      addToast('error', `${name} connection failed`, 'Please try connecting again');
+    }
+  }, [addToast, provider, name]);
+
+  const updateSettings = async (body: Record<string, unknown>, successTitle: string) => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/integrations/${provider}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const response = await res.json();
+      if (!res.ok) {
+        addToast('error', 'Save failed', response.error || 'Please try again');
+        return;
+      }
+      applyResponse(response);
+      addToast('success', successTitle);
+    } catch (error) {
+      console.error(`Failed to save ${name} settings:`, error);
+      addToast('error', 'Save failed', 'Could not connect to the server');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    const confirmed = await confirm({
+      title: `Disconnect ${name}`,
+      description: `Leads will stop being pushed to ${name}. Records already in ${name} are not deleted.`,
+      confirmText: 'Disconnect',
+      cancelText: 'Cancel',
+      variant: 'destructive',
+    });
+    if (!confirmed) return;
+
+    try {
+      const res = await fetch(`/api/integrations/${provider}`, { method: 'DELETE' });
+      const response = await res.json();
+      if (!res.ok) {
+        addToast('error', 'Disconnect failed', response.error || 'Please try again');
+        return;
+      }
+      applyResponse(response);
+      addToast('success', `${name} disconnected`);
+    } catch (error) {
+      console.error(`Failed to disconnect ${name}:`, error);
+      addToast('error', 'Disconnect failed', 'Could not connect to the server');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="flex items-center gap-2 p-3 rounded-lg bg-red-500/10 text-red-500 border border-red-500/20 text-sm">
+        <AlertCircle className="w-4 h-4 shrink-0" />
+        <span>Couldn&apos;t load the {name} integration.</span>
+      </div>
+    );
+  }
+
+  const { integration } = data;
+  const autoPush = !!integration.settings.auto_push;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between p-4 rounded-lg border border-border/50 bg-card/30">
+        <div>
+          <div className="font-medium flex items-center gap-2">
+            {name}
+            {integration.connected && (
+              <span className="inline-flex items-center gap-1 text-xs text-emerald-500 bg-emerald-500/10 px-2 py-0.5 rounded">
+                <Check className="w-3 h-3" />
+                Connected
+              </span>
+            )}
+          </div>
+          <div className="text-sm text-muted-foreground">
+            {integration.connected
+              ? `${accountLabel} ${integration.accountName || integration.accountId || ''}`.trim()
+              : description}
+          </div>
+        </div>
+        {integration.connected ? (
+          <Button variant="outline" size="sm" onClick={handleDisconnect}>
+            <Unplug className="w-4 h-4 mr-2" />
+            Disconnect
+          </Button>
+        ) : data.configured ? (
+          <Button size="sm" asChild>
+            <a href={`/api/integrations/${provider}/connect`}>
+              <Link2 className="w-4 h-4 mr-2" />
+              Connect
+            </a>
+          </Button>
+        ) : (
+          <span className="text-xs text-muted-foreground">Not available</span>
+        )}
+      </div>
+
+      {integration.connected && (
+        <>
+          {supportsAutoPush && (
+            <div className="flex items-center justify-between p-4 rounded-lg border border-border/50 bg-card/30">
+              <div>
+                <div className="font-medium">Push new leads automatically</div>
+                <div className="text-sm text-muted-foreground">
+                  Leads are sent to {name} as soon as they&apos;re added to the CRM
+                </div>
+              </div>
+              <button
+                onClick={() => updateSettings({ auto_push: !autoPush }, autoPush ? 'Auto-push turned off' : 'Auto-push turned on')}
+                disabled={saving}
+                className={cn(
+                  "relative w-11 h-6 rounded-full transition-colors shrink-0",
+                  autoPush ? "bg-primary" : "bg-muted"
+                )}
+              >
+                <div
+                  className={cn(
+                    "absolute top-1 w-4 h-4 rounded-full bg-white transition-transform",
+                    autoPush ? "translate-x-6" : "translate-x-1"
+                  )}
+                />
+              </button>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <div>
+              <label className="text-sm font-medium">Field mapping</label>
+              <p className="text-xs text-muted-foreground mt-1">
+                {mappingHint}
+              </p>
+            </div>
+            {objects.map(({ object, label }) => (
+              <div key={object} className="rounded-lg border border-border/50 divide-y divide-border/30">
+                <div className="px-4 py-2 text-xs font-medium text-muted-foreground uppercase tracking-wider bg-muted/20">
+                  {label}
+                </div>
+                {data.fields
+                  .filter((field) => field.object === object)
+                  .map((field) => (
+                    <div key={field.key} className="flex items-center justify-between gap-4 px-4 py-2">
+                      <span className="text-sm">{field.label}</span>
+                      <Input
+                        value={mapping[field.key] ?? ''}
+                        onChange={(e) => setMapping({ ...mapping, [field.key]: e.target.value })}
+                        placeholder="Not synced"
+                        className="h-8 w-56 text-xs font-mono"
+                      />
+                    </div>
+                  ))}
+              </div>
+            ))}
+            <Button
+              onClick={() => updateSettings({ field_mapping: mapping }, 'Field mapping saved')}
+              disabled={saving}
+            >
+              {saving ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4 mr-2" />
+              )}
+              Save Mapping
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
 import { useState, useEffect } from "react";
 import { cn } from "@/lib/utils";
+import { ClientSwitcher, type ClientOption } from "@/components/dashboard/client-switcher";
 import {
   Search,
   History,
@@ -18,7 +19,9 @@ import {
   Zap,
   AlertTriangle,
   Crown,
-  Wallet
+  Wallet,
+  Radar,
+  Compass
 } from "lucide-react";
 
 interface UsageInfo {
@@ -46,9 +49,12 @@ interface SidebarProps {
   userEmail: string;
   crmLeadsCount?: number;
   initialUsage?: UsageInfo;
+  /** Agency client sub-accounts; only passed on the Scale plan */
+  clients?: ClientOption[];
+  activeClientId?: string | null;
 }
 
-export function Sidebar({ userEmail, crmLeadsCount = 0, initialUsage }: SidebarProps) {
+export function Sidebar({ userEmail, crmLeadsCount = 0, initialUsage, clients, activeClientId = null }: SidebarProps) {
   const pathname = usePathname();
   const router = useRouter();
   const [showUserMenu, setShowUserMenu] = useState(false);
@@ -130,17 +136,32 @@ export function Sidebar({ userEmail, crmLeadsCount = 0, initialUsage }: SidebarP
       icon: Search,
       badge: "AI"
     },
+    {
+      label: "Discover",
+      href: "/dashboard/discover",
+      icon: Compass
+    },
     {
       label: "History",
       href: "/dashboard/history",
       icon: History
     },
+    {
+      label: "Monitoring",
+      href: "/dashboard/monitoring",
+      icon: Radar
+    },
     {
       label: "CRM",
       href: "/dashboard/crm",
       icon: Database,
       count: crmLeadsCount
     },
+    {
+      label: "Wallet",
+      href: "/dashboard/wallet",
+      icon: Wallet
+    },
     {
       label: "Settings",
       href: "/dashboard/settings",
@@ -176,13 +197,15 @@ export function Sidebar({ userEmail, crmLeadsCount = 0, initialUsage }: SidebarP
   const emptyWalletCta = usage?.plan === 'free' && !usage.isTrialing ? 'Start Trial' : 'Add Credits';
   const walletDetail = !usage
     ? ''
-    : hasPlanWallet
-      ? `${usage.walletSpentFormatted} used from ${usage.walletAllocationFormatted}`
-      : hasWalletCredits
-        ? 'Purchased credits available'
-        : usage.plan === 'free' && !usage.isTrialing
-          ? 'Start a trial to unlock credits'
-          : 'Add credits to keep using tools';
+    : activeClientId
+      ? 'Client budget'
+      : hasPlanWallet
+        ? `${usage.walletSpentFormatted} used from ${usage.walletAllocationFormatted}`
+        : hasWalletCredits
+          ? 'Purchased credits available'
+          : usage.plan === 'free' && !usage.isTrialing
+            ? 'Start a trial to unlock credits'
+            : 'Add credits to keep using tools';
 
   return (
     <aside className="fixed left-0 top-0 z-40 h-screen w-44 border-r border-border/50 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 flex flex-col">
@@ -194,6 +217,8 @@ export function Sidebar({ userEmail, crmLeadsCount = 0, initialUsage }: SidebarP
         <span className="text-sm font-semibold">Guffles</span>
       </div>
 
+      {clients && <ClientSwitcher clients={clients} activeClientId={activeClientId} />}
+
       {/* Navigation */}
       <nav className="flex flex-col gap-0.5 p-2 flex-1">
         {NAV_ITEMS.map((item) => {
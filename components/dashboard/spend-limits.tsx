@@ -0,0 +1,261 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, Gauge, Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useConfirm, useToast } from '@/components/ui/toast';
+import { cn } from '@/lib/utils';
+
+// Mirrors lib/spend-limits.ts and WALLET_ACTION_TYPES in lib/wallet-ledger.ts (server-only)
+type SpendLimitPeriod = 'daily' | 'weekly' | 'monthly';
+
+interface SpendLimitStatus {
+  id: string;
+  actionType: string;
+  period: SpendLimitPeriod;
+  limitInCents: number;
+  spentInCents: number;
+  percentUsed: number;
+  periodStart: string;
+  resetsAt: string;
+}
+
+const ACTION_TYPES = [
+  { value: 'post_analysis', label: 'Post analysis' },
+  { value: 'profile_enrichment', label: 'Enrichment' },
+  { value: 'email_lookup', label: 'Email lookup' },
+  { value: 'ai_search', label: 'Discovery' },
+  { value: 'profile_monitoring', label: 'Monitoring' },
+];
+
+const PERIODS: { value: SpendLimitPeriod; label: string; current: string }[] = [
+  { value: 'daily', label: 'Daily', current: 'today' },
+  { value: 'weekly', label: 'Weekly', current: 'this week' },
+  { value: 'monthly', label: 'Monthly', current: 'this month' },
+];
+
+function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+/**
+ * Settings > Billing: daily, weekly and monthly caps per kind of paid action.
+ * Reservations past a cap are refused; alerts go out at 50/80/100%.
+ */
+export function SpendLimits() {
+  const { addToast } = useToast();
+  const confirm = useConfirm();
+  const [limits, setLimits] = useState<SpendLimitStatus[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const [actionType, setActionType] = useState(ACTION_TYPES[0].value);
+  const [period, setPeriod] = useState<SpendLimitPeriod>('daily');
+  // Dollars as typed
+  const [amount, setAmount] = useState('');
+
+  const fetchLimits = useCallback(async () => {
+    try {
+      const res = await fetch('/api/billing/spend-limits');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setLimits(data.limits);
+      setCanManage(data.canManage);
+      setLoadFailed(false);
+    } catch (error) {
+      console.error('Failed to load spend limits:', error);
+      setLoadFailed(true);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchLimits();
+  }, [fetchLimits]);
+
+  const handleSave = async () => {
+    const limitInCents = Math.round(parseFloat(amount) * 100);
+    if (!Number.isFinite(limitInCents) || limitInCents <= 0) {
+      addToast('error', 'Enter a limit', 'The limit is a dollar amount, e.g. 20');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch('/api/billing/spend-limits', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ actionType, period, limitInCents }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        addToast('error', 'Limit not saved', data.error || 'Please try again');
+        return;
+      }
+      setAmount('');
+      addToast('success', 'Spend limit saved');
+      // Reload for the period's spend against the new limit
+      await fetchLimits();
+    } catch (error) {
+      console.error('Failed to save spend limit:', error);
+      addToast('error', 'Limit not saved', 'Could not connect to the server');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (limit: SpendLimitStatus) => {
+    const label = ACTION_TYPES.find((a) => a.value === limit.actionType)?.label ?? limit.actionType;
+    const periodLabel = PERIODS.find((p) => p.value === limit.period)?.label ?? limit.period;
+    const confirmed = await confirm({
+      title: 'Remove spend limit',
+      description: `${label} will no longer have a ${periodLabel.toLowerCase()} cap.`,
+      confirmText: 'Remove',
+      cancelText: 'Cancel',
+      variant: 'destructive',
+    });
+    if (!confirmed) return;
+
+    try {
+      const res = await fetch(`/api/billing/spend-limits/${limit.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        addToast('error', 'Remove failed', data.error || 'Please try again');
+        return;
+      }
+      setLimits((prev) => prev.filter((l) => l.id !== limit.id));
+      addToast('success', 'Spend limit removed');
+    } catch (error) {
+      console.error('Failed to remove spend limit:', error);
+      addToast('error', 'Remove failed', 'Could not connect to the server');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (loadFailed) {
+    return (
+      <div className="flex items-center gap-2 p-3 rounded-lg bg-red-500/10 text-red-500 border border-red-500/20 text-sm">
+        <AlertCircle className="w-4 h-4 shrink-0" />
+        <span>Couldn&apos;t load spend limits.</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 rounded-xl border border-border/50 bg-card space-y-4">
+      <div>
+        <div className="flex items-center gap-2 mb-1">
+          <Gauge className="w-5 h-5 text-primary" />
+          <h3 className="font-semibold">Spend Limits</h3>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Cap what each kind of action can spend per day, week or month. Actions past a cap are refused until it
+          resets, and the wallet.spend_limit webhook fires at 50%, 80% and 100%.
+        </p>
+      </div>
+
+      {limits.length > 0 && (
+        <div className="space-y-2">
+          {limits.map((limit) => {
+            const label = ACTION_TYPES.find((a) => a.value === limit.actionType)?.label ?? limit.actionType;
+            const periodInfo = PERIODS.find((p) => p.value === limit.period);
+            return (
+              <div key={limit.id} className="p-3 rounded-lg border border-border/50 bg-card/30 space-y-2">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="text-sm">
+                    <span className="font-medium">{label}</span>
+                    <span className="text-muted-foreground">
+                      {' '}· {periodInfo?.label} · {formatCents(limit.limitInCents)}
+                    </span>
+                  </div>
+                  {canManage && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 text-xs text-red-500 hover:text-red-400 hover:bg-red-500/10 shrink-0"
+                      onClick={() => handleDelete(limit)}
+                    >
+                      <Trash2 className="w-3 h-3 mr-1.5" />
+                      Remove
+                    </Button>
+                  )}
+                </div>
+                <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className={cn(
+                      'h-full rounded-full',
+                      limit.percentUsed >= 100 ? 'bg-red-500' : limit.percentUsed >= 80 ? 'bg-amber-500' : 'bg-primary'
+                    )}
+                    style={{ width: `${Math.min(limit.percentUsed, 100)}%` }}
+                  />
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {formatCents(limit.spentInCents)} spent {periodInfo?.current} ({limit.percentUsed}%) · resets{' '}
+                  {new Date(limit.resetsAt).toLocaleString()}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {canManage ? (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {ACTION_TYPES.map((action) => (
+              <Button
+                key={action.value}
+                size="sm"
+                variant={actionType === action.value ? 'secondary' : 'outline'}
+                onClick={() => setActionType(action.value)}
+              >
+                {action.label}
+              </Button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {PERIODS.map((p) => (
+              <Button
+                key={p.value}
+                size="sm"
+                variant={period === p.value ? 'secondary' : 'outline'}
+                onClick={() => setPeriod(p.value)}
+              >
+                {p.label}
+              </Button>
+            ))}
+            <Input
+              type="number"
+              min="1"
+              step="1"
+              placeholder="Limit ($)"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="w-32"
+            />
+            <Button size="sm" onClick={handleSave} disabled={saving || !amount}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save limit
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Saving a limit for an action and period that already has one changes its amount.
+          </p>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Only workspace admins can change spend limits.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,494 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  AlertCircle,
+  Check,
+  ChevronDown,
+  ChevronRight,
+  Copy,
+  Eye,
+  EyeOff,
+  Loader2,
+  Plus,
+  RefreshCw,
+  Send,
+  Trash2,
+  Webhook,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useConfirm, useToast } from '@/components/ui/toast';
+import { cn } from '@/lib/utils';
+
+// Mirrors lib/webhooks.ts (server-only)
+interface WebhookEvent {
+  type: string;
+  description: string;
+}
+
+interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  events: string[];
+  secret: string;
+  enabled: boolean;
+  created_at: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  event_type: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  next_attempt_at: string | null;
+  response_status: number | null;
+  last_error: string | null;
+  created_at: string;
+}
+
+const DELIVERY_STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  succeeded: 'bg-emerald-500/10 text-emerald-500',
+  pending: 'bg-amber-500/10 text-amber-500',
+  failed: 'bg-red-500/10 text-red-500',
+};
+
+function DeliveryLog({ endpointId, refreshKey }: { endpointId: string; refreshKey: number }) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const fetchDeliveries = async () => {
+      setLoading(true);
+      try {
+        const res = await fetch(`/api/integrations/webhooks/${endpointId}/deliveries`);
+        const data = await res.json();
+        setDeliveries(data.success ? data.deliveries : []);
+      } catch (error) {
+        console.error('Failed to load webhook deliveries:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchDeliveries();
+  }, [endpointId, refreshKey, reloadKey]);
+
+  return (
+    <div className="border-t border-border/30 bg-muted/10">
+      <div className="flex items-center justify-between px-4 py-2">
+        <span className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+          Recent deliveries
+        </span>
+        <button
+          onClick={() => setReloadKey((key) => key + 1)}
+          className="p-1 rounded hover:bg-muted transition-colors"
+          title="Refresh"
+        >
+          <RefreshCw className={cn('w-3.5 h-3.5 text-muted-foreground', loading && 'animate-spin')} />
+        </button>
+      </div>
+      {!loading && deliveries.length === 0 ? (
+        <p className="px-4 pb-3 text-xs text-muted-foreground">No deliveries yet</p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto divide-y divide-border/30">
+          {deliveries.map((delivery) => (
+            <div key={delivery.id} className="px-4 py-2 text-xs">
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className={cn('px-1.5 py-0.5 rounded font-medium', DELIVERY_STATUS_STYLES[delivery.status])}>
+                    {delivery.status === 'pending' ? 'Retrying' : delivery.status === 'succeeded' ? 'Delivered' : 'Failed'}
+                  </span>
+                  <span className="font-mono truncate">{delivery.event_type}</span>
+                </div>
+                <span className="text-muted-foreground shrink-0">
+                  {new Date(delivery.created_at).toLocaleString()}
+                </span>
+              </div>
+              <div className="mt-1 text-muted-foreground">
+                {delivery.attempts} attempt{delivery.attempts !== 1 ? 's' : ''}
+                {delivery.response_status !== null && ` · HTTP ${delivery.response_status}`}
+                {delivery.status === 'pending' && delivery.next_attempt_at &&
+                  ` · next try ${new Date(delivery.next_attempt_at).toLocaleTimeString()}`}
+              </div>
+              {delivery.last_error && delivery.status !== 'succeeded' && (
+                <p className="mt-0.5 text-red-500">{delivery.last_error}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Settings > Integrations > Webhooks: endpoints, secrets, test sends and delivery logs */
+export function WebhookEndpoints() {
+  const { addToast } = useToast();
+  const confirm = useConfirm();
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  const [showForm, setShowForm] = useState(false);
+  const [newUrl, setNewUrl] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [newEvents, setNewEvents] = useState<Set<string>>(new Set());
+  const [creating, setCreating] = useState(false);
+
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [revealedIds, setRevealedIds] = useState<Set<string>>(new Set());
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [logRefreshKey, setLogRefreshKey] = useState(0);
+
+  useEffect(() => {
+    const fetchEndpoints = async () => {
+      try {
+        const res = await fetch('/api/integrations/webhooks');
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+        setEndpoints(data.endpoints);
+        setEvents(data.events);
+      } catch (error) {
+        console.error('Failed to load webhooks:', error);
+        setLoadFailed(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchEndpoints();
+  }, []);
+
+  const replaceEndpoint = (endpoint: WebhookEndpoint) => {
+    setEndpoints((prev) => prev.map((e) => (e.id === endpoint.id ? endpoint : e)));
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const res = await fetch('/api/integrations/webhooks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          url: newUrl,
+          description: newDescription || null,
+          events: Array.from(newEvents),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        addToast('error', 'Could not add webhook', data.error || 'Please try again');
+        return;
+      }
+      setEndpoints((prev) => [...prev, data.endpoint]);
+      setRevealedIds((prev) => new Set(prev).add(data.endpoint.id));
+      setShowForm(false);
+      setNewUrl('');
+      setNewDescription('');
+      setNewEvents(new Set());
+      addToast('success', 'Webhook added', 'Copy the signing secret to verify deliveries');
+    } catch (error) {
+      console.error('Failed to add webhook:', error);
+      addToast('error', 'Could not add webhook', 'Could not connect to the server');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleUpdate = async (endpoint: WebhookEndpoint, updates: Partial<Pick<WebhookEndpoint, 'enabled' | 'events'>>) => {
+    try {
+      const res = await fetch(`/api/integrations/webhooks/${endpoint.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        addToast('error', 'Update failed', data.error || 'Please try again');
+        return;
+      }
+      replaceEndpoint(data.endpoint);
+    } catch (error) {
+      console.error('Failed to update webhook:', error);
+      addToast('error', 'Update failed', 'Could not connect to the server');
+    }
+  };
+
+  const handleDelete = async (endpoint: WebhookEndpoint) => {
+    const confirmed = await confirm({
+      title: 'Delete webhook',
+      description: `Stop sending events to ${endpoint.url}? Its delivery log is deleted too.`,
+      confirmText: 'Delete',
+      cancelText: 'Cancel',
+      variant: 'destructive',
+    });
+    if (!confirmed) return;
+
+    try {
+      const res = await fetch(`/api/integrations/webhooks/${endpoint.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        addToast('error', 'Delete failed', data.error || 'Please try again');
+        return;
+      }
+      setEndpoints((prev) => prev.filter((e) => e.id !== endpoint.id));
+      addToast('success', 'Webhook deleted');
+    } catch (error) {
+      console.error('Failed to delete webhook:', error);
+      addToast('error', 'Delete failed', 'Could not connect to the server');
+    }
+  };
+
+  const handleTest = async (endpoint: WebhookEndpoint) => {
+    setTestingId(endpoint.id);
+    try {
+      const res = await fetch(`/api/integrations/webhooks/${endpoint.id}/test`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        addToast('error', 'Test failed', data.error || 'Please try again');
+        return;
+      }
+      if (data.delivery.status === 'succeeded') {
+        addToast('success', 'Test event delivered', `Your endpoint responded with ${data.delivery.response_status}`);
+      } else {
+        addToast('error', 'Test event failed', data.delivery.last_error || 'Your endpoint did not accept the event');
+      }
+      setExpandedId(endpoint.id);
+      setLogRefreshKey((key) => key + 1);
+    } catch (error) {
+      console.error('Failed to send test webhook:', error);
+      addToast('error', 'Test failed', 'Could not connect to the server');
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleCopySecret = async (secret: string) => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      addToast('success', 'Secret copied');
+    } catch {
+      addToast('error', 'Copy failed', 'Select the secret and copy it manually');
+    }
+  };
+
+  const toggleNewEvent = (type: string) => {
+    const next = new Set(newEvents);
+    if (next.has(type)) next.delete(type);
+    else next.add(type);
+    setNewEvents(next);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (loadFailed) {
+    return (
+      <div className="flex items-center gap-2 p-3 rounded-lg bg-red-500/10 text-red-500 border border-red-500/20 text-sm">
+        <AlertCircle className="w-4 h-4 shrink-0" />
+        <span>Couldn&apos;t load your webhooks.</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="font-medium flex items-center gap-2">
+            <Webhook className="w-4 h-4" />
+            Webhooks
+          </div>
+          <div className="text-sm text-muted-foreground">
+            Send signed events to Zapier, Make, n8n or your own services
+          </div>
+        </div>
+        {!showForm && (
+          <Button size="sm" variant="outline" onClick={() => setShowForm(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Endpoint
+          </Button>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="p-4 rounded-lg border border-border/50 bg-card/30 space-y-3">
+          <Input
+            value={newUrl}
+            onChange={(e) => setNewUrl(e.target.value)}
+            placeholder="https://hooks.example.com/guffles"
+            className="font-mono text-xs"
+          />
+          <Input
+            value={newDescription}
+            onChange={(e) => setNewDescription(e.target.value)}
+            placeholder="Description (optional)"
+            maxLength={200}
+          />
+          <div className="space-y-2">
+            {events.map((event) => (
+              <label key={event.type} className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={newEvents.has(event.type)}
+                  onChange={() => toggleNewEvent(event.type)}
+                  className="mt-0.5"
+                />
+                <span className="text-sm">
+                  <span className="font-mono text-xs">{event.type}</span>
+                  <span className="block text-xs text-muted-foreground">{event.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <Button size="sm" onClick={handleCreate} disabled={creating || !newUrl.trim() || newEvents.size === 0}>
+              {creating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Check className="w-4 h-4 mr-2" />}
+              Add Webhook
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setShowForm(false)} disabled={creating}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {endpoints.length === 0 && !showForm && (
+        <p className="text-sm text-muted-foreground p-4 rounded-lg border border-dashed border-border/50 text-center">
+          No webhook endpoints yet
+        </p>
+      )}
+
+      {endpoints.map((endpoint) => {
+        const isExpanded = expandedId === endpoint.id;
+        const isRevealed = revealedIds.has(endpoint.id);
+
+        return (
+          <div key={endpoint.id} className="rounded-lg border border-border/50 bg-card/30 overflow-hidden">
+            <div className="p-4 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="font-mono text-xs truncate">{endpoint.url}</div>
+                  {endpoint.description && (
+                    <div className="text-sm text-muted-foreground mt-0.5">{endpoint.description}</div>
+                  )}
+                </div>
+                <button
+                  onClick={() => handleUpdate(endpoint, { enabled: !endpoint.enabled })}
+                  title={endpoint.enabled ? 'Pause deliveries' : 'Resume deliveries'}
+                  className={cn(
+                    'relative w-11 h-6 rounded-full transition-colors shrink-0',
+                    endpoint.enabled ? 'bg-primary' : 'bg-muted'
+                  )}
+                >
+                  <div
+                    className={cn(
+                      'absolute top-1 w-4 h-4 rounded-full bg-white transition-transform',
+                      endpoint.enabled ? 'translate-x-6' : 'translate-x-1'
+                    )}
+                  />
+                </button>
+              </div>
+
+              <div className="flex flex-wrap gap-1.5">
+                {events.map((event) => {
+                  const subscribed = endpoint.events.includes(event.type);
+                  return (
+                    <button
+                      key={event.type}
+                      onClick={() => {
+                        const next = subscribed
+                          ? endpoint.events.filter((type) => type !== event.type)
+                          : [...endpoint.events, event.type];
+                        if (next.length > 0) handleUpdate(endpoint, { events: next });
+                      }}
+                      title={event.description}
+                      className={cn(
+                        'px-2 py-0.5 rounded text-[11px] font-mono border transition-colors',
+                        subscribed
+                          ? 'bg-primary/10 text-primary border-primary/30'
+                          : 'text-muted-foreground border-border/50 hover:border-border'
+                      )}
+                    >
+                      {event.type}
+                    </button>
+                  );
+                })}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground shrink-0">Signing secret</span>
+                <code className="flex-1 min-w-0 truncate text-xs font-mono bg-muted/40 px-2 py-1 rounded">
+                  {isRevealed ? endpoint.secret : 'whsec_' + '•'.repeat(24)}
+                </code>
+                <button
+                  onClick={() => {
+                    const next = new Set(revealedIds);
+                    if (isRevealed) next.delete(endpoint.id);
+                    else next.add(endpoint.id);
+                    setRevealedIds(next);
+                  }}
+                  className="p-1 rounded hover:bg-muted transition-colors"
+                  title={isRevealed ? 'Hide' : 'Reveal'}
+                >
+                  {isRevealed ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+                </button>
+                <button
+                  onClick={() => handleCopySecret(endpoint.secret)}
+                  className="p-1 rounded hover:bg-muted transition-colors"
+                  title="Copy"
+                >
+                  <Copy className="w-3.5 h-3.5" />
+                </button>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-7 text-xs"
+                  onClick={() => handleTest(endpoint)}
+                  disabled={testingId !== null}
+                >
+                  {testingId === endpoint.id ? (
+                    <Loader2 className="w-3 h-3 mr-1.5 animate-spin" />
+                  ) : (
+                    <Send className="w-3 h-3 mr-1.5" />
+                  )}
+                  Send Test Event
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 text-xs"
+                  onClick={() => setExpandedId(isExpanded ? null : endpoint.id)}
+                >
+                  {isExpanded ? <ChevronDown className="w-3 h-3 mr-1.5" /> : <ChevronRight className="w-3 h-3 mr-1.5" />}
+                  Deliveries
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 text-xs ml-auto text-red-500 hover:text-red-400 hover:bg-red-500/10"
+                  onClick={() => handleDelete(endpoint)}
+                >
+                  <Trash2 className="w-3 h-3 mr-1.5" />
+                  Delete
+                </Button>
+              </div>
+            </div>
+
+            {isExpanded && <DeliveryLog endpointId={endpoint.id} refreshKey={logRefreshKey} />}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
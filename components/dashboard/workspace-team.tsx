@@ -0,0 +1,495 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, Check, Loader2, LogOut, Mail, Plus, Trash2, Users, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useConfirm, useToast } from '@/components/ui/toast';
+import { cn } from '@/lib/utils';
+
+// Mirrors lib/workspaces.ts (server-only)
+type WorkspaceRole = 'owner' | 'admin' | 'member';
+type InviteRole = Exclude<WorkspaceRole, 'owner'>;
+
+interface Workspace {
+  id: string;
+  name: string;
+}
+
+interface WorkspaceMember {
+  user_id: string;
+  role: WorkspaceRole;
+  email: string;
+  full_name: string | null;
+  joined_at: string;
+}
+
+interface WorkspaceInvite {
+  id: string;
+  email: string;
+  role: InviteRole;
+  expires_at: string;
+  workspace_name?: string;
+}
+
+interface WorkspaceData {
+  userId: string;
+  workspace: Workspace | null;
+  role: WorkspaceRole;
+  members: WorkspaceMember[];
+  invites: WorkspaceInvite[];
+  pendingInvites: WorkspaceInvite[];
+  spend: Record<string, number>;
+  spendSince: string | null;
+}
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+};
+
+function formatCents(cents: number): string {
+  return `$${(Math.max(0, cents) / 100).toFixed(2)}`;
+}
+
+/**
+ * Settings > Team: create a workspace, invite members, manage roles and see
+ * each member's spend from the shared wallet. Invitees accept or decline here.
+ */
+export function WorkspaceTeam() {
+  const { addToast } = useToast();
+  const confirm = useConfirm();
+  const [data, setData] = useState<WorkspaceData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  const [workspaceName, setWorkspaceName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<InviteRole>('member');
+  const [inviting, setInviting] = useState(false);
+
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchWorkspace = useCallback(async () => {
+    try {
+      const res = await fetch('/api/workspace');
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error);
+      setData(json);
+      setLoadFailed(false);
+    } catch (error) {
+      console.error('Failed to load workspace:', error);
+      setLoadFailed(true);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWorkspace();
+  }, [fetchWorkspace]);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const res = await fetch('/api/workspace', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: workspaceName }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        addToast('error', 'Could not create workspace', json.error || 'Please try again');
+        return;
+      }
+      setWorkspaceName('');
+      addToast('success', 'Workspace created', 'Invite your team to share your wallet and CRM');
+      await fetchWorkspace();
+    } catch (error) {
+      console.error('Failed to create workspace:', error);
+      addToast('error', 'Could not create workspace', 'Could not connect to the server');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleInvite = async () => {
+    setInviting(true);
+    try {
+      const res = await fetch('/api/workspace/invites', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: inviteEmail, role: inviteRole }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        addToast('error', 'Invite failed', json.error || 'Please try again');
+        return;
+      }
+      setData((prev) => prev && {
+        ...prev,
+        invites: [json.invite, ...prev.invites.filter((invite) => invite.email !== json.invite.email)],
+      });
+      setInviteEmail('');
+      addToast('success', 'Invite created', `${json.invite.email} can accept it from Settings > Team`);
+    } catch (error) {
+      console.error('Failed to invite member:', error);
+      addToast('error', 'Invite failed', 'Could not connect to the server');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleDeleteInvite = async (invite: WorkspaceInvite, incoming: boolean) => {
+    setBusyId(invite.id);
+    try {
+      const res = await fetch(`/api/workspace/invites/${invite.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({}));
+        addToast('error', incoming ? 'Decline failed' : 'Revoke failed', json.error || 'Please try again');
+        return;
+      }
+      setData((prev) => prev && {
+        ...prev,
+        invites: prev.invites.filter((i) => i.id !== invite.id),
+        pendingInvites: prev.pendingInvites.filter((i) => i.id !== invite.id),
+      });
+    } catch (error) {
+      console.error('Failed to delete invite:', error);
+      addToast('error', incoming ? 'Decline failed' : 'Revoke failed', 'Could not connect to the server');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleAccept = async (invite: WorkspaceInvite) => {
+    setBusyId(invite.id);
+    try {
+      const res = await fetch(`/api/workspace/invites/${invite.id}/accept`, { method: 'POST' });
+      const json = await res.json();
+      if (!res.ok) {
+        addToast('error', 'Could not join workspace', json.error || 'Please try again');
+        return;
+      }
+      // Everything on the dashboard now comes from the workspace's account
+      window.location.assign('/dashboard');
+    } catch (error) {
+      console.error('Failed to accept invite:', error);
+      addToast('error', 'Could not join workspace', 'Could not connect to the server');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleChangeRole = async (member: WorkspaceMember, role: InviteRole) => {
+    setBusyId(member.user_id);
+    try {
+      const res = await fetch(`/api/workspace/members/${member.user_id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role }),
+      });
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({}));
+        addToast('error', 'Role change failed', json.error || 'Please try again');
+        return;
+      }
+      setData((prev) => prev && {
+        ...prev,
+        members: prev.members.map((m) => (m.user_id === member.user_id ? { ...m, role } : m)),
+      });
+    } catch (error) {
+      console.error('Failed to change role:', error);
+      addToast('error', 'Role change failed', 'Could not connect to the server');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRemove = async (member: WorkspaceMember, isSelf: boolean) => {
+    const confirmed = await confirm(isSelf
+      ? {
+          title: 'Leave workspace',
+          description: 'You will lose access to the shared wallet, CRM and analysis history. Your past work stays in the workspace.',
+          confirmText: 'Leave',
+          cancelText: 'Cancel',
+          variant: 'destructive',
+        }
+      : {
+          title: 'Remove member',
+          description: `${member.full_name || member.email} will lose access to the workspace. Their past work stays here.`,
+          confirmText: 'Remove',
+          cancelText: 'Cancel',
+          variant: 'destructive',
+        });
+    if (!confirmed) return;
+
+    setBusyId(member.user_id);
+    try {
+      const res = await fetch(`/api/workspace/members/${member.user_id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({}));
+        addToast('error', isSelf ? 'Could not leave' : 'Remove failed', json.error || 'Please try again');
+        return;
+      }
+      if (isSelf) {
+        window.location.assign('/dashboard');
+        return;
+      }
+      setData((prev) => prev && {
+        ...prev,
+        members: prev.members.filter((m) => m.user_id !== member.user_id),
+      });
+      addToast('success', 'Member removed');
+    } catch (error) {
+      console.error('Failed to remove member:', error);
+      addToast('error', isSelf ? 'Could not leave' : 'Remove failed', 'Could not connect to the server');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (loadFailed || !data) {
+    return (
+      <div className="flex items-center gap-2 p-3 rounded-lg bg-red-500/10 text-red-500 border border-red-500/20 text-sm">
+        <AlertCircle className="w-4 h-4 shrink-0" />
+        <span>Couldn&apos;t load your team.</span>
+      </div>
+    );
+  }
+
+  const canManage = data.role === 'owner' || data.role === 'admin';
+
+  if (!data.workspace) {
+    return (
+      <div className="space-y-6">
+        {data.pendingInvites.length > 0 && (
+          <div className="space-y-2">
+            <div className="font-medium flex items-center gap-2">
+              <Mail className="w-4 h-4" />
+              Invitations
+            </div>
+            {data.pendingInvites.map((invite) => (
+              <div
+                key={invite.id}
+                className="p-4 rounded-lg border border-primary/30 bg-primary/5 flex items-center justify-between gap-4"
+              >
+                <div className="min-w-0">
+                  <div className="font-medium text-sm truncate">{invite.workspace_name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    Join as {ROLE_LABELS[invite.role]} · expires {new Date(invite.expires_at).toLocaleDateString()}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Button size="sm" onClick={() => handleAccept(invite)} disabled={busyId === invite.id}>
+                    {busyId === invite.id ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Check className="w-4 h-4 mr-2" />}
+                    Accept
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDeleteInvite(invite, true)}
+                    disabled={busyId === invite.id}
+                  >
+                    <X className="w-4 h-4 mr-2" />
+                    Decline
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="p-4 rounded-lg border border-border/50 bg-card/30 space-y-3">
+          <div>
+            <div className="font-medium flex items-center gap-2">
+              <Users className="w-4 h-4" />
+              Create a workspace
+            </div>
+            <p className="text-sm text-muted-foreground mt-1">
+              Your subscription, wallet, CRM and analysis history become shared with everyone you invite.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              value={workspaceName}
+              onChange={(e) => setWorkspaceName(e.target.value)}
+              placeholder="Workspace name (e.g. Acme Sales)"
+              maxLength={80}
+            />
+            <Button onClick={handleCreate} disabled={creating || !workspaceName.trim()}>
+              {creating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+              Create
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="font-medium flex items-center gap-2">
+              <Users className="w-4 h-4" />
+              {data.workspace.name}
+            </div>
+            {data.spendSince && (
+              <div className="text-sm text-muted-foreground">
+                Spend since {new Date(data.spendSince).toLocaleDateString()}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {data.members.map((member) => {
+          const isSelf = member.user_id === data.userId;
+          const canRemove = !isSelf && member.role !== 'owner'
+            && canManage && (member.role === 'member' || data.role === 'owner');
+
+          return (
+            <div
+              key={member.user_id}
+              className="p-4 rounded-lg border border-border/50 bg-card/30 flex items-center justify-between gap-4"
+            >
+              <div className="min-w-0">
+                <div className="font-medium text-sm truncate">
+                  {member.full_name || member.email}
+                  {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                </div>
+                <div className="text-xs text-muted-foreground truncate">
+                  {member.email} · spent {formatCents(data.spend[member.user_id] || 0)}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {data.role === 'owner' && member.role !== 'owner' ? (
+                  <div className="flex rounded-md border border-border/50 overflow-hidden">
+                    {(['admin', 'member'] as const).map((role) => (
+                      <button
+                        key={role}
+                        onClick={() => role !== member.role && handleChangeRole(member, role)}
+                        disabled={busyId === member.user_id}
+                        className={cn(
+                          'px-2 py-1 text-xs transition-colors',
+                          member.role === role
+                            ? 'bg-primary/10 text-primary'
+                            : 'text-muted-foreground hover:bg-muted'
+                        )}
+                      >
+                        {ROLE_LABELS[role]}
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <span className="px-1.5 py-0.5 rounded text-xs font-medium bg-muted text-muted-foreground">
+                    {ROLE_LABELS[member.role]}
+                  </span>
+                )}
+                {canRemove && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 text-xs text-red-500 hover:text-red-400 hover:bg-red-500/10"
+                    onClick={() => handleRemove(member, false)}
+                    disabled={busyId === member.user_id}
+                  >
+                    <Trash2 className="w-3 h-3 mr-1.5" />
+                    Remove
+                  </Button>
+                )}
+                {isSelf && member.role !== 'owner' && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 text-xs text-red-500 hover:text-red-400 hover:bg-red-500/10"
+                    onClick={() => handleRemove(member, true)}
+                    disabled={busyId === member.user_id}
+                  >
+                    <LogOut className="w-3 h-3 mr-1.5" />
+                    Leave
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {canManage && (
+        <div className="border-t border-border/50 pt-6 space-y-3">
+          <div className="font-medium flex items-center gap-2">
+            <Mail className="w-4 h-4" />
+            Invite members
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="name@company.com"
+              className="flex-1 min-w-[200px]"
+            />
+            <div className="flex rounded-md border border-border/50 overflow-hidden">
+              {(['member', 'admin'] as const).map((role) => (
+                <button
+                  key={role}
+                  onClick={() => setInviteRole(role)}
+                  className={cn(
+                    'px-3 py-2 text-xs transition-colors',
+                    inviteRole === role ? 'bg-primary/10 text-primary' : 'text-muted-foreground hover:bg-muted'
+                  )}
+                >
+                  {ROLE_LABELS[role]}
+                </button>
+              ))}
+            </div>
+            <Button onClick={handleInvite} disabled={inviting || !inviteEmail.trim()}>
+              {inviting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+              Invite
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Invitees accept from Settings &gt; Team after signing in with the invited email.
+          </p>
+
+          {data.invites.map((invite) => (
+            <div
+              key={invite.id}
+              className="p-3 rounded-lg border border-dashed border-border/50 flex items-center justify-between gap-4"
+            >
+              <div className="min-w-0">
+                <div className="text-sm truncate">{invite.email}</div>
+                <div className="text-xs text-muted-foreground">
+                  {ROLE_LABELS[invite.role]} · expires {new Date(invite.expires_at).toLocaleDateString()}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 text-xs text-red-500 hover:text-red-400 hover:bg-red-500/10 shrink-0"
+                onClick={() => handleDeleteInvite(invite, false)}
+                disabled={busyId === invite.id}
+              >
+                <Trash2 className="w-3 h-3 mr-1.5" />
+                Revoke
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+-- =============================================================================
+-- MIGRATION: Add analysis_batches for bulk post analysis
+-- =============================================================================
+-- Date: 2026-10-19
+-- Purpose: Let users submit many post URLs at once. A batch is a group of
+-- ordinary analysis_jobs (one per post, each with its own wallet reservation)
+-- whose results are combined into one deduped lead list.
+--
+-- CONTEXT:
+-- Builds on 2026-10-19-analysis-jobs.sql. claim_analysis_jobs gains a
+-- p_batch_id filter so the request that created a batch can work through its
+-- own jobs; the cron sweeper picks up whatever is left.
+--
+-- MUST BE RUN BEFORE deploying the corresponding code changes.
+-- Run in Supabase SQL Editor (Dashboard > SQL Editor > New Query).
+-- =============================================================================
+
+-- ---------------------------------------------------------------------------
+-- STEP 1: Batches table
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS analysis_batches (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT,
+  post_urls TEXT[] NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_batches_user_created
+  ON analysis_batches (user_id, created_at DESC);
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 2: Link jobs to their batch
+-- ---------------------------------------------------------------------------
+ALTER TABLE analysis_jobs
+  ADD COLUMN IF NOT EXISTS batch_id TEXT REFERENCES analysis_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_batch
+  ON analysis_jobs (batch_id)
+  WHERE batch_id IS NOT NULL;
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 3: Replace claim_analysis_jobs with a batch-aware version
+-- ---------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS claim_analysis_jobs(INTEGER, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION claim_analysis_jobs(
+  p_limit INTEGER DEFAULT 1,
+  p_job_id TEXT DEFAULT NULL,
+  p_lock_minutes INTEGER DEFAULT 15,
+  p_max_attempts INTEGER DEFAULT 3,
+  p_batch_id TEXT DEFAULT NULL
+)
+RETURNS SETOF analysis_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE analysis_jobs j
+  SET status = 'running',
+      attempts = j.attempts + 1,
+      locked_until = NOW() + make_interval(mins => p_lock_minutes),
+      started_at = COALESCE(j.started_at, NOW()),
+      updated_at = NOW()
+  WHERE j.id IN (
+    SELECT c.id
+    FROM analysis_jobs c
+    WHERE (p_job_id IS NULL OR c.id = p_job_id)
+      AND (p_batch_id IS NULL OR c.batch_id = p_batch_id)
+      AND (c.status = 'queued' OR (c.status = 'running' AND c.locked_until < NOW()))
+      AND c.attempts < p_max_attempts
+    ORDER BY c.created_at ASC
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+
+-- ---------------------------------------------------------------------------
+-- VERIFICATION QUERIES
+-- ---------------------------------------------------------------------------
+-- SELECT column_name FROM information_schema.columns
+-- WHERE table_name = 'analysis_jobs' AND column_name = 'batch_id';
+-- SELECT pg_get_function_arguments(oid) FROM pg_proc WHERE proname = 'claim_analysis_jobs';
@@ -0,0 +1,92 @@
+-- =============================================================================
+-- MIGRATION: Keep job-backed wallet reservations out of the expiry sweep
+-- =============================================================================
+-- Date: 2026-10-19
+-- Purpose: Stop queued analysis jobs from losing their wallet reservation to
+-- release_expired_wallet_reservations before they run.
+--
+-- CONTEXT:
+-- Analysis jobs (2026-10-19-analysis-jobs.sql) reserve credits when they're
+-- queued, but a bulk batch or a monitored profile's backlog can wait in the
+-- queue for longer than the 120 minute reservation expiry. The expiry sweep
+-- refunded those holds in full, and settle_wallet_reservation then settled
+-- the finished job for nothing because the reservation was no longer
+-- 'reserved'.
+--
+-- Reservations of queued or running jobs are now skipped by the sweep; the
+-- worker settles or releases them, and the cron sweeper fails (and releases)
+-- jobs that run out of attempts. The worker also refuses to run a job whose
+-- reservation was released elsewhere.
+--
+-- MUST BE RUN BEFORE deploying the corresponding code changes.
+-- Run in Supabase SQL Editor (Dashboard > SQL Editor > New Query).
+-- =============================================================================
+
+-- ---------------------------------------------------------------------------
+-- STEP 1: Look up active jobs by reservation
+-- ---------------------------------------------------------------------------
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_active_reservation
+  ON analysis_jobs (user_id, reservation_id)
+  WHERE status IN ('queued', 'running');
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 2: Release expired reservations, except those held by active jobs
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION release_expired_wallet_reservations(
+  p_user_id TEXT,
+  p_older_than_minutes INTEGER DEFAULT 120
+)
+RETURNS TABLE(released_count INTEGER, refunded_amount INTEGER)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tx RECORD;
+  v_result RECORD;
+  v_released_count INTEGER := 0;
+  v_refunded_amount INTEGER := 0;
+BEGIN
+  FOR v_tx IN
+    SELECT wt.id::TEXT AS reservation_id, wt.amount
+    FROM wallet_transactions wt
+    WHERE wt.user_id = p_user_id
+      AND COALESCE(wt.metadata->>'reservationStatus', '') = 'reserved'
+      AND wt.created_at < NOW() - make_interval(mins => p_older_than_minutes)
+      AND NOT EXISTS (
+        SELECT 1
+        FROM analysis_jobs j
+        WHERE j.user_id = p_user_id
+          AND j.reservation_id = wt.id::TEXT
+          AND j.status IN ('queued', 'running')
+      )
+    ORDER BY wt.created_at ASC
+  LOOP
+    SELECT *
+    INTO v_result
+    FROM settle_wallet_reservation(
+      p_user_id,
+      v_tx.reservation_id,
+      0,
+      jsonb_build_object('releaseReason', 'expired_reservation')
+    );
+
+    IF v_result.success THEN
+      v_released_count := v_released_count + 1;
+      v_refunded_amount := v_refunded_amount + v_result.refund_amount;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY SELECT v_released_count, v_refunded_amount;
+END;
+$$;
+
+
+-- ---------------------------------------------------------------------------
+-- VERIFICATION QUERIES
+-- ---------------------------------------------------------------------------
+-- Reservations of active jobs that are past the expiry (should stay 'reserved'):
+-- SELECT j.id, j.status, wt.created_at, wt.metadata->>'reservationStatus'
+--   FROM analysis_jobs j
+--   JOIN wallet_transactions wt ON wt.id::TEXT = j.reservation_id
+--  WHERE j.status IN ('queued', 'running')
+--    AND wt.created_at < NOW() - INTERVAL '120 minutes';
@@ -0,0 +1,99 @@
+-- =============================================================================
+-- MIGRATION: Add analysis_jobs table and claim RPC
+-- =============================================================================
+-- Date: 2026-10-19
+-- Purpose: Run post analyses as server-side background jobs instead of a
+-- browser-driven sequence of server actions.
+--
+-- CONTEXT:
+-- The analyze page used to call fetchPostDetails → fetchReactions →
+-- fetchComments → trackAnalysisUsage from the browser. Closing the tab midway
+-- left the wallet reservation open (until the 120 minute expiry) and lost the
+-- scraped results. Now the page only submits a job; lib/analysis-jobs.ts runs
+-- the Apify steps, settles or releases the reservation and saves the analysis.
+--
+-- Jobs are claimed atomically (FOR UPDATE SKIP LOCKED) so the request that
+-- submitted the job and the cron sweeper can never run the same job twice.
+-- A claimed job holds a lock until locked_until; if the worker dies the cron
+-- sweeper re-claims it after the lock expires (max 3 attempts).
+--
+-- MUST BE RUN BEFORE deploying the corresponding code changes.
+-- Run in Supabase SQL Editor (Dashboard > SQL Editor > New Query).
+-- =============================================================================
+
+-- ---------------------------------------------------------------------------
+-- STEP 1: Jobs table
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS analysis_jobs (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  post_url TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  step TEXT NOT NULL DEFAULT 'queued',
+  reservation_id TEXT,
+  settled_at TIMESTAMPTZ,
+  analysis_id TEXT,
+  post_data JSONB,
+  reactions_count INTEGER,
+  comments_count INTEGER,
+  qualified_leads_count INTEGER,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_user_created
+  ON analysis_jobs (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_pending
+  ON analysis_jobs (status, locked_until)
+  WHERE status IN ('queued', 'running');
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 2: Claim jobs atomically
+-- ---------------------------------------------------------------------------
+-- Pass p_job_id to claim one specific job (used right after submission),
+-- or leave it NULL to claim the oldest runnable jobs (cron sweeper).
+CREATE OR REPLACE FUNCTION claim_analysis_jobs(
+  p_limit INTEGER DEFAULT 1,
+  p_job_id TEXT DEFAULT NULL,
+  p_lock_minutes INTEGER DEFAULT 15,
+  p_max_attempts INTEGER DEFAULT 3
+)
+RETURNS SETOF analysis_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE analysis_jobs j
+  SET status = 'running',
+      attempts = j.attempts + 1,
+      locked_until = NOW() + make_interval(mins => p_lock_minutes),
+      started_at = COALESCE(j.started_at, NOW()),
+      updated_at = NOW()
+  WHERE j.id IN (
+    SELECT c.id
+    FROM analysis_jobs c
+    WHERE (p_job_id IS NULL OR c.id = p_job_id)
+      AND (c.status = 'queued' OR (c.status = 'running' AND c.locked_until < NOW()))
+      AND c.attempts < p_max_attempts
+    ORDER BY c.created_at ASC
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+
+-- ---------------------------------------------------------------------------
+-- VERIFICATION QUERIES
+-- ---------------------------------------------------------------------------
+-- SELECT proname FROM pg_proc WHERE proname = 'claim_analysis_jobs';
+-- SELECT status, COUNT(*) FROM analysis_jobs GROUP BY status;
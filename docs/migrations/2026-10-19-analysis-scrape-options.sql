@@ -0,0 +1,35 @@
+-- =============================================================================
+-- MIGRATION: Per-analysis reaction type filter on analysis_jobs
+-- =============================================================================
+-- Date: 2026-10-19
+-- Purpose: Let an analysis keep only some reaction types (e.g. Insightful and
+-- Support) as leads.
+--
+-- CONTEXT:
+-- - Per-analysis caps reuse reaction_cap / comment_cap from
+--   2026-10-19-profile-monitoring.sql. A cap of 0 turns that source off, so
+--   "comments only" is reaction_cap = 0.
+-- - reaction_types filters reactions after they're scraped. The reactions
+--   scraper can't filter by type, so every scraped reaction is still billed;
+--   only the kept ones become leads. NULL means all types.
+-- - The wallet reservation is sized to the job's caps (lib/usage.ts
+--   reserveAnalysisCredits).
+--
+-- MUST BE RUN BEFORE deploying the corresponding code changes.
+-- Run in Supabase SQL Editor (Dashboard > SQL Editor > New Query).
+-- =============================================================================
+
+-- ---------------------------------------------------------------------------
+-- STEP 1: Reaction type filter
+-- ---------------------------------------------------------------------------
+ALTER TABLE analysis_jobs
+  ADD COLUMN IF NOT EXISTS reaction_types TEXT[];
+
+
+-- ---------------------------------------------------------------------------
+-- VERIFICATION QUERIES
+-- ---------------------------------------------------------------------------
+-- SELECT column_name, data_type FROM information_schema.columns
+-- WHERE table_name = 'analysis_jobs' AND column_name = 'reaction_types';
+-- SELECT id, reaction_cap, comment_cap, reaction_types FROM analysis_jobs
+-- WHERE reaction_types IS NOT NULL ORDER BY created_at DESC LIMIT 20;
@@ -0,0 +1,124 @@
+-- =============================================================================
+-- MIGRATION: Add API keys for the public REST API
+-- =============================================================================
+-- Date: 2026-10-19
+-- Purpose: Let users script analyses, CRM and wallet requests from their own
+-- tools with per-user API keys instead of the Supabase session cookie.
+--
+-- CONTEXT:
+-- Keys are created, scoped and revoked in Settings > API Keys. Only a SHA-256
+-- hash of each key is stored; the key itself is shown once at creation.
+-- The middleware calls use_api_key() for every request that carries
+-- "Authorization: Bearer gk_...": it looks the key up, enforces the key's
+-- per-minute rate limit and logs the request to usage_logs in one atomic step.
+-- See lib/api-keys.ts.
+--
+-- MUST BE RUN BEFORE deploying the corresponding code changes.
+-- Run in Supabase SQL Editor (Dashboard > SQL Editor > New Query).
+-- =============================================================================
+
+-- ---------------------------------------------------------------------------
+-- STEP 1: Keys
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS api_keys (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- First characters of the key (e.g. gk_3fA9x), shown so users can tell keys apart
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  -- e.g. {analyses:read,crm:write}
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+  rate_limit_per_minute INTEGER NOT NULL DEFAULT 60,
+  -- Fixed one-minute window used by use_api_key()
+  rate_window_started_at TIMESTAMPTZ,
+  rate_window_count INTEGER NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user
+  ON api_keys (user_id, created_at DESC);
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 2: Track API requests in usage_logs (action = 'api_request')
+-- ---------------------------------------------------------------------------
+ALTER TABLE usage_logs
+  ADD COLUMN IF NOT EXISTS api_key_id TEXT,
+  ADD COLUMN IF NOT EXISTS request_path TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_usage_logs_api_key
+  ON usage_logs (api_key_id, created_at DESC)
+  WHERE api_key_id IS NOT NULL;
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 3: Authenticate + rate limit + log a request atomically
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION use_api_key(
+  p_key_hash TEXT,
+  p_request_path TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  success BOOLEAN,
+  key_id TEXT,
+  key_user_id TEXT,
+  key_user_email TEXT,
+  key_scopes TEXT[],
+  retry_after_seconds INTEGER,
+  error_message TEXT
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_key api_keys%ROWTYPE;
+  v_email TEXT;
+  v_now TIMESTAMPTZ := NOW();
+BEGIN
+  SELECT *
+  INTO v_key
+  FROM api_keys
+  WHERE key_hash = p_key_hash
+    AND revoked_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, NULL::TEXT, NULL::TEXT, NULL::TEXT, NULL::TEXT[], 0, 'Invalid API key'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_key.rate_window_started_at IS NULL OR v_key.rate_window_started_at <= v_now - INTERVAL '1 minute' THEN
+    v_key.rate_window_started_at := v_now;
+    v_key.rate_window_count := 0;
+  END IF;
+
+  IF v_key.rate_window_count >= v_key.rate_limit_per_minute THEN
+    RETURN QUERY SELECT false, v_key.id, v_key.user_id, NULL::TEXT, v_key.scopes,
+      GREATEST(1, CEIL(EXTRACT(EPOCH FROM (v_key.rate_window_started_at + INTERVAL '1 minute' - v_now)))::INTEGER),
+      'Rate limit exceeded'::TEXT;
+    RETURN;
+  END IF;
+
+  UPDATE api_keys
+  SET rate_window_started_at = v_key.rate_window_started_at,
+      rate_window_count = v_key.rate_window_count + 1,
+      last_used_at = v_now
+  WHERE id = v_key.id;
+
+  INSERT INTO usage_logs (user_id, action, api_key_id, request_path, created_at)
+  VALUES (v_key.user_id, 'api_request', v_key.id, p_request_path, v_now);
+
+  SELECT email INTO v_email FROM users WHERE id = v_key.user_id;
+
+  RETURN QUERY SELECT true, v_key.id, v_key.user_id, v_email, v_key.scopes, 0, NULL::TEXT;
+END;
+$$;
+
+
+-- ---------------------------------------------------------------------------
+-- VERIFICATION QUERIES
+-- ---------------------------------------------------------------------------
+-- SELECT id, user_id, name, key_prefix, scopes, last_used_at, revoked_at FROM api_keys;
+-- SELECT api_key_id, request_path, COUNT(*) FROM usage_logs WHERE action = 'api_request' GROUP BY 1, 2;
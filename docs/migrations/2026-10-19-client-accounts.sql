@@ -0,0 +1,190 @@
+-- =============================================================================
+-- MIGRATION: Add agency client sub-accounts
+-- =============================================================================
+-- Date: 2026-10-19
+-- Purpose: Let agencies on the Scale plan keep each client's leads, ICP,
+-- history and spend apart, with a wallet budget carved out of the agency's
+-- balance.
+--
+-- CONTEXT:
+-- A client sub-account is a row in users with parent_user_id set to the
+-- agency's account. Everything that is already keyed by user_id (crm_leads,
+-- analyses, analysis_jobs, monitored profiles, settings/ICP, integrations,
+-- the wallet columns) therefore works per client without changes. Clients
+-- can't sign in: their email is a placeholder on the reserved .invalid
+-- domain, and the agency's team reaches them through the dashboard client
+-- switcher (see getAccountContext in lib/workspaces.ts).
+--
+-- Budgets: transfer_client_budget() moves credits between the agency wallet
+-- and a client wallet in one transaction. A transfer keeps the plan /
+-- purchased split: it takes the sender's plan credits first (the same order
+-- spending uses), and each part lands as the same kind of credit on the
+-- other side. Plan credits therefore can't be turned into purchased credits
+-- (which survive billing resets) by moving them to a client and back.
+--
+-- MUST BE RUN BEFORE deploying the corresponding code changes.
+-- Run in Supabase SQL Editor (Dashboard > SQL Editor > New Query).
+-- =============================================================================
+
+-- ---------------------------------------------------------------------------
+-- STEP 1: Link client sub-accounts to their agency
+-- ---------------------------------------------------------------------------
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS parent_user_id TEXT REFERENCES users(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_users_parent_user_id
+  ON users (parent_user_id)
+  WHERE parent_user_id IS NOT NULL;
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 2: Move budget between the agency and a client atomically
+-- ---------------------------------------------------------------------------
+-- p_amount > 0 allocates agency credits to the client; p_amount < 0 returns
+-- client credits to the agency. Transfers have no action_type, so they don't
+-- count as spend. plan_amount + purchased_amount = |p_amount|.
+DROP FUNCTION IF EXISTS transfer_client_budget(TEXT, TEXT, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION transfer_client_budget(
+  p_parent_user_id TEXT,
+  p_client_user_id TEXT,
+  p_amount INTEGER,
+  p_actor_user_id TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  success BOOLEAN,
+  parent_balance INTEGER,
+  client_balance INTEGER,
+  plan_amount INTEGER,
+  purchased_amount INTEGER,
+  error_message TEXT
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_parent RECORD;
+  v_client RECORD;
+  v_new_parent_balance INTEGER;
+  v_new_client_balance INTEGER;
+  v_sender_plan_credits INTEGER;
+  v_plan_amount INTEGER;
+  v_purchased_amount INTEGER;
+  v_metadata JSONB;
+BEGIN
+  IF p_amount = 0 THEN
+    RETURN QUERY SELECT false, 0, 0, 0, 0, 'Amount must not be zero'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Lock both rows in id order so concurrent transfers can't deadlock
+  PERFORM 1
+  FROM users
+  WHERE id IN (p_parent_user_id, p_client_user_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT id, wallet_balance, purchased_credits
+  INTO v_parent
+  FROM users
+  WHERE id = p_parent_user_id;
+
+  SELECT id, full_name, wallet_balance, purchased_credits
+  INTO v_client
+  FROM users
+  WHERE id = p_client_user_id
+    AND parent_user_id = p_parent_user_id;
+
+  IF v_parent.id IS NULL OR v_client.id IS NULL THEN
+    RETURN QUERY SELECT false, 0, 0, 0, 0, 'Client not found'::TEXT;
+    RETURN;
+  END IF;
+
+  IF p_amount > 0 AND v_parent.wallet_balance < p_amount THEN
+    RETURN QUERY SELECT false, v_parent.wallet_balance, v_client.wallet_balance, 0, 0, 'Insufficient credits'::TEXT;
+    RETURN;
+  END IF;
+
+  IF p_amount < 0 AND v_client.wallet_balance < -p_amount THEN
+    RETURN QUERY SELECT false, v_parent.wallet_balance, v_client.wallet_balance, 0, 0, 'Client budget is lower than the amount'::TEXT;
+    RETURN;
+  END IF;
+
+  -- Plan credits go first, as when spending; the rest is purchased credits
+  IF p_amount > 0 THEN
+    v_sender_plan_credits := GREATEST(v_parent.wallet_balance - COALESCE(v_parent.purchased_credits, 0), 0);
+  ELSE
+    v_sender_plan_credits := GREATEST(v_client.wallet_balance - COALESCE(v_client.purchased_credits, 0), 0);
+  END IF;
+  v_plan_amount := LEAST(ABS(p_amount), v_sender_plan_credits);
+  v_purchased_amount := ABS(p_amount) - v_plan_amount;
+
+  v_new_parent_balance := v_parent.wallet_balance - p_amount;
+  v_new_client_balance := v_client.wallet_balance + p_amount;
+  v_metadata := jsonb_build_object(
+    'clientBudgetTransfer', true,
+    'parentUserId', p_parent_user_id,
+    'clientUserId', p_client_user_id,
+    'actorUserId', p_actor_user_id,
+    'planAmount', v_plan_amount,
+    'purchasedAmount', v_purchased_amount
+  );
+
+  -- Only the purchased part changes purchased_credits on either side
+  UPDATE users
+  SET wallet_balance = v_new_parent_balance,
+      purchased_credits = CASE
+        WHEN p_amount > 0 THEN LEAST(COALESCE(purchased_credits, 0) - v_purchased_amount, v_new_parent_balance)
+        ELSE COALESCE(purchased_credits, 0) + v_purchased_amount
+      END,
+      updated_at = NOW()
+  WHERE id = p_parent_user_id;
+
+  UPDATE users
+  SET wallet_balance = v_new_client_balance,
+      purchased_credits = CASE
+        WHEN p_amount > 0 THEN COALESCE(purchased_credits, 0) + v_purchased_amount
+        ELSE LEAST(COALESCE(purchased_credits, 0) - v_purchased_amount, v_new_client_balance)
+      END,
+      updated_at = NOW()
+  WHERE id = p_client_user_id;
+
+  INSERT INTO wallet_transactions (user_id, amount, balance_after, type, reason, action_type, metadata, created_at)
+  VALUES
+    (
+      p_parent_user_id,
+      -p_amount,
+      v_new_parent_balance,
+      CASE WHEN p_amount > 0 THEN 'debit' ELSE 'credit' END,
+      CASE
+        WHEN p_amount > 0 THEN 'Budget allocated to client: ' || COALESCE(v_client.full_name, p_client_user_id)
+        ELSE 'Budget returned from client: ' || COALESCE(v_client.full_name, p_client_user_id)
+      END,
+      NULL,
+      v_metadata,
+      NOW()
+    ),
+    (
+      p_client_user_id,
+      p_amount,
+      v_new_client_balance,
+      CASE WHEN p_amount > 0 THEN 'credit' ELSE 'debit' END,
+      CASE WHEN p_amount > 0 THEN 'Budget allocated by agency' ELSE 'Budget returned to agency' END,
+      NULL,
+      v_metadata,
+      NOW()
+    );
+
+  RETURN QUERY SELECT true, v_new_parent_balance, v_new_client_balance, v_plan_amount, v_purchased_amount, NULL::TEXT;
+END;
+$$;
+
+
+-- ---------------------------------------------------------------------------
+-- VERIFICATION QUERIES
+-- ---------------------------------------------------------------------------
+-- SELECT id, full_name, parent_user_id, wallet_balance, purchased_credits
+--   FROM users WHERE parent_user_id IS NOT NULL;
+-- SELECT proname FROM pg_proc WHERE proname = 'transfer_client_budget';
+-- SELECT user_id, amount, metadata->>'planAmount', metadata->>'purchasedAmount'
+--   FROM wallet_transactions WHERE metadata->>'clientBudgetTransfer' = 'true'
+--   ORDER BY created_at DESC LIMIT 20;
@@ -0,0 +1,36 @@
+-- =============================================================================
+-- MIGRATION: Add email lookup columns to crm_leads
+-- =============================================================================
+-- Date: 2026-10-19
+-- Purpose: Store the result of the CRM email finder on each lead.
+--
+-- CONTEXT:
+-- POST /api/crm/email looks up a lead's work email through the configured
+-- provider (EMAIL_FINDER_PROVIDER) and bills CREDIT_COSTS.emailLookup
+-- ('email_lookup') only when an email comes back. The outcome is stored so a
+-- lead is never charged twice for the same lookup.
+--
+-- MUST BE RUN BEFORE deploying the corresponding code changes.
+-- Run in Supabase SQL Editor (Dashboard > SQL Editor > New Query).
+-- =============================================================================
+
+-- ---------------------------------------------------------------------------
+-- STEP 1: Email columns
+-- ---------------------------------------------------------------------------
+ALTER TABLE crm_leads ADD COLUMN IF NOT EXISTS email TEXT;
+ALTER TABLE crm_leads ADD COLUMN IF NOT EXISTS email_status TEXT;
+ALTER TABLE crm_leads ADD COLUMN IF NOT EXISTS email_provider TEXT;
+ALTER TABLE crm_leads ADD COLUMN IF NOT EXISTS email_checked_at TIMESTAMPTZ;
+
+-- ---------------------------------------------------------------------------
+-- STEP 2: Status constraint (NULL = not looked up yet)
+-- ---------------------------------------------------------------------------
+ALTER TABLE crm_leads DROP CONSTRAINT IF EXISTS crm_leads_email_status_check;
+ALTER TABLE crm_leads ADD CONSTRAINT crm_leads_email_status_check
+  CHECK (email_status IS NULL OR email_status IN ('found', 'risky', 'not_found'));
+
+
+-- ---------------------------------------------------------------------------
+-- VERIFICATION QUERIES
+-- ---------------------------------------------------------------------------
+-- SELECT email_status, COUNT(*) FROM crm_leads GROUP BY email_status;
@@ -0,0 +1,36 @@
+-- =============================================================================
+-- MIGRATION: Track when a CRM lead started enriching
+-- =============================================================================
+-- Date: 2026-10-19
+-- Purpose: Let leads left 'enriching' by a dead enrichment run go back to
+-- 'pending'.
+--
+-- CONTEXT:
+-- Bulk enrichment (lib/profile-enrichment.ts) claims leads by moving them
+-- from pending/failed to 'enriching' in one conditional update, so two
+-- concurrent batches can't both charge for the same lead. If the request
+-- runs out of time mid-chunk the batch never hands its leads back, and
+-- nothing else moves them out of 'enriching'. enrichment_started_at records
+-- the claim; resetStaleEnrichments() returns leads claimed more than
+-- ENRICHING_STALE_MINUTES ago (and older rows without a timestamp) to
+-- 'pending'. Their reservation is released by the 120 minute expiry.
+--
+-- MUST BE RUN BEFORE deploying the corresponding code changes.
+-- Run in Supabase SQL Editor (Dashboard > SQL Editor > New Query).
+-- =============================================================================
+
+-- ---------------------------------------------------------------------------
+-- STEP 1: Claim timestamp
+-- ---------------------------------------------------------------------------
+ALTER TABLE crm_leads ADD COLUMN IF NOT EXISTS enrichment_started_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_crm_leads_enriching
+  ON crm_leads (user_id, enrichment_started_at)
+  WHERE enrichment_status = 'enriching';
+
+
+-- ---------------------------------------------------------------------------
+-- VERIFICATION QUERIES
+-- ---------------------------------------------------------------------------
+-- SELECT id, user_id, enrichment_started_at FROM crm_leads
+--  WHERE enrichment_status = 'enriching' ORDER BY enrichment_started_at;
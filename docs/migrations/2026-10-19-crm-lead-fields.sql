@@ -0,0 +1,44 @@
+-- =============================================================================
+-- MIGRATION: Add user-editable CRM lead fields
+-- =============================================================================
+-- Date: 2026-10-19
+-- Purpose: notes, tags, stage and owner on crm_leads.
+--
+-- CONTEXT:
+-- PATCH /api/crm/leads now only accepts these four fields (validated by
+-- parseCRMLeadUpdate in lib/crm-leads.ts). Enrichment, email and scoring
+-- columns are written by server code paths only.
+--
+-- MUST BE RUN BEFORE deploying the corresponding code changes.
+-- Run in Supabase SQL Editor (Dashboard > SQL Editor > New Query).
+-- =============================================================================
+
+-- ---------------------------------------------------------------------------
+-- STEP 1: Columns
+-- ---------------------------------------------------------------------------
+ALTER TABLE crm_leads ADD COLUMN IF NOT EXISTS notes TEXT;
+ALTER TABLE crm_leads ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE crm_leads ADD COLUMN IF NOT EXISTS stage TEXT NOT NULL DEFAULT 'new';
+ALTER TABLE crm_leads ADD COLUMN IF NOT EXISTS owner TEXT;
+
+-- ---------------------------------------------------------------------------
+-- STEP 2: Constraints (mirror lib/crm-leads.ts)
+-- ---------------------------------------------------------------------------
+ALTER TABLE crm_leads DROP CONSTRAINT IF EXISTS crm_leads_stage_check;
+ALTER TABLE crm_leads ADD CONSTRAINT crm_leads_stage_check
+  CHECK (stage IN ('new', 'contacted', 'replied', 'meeting', 'won', 'lost'));
+
+ALTER TABLE crm_leads DROP CONSTRAINT IF EXISTS crm_leads_notes_length_check;
+ALTER TABLE crm_leads ADD CONSTRAINT crm_leads_notes_length_check
+  CHECK (notes IS NULL OR char_length(notes) <= 5000);
+
+ALTER TABLE crm_leads DROP CONSTRAINT IF EXISTS crm_leads_tags_count_check;
+ALTER TABLE crm_leads ADD CONSTRAINT crm_leads_tags_count_check
+  CHECK (cardinality(tags) <= 20);
+
+
+-- ---------------------------------------------------------------------------
+-- VERIFICATION QUERIES
+-- ---------------------------------------------------------------------------
+-- SELECT stage, COUNT(*) FROM crm_leads GROUP BY stage;
+-- SELECT id, tags, owner FROM crm_leads WHERE cardinality(tags) > 0 LIMIT 10;
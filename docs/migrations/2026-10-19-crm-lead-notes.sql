@@ -0,0 +1,98 @@
+-- =============================================================================
+-- MIGRATION: Add timestamped CRM lead notes
+-- =============================================================================
+-- Date: 2026-10-19
+-- Purpose: A notes timeline per CRM lead (crm_lead_notes) replacing the single
+-- free-text crm_leads.notes field as the place users write notes.
+--
+-- CONTEXT:
+-- Notes are added and deleted through /api/crm/leads/[id]/notes
+-- (lib/crm-leads.ts). crm_leads.notes stays, but is now maintained by the
+-- trigger below as a plain-text digest of the timeline (newest first) so
+-- exports and the HubSpot/Salesforce "Notes" mapping keep working. PATCH
+-- /api/crm/leads no longer accepts notes.
+--
+-- user_id is the account that owns the lead (the workspace owner or client
+-- sub-account); author_user_id / author_email record who wrote the note.
+--
+-- MUST BE RUN BEFORE deploying the corresponding code changes.
+-- Run in Supabase SQL Editor (Dashboard > SQL Editor > New Query).
+-- =============================================================================
+
+-- ---------------------------------------------------------------------------
+-- STEP 1: Notes
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS crm_lead_notes (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  lead_id TEXT NOT NULL REFERENCES crm_leads(id) ON DELETE CASCADE,
+  author_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+  author_email TEXT,
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 5000),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_lead_notes_lead
+  ON crm_lead_notes (lead_id, created_at DESC);
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 2: Backfill existing notes as the first timeline entry
+-- ---------------------------------------------------------------------------
+-- Runs before the trigger exists, so crm_leads.notes keeps its text verbatim
+-- until the lead's next note.
+INSERT INTO crm_lead_notes (id, user_id, lead_id, body, created_at)
+SELECT
+  'note_backfill_' || l.id,
+  l.user_id,
+  l.id,
+  l.notes,
+  l.added_at
+FROM crm_leads l
+WHERE l.notes IS NOT NULL AND char_length(trim(l.notes)) > 0
+ON CONFLICT (id) DO NOTHING;
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 3: Keep crm_leads.notes as a digest of the timeline
+-- ---------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION refresh_crm_lead_notes_digest()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_lead_id TEXT := COALESCE(NEW.lead_id, OLD.lead_id);
+BEGIN
+  UPDATE crm_leads
+  SET notes = (
+    SELECT LEFT(
+      string_agg(to_char(n.created_at, 'YYYY-MM-DD HH24:MI') || ' - ' || n.body, E'\n\n' ORDER BY n.created_at DESC),
+      5000
+    )
+    FROM crm_lead_notes n
+    WHERE n.lead_id = v_lead_id
+  )
+  WHERE id = v_lead_id;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS crm_lead_notes_refresh_digest ON crm_lead_notes;
+CREATE TRIGGER crm_lead_notes_refresh_digest
+  AFTER INSERT OR DELETE ON crm_lead_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_crm_lead_notes_digest();
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 4: Stage filter on the CRM page
+-- ---------------------------------------------------------------------------
+CREATE INDEX IF NOT EXISTS idx_crm_leads_user_stage
+  ON crm_leads (user_id, stage);
+
+
+-- ---------------------------------------------------------------------------
+-- VERIFICATION QUERIES
+-- ---------------------------------------------------------------------------
+-- SELECT lead_id, author_email, body, created_at FROM crm_lead_notes ORDER BY created_at DESC LIMIT 20;
+-- SELECT id, notes FROM crm_leads WHERE notes IS NOT NULL LIMIT 10;
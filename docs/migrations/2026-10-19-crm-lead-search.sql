@@ -0,0 +1,208 @@
+-- =============================================================================
+-- MIGRATION: Server-side CRM lead search, cursor paging and unique profile URLs
+-- =============================================================================
+-- Date: 2026-10-19
+-- Purpose: Let GET /api/crm/leads page, search and filter in the database
+-- instead of loading every lead, and dedupe new leads with a constraint
+-- instead of reading every existing profile URL first.
+--
+-- CONTEXT:
+-- - profile_url_key (lower(profile_url)) is unique per user. addCRMLeads
+--   inserts with ON CONFLICT DO NOTHING on it, so duplicates are skipped by
+--   the database, including two concurrent adds of the same lead.
+-- - search_vector(crm_leads) covers name, headline and the enriched company
+--   and location, and is queried with prefix matching (getCRMLeadsPage).
+-- - Listing pages by keyset cursor on (added_at, id), or
+--   (icp_score, added_at, id) when sorted by score.
+--
+-- STEP 1 merges existing duplicates so the unique index can be built. The
+-- most complete lead per profile URL is kept (enriched, then with an email,
+-- then pushed to a CRM, then with notes; oldest on a tie). Enrichment, email
+-- and CRM sync state the kept lead lacks are copied from the duplicates, tags
+-- are combined, and their notes and sync log rows are moved to it before the
+-- duplicates are deleted. Check the first verification query before running it.
+--
+-- MUST BE RUN BEFORE deploying the corresponding code changes.
+-- Run in Supabase SQL Editor (Dashboard > SQL Editor > New Query).
+-- =============================================================================
+
+-- ---------------------------------------------------------------------------
+-- STEP 1: Merge duplicate profile URLs into the most complete lead
+-- ---------------------------------------------------------------------------
+DROP TABLE IF EXISTS crm_lead_duplicates;
+
+-- Every duplicate lead with the id of the lead it merges into
+CREATE TEMP TABLE crm_lead_duplicates AS
+SELECT id, keep_id
+FROM (
+  SELECT
+    l.id,
+    first_value(l.id) OVER (
+      PARTITION BY l.user_id, lower(l.profile_url)
+      ORDER BY
+        (l.enriched_data IS NOT NULL) DESC,
+        (l.email IS NOT NULL) DESC,
+        (l.hubspot_contact_id IS NOT NULL OR l.salesforce_id IS NOT NULL) DESC,
+        (l.notes IS NOT NULL) DESC,
+        l.added_at,
+        l.id
+    ) AS keep_id
+  FROM crm_leads l
+) ranked
+WHERE id <> keep_id;
+
+-- Fill in what the kept lead lacks, each group of fields from one duplicate
+UPDATE crm_leads k
+SET
+  enriched_data = COALESCE(k.enriched_data, e.enriched_data),
+  enrichment_status = CASE WHEN k.enriched_data IS NULL AND e.enriched_data IS NOT NULL
+    THEN e.enrichment_status ELSE k.enrichment_status END,
+  email = COALESCE(k.email, m.email),
+  email_status = CASE WHEN k.email IS NULL AND m.email IS NOT NULL THEN m.email_status ELSE k.email_status END,
+  email_provider = CASE WHEN k.email IS NULL AND m.email IS NOT NULL THEN m.email_provider ELSE k.email_provider END,
+  email_checked_at = CASE WHEN k.email IS NULL AND m.email IS NOT NULL THEN m.email_checked_at ELSE k.email_checked_at END,
+  hubspot_contact_id = COALESCE(k.hubspot_contact_id, h.hubspot_contact_id),
+  hubspot_sync_status = CASE WHEN k.hubspot_contact_id IS NULL AND h.hubspot_contact_id IS NOT NULL
+    THEN h.hubspot_sync_status ELSE k.hubspot_sync_status END,
+  hubspot_sync_error = CASE WHEN k.hubspot_contact_id IS NULL AND h.hubspot_contact_id IS NOT NULL
+    THEN h.hubspot_sync_error ELSE k.hubspot_sync_error END,
+  hubspot_synced_at = CASE WHEN k.hubspot_contact_id IS NULL AND h.hubspot_contact_id IS NOT NULL
+    THEN h.hubspot_synced_at ELSE k.hubspot_synced_at END,
+  salesforce_id = COALESCE(k.salesforce_id, sf.salesforce_id),
+  salesforce_object = CASE WHEN k.salesforce_id IS NULL AND sf.salesforce_id IS NOT NULL
+    THEN sf.salesforce_object ELSE k.salesforce_object END,
+  salesforce_sync_status = CASE WHEN k.salesforce_id IS NULL AND sf.salesforce_id IS NOT NULL
+    THEN sf.salesforce_sync_status ELSE k.salesforce_sync_status END,
+  salesforce_sync_error = CASE WHEN k.salesforce_id IS NULL AND sf.salesforce_id IS NOT NULL
+    THEN sf.salesforce_sync_error ELSE k.salesforce_sync_error END,
+  salesforce_synced_at = CASE WHEN k.salesforce_id IS NULL AND sf.salesforce_id IS NOT NULL
+    THEN sf.salesforce_synced_at ELSE k.salesforce_synced_at END,
+  tags = ARRAY(SELECT DISTINCT t FROM unnest(k.tags || a.tags) t ORDER BY t),
+  stage = CASE WHEN k.stage = 'new' THEN COALESCE(a.stage, k.stage) ELSE k.stage END,
+  owner = COALESCE(k.owner, a.owner),
+  icp_score = GREATEST(k.icp_score, a.icp_score),
+  added_at = LEAST(k.added_at, a.added_at)
+FROM (SELECT DISTINCT keep_id FROM crm_lead_duplicates) g
+LEFT JOIN LATERAL (
+  SELECT d.enriched_data, d.enrichment_status
+  FROM crm_leads d JOIN crm_lead_duplicates x ON x.id = d.id
+  WHERE x.keep_id = g.keep_id AND d.enriched_data IS NOT NULL
+  ORDER BY d.added_at DESC LIMIT 1
+) e ON true
+LEFT JOIN LATERAL (
+  SELECT d.email, d.email_status, d.email_provider, d.email_checked_at
+  FROM crm_leads d JOIN crm_lead_duplicates x ON x.id = d.id
+  WHERE x.keep_id = g.keep_id AND d.email IS NOT NULL
+  ORDER BY d.email_checked_at DESC NULLS LAST LIMIT 1
+) m ON true
+LEFT JOIN LATERAL (
+  SELECT d.hubspot_contact_id, d.hubspot_sync_status, d.hubspot_sync_error, d.hubspot_synced_at
+  FROM crm_leads d JOIN crm_lead_duplicates x ON x.id = d.id
+  WHERE x.keep_id = g.keep_id AND d.hubspot_contact_id IS NOT NULL
+  ORDER BY d.hubspot_synced_at DESC NULLS LAST LIMIT 1
+) h ON true
+LEFT JOIN LATERAL (
+  SELECT d.salesforce_id, d.salesforce_object, d.salesforce_sync_status, d.salesforce_sync_error, d.salesforce_synced_at
+  FROM crm_leads d JOIN crm_lead_duplicates x ON x.id = d.id
+  WHERE x.keep_id = g.keep_id AND d.salesforce_id IS NOT NULL
+  ORDER BY d.salesforce_synced_at DESC NULLS LAST LIMIT 1
+) sf ON true
+JOIN LATERAL (
+  SELECT
+    COALESCE(array_agg(DISTINCT t.tag) FILTER (WHERE t.tag IS NOT NULL), '{}') AS tags,
+    (array_agg(d.stage ORDER BY d.added_at DESC) FILTER (WHERE d.stage <> 'new'))[1] AS stage,
+    (array_agg(d.owner ORDER BY d.added_at DESC) FILTER (WHERE d.owner IS NOT NULL))[1] AS owner,
+    MAX(d.icp_score) AS icp_score,
+    MIN(d.added_at) AS added_at
+  FROM crm_leads d
+  JOIN crm_lead_duplicates x ON x.id = d.id
+  LEFT JOIN LATERAL unnest(d.tags) AS t(tag) ON true
+  WHERE x.keep_id = g.keep_id
+) a ON true
+WHERE k.id = g.keep_id;
+
+-- Notes and sync history follow the lead they were written for
+UPDATE crm_lead_notes n
+SET lead_id = x.keep_id
+FROM crm_lead_duplicates x
+WHERE n.lead_id = x.id;
+
+UPDATE crm_sync_log sl
+SET lead_id = x.keep_id
+FROM crm_lead_duplicates x
+WHERE sl.lead_id = x.id;
+
+-- The digest trigger only runs on insert/delete, so rebuild it for kept leads
+UPDATE crm_leads k
+SET notes = (
+  SELECT LEFT(
+    string_agg(to_char(n.created_at, 'YYYY-MM-DD HH24:MI') || ' - ' || n.body, E'\n\n' ORDER BY n.created_at DESC),
+    5000
+  )
+  FROM crm_lead_notes n
+  WHERE n.lead_id = k.id
+)
+WHERE k.id IN (SELECT keep_id FROM crm_lead_duplicates)
+  AND EXISTS (SELECT 1 FROM crm_lead_notes n WHERE n.lead_id = k.id);
+
+DELETE FROM crm_leads
+WHERE id IN (SELECT id FROM crm_lead_duplicates);
+
+DROP TABLE crm_lead_duplicates;
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 2: Unique profile URL per account
+-- ---------------------------------------------------------------------------
+ALTER TABLE crm_leads
+  ADD COLUMN IF NOT EXISTS profile_url_key TEXT GENERATED ALWAYS AS (lower(profile_url)) STORED;
+
+CREATE UNIQUE INDEX IF NOT EXISTS crm_leads_user_profile_url_key
+  ON crm_leads (user_id, profile_url_key);
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 3: Full-text search
+-- ---------------------------------------------------------------------------
+-- A PostgREST computed field: filterable as search_vector, but not returned
+-- by select=*. 'simple' (no stemming or stop words) suits names and titles.
+CREATE OR REPLACE FUNCTION search_vector(crm_leads)
+RETURNS TSVECTOR
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsvector('simple'::regconfig,
+    coalesce($1.name, '') || ' ' ||
+    coalesce($1.headline, '') || ' ' ||
+    coalesce($1.enriched_data->>'currentCompany', '') || ' ' ||
+    coalesce($1.enriched_data->>'location', '')
+  );
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_crm_leads_search
+  ON crm_leads USING GIN (search_vector(crm_leads));
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 4: Paging and filter indexes
+-- ---------------------------------------------------------------------------
+CREATE INDEX IF NOT EXISTS idx_crm_leads_user_added
+  ON crm_leads (user_id, added_at DESC, id);
+
+CREATE INDEX IF NOT EXISTS idx_crm_leads_user_score
+  ON crm_leads (user_id, icp_score DESC NULLS LAST, added_at DESC, id);
+
+CREATE INDEX IF NOT EXISTS idx_crm_leads_user_source_post
+  ON crm_leads (user_id, source_post_url);
+
+CREATE INDEX IF NOT EXISTS idx_crm_leads_tags
+  ON crm_leads USING GIN (tags);
+
+
+-- ---------------------------------------------------------------------------
+-- VERIFICATION QUERIES
+-- ---------------------------------------------------------------------------
+-- Duplicates STEP 1 will merge (run first):
+-- SELECT user_id, lower(profile_url), COUNT(*) FROM crm_leads
+--   GROUP BY user_id, lower(profile_url) HAVING COUNT(*) > 1;
+-- SELECT id, name FROM crm_leads c WHERE search_vector(c) @@ to_tsquery('simple', 'founder:*') LIMIT 10;
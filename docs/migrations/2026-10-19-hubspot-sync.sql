@@ -0,0 +1,61 @@
+-- =============================================================================
+-- MIGRATION: Add CRM integrations and HubSpot sync state on crm_leads
+-- =============================================================================
+-- Date: 2026-10-19
+-- Purpose: Let users connect HubSpot (OAuth) and push CRM leads to it as
+-- contacts + companies.
+--
+-- CONTEXT:
+-- /api/integrations/hubspot/connect starts the OAuth flow and the callback
+-- stores the tokens in crm_integrations (one row per user + provider).
+-- Pushes (POST /api/crm/hubspot/sync, or automatically when leads are added
+-- with auto_push on) record the HubSpot contact id and the outcome of the
+-- last push on each lead.
+--
+-- Tokens are only read server-side (lib/crm-integrations.ts); the settings
+-- API never returns them.
+--
+-- MUST BE RUN BEFORE deploying the corresponding code changes.
+-- Run in Supabase SQL Editor (Dashboard > SQL Editor > New Query).
+-- =============================================================================
+
+-- ---------------------------------------------------------------------------
+-- STEP 1: Integrations
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS crm_integrations (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL CHECK (provider IN ('hubspot')),
+  access_token TEXT NOT NULL,
+  refresh_token TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  -- HubSpot portal (hub) id and domain, shown in Settings
+  account_id TEXT,
+  account_name TEXT,
+  -- { auto_push: boolean, field_mapping: { [source]: property | '' } }
+  settings JSONB NOT NULL DEFAULT '{}',
+  connected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, provider)
+);
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 2: Sync state on crm_leads
+-- ---------------------------------------------------------------------------
+ALTER TABLE crm_leads
+  ADD COLUMN IF NOT EXISTS hubspot_contact_id TEXT,
+  ADD COLUMN IF NOT EXISTS hubspot_sync_status TEXT,
+  ADD COLUMN IF NOT EXISTS hubspot_sync_error TEXT,
+  ADD COLUMN IF NOT EXISTS hubspot_synced_at TIMESTAMPTZ;
+
+ALTER TABLE crm_leads DROP CONSTRAINT IF EXISTS crm_leads_hubspot_sync_status_check;
+ALTER TABLE crm_leads ADD CONSTRAINT crm_leads_hubspot_sync_status_check
+  CHECK (hubspot_sync_status IS NULL OR hubspot_sync_status IN ('synced', 'failed'));
+
+
+-- ---------------------------------------------------------------------------
+-- VERIFICATION QUERIES
+-- ---------------------------------------------------------------------------
+-- SELECT user_id, provider, account_name, expires_at FROM crm_integrations;
+-- SELECT hubspot_sync_status, COUNT(*) FROM crm_leads GROUP BY hubspot_sync_status;
@@ -0,0 +1,37 @@
+-- =============================================================================
+-- MIGRATION: Add ICP score to CRM leads
+-- =============================================================================
+-- Date: 2026-10-19
+-- Purpose: Store the weighted 0-100 ICP score on each CRM lead so the CRM
+-- table can sort by it.
+--
+-- CONTEXT:
+-- Analysis leads live in the analyses.leads JSONB column, so their
+-- icp_score / icp_score_breakdown need no schema change. CRM leads are rows
+-- and need a real column. The scoring model itself lives in
+-- users.settings.icp_scoring (JSONB, no change needed).
+--
+-- MUST BE RUN BEFORE deploying the corresponding code changes.
+-- Run in Supabase SQL Editor (Dashboard > SQL Editor > New Query).
+-- =============================================================================
+
+-- ---------------------------------------------------------------------------
+-- STEP 1: Add the score column
+-- ---------------------------------------------------------------------------
+ALTER TABLE crm_leads
+  ADD COLUMN IF NOT EXISTS icp_score INTEGER
+  CHECK (icp_score IS NULL OR (icp_score >= 0 AND icp_score <= 100));
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 2: Index for "sort by score" within a user's CRM
+-- ---------------------------------------------------------------------------
+CREATE INDEX IF NOT EXISTS idx_crm_leads_user_icp_score
+  ON crm_leads (user_id, icp_score DESC NULLS LAST);
+
+
+-- ---------------------------------------------------------------------------
+-- VERIFICATION QUERIES
+-- ---------------------------------------------------------------------------
+-- SELECT column_name, data_type FROM information_schema.columns
+-- WHERE table_name = 'crm_leads' AND column_name = 'icp_score';
@@ -0,0 +1,35 @@
+-- =============================================================================
+-- MIGRATION: Add post_searches for AI post discovery
+-- =============================================================================
+-- Date: 2026-10-19
+-- Purpose: Store discovery searches and their ranked results.
+--
+-- CONTEXT:
+-- Each search is billed once (CREDIT_COSTS.aiSearch, action type 'ai_search')
+-- through the reserve/settle wallet flow. Saving the results lets the user
+-- come back to them and send posts to analysis without paying again.
+--
+-- MUST BE RUN BEFORE deploying the corresponding code changes.
+-- Run in Supabase SQL Editor (Dashboard > SQL Editor > New Query).
+-- =============================================================================
+
+-- ---------------------------------------------------------------------------
+-- STEP 1: Searches table
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS post_searches (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  query TEXT NOT NULL,
+  used_icp BOOLEAN NOT NULL DEFAULT FALSE,
+  results JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_searches_user_created
+  ON post_searches (user_id, created_at DESC);
+
+
+-- ---------------------------------------------------------------------------
+-- VERIFICATION QUERIES
+-- ---------------------------------------------------------------------------
+-- SELECT id, query, jsonb_array_length(results) FROM post_searches ORDER BY created_at DESC LIMIT 10;
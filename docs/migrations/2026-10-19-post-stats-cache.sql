@@ -0,0 +1,91 @@
+-- =============================================================================
+-- MIGRATION: Post stats cache and scrape limit for cost quotes
+-- =============================================================================
+-- Date: 2026-10-19
+-- Purpose: Stop POST /api/billing/quote from starting a paid post details
+-- scrape every time it is asked about a post nobody has analyzed recently.
+--
+-- CONTEXT:
+-- - A quote scrape stores the post's reaction and comment counts in
+--   post_stats_cache, keyed by normalized post URL. Quotes for the same post
+--   from any account reuse them for POST_STATS_MAX_AGE_HOURS
+--   (app/api/billing/quote).
+-- - claim_post_stats_scrape records a scrape attempt before it starts, and
+--   refuses it if the account already ran p_limit in the last hour. The
+--   account's users row is locked while counting, so concurrent quotes can't
+--   all pass the check. Failed scrapes count too; they cost the same.
+--
+-- MUST BE RUN BEFORE deploying the corresponding code changes.
+-- Run in Supabase SQL Editor (Dashboard > SQL Editor > New Query).
+-- =============================================================================
+
+-- ---------------------------------------------------------------------------
+-- STEP 1: Cache
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS post_stats_cache (
+  post_url TEXT PRIMARY KEY,
+  total_reactions INTEGER NOT NULL,
+  total_comments INTEGER NOT NULL,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 2: Scrape attempts per account
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS post_stats_scrapes (
+  id BIGSERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  post_url TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_stats_scrapes_user_created
+ON post_stats_scrapes(user_id, created_at DESC);
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 3: Claim a scrape within the hourly limit
+-- ---------------------------------------------------------------------------
+-- retry_after_seconds is set on a refusal: when the oldest attempt in the
+-- window ages out.
+CREATE OR REPLACE FUNCTION claim_post_stats_scrape(
+  p_user_id TEXT,
+  p_post_url TEXT,
+  p_limit INTEGER
+)
+RETURNS TABLE(allowed BOOLEAN, retry_after_seconds INTEGER)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count INTEGER;
+  v_oldest TIMESTAMPTZ;
+BEGIN
+  -- Serializes claims for this account until the transaction ends
+  PERFORM 1 FROM users WHERE id = p_user_id FOR UPDATE;
+
+  SELECT COUNT(*), MIN(created_at)
+  INTO v_count, v_oldest
+  FROM post_stats_scrapes
+  WHERE user_id = p_user_id
+    AND created_at > NOW() - INTERVAL '1 hour';
+
+  IF v_count >= p_limit THEN
+    RETURN QUERY SELECT false,
+      GREATEST(1, CEIL(EXTRACT(EPOCH FROM (v_oldest + INTERVAL '1 hour' - NOW())))::INTEGER);
+    RETURN;
+  END IF;
+
+  INSERT INTO post_stats_scrapes (user_id, post_url) VALUES (p_user_id, p_post_url);
+  RETURN QUERY SELECT true, NULL::INTEGER;
+END;
+$$;
+
+
+-- ---------------------------------------------------------------------------
+-- VERIFICATION QUERIES
+-- ---------------------------------------------------------------------------
+-- SELECT * FROM post_stats_cache ORDER BY fetched_at DESC LIMIT 10;
+-- Scrapes per account in the last hour:
+-- SELECT user_id, COUNT(*) FROM post_stats_scrapes
+-- WHERE created_at > NOW() - INTERVAL '1 hour' GROUP BY user_id;
@@ -0,0 +1,62 @@
+-- =============================================================================
+-- MIGRATION: Add monitored_profiles for profile monitoring
+-- =============================================================================
+-- Date: 2026-10-19
+-- Purpose: Let users watch a LinkedIn creator and automatically analyze their
+-- new posts.
+--
+-- CONTEXT:
+-- A scheduled checker (GET /api/cron/profile-monitoring) fetches each due
+-- profile's recent posts, charges CREDIT_COSTS.profileMonitoringCheck, and
+-- queues an analysis job for every post it hasn't seen. Those jobs reserve and
+-- scrape at the plan's monitoredReactions / monitoredComments caps, stored
+-- on the job as reaction_cap / comment_cap. Adding a profile charges
+-- CREDIT_COSTS.profileMonitoringSetup once.
+--
+-- MUST BE RUN BEFORE deploying the corresponding code changes.
+-- Run in Supabase SQL Editor (Dashboard > SQL Editor > New Query).
+-- =============================================================================
+
+-- ---------------------------------------------------------------------------
+-- STEP 1: Monitored profiles
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS monitored_profiles (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  profile_url TEXT NOT NULL,
+  name TEXT,
+  headline TEXT,
+  profile_picture TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Recent post URLs already handled, newest first (capped in code)
+  seen_post_urls TEXT[] NOT NULL DEFAULT '{}',
+  posts_analyzed INTEGER NOT NULL DEFAULT 0,
+  last_post_at TIMESTAMPTZ,
+  last_checked_at TIMESTAMPTZ,
+  next_check_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, profile_url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_monitored_profiles_due
+  ON monitored_profiles (next_check_at)
+  WHERE is_active;
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 2: Per-job caps and monitoring link on analysis_jobs
+-- ---------------------------------------------------------------------------
+ALTER TABLE analysis_jobs
+  ADD COLUMN IF NOT EXISTS monitored_profile_id TEXT REFERENCES monitored_profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reaction_cap INTEGER,
+  ADD COLUMN IF NOT EXISTS comment_cap INTEGER;
+
+
+-- ---------------------------------------------------------------------------
+-- VERIFICATION QUERIES
+-- ---------------------------------------------------------------------------
+-- SELECT COUNT(*) FROM monitored_profiles WHERE is_active;
+-- SELECT column_name FROM information_schema.columns
+-- WHERE table_name = 'analysis_jobs' AND column_name IN ('monitored_profile_id', 'reaction_cap', 'comment_cap');
@@ -0,0 +1,77 @@
+-- =============================================================================
+-- MIGRATION: Add Salesforce to CRM integrations, plus a per-lead sync log
+-- =============================================================================
+-- Date: 2026-10-19
+-- Purpose: Let users connect Salesforce (OAuth) and push CRM leads to it as
+-- Leads, or link them to existing Contacts.
+--
+-- CONTEXT:
+-- Salesforce orgs live on their own host, so the connection stores the
+-- instance_url returned with the token. Pushes (POST /api/crm/salesforce/sync,
+-- from the CRM page or the analysis detail page) record the Salesforce record
+-- on each lead, and every push (HubSpot or Salesforce) writes a crm_sync_log
+-- row so users can see what happened to a lead over time.
+--
+-- Requires 2026-10-19-hubspot-sync.sql (crm_integrations).
+--
+-- MUST BE RUN BEFORE deploying the corresponding code changes.
+-- Run in Supabase SQL Editor (Dashboard > SQL Editor > New Query).
+-- =============================================================================
+
+-- ---------------------------------------------------------------------------
+-- STEP 1: Salesforce connections
+-- ---------------------------------------------------------------------------
+ALTER TABLE crm_integrations DROP CONSTRAINT IF EXISTS crm_integrations_provider_check;
+ALTER TABLE crm_integrations ADD CONSTRAINT crm_integrations_provider_check
+  CHECK (provider IN ('hubspot', 'salesforce'));
+
+-- e.g. https://acme.my.salesforce.com (Salesforce only)
+ALTER TABLE crm_integrations
+  ADD COLUMN IF NOT EXISTS instance_url TEXT;
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 2: Sync state on crm_leads
+-- ---------------------------------------------------------------------------
+ALTER TABLE crm_leads
+  ADD COLUMN IF NOT EXISTS salesforce_id TEXT,
+  ADD COLUMN IF NOT EXISTS salesforce_object TEXT,
+  ADD COLUMN IF NOT EXISTS salesforce_sync_status TEXT,
+  ADD COLUMN IF NOT EXISTS salesforce_sync_error TEXT,
+  ADD COLUMN IF NOT EXISTS salesforce_synced_at TIMESTAMPTZ;
+
+ALTER TABLE crm_leads DROP CONSTRAINT IF EXISTS crm_leads_salesforce_object_check;
+ALTER TABLE crm_leads ADD CONSTRAINT crm_leads_salesforce_object_check
+  CHECK (salesforce_object IS NULL OR salesforce_object IN ('Lead', 'Contact'));
+
+ALTER TABLE crm_leads DROP CONSTRAINT IF EXISTS crm_leads_salesforce_sync_status_check;
+ALTER TABLE crm_leads ADD CONSTRAINT crm_leads_salesforce_sync_status_check
+  CHECK (salesforce_sync_status IS NULL OR salesforce_sync_status IN ('synced', 'failed'));
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 3: Sync log
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS crm_sync_log (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  lead_id TEXT NOT NULL REFERENCES crm_leads(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL CHECK (provider IN ('hubspot', 'salesforce')),
+  action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'matched', 'failed')),
+  -- e.g. 'contact' (HubSpot), 'Lead' / 'Contact' (Salesforce)
+  external_object TEXT,
+  external_id TEXT,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_crm_sync_log_lead
+  ON crm_sync_log (lead_id, created_at DESC);
+
+
+-- ---------------------------------------------------------------------------
+-- VERIFICATION QUERIES
+-- ---------------------------------------------------------------------------
+-- SELECT user_id, provider, account_name, instance_url FROM crm_integrations;
+-- SELECT salesforce_object, salesforce_sync_status, COUNT(*) FROM crm_leads GROUP BY 1, 2;
+-- SELECT provider, action, COUNT(*) FROM crm_sync_log GROUP BY 1, 2;
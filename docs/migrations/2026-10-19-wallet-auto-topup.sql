@@ -0,0 +1,140 @@
+-- =============================================================================
+-- MIGRATION: Automatic wallet top-up
+-- =============================================================================
+-- Date: 2026-10-19
+-- Purpose: Opt-in auto-recharge. When a reservation settlement leaves the
+-- wallet below the user's threshold, a credit pack is charged to their saved
+-- payment method so analyses don't stop mid-campaign.
+--
+-- CONTEXT:
+-- - Settings live on users (auto_topup_*); the pack, threshold and monthly cap
+--   are validated in lib/auto-topup.ts.
+-- - auto_topup_armed makes it one charge per threshold crossing: claiming a
+--   charge disarms it, and it re-arms once the balance is back at or above
+--   the threshold or the charge's payment succeeds.
+-- - wallet_auto_topups records every charge attempt. The monthly cap counts
+--   pending and succeeded charges in the current calendar month (UTC).
+-- - Credits are still added by the payment.succeeded webhook, exactly like a
+--   manually bought pack (metadata type 'topup').
+--
+-- MUST BE RUN BEFORE deploying the corresponding code changes.
+-- Run in Supabase SQL Editor (Dashboard > SQL Editor > New Query).
+-- =============================================================================
+
+-- ---------------------------------------------------------------------------
+-- STEP 1: Settings
+-- ---------------------------------------------------------------------------
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS auto_topup_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS auto_topup_pack_id TEXT,
+  ADD COLUMN IF NOT EXISTS auto_topup_threshold INTEGER,
+  ADD COLUMN IF NOT EXISTS auto_topup_monthly_cap INTEGER,
+  ADD COLUMN IF NOT EXISTS auto_topup_armed BOOLEAN NOT NULL DEFAULT true;
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 2: Charge attempts
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS wallet_auto_topups (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  pack_id TEXT NOT NULL,
+  -- What the card is charged, in cents (counts toward the monthly cap)
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  balance_at_trigger INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  checkout_session_id TEXT,
+  payment_id TEXT,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_auto_topups_user_created
+  ON wallet_auto_topups (user_id, created_at DESC);
+
+-- At most one charge in flight per user
+CREATE UNIQUE INDEX IF NOT EXISTS wallet_auto_topups_one_pending
+  ON wallet_auto_topups (user_id)
+  WHERE status = 'pending';
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 3: Claim a charge atomically
+-- ---------------------------------------------------------------------------
+-- Returns claimed = true with the new charge row when this call should start
+-- a charge. Otherwise reason says why not: disabled, above_threshold (which
+-- also re-arms), already_charged (this crossing was handled), cap_reached.
+CREATE OR REPLACE FUNCTION claim_wallet_auto_topup(
+  p_user_id TEXT,
+  p_charge_id TEXT,
+  p_pack_price INTEGER
+)
+RETURNS TABLE(claimed BOOLEAN, balance INTEGER, reason TEXT)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_user RECORD;
+  v_month_total INTEGER;
+BEGIN
+  SELECT wallet_balance, auto_topup_enabled, auto_topup_pack_id, auto_topup_threshold,
+         auto_topup_monthly_cap, auto_topup_armed
+  INTO v_user
+  FROM users
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_user.auto_topup_enabled OR v_user.auto_topup_threshold IS NULL THEN
+    RETURN QUERY SELECT false, COALESCE(v_user.wallet_balance, 0), 'disabled'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_user.wallet_balance >= v_user.auto_topup_threshold THEN
+    IF NOT v_user.auto_topup_armed THEN
+      UPDATE users SET auto_topup_armed = true WHERE id = p_user_id;
+    END IF;
+    RETURN QUERY SELECT false, v_user.wallet_balance, 'above_threshold'::TEXT;
+    RETURN;
+  END IF;
+
+  IF NOT v_user.auto_topup_armed THEN
+    RETURN QUERY SELECT false, v_user.wallet_balance, 'already_charged'::TEXT;
+    RETURN;
+  END IF;
+
+  -- A charge whose payment webhook never arrived shouldn't block the next one
+  UPDATE wallet_auto_topups
+  SET status = 'failed', error = 'No payment confirmation received', completed_at = NOW()
+  WHERE user_id = p_user_id
+    AND status = 'pending'
+    AND created_at < NOW() - INTERVAL '1 day';
+
+  SELECT COALESCE(SUM(amount), 0)
+  INTO v_month_total
+  FROM wallet_auto_topups
+  WHERE user_id = p_user_id
+    AND status IN ('pending', 'succeeded')
+    AND created_at >= date_trunc('month', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+
+  -- Disarm either way, so a capped crossing isn't re-checked on every settlement
+  UPDATE users SET auto_topup_armed = false WHERE id = p_user_id;
+
+  IF v_month_total + p_pack_price > COALESCE(v_user.auto_topup_monthly_cap, 0) THEN
+    RETURN QUERY SELECT false, v_user.wallet_balance, 'cap_reached'::TEXT;
+    RETURN;
+  END IF;
+
+  INSERT INTO wallet_auto_topups (id, user_id, pack_id, amount, balance_at_trigger)
+  VALUES (p_charge_id, p_user_id, v_user.auto_topup_pack_id, p_pack_price, v_user.wallet_balance);
+
+  RETURN QUERY SELECT true, v_user.wallet_balance, NULL::TEXT;
+END;
+$$;
+
+
+-- ---------------------------------------------------------------------------
+-- VERIFICATION QUERIES
+-- ---------------------------------------------------------------------------
+-- SELECT id, auto_topup_enabled, auto_topup_pack_id, auto_topup_threshold, auto_topup_monthly_cap, auto_topup_armed
+--   FROM users WHERE auto_topup_enabled;
+-- SELECT user_id, pack_id, amount, status, error, created_at FROM wallet_auto_topups ORDER BY created_at DESC LIMIT 20;
@@ -0,0 +1,43 @@
+-- =============================================================================
+-- MIGRATION: Indexes for the wallet ledger
+-- =============================================================================
+-- Date: 2026-10-19
+-- Purpose: Back the Wallet activity page and its CSV download
+-- (/api/billing/wallet/ledger, lib/wallet-ledger.ts).
+--
+-- CONTEXT:
+-- - The ledger pages by keyset cursor on (created_at, id), newest first.
+-- - The source post filter matches metadata->>'postUrl' (set by post analysis
+--   reservations) and the refunds of those reservations, which point back to
+--   them through metadata->>'reservationId'.
+--
+-- No data changes; safe to run at any time.
+-- Run in Supabase SQL Editor (Dashboard > SQL Editor > New Query).
+-- =============================================================================
+
+-- ---------------------------------------------------------------------------
+-- STEP 1: Paging
+-- ---------------------------------------------------------------------------
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_user_created
+  ON wallet_transactions (user_id, created_at DESC, id DESC);
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 2: Source post and reservation lookups
+-- ---------------------------------------------------------------------------
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_post_url
+  ON wallet_transactions (user_id, (metadata->>'postUrl'))
+  WHERE metadata->>'postUrl' IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_reservation_id
+  ON wallet_transactions (user_id, (metadata->>'reservationId'))
+  WHERE metadata->>'reservationId' IS NOT NULL;
+
+
+-- ---------------------------------------------------------------------------
+-- VERIFICATION QUERIES
+-- ---------------------------------------------------------------------------
+-- SELECT indexname FROM pg_indexes WHERE tablename = 'wallet_transactions';
+-- SELECT id, amount, metadata->>'reservationStatus', metadata->>'refundAmount'
+--   FROM wallet_transactions WHERE metadata->>'postUrl' IS NOT NULL
+--   ORDER BY created_at DESC LIMIT 20;
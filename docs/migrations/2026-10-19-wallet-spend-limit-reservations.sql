@@ -0,0 +1,106 @@
+-- =============================================================================
+-- MIGRATION: Enforce spend limits inside the wallet reservation
+-- =============================================================================
+-- Date: 2026-10-19
+-- Purpose: Make spend limits (2026-10-19-wallet-spend-limits.sql) hold under
+-- concurrent reservations.
+--
+-- CONTEXT:
+-- Spend limits were checked in application code before reserve_wallet_credits
+-- ran, so parallel reservations (API-key requests, a bulk batch alongside an
+-- enrichment) could each pass the check and together go past a cap.
+-- reserve_wallet_credits_within_limits locks the user's row first, so
+-- reservations for the same wallet run one at a time, then checks every cap
+-- on the action and reserves in the same transaction.
+--
+-- Periods match lib/spend-limits.ts: calendar periods in UTC, weeks starting
+-- on Monday (date_trunc('week') is ISO, so Monday).
+--
+-- MUST BE RUN BEFORE deploying the corresponding code changes.
+-- Run in Supabase SQL Editor (Dashboard > SQL Editor > New Query).
+-- =============================================================================
+
+-- ---------------------------------------------------------------------------
+-- STEP 1: Reserve within the action's spend limits
+-- ---------------------------------------------------------------------------
+-- On a refusal by a limit, limit_id / limit_period / limit_in_cents /
+-- limit_spent describe the first cap it would break (daily, then weekly,
+-- then monthly).
+CREATE OR REPLACE FUNCTION reserve_wallet_credits_within_limits(
+  p_user_id TEXT,
+  p_amount INTEGER,
+  p_action_type TEXT DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT NULL
+)
+RETURNS TABLE(
+  success BOOLEAN,
+  new_balance INTEGER,
+  reservation_id TEXT,
+  error_message TEXT,
+  limit_id TEXT,
+  limit_period TEXT,
+  limit_in_cents INTEGER,
+  limit_spent INTEGER
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_balance INTEGER;
+  v_limit RECORD;
+  v_spent INTEGER;
+BEGIN
+  -- Serializes reservations for this wallet until the transaction ends;
+  -- reserve_wallet_credits takes the same lock again below
+  SELECT wallet_balance
+  INTO v_balance
+  FROM users
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 0, NULL::TEXT, 'User not found'::TEXT, NULL::TEXT, NULL::TEXT, NULL::INTEGER, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  IF p_action_type IS NOT NULL THEN
+    FOR v_limit IN
+      SELECT l.id, l.period, l.limit_in_cents,
+        CASE l.period
+          WHEN 'daily' THEN date_trunc('day', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+          WHEN 'weekly' THEN date_trunc('week', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+          ELSE date_trunc('month', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+        END AS period_start
+      FROM wallet_spend_limits l
+      WHERE l.user_id = p_user_id
+        AND l.action_type = p_action_type
+      ORDER BY CASE l.period WHEN 'daily' THEN 1 WHEN 'weekly' THEN 2 ELSE 3 END
+    LOOP
+      SELECT COALESCE(s.spent, 0)
+      INTO v_spent
+      FROM get_wallet_spend_by_action(p_user_id, v_limit.period_start) s
+      WHERE s.action_type = p_action_type;
+
+      v_spent := COALESCE(v_spent, 0);
+      IF v_spent + p_amount > v_limit.limit_in_cents THEN
+        RETURN QUERY SELECT false, v_balance, NULL::TEXT, 'Spend limit reached'::TEXT,
+          v_limit.id, v_limit.period, v_limit.limit_in_cents, v_spent;
+        RETURN;
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN QUERY
+  SELECT r.success, r.new_balance, r.reservation_id, r.error_message,
+    NULL::TEXT, NULL::TEXT, NULL::INTEGER, NULL::INTEGER
+  FROM reserve_wallet_credits(p_user_id, p_amount, p_action_type, p_reason, p_metadata) r;
+END;
+$$;
+
+
+-- ---------------------------------------------------------------------------
+-- VERIFICATION QUERIES
+-- ---------------------------------------------------------------------------
+-- SELECT proname FROM pg_proc WHERE proname = 'reserve_wallet_credits_within_limits';
+-- Refused by a limit (expect success = false and the limit's id):
+-- SELECT * FROM reserve_wallet_credits_within_limits('<user id>', 1000000, 'post_analysis');
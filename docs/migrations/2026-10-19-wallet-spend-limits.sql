@@ -0,0 +1,87 @@
+-- =============================================================================
+-- MIGRATION: Wallet spend limits and budget alerts
+-- =============================================================================
+-- Date: 2026-10-19
+-- Purpose: User-defined daily, weekly and monthly caps on what each kind of
+-- paid action (wallet_transactions.action_type) may spend, with alerts at
+-- 50/80/100% of each cap.
+--
+-- CONTEXT:
+-- - Caps are checked before a reservation is made (lib/usage.ts ->
+--   lib/spend-limits.ts). Periods are calendar periods in UTC; weeks start on
+--   Monday.
+-- - Spend is what the wallet actually charged: a settled reservation counts
+--   its actualAmount, an open reservation counts what it holds, a plain debit
+--   counts its amount. Released reservations count 0.
+-- - wallet_spend_limit_alerts records which alert levels already went out for
+--   a cap in a period, so each fires once.
+--
+-- MUST BE RUN BEFORE deploying the corresponding code changes.
+-- Run in Supabase SQL Editor (Dashboard > SQL Editor > New Query).
+-- =============================================================================
+
+-- ---------------------------------------------------------------------------
+-- STEP 1: Limits
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS wallet_spend_limits (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  action_type TEXT NOT NULL,
+  period TEXT NOT NULL CHECK (period IN ('daily', 'weekly', 'monthly')),
+  limit_in_cents INTEGER NOT NULL CHECK (limit_in_cents > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, action_type, period)
+);
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 2: Alerts sent
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS wallet_spend_limit_alerts (
+  limit_id TEXT NOT NULL REFERENCES wallet_spend_limits(id) ON DELETE CASCADE,
+  period_start TIMESTAMPTZ NOT NULL,
+  -- 50, 80 or 100
+  threshold_percent INTEGER NOT NULL,
+  spent_in_cents INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (limit_id, period_start, threshold_percent)
+);
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 3: Spend per action type since a point in time
+-- ---------------------------------------------------------------------------
+-- Uses idx_wallet_transactions_user_created (2026-10-19-wallet-ledger.sql).
+CREATE OR REPLACE FUNCTION get_wallet_spend_by_action(
+  p_user_id TEXT,
+  p_since TIMESTAMPTZ
+)
+RETURNS TABLE(action_type TEXT, spent INTEGER)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    wt.action_type,
+    COALESCE(SUM(
+      CASE
+        WHEN wt.metadata->>'reservationStatus' = 'settled'
+          THEN COALESCE((wt.metadata->>'actualAmount')::INTEGER, 0)
+        ELSE ABS(wt.amount)
+      END
+    ), 0)::INTEGER AS spent
+  FROM wallet_transactions wt
+  WHERE wt.user_id = p_user_id
+    AND wt.type = 'debit'
+    AND wt.action_type IS NOT NULL
+    AND wt.created_at >= p_since
+  GROUP BY wt.action_type;
+$$;
+
+
+-- ---------------------------------------------------------------------------
+-- VERIFICATION QUERIES
+-- ---------------------------------------------------------------------------
+-- SELECT user_id, action_type, period, limit_in_cents FROM wallet_spend_limits ORDER BY user_id;
+-- SELECT * FROM get_wallet_spend_by_action('<user id>', date_trunc('month', NOW()));
+-- SELECT * FROM wallet_spend_limit_alerts ORDER BY created_at DESC LIMIT 20;
@@ -0,0 +1,80 @@
+-- =============================================================================
+-- MIGRATION: Add outbound webhook endpoints and their delivery log
+-- =============================================================================
+-- Date: 2026-10-19
+-- Purpose: Let users subscribe their own URLs (Zapier, Make, n8n, internal
+-- services) to events such as analysis.completed and crm_lead.added.
+--
+-- CONTEXT:
+-- Each event creates one webhook_deliveries row per subscribed endpoint.
+-- Deliveries are signed with the endpoint's secret (Standard Webhooks, the
+-- same scheme Dodo uses for our incoming webhooks) and attempted right away;
+-- failures are retried with backoff by GET /api/cron/webhook-deliveries.
+-- See lib/webhooks.ts.
+--
+-- MUST BE RUN BEFORE deploying the corresponding code changes.
+-- Run in Supabase SQL Editor (Dashboard > SQL Editor > New Query).
+-- =============================================================================
+
+-- ---------------------------------------------------------------------------
+-- STEP 1: Endpoints
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  description TEXT,
+  -- Subscribed event types, e.g. {analysis.completed,crm_lead.added}
+  events TEXT[] NOT NULL DEFAULT '{}',
+  -- whsec_<base64>; shown to the user so they can verify signatures
+  secret TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_user
+  ON webhook_endpoints (user_id);
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 2: Deliveries
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  -- Sent as the webhook-id header; stays the same across retries
+  id TEXT PRIMARY KEY,
+  endpoint_id TEXT NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL,
+  -- Full JSON body as sent: { id, type, created_at, data }
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ,
+  response_status INTEGER,
+  last_error TEXT,
+  last_attempt_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Retry sweeper
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+  ON webhook_deliveries (next_attempt_at)
+  WHERE status = 'pending';
+
+-- Delivery log in Settings
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint
+  ON webhook_deliveries (endpoint_id, created_at DESC);
+
+-- wallet.low_balance de-duplication
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_user_event
+  ON webhook_deliveries (user_id, event_type, created_at DESC);
+
+
+-- ---------------------------------------------------------------------------
+-- VERIFICATION QUERIES
+-- ---------------------------------------------------------------------------
+-- SELECT user_id, url, events, enabled FROM webhook_endpoints;
+-- SELECT event_type, status, COUNT(*) FROM webhook_deliveries GROUP BY 1, 2;
+-- SELECT id, attempts, next_attempt_at, last_error FROM webhook_deliveries WHERE status = 'pending';
@@ -0,0 +1,116 @@
+-- =============================================================================
+-- MIGRATION: Add team workspaces
+-- =============================================================================
+-- Date: 2026-10-19
+-- Purpose: Let a team share one subscription, wallet, CRM and analysis history
+-- instead of buying one subscription per person.
+--
+-- CONTEXT:
+-- A workspace belongs to its owner's account. Shared data keeps living under
+-- the OWNER's user_id (crm_leads, analyses, analysis_jobs, wallet columns on
+-- users, subscriptions, ...): members' requests are resolved to the owner's
+-- account in code (see getAccountContext in lib/workspaces.ts), so none of the
+-- existing tables change. A user belongs to at most one workspace.
+--
+-- Members are invited by email and accept from Settings > Team while signed
+-- in with that email. A member's own wallet and earlier data are left as they
+-- were and are not used while they're in a workspace.
+--
+-- Spend attribution: wallet_transactions.actor_user_id records which member
+-- caused each charge. Code passes the member in the reservation metadata
+-- (actorUserId); the trigger below copies it into the column, and copies a
+-- reservation's actor onto its refund rows.
+--
+-- MUST BE RUN BEFORE deploying the corresponding code changes.
+-- Run in Supabase SQL Editor (Dashboard > SQL Editor > New Query).
+-- =============================================================================
+
+-- ---------------------------------------------------------------------------
+-- STEP 1: Workspaces (one per owner)
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS workspaces (
+  id TEXT PRIMARY KEY,
+  owner_user_id TEXT NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 2: Members (the owner has a row too)
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS workspace_members (
+  workspace_id TEXT NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  -- UNIQUE: a user belongs to at most one workspace
+  user_id TEXT NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'admin', 'member')),
+  invited_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 3: Pending invites
+-- ---------------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS workspace_invites (
+  id TEXT PRIMARY KEY,
+  workspace_id TEXT NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  -- Lowercased; matched against the signed-in user's email on accept
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('admin', 'member')),
+  invited_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  UNIQUE (workspace_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_invites_email
+  ON workspace_invites (email);
+
+
+-- ---------------------------------------------------------------------------
+-- STEP 4: Per-member spend attribution
+-- ---------------------------------------------------------------------------
+ALTER TABLE wallet_transactions
+  ADD COLUMN IF NOT EXISTS actor_user_id TEXT;
+
+UPDATE wallet_transactions
+SET actor_user_id = user_id
+WHERE actor_user_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_actor
+  ON wallet_transactions (user_id, actor_user_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION set_wallet_transaction_actor()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.actor_user_id IS NULL THEN
+    NEW.actor_user_id := COALESCE(
+      NEW.metadata->>'actorUserId',
+      -- Refunds carry their reservation's id
+      (SELECT actor_user_id FROM wallet_transactions WHERE id::TEXT = NEW.metadata->>'reservationId'),
+      NEW.user_id
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS wallet_transactions_set_actor ON wallet_transactions;
+CREATE TRIGGER wallet_transactions_set_actor
+  BEFORE INSERT ON wallet_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_wallet_transaction_actor();
+
+
+-- ---------------------------------------------------------------------------
+-- VERIFICATION QUERIES
+-- ---------------------------------------------------------------------------
+-- SELECT w.name, m.user_id, m.role FROM workspaces w JOIN workspace_members m ON m.workspace_id = w.id;
+-- SELECT email, role, expires_at FROM workspace_invites;
+-- SELECT actor_user_id, SUM(-amount) FROM wallet_transactions
+--   WHERE action_type IS NOT NULL GROUP BY actor_user_id;
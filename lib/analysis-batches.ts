@@ -0,0 +1,362 @@
+// =============================================================================
+// BULK POST ANALYSIS
+// =============================================================================
+//
+// A batch is a group of ordinary analysis jobs (table: analysis_batches,
+// analysis_jobs.batch_id) submitted together from /dashboard/analyze/bulk.
+//
+// FLOW:
+// =====
+// 1. POST /api/analysis-batches/estimate validates and dedupes the URLs and
+//    prices them with estimateMaxPostAnalysisCost (shown before confirming)
+// 2. POST /api/analysis-batches reserves wallet credits PER POST. If any
+//    reservation fails, the ones already made are released and nothing is
+//    queued — a batch is all or nothing.
+// 3. One analysis job is created per post; the request works through them
+//    with after(), and the cron sweeper picks up anything left over
+// 4. GET /api/analysis-batches/[id] returns job progress plus one combined
+//    lead list, deduped by profile URL, with the posts each lead came from
+//
+// Each job settles (or releases) its own reservation, so a failed post never
+// charges for the rest of the batch.
+// =============================================================================
+
+import { createClient } from '@/lib/supabase/server';
+import { type Analysis, type Lead } from '@/lib/data-store';
+import { normalizeLinkedInPostUrl } from '@/lib/linkedin-scraper';
+import { createAnalysisJob, type AnalysisJob } from '@/lib/analysis-jobs';
+import { getEstimatedAnalysisCost, releaseAnalysisReservation, reserveAnalysisCredits, type UsageInfo } from '@/lib/usage';
+import { formatCredits, getWalletStatus } from '@/lib/wallet';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface AnalysisBatch {
+  id: string;
+  user_id: string;
+  name: string | null;
+  post_urls: string[];
+  created_at: string;
+}
+
+export interface AnalysisBatchProgress {
+  total: number;
+  queued: number;
+  running: number;
+  completed: number;
+  failed: number;
+  done: boolean;
+}
+
+export interface ParsedPostUrls {
+  /** Normalized, deduped URLs in submission order */
+  valid: string[];
+  /** Entries that aren't LinkedIn post URLs */
+  invalid: string[];
+  /** Entries that normalize to a URL already in the list */
+  duplicates: string[];
+}
+
+export interface AnalysisBatchEstimate extends ParsedPostUrls {
+  perPostCost: number;
+  totalCost: number;
+  totalCostFormatted: string;
+  walletBalance: number;
+  walletFormatted: string;
+  canAfford: boolean;
+  maxPosts: number;
+}
+
+export interface BatchLeadSource {
+  analysis_id: string;
+  post_url: string;
+  author: string;
+  source?: 'reaction' | 'comment';
+  comment_text?: string;
+}
+
+/** A lead from the combined batch list, with every post it engaged with */
+export interface BatchLead extends Lead {
+  posts: BatchLeadSource[];
+}
+
+export interface CreateAnalysisBatchResult {
+  success: boolean;
+  error?: string;
+  usage?: UsageInfo;
+  batch?: AnalysisBatch;
+  jobs?: AnalysisJob[];
+}
+
+// Each post is its own Apify run; keep batches to something a cron sweep
+// can finish in reasonable time
+export const MAX_BATCH_POSTS = 50;
+
+// =============================================================================
+// URL PARSING & ESTIMATE
+// =============================================================================
+
+/**
+ * Validates and dedupes raw post URLs (one per entry, as pasted or read from
+ * a CSV). Duplicates are compared after normalization, so tracking params
+ * and http/www variants collapse into one post.
+ */
+export function parsePostUrls(entries: string[]): ParsedPostUrls {
+  const valid: string[] = [];
+  const invalid: string[] = [];
+  const duplicates: string[] = [];
+  const seen = new Set<string>();
+
+  for (const raw of entries) {
+    const entry = raw.trim();
+    if (!entry) continue;
+
+    const url = normalizeLinkedInPostUrl(entry);
+    if (!url) {
+      invalid.push(entry);
+      continue;
+    }
+
+    const key = url.toLowerCase();
+    if (seen.has(key)) {
+      duplicates.push(entry);
+      continue;
+    }
+
+    seen.add(key);
+    valid.push(url);
+  }
+
+  return { valid, invalid, duplicates };
+}
+
+/**
+ * Prices a batch before the user confirms it. The per-post figure is the
+ * same amount reserveAnalysisCredits will hold for each post.
+ */
+export async function estimateAnalysisBatch(
+  userId: string,
+  plan: string,
+  entries: string[]
+): Promise<AnalysisBatchEstimate> {
+  const parsed = parsePostUrls(entries);
+  const perPostCost = getEstimatedAnalysisCost(plan);
+  const totalCost = perPostCost * parsed.valid.length;
+  const wallet = await getWalletStatus(userId);
+  const walletBalance = wallet?.balanceInCents || 0;
+
+  return {
+    ...parsed,
+    perPostCost,
+    totalCost,
+    totalCostFormatted: formatCredits(totalCost),
+    walletBalance,
+    walletFormatted: wallet?.balanceFormatted || '$0.00',
+    canAfford: parsed.valid.length > 0 && walletBalance >= totalCost,
+    maxPosts: MAX_BATCH_POSTS,
+  };
+}
+
+// =============================================================================
+// BATCH OPERATIONS (user context)
+// =============================================================================
+
+/**
+ * Reserves credits for every post and queues one job per post. Expects URLs
+ * that already went through parsePostUrls.
+ */
+export async function createAnalysisBatch(
+  userId: string,
+  postUrls: string[],
+  name?: string,
+  actorUserId?: string
+): Promise<CreateAnalysisBatchResult> {
+  const supabase = await createClient();
+
+  // -------------------------------------------------------------------------
+  // Step 1: Reserve per post (all or nothing)
+  // -------------------------------------------------------------------------
+  const reservations: { postUrl: string; reservationId: string }[] = [];
+
+  const releaseAll = async (releaseReason: string) => {
+    for (const r of reservations) {
+      const release = await releaseAnalysisReservation(userId, r.reservationId, {
+        postUrl: r.postUrl,
+        releaseReason,
+      });
+      if (!release.success) {
+        console.error('[Analysis Batches] Failed to release reservation:', r.reservationId, release.error);
+      }
+    }
+  };
+
+  for (const postUrl of postUrls) {
+    const reservation = await reserveAnalysisCredits(userId, postUrl, actorUserId);
+    if (!reservation.allowed || !reservation.reservationId) {
+      await releaseAll('batch_reservation_failed');
+      const position = reservations.length + 1;
+      return {
+        success: false,
+        error: `Could not reserve credits for post ${position} of ${postUrls.length}. ${reservation.reason || 'Add wallet credits to analyze these posts.'}`,
+        usage: reservation.usage,
+      };
+    }
+    reservations.push({ postUrl, reservationId: reservation.reservationId });
+  }
+
+  // -------------------------------------------------------------------------
+  // Step 2: Store the batch and its jobs
+  // -------------------------------------------------------------------------
+  const batch: AnalysisBatch = {
+    id: `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    user_id: userId,
+    name: name?.trim() || null,
+    post_urls: postUrls,
+    created_at: new Date().toISOString(),
+  };
+
+  try {
+    const { error } = await supabase.from('analysis_batches').insert(batch);
+    if (error) {
+      throw new Error(`Failed to create analysis batch: ${error.message}`);
+    }
+
+    const jobs: AnalysisJob[] = [];
+    for (const r of reservations) {
+      jobs.push(await createAnalysisJob(userId, r.postUrl, r.reservationId, { batchId: batch.id }));
+    }
+
+    return { success: true, batch, jobs };
+  } catch (error) {
+    console.error('[Analysis Batches] Failed to queue batch:', error);
+    await releaseAll('batch_create_failed');
+    await supabase.from('analysis_jobs').delete().eq('batch_id', batch.id).eq('user_id', userId);
+    await supabase.from('analysis_batches').delete().eq('id', batch.id).eq('user_id', userId);
+    return { success: false, error: 'Failed to start bulk analysis. No credits were charged.' };
+  }
+}
+
+export async function getAnalysisBatch(id: string, userId: string): Promise<AnalysisBatch | null> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('analysis_batches')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !data) return null;
+  return data as AnalysisBatch;
+}
+
+export async function getAnalysisBatches(userId: string, limit: number = 20): Promise<AnalysisBatch[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('analysis_batches')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error || !data) return [];
+  return data as AnalysisBatch[];
+}
+
+export async function getAnalysisBatchJobs(batchId: string, userId: string): Promise<AnalysisJob[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('analysis_jobs')
+    .select('*')
+    .eq('batch_id', batchId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error || !data) return [];
+  return data as AnalysisJob[];
+}
+
+/**
+ * Loads the saved analyses behind a batch's completed jobs.
+ */
+export async function getAnalysisBatchAnalyses(jobs: AnalysisJob[], userId: string): Promise<Analysis[]> {
+  const ids = jobs
+    .filter((j) => j.status === 'completed')
+    .map((j) => j.analysis_id)
+    .filter((id): id is string => !!id);
+  if (ids.length === 0) return [];
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('analyses')
+    .select('*')
+    .in('id', ids)
+    .eq('user_id', userId);
+
+  if (error || !data) return [];
+  return data as Analysis[];
+}
+
+export function getAnalysisBatchProgress(jobs: AnalysisJob[]): AnalysisBatchProgress {
+  const count = (status: AnalysisJob['status']) => jobs.filter((j) => j.status === status).length;
+  const completed = count('completed');
+  const failed = count('failed');
+
+  return {
+    total: jobs.length,
+    queued: count('queued'),
+    running: count('running'),
+    completed,
+    failed,
+    done: jobs.length > 0 && completed + failed === jobs.length,
+  };
+}
+
+// =============================================================================
+// COMBINED LEADS
+// =============================================================================
+
+/**
+ * Merges the leads of several analyses into one list, deduped by profile
+ * URL. A lead seen on several posts keeps its best score, matches the ICP if
+ * it matched on any post, and lists every post it engaged with.
+ */
+export function combineBatchLeads(analyses: Analysis[]): BatchLead[] {
+  const byUrl = new Map<string, BatchLead>();
+
+  for (const analysis of analyses) {
+    for (const lead of analysis.leads || []) {
+      if (!lead.profile_url) continue;
+
+      const attribution: BatchLeadSource = {
+        analysis_id: analysis.id,
+        post_url: analysis.post_url,
+        author: analysis.post_data?.author || 'Unknown',
+        source: lead.source,
+        comment_text: lead.comment_text,
+      };
+
+      const key = lead.profile_url.toLowerCase();
+      const existing = byUrl.get(key);
+
+      if (!existing) {
+        byUrl.set(key, { ...lead, posts: [attribution] });
+        continue;
+      }
+
+      const posts = [...existing.posts, attribution];
+      const best = (lead.icp_score ?? 0) > (existing.icp_score ?? 0) ? lead : existing;
+
+      byUrl.set(key, {
+        ...best,
+        matches_icp: existing.matches_icp || lead.matches_icp,
+        source: existing.source === 'comment' || lead.source === 'comment' ? 'comment' : 'reaction',
+        posts,
+      });
+    }
+  }
+
+  return Array.from(byUrl.values()).sort(
+    (a, b) => (b.icp_score ?? 0) - (a.icp_score ?? 0) || b.posts.length - a.posts.length
+  );
+}
@@ -0,0 +1,593 @@
+// =============================================================================
+// ANALYSIS JOB QUEUE
+// =============================================================================
+//
+// Persistent background jobs for post analysis (table: analysis_jobs).
+//
+// FLOW:
+// =====
+// 1. POST /api/analysis-jobs reserves wallet credits (user context) and
+//    inserts a 'queued' job with the reservation ID
+// 2. The same request schedules runAnalysisJob(jobId) with next/server after()
+// 3. The worker claims the job (claim_analysis_jobs RPC), then:
+//    fetch post → fetch reactions → fetch comments → ICP match/score
+//    → save Analysis → settle reservation
+// 4. On any fatal error the reservation is released and the job is 'failed'
+// 5. The page polls GET /api/analysis-jobs/[id] until 'completed' / 'failed'
+//
+// RECOVERY:
+// =========
+// GET /api/cron/analysis-jobs runs processPendingAnalysisJobs() on a schedule.
+// It picks up jobs that were never started and jobs whose worker died
+// (lock expired). Jobs that run out of attempts are failed and their
+// reservation released, so credits are never held indefinitely. The 120
+// minute reservation expiry skips queued and running jobs (see
+// 2026-10-19-analysis-job-reservations.sql), and the worker fails a job whose
+// reservation was released anyway rather than analyzing it for free.
+//
+// Bulk analysis (lib/analysis-batches.ts) queues one job per post with a
+// batch_id; runAnalysisBatchJobs works through them in the submitting request.
+//
+// The worker has no user session, so every DB call uses the admin client.
+// =============================================================================
+
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  deleteAnalysis,
+  getAnalysis,
+  getUserById,
+  saveAnalysis,
+  type Analysis,
+  type Lead,
+  type User,
+} from '@/lib/data-store';
+import { getICPCriteria, getICPScoringModel, matchLeadToICP, scoreLeadAgainstICP } from '@/lib/icp';
+import { scrapeComments, scrapePostDetails, scrapeReactions, type Commenter, type Reactor } from '@/lib/linkedin-scraper';
+import { filterReactionsByType, type ReactionType } from '@/lib/plans';
+import {
+  getScrapingCaps,
+  releaseAnalysisReservation,
+  settleAnalysisUsage,
+  type AnalysisMetadata,
+} from '@/lib/usage';
+import { getCreditReservation } from '@/lib/wallet';
+import { dispatchWebhookEvent, toAnalysisWebhookData } from '@/lib/webhooks';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type AnalysisJobStep =
+  | 'queued'
+  | 'fetching_post'
+  | 'fetching_reactions'
+  | 'fetching_comments'
+  | 'matching_icp'
+  | 'saving'
+  | 'done';
+
+export interface AnalysisJob {
+  id: string;
+  user_id: string;
+  post_url: string;
+  batch_id: string | null;
+  monitored_profile_id: string | null;
+  /** Per-job scrape caps; null means the plan's per-post caps, 0 skips that source */
+  reaction_cap: number | null;
+  comment_cap: number | null;
+  /** Reaction types kept as leads; null means all */
+  reaction_types: ReactionType[] | null;
+  status: AnalysisJobStatus;
+  step: AnalysisJobStep;
+  reservation_id: string | null;
+  settled_at: string | null;
+  analysis_id: string | null;
+  post_data: Analysis['post_data'] | null;
+  reactions_count: number | null;
+  comments_count: number | null;
+  qualified_leads_count: number | null;
+  error: string | null;
+  attempts: number;
+  locked_until: string | null;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+// A worker that hasn't finished within the lock window is considered dead
+const JOB_LOCK_MINUTES = 15;
+const MAX_JOB_ATTEMPTS = 3;
+
+// =============================================================================
+// JOB OPERATIONS (user context)
+// =============================================================================
+
+export interface CreateAnalysisJobOptions {
+  batchId?: string;
+  monitoredProfileId?: string;
+  reactionCap?: number;
+  commentCap?: number;
+  reactionTypes?: ReactionType[];
+}
+
+/**
+ * Inserts a queued job. The reservation must already be held and must be
+ * sized to the job's caps (the plan's per-post caps when none are given).
+ */
+export async function createAnalysisJob(
+  userId: string,
+  postUrl: string,
+  reservationId: string,
+  options: CreateAnalysisJobOptions = {},
+  client?: SupabaseClient
+): Promise<AnalysisJob> {
+  const supabase = client ?? await createClient();
+  const now = new Date().toISOString();
+
+  const job: AnalysisJob = {
+    id: `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    user_id: userId,
+    post_url: postUrl,
+    batch_id: options.batchId ?? null,
+    monitored_profile_id: options.monitoredProfileId ?? null,
+    reaction_cap: options.reactionCap ?? null,
+    comment_cap: options.commentCap ?? null,
+    reaction_types: options.reactionTypes?.length ? options.reactionTypes : null,
+    status: 'queued',
+    step: 'queued',
+    reservation_id: reservationId,
+    settled_at: null,
+    analysis_id: null,
+    post_data: null,
+    reactions_count: null,
+    comments_count: null,
+    qualified_leads_count: null,
+    error: null,
+    attempts: 0,
+    locked_until: null,
+    created_at: now,
+    updated_at: now,
+    started_at: null,
+    completed_at: null,
+  };
+
+  const { error } = await supabase.from('analysis_jobs').insert(job);
+
+  if (error) {
+    throw new Error(`Failed to create analysis job: ${error.message}`);
+  }
+
+  return job;
+}
+
+export async function getAnalysisJob(id: string, userId: string): Promise<AnalysisJob | null> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('analysis_jobs')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !data) return null;
+  return data as AnalysisJob;
+}
+
+export async function getAnalysisJobs(
+  userId: string,
+  options: { activeOnly?: boolean; monitoredOnly?: boolean; singleOnly?: boolean; limit?: number } = {}
+): Promise<AnalysisJob[]> {
+  const supabase = await createClient();
+  let query = supabase
+    .from('analysis_jobs')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 20);
+
+  if (options.activeOnly) {
+    query = query.in('status', ['queued', 'running']);
+  }
+
+  if (options.monitoredOnly) {
+    query = query.not('monitored_profile_id', 'is', null);
+  }
+
+  // Jobs the user submitted one at a time, not bulk batches or monitoring runs
+  if (options.singleOnly) {
+    query = query.is('batch_id', null).is('monitored_profile_id', null);
+  }
+
+  const { data, error } = await query;
+
+  if (error || !data) return [];
+  return data as AnalysisJob[];
+}
+
+// =============================================================================
+// LEAD BUILDING
+// =============================================================================
+
+/**
+ * Combines reactors and commenters into analysis leads, deduped by profile
+ * URL (a commenter wins over a reactor since commenting is the stronger
+ * signal), matched and scored against the user's ICP, highest score first.
+ */
+export function buildAnalysisLeads(
+  reactors: Reactor[],
+  commenters: Commenter[],
+  user: Pick<User, 'settings' | 'locations' | 'industries'>
+): Lead[] {
+  const criteria = getICPCriteria(user);
+  const model = getICPScoringModel(user);
+  const byUrl = new Map<string, Lead>();
+
+  const addLead = (
+    person: { name: string; headline: string; profileUrl: string; profilePicture?: string },
+    source: 'reaction' | 'comment',
+    commentText?: string
+  ) => {
+    if (!person.profileUrl) return;
+    const key = person.profileUrl.toLowerCase();
+    const existing = byUrl.get(key);
+    if (existing && (existing.source === 'comment' || source === 'reaction')) return;
+
+    const match = matchLeadToICP(person, criteria);
+    const { score, breakdown } = scoreLeadAgainstICP({ headline: person.headline, source }, criteria, model);
+
+    byUrl.set(key, {
+      name: person.name,
+      headline: person.headline,
+      profile_url: person.profileUrl,
+      profile_picture: person.profilePicture,
+      matches_icp: match.matches,
+      icp_match_reason: match.reason,
+      icp_score: score,
+      icp_score_breakdown: breakdown,
+      source,
+      comment_text: commentText,
+    });
+  };
+
+  reactors.forEach((r) => addLead(r, 'reaction'));
+  commenters.forEach((c) => addLead(c, 'comment', c.commentText));
+
+  return Array.from(byUrl.values()).sort((a, b) => (b.icp_score ?? 0) - (a.icp_score ?? 0));
+}
+
+// =============================================================================
+// WORKER (admin context)
+// =============================================================================
+
+async function updateJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  updates: Partial<AnalysisJob>
+): Promise<void> {
+  const { error } = await supabase
+    .from('analysis_jobs')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', jobId);
+
+  if (error) {
+    console.error('[Analysis Jobs] Failed to update job:', jobId, error);
+  }
+}
+
+async function claimAnalysisJobs(
+  supabase: SupabaseClient,
+  options: { jobId?: string; batchId?: string; limit?: number }
+): Promise<AnalysisJob[]> {
+  const { data, error } = await supabase.rpc('claim_analysis_jobs', {
+    p_limit: options.limit ?? 1,
+    p_job_id: options.jobId ?? null,
+    p_lock_minutes: JOB_LOCK_MINUTES,
+    p_max_attempts: MAX_JOB_ATTEMPTS,
+    p_batch_id: options.batchId ?? null,
+  });
+
+  if (error) {
+    console.error('[Analysis Jobs] RPC error while claiming jobs:', error);
+    return [];
+  }
+
+  return (data || []) as AnalysisJob[];
+}
+
+/**
+ * Marks a job failed and releases its wallet reservation (if not settled),
+ * deleting the analysis it saved, which was never paid for.
+ */
+async function failAnalysisJob(
+  supabase: SupabaseClient,
+  job: AnalysisJob,
+  message: string
+): Promise<void> {
+  if (job.reservation_id && !job.settled_at) {
+    const release = await releaseAnalysisReservation(job.user_id, job.reservation_id, {
+      postUrl: job.post_url,
+      jobId: job.id,
+      releaseReason: 'analysis_job_failed',
+    }, supabase);
+
+    if (!release.success) {
+      console.error('[Analysis Jobs] Failed to release reservation:', job.id, release.error);
+    }
+
+    if (job.analysis_id) {
+      if (!(await deleteAnalysis(job.analysis_id, job.user_id, supabase))) {
+        console.error('[Analysis Jobs] Failed to delete unpaid analysis:', job.id, job.analysis_id);
+      }
+      job.analysis_id = null;
+    }
+  }
+
+  await updateJob(supabase, job.id, {
+    status: 'failed',
+    analysis_id: job.analysis_id,
+    error: message,
+    locked_until: null,
+    completed_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Confirms the job's reservation is still held before paid work or settling.
+ * A reservation this job already settled (the worker died before recording
+ * settled_at) is recorded as settled; one that was released or settled
+ * elsewhere fails the job, since settling it again would charge nothing.
+ */
+async function checkJobReservation(supabase: SupabaseClient, job: AnalysisJob): Promise<void> {
+  if (job.settled_at || !job.reservation_id) return;
+
+  const reservation = await getCreditReservation(job.user_id, job.reservation_id, supabase);
+  if (reservation?.status === 'reserved') return;
+
+  if (
+    reservation?.status === 'settled' &&
+    reservation.metadata.jobId === job.id &&
+    !reservation.metadata.released &&
+    !reservation.metadata.releaseReason
+  ) {
+    job.settled_at = new Date().toISOString();
+    await updateJob(supabase, job.id, { settled_at: job.settled_at });
+    return;
+  }
+
+  throw new Error('The credit hold for this analysis was released before it finished. Please run it again.');
+}
+
+/**
+ * Scrapes the post, matches the leads and saves the analysis. Saving comes
+ * before the settle, so a charged job always has its analysis; one that
+ * fails before settling has the analysis deleted (failAnalysisJob).
+ */
+async function scrapeAndSaveAnalysis(
+  supabase: SupabaseClient,
+  job: AnalysisJob,
+  user: User
+): Promise<{ analysis: Analysis; usage: AnalysisMetadata }> {
+  const planCaps = await getScrapingCaps(user.id, supabase);
+  const caps = {
+    reactionCap: job.reaction_cap ?? planCaps.reactionCap,
+    commentCap: job.comment_cap ?? planCaps.commentCap,
+  };
+
+  // ---------------------------------------------------------------------------
+  // Step 1: Post details
+  // ---------------------------------------------------------------------------
+  await updateJob(supabase, job.id, { step: 'fetching_post' });
+  const post = await scrapePostDetails(job.post_url);
+  const postData: Analysis['post_data'] = {
+    author: post.author,
+    author_headline: post.authorHeadline,
+    author_image: post.image,
+    content: post.content,
+    post_image: post.postImage,
+    total_reactions: post.totalReactions,
+    total_comments: post.totalComments,
+    total_shares: post.totalShares,
+  };
+
+  // ---------------------------------------------------------------------------
+  // Step 2: Reactions
+  // ---------------------------------------------------------------------------
+  await updateJob(supabase, job.id, { step: 'fetching_reactions', post_data: postData });
+  // Every scraped reaction is billed; the type filter only picks the leads
+  const reactors = caps.reactionCap > 0 ? await scrapeReactions(post.postUrl, caps.reactionCap) : [];
+
+  // ---------------------------------------------------------------------------
+  // Step 3: Comments (non-fatal, same as the interactive flow, unless
+  // reactions are off and comments are all there is)
+  // ---------------------------------------------------------------------------
+  await updateJob(supabase, job.id, { step: 'fetching_comments', reactions_count: reactors.length });
+  let commenters: Commenter[] = [];
+  if (caps.commentCap > 0 && post.totalComments > 0) {
+    try {
+      commenters = await scrapeComments(post.postUrl, caps.commentCap);
+    } catch (error) {
+      if (caps.reactionCap === 0) throw error;
+      console.error('[Analysis Jobs] Comments fetch failed (continuing with reactions):', job.id, error);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Step 4: ICP matching
+  // ---------------------------------------------------------------------------
+  await updateJob(supabase, job.id, { step: 'matching_icp', comments_count: commenters.length });
+  const keptReactors = filterReactionsByType(reactors, job.reaction_types ?? []);
+  const leads = buildAnalysisLeads(keptReactors, commenters, user);
+  const qualifiedCount = leads.filter((l) => l.matches_icp).length;
+
+  // ---------------------------------------------------------------------------
+  // Step 5: Save
+  // ---------------------------------------------------------------------------
+  await updateJob(supabase, job.id, { step: 'saving', qualified_leads_count: qualifiedCount });
+  const analysis = await saveAnalysis({
+    user_id: user.id,
+    post_url: job.post_url,
+    post_data: postData,
+    total_reactors: post.totalReactions,
+    qualified_leads_count: qualifiedCount,
+    leads,
+  }, supabase);
+
+  job.analysis_id = analysis.id;
+  await updateJob(supabase, job.id, { analysis_id: analysis.id });
+
+  return {
+    analysis,
+    usage: {
+      jobId: job.id,
+      postUrl: job.post_url,
+      reactionsScraped: reactors.length,
+      commentsScraped: commenters.length,
+      leadsFound: keptReactors.length + commenters.length,
+    },
+  };
+}
+
+/**
+ * Runs a claimed job end to end. Never throws. A retry of a job whose worker
+ * died after saving the analysis only settles and completes it; the scrapes
+ * aren't run (or paid for) twice.
+ */
+async function executeAnalysisJob(supabase: SupabaseClient, job: AnalysisJob): Promise<void> {
+  console.log('[Analysis Jobs] Running job:', { jobId: job.id, attempt: job.attempts, postUrl: job.post_url });
+
+  try {
+    if (!job.reservation_id) {
+      throw new Error('Missing wallet reservation for this analysis');
+    }
+
+    const user = await getUserById(job.user_id, supabase);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    await checkJobReservation(supabase, job);
+
+    const saved = job.analysis_id ? await getAnalysis(job.analysis_id, user.id, supabase) : null;
+    const { analysis, usage } = saved
+      ? {
+          analysis: saved,
+          usage: {
+            jobId: job.id,
+            postUrl: job.post_url,
+            reactionsScraped: job.reactions_count ?? 0,
+            commentsScraped: job.comments_count ?? 0,
+            leadsFound: saved.leads.length,
+          },
+        }
+      : await scrapeAndSaveAnalysis(supabase, job, user);
+
+    // -------------------------------------------------------------------------
+    // Step 6: Settle reservation
+    // -------------------------------------------------------------------------
+    await checkJobReservation(supabase, job);
+    if (!job.settled_at) {
+      const settlement = await settleAnalysisUsage(user.id, job.reservation_id, usage, supabase);
+
+      if (!settlement.success) {
+        throw new Error(settlement.error || 'We could not charge your wallet for this analysis.');
+      }
+
+      job.settled_at = new Date().toISOString();
+      await updateJob(supabase, job.id, { settled_at: job.settled_at });
+    }
+
+    await updateJob(supabase, job.id, {
+      status: 'completed',
+      step: 'done',
+      analysis_id: analysis.id,
+      error: null,
+      locked_until: null,
+      completed_at: new Date().toISOString(),
+    });
+
+    console.log('[Analysis Jobs] Job completed:', { jobId: job.id, analysisId: analysis.id, leads: analysis.leads.length });
+
+    await dispatchWebhookEvent(user.id, 'analysis.completed', toAnalysisWebhookData(analysis), supabase);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    console.error('[Analysis Jobs] Job failed:', job.id, message);
+    await failAnalysisJob(supabase, job, message);
+  }
+}
+
+/**
+ * Claims and runs one specific job. Safe to call more than once — if another
+ * worker already claimed it, this is a no-op.
+ */
+export async function runAnalysisJob(jobId: string, client?: SupabaseClient): Promise<void> {
+  const supabase = client ?? createAdminClient();
+  const [job] = await claimAnalysisJobs(supabase, { jobId });
+
+  if (!job) {
+    console.log('[Analysis Jobs] Job not claimable (already running or finished):', jobId);
+    return;
+  }
+
+  await executeAnalysisJob(supabase, job);
+}
+
+/**
+ * Runs a batch's queued jobs one at a time until none are left or the time
+ * budget is spent. Whatever remains is picked up by the cron sweeper.
+ */
+export async function runAnalysisBatchJobs(
+  batchId: string,
+  timeBudgetMs: number,
+  client?: SupabaseClient
+): Promise<number> {
+  const supabase = client ?? createAdminClient();
+  const deadline = Date.now() + timeBudgetMs;
+  let processed = 0;
+
+  while (Date.now() < deadline) {
+    const [job] = await claimAnalysisJobs(supabase, { batchId });
+    if (!job) break;
+
+    await executeAnalysisJob(supabase, job);
+    processed++;
+  }
+
+  return processed;
+}
+
+/**
+ * Cron sweeper: fails jobs that ran out of attempts, then runs up to `limit`
+ * queued or abandoned jobs sequentially.
+ *
+ * @returns Counts for logging/monitoring
+ */
+export async function processPendingAnalysisJobs(
+  limit: number = 3,
+  client?: SupabaseClient
+): Promise<{ processed: number; exhausted: number }> {
+  const supabase = client ?? createAdminClient();
+
+  // Jobs whose worker died on the last allowed attempt
+  const { data: exhaustedJobs } = await supabase
+    .from('analysis_jobs')
+    .select('*')
+    .eq('status', 'running')
+    .lt('locked_until', new Date().toISOString())
+    .gte('attempts', MAX_JOB_ATTEMPTS);
+
+  for (const job of (exhaustedJobs || []) as AnalysisJob[]) {
+    await failAnalysisJob(supabase, job, 'Analysis timed out. Your credits have been refunded.');
+  }
+
+  const jobs = await claimAnalysisJobs(supabase, { limit });
+  for (const job of jobs) {
+    await executeAnalysisJob(supabase, job);
+  }
+
+  return { processed: jobs.length, exhausted: exhaustedJobs?.length || 0 };
+}
@@ -0,0 +1,265 @@
+// =============================================================================
+// API KEYS
+// =============================================================================
+//
+// Per-user keys for the public REST API (table: api_keys). A key works
+// alongside cookie auth on the analyses, CRM and wallet routes; the endpoints
+// are described in lib/openapi.ts (served at GET /api/openapi).
+//
+// FLOW:
+// =====
+// 1. Settings > API Keys creates a key with a name and scopes. The key is
+//    returned once; only its SHA-256 hash is stored.
+// 2. Requests send "Authorization: Bearer gk_..."
+// 3. The middleware (lib/supabase/middleware.ts) calls authenticateApiKey,
+//    which runs use_api_key(): rejects revoked/unknown keys, enforces the
+//    key's per-minute rate limit and logs the request to usage_logs
+//    (action 'api_request')
+// 4. On success the middleware forwards the key's user and scopes in the
+//    API_KEY_*_HEADER request headers (stripped from every incoming request
+//    first, so only the middleware can set them)
+// 5. Routes call getAuthenticatedUser(scope) (lib/auth.ts), which accepts the
+//    key only if it has that scope. createClient() returns the admin client
+//    for these requests since there is no session for RLS; data functions
+//    scope every query by user id.
+//
+// This module is imported by the middleware, so the auth helpers stick to
+// Web APIs (crypto.subtle, no Buffer).
+// =============================================================================
+
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export const API_KEY_SCOPES = [
+  { scope: 'analyses:read', description: 'List analyses and analysis jobs, export analysis leads' },
+  { scope: 'analyses:write', description: 'Start analysis jobs, save and delete analyses' },
+  { scope: 'crm:read', description: 'List and export CRM leads' },
+  { scope: 'crm:write', description: 'Add, update and delete CRM leads, enrich profiles, find emails' },
+  { scope: 'wallet:read', description: 'Read wallet balance, transactions and plan usage' },
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number]['scope'];
+
+/** Stored key without its hash */
+export interface ApiKey {
+  id: string;
+  user_id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  rate_limit_per_minute: number;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface ApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+export type ApiKeyAuthResult =
+  | { success: true; keyId: string; userId: string; email: string; scopes: ApiKeyScope[] }
+  | { success: false; status: 401 | 429 | 500; error: string; retryAfterSeconds?: number };
+
+export const API_KEY_PREFIX = 'gk_';
+export const MAX_API_KEYS = 10;
+
+// Set by the middleware on authenticated API key requests
+export const API_KEY_ID_HEADER = 'x-api-key-id';
+export const API_KEY_EMAIL_HEADER = 'x-api-key-user-email';
+export const API_KEY_SCOPES_HEADER = 'x-api-key-scopes';
+export const API_KEY_HEADERS = [API_KEY_ID_HEADER, API_KEY_EMAIL_HEADER, API_KEY_SCOPES_HEADER];
+
+// Characters of the key shown in Settings (gk_ + 6)
+const KEY_PREFIX_LENGTH = 9;
+const API_KEY_COLUMNS = 'id, user_id, name, key_prefix, scopes, rate_limit_per_minute, last_used_at, revoked_at, created_at';
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function generateApiKey(): string {
+  return `${API_KEY_PREFIX}${toHex(crypto.getRandomValues(new Uint8Array(24)))}`;
+}
+
+async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return toHex(new Uint8Array(digest));
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return API_KEY_SCOPES.some((s) => s.scope === value);
+}
+
+/**
+ * The API key in an Authorization header, if it carries one.
+ * Supabase session tokens are also bearer tokens, so only gk_ keys count.
+ */
+export function getApiKeyFromAuthorization(header: string | null): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match && match[1].startsWith(API_KEY_PREFIX) ? match[1] : null;
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+/**
+ * Validates a create request body.
+ *
+ * @example
+ * parseApiKeyInput({ name: 'Zapier', scopes: ['crm:read'] });
+ * // { success: true, input: { name: 'Zapier', scopes: ['crm:read'] } }
+ */
+export function parseApiKeyInput(
+  raw: unknown
+): { success: true; input: ApiKeyInput } | { success: false; error: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { success: false, error: 'Request body must be an object' };
+  }
+  const body = raw as Record<string, unknown>;
+
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    return { success: false, error: 'Please enter a name for the key' };
+  }
+  if (name.length > 100) {
+    return { success: false, error: 'name must be 100 characters or fewer' };
+  }
+
+  if (!Array.isArray(body.scopes) || body.scopes.length === 0) {
+    return { success: false, error: 'Select at least one scope' };
+  }
+  const unknown = body.scopes.find((scope) => !isApiKeyScope(scope));
+  if (unknown !== undefined) {
+    return { success: false, error: `Unknown scope: ${String(unknown)}` };
+  }
+
+  return { success: true, input: { name, scopes: Array.from(new Set(body.scopes as ApiKeyScope[])) } };
+}
+
+// =============================================================================
+// KEY OPERATIONS (user context)
+// =============================================================================
+
+/** Active and revoked keys, newest first */
+export async function getApiKeys(userId: string): Promise<ApiKey[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select(API_KEY_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error || !data) return [];
+  return data as ApiKey[];
+}
+
+/**
+ * Creates a key. The plaintext key is only ever returned here.
+ */
+export async function createApiKey(
+  userId: string,
+  input: ApiKeyInput
+): Promise<{ success: boolean; error?: string; apiKey?: ApiKey; key?: string }> {
+  const supabase = await createClient();
+
+  const { count } = await supabase
+    .from('api_keys')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('revoked_at', null);
+
+  if ((count ?? 0) >= MAX_API_KEYS) {
+    return { success: false, error: `You can have up to ${MAX_API_KEYS} active API keys. Revoke one first.` };
+  }
+
+  const key = generateApiKey();
+  const { data, error } = await supabase
+    .from('api_keys')
+    .insert({
+      id: generateId('key'),
+      user_id: userId,
+      name: input.name,
+      key_prefix: key.slice(0, KEY_PREFIX_LENGTH),
+      key_hash: await hashApiKey(key),
+      scopes: input.scopes,
+      created_at: new Date().toISOString(),
+    })
+    .select(API_KEY_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    console.error('[API Keys] Failed to create key:', error);
+    return { success: false, error: 'Failed to create API key' };
+  }
+
+  return { success: true, apiKey: data as ApiKey, key };
+}
+
+/**
+ * Revokes a key. Revoked keys stay listed so past usage can be traced.
+ *
+ * @returns false if the key doesn't exist or is already revoked
+ */
+export async function revokeApiKey(id: string, userId: string): Promise<boolean> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('api_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    console.error('[API Keys] Failed to revoke key:', error);
+    return false;
+  }
+  return (data?.length ?? 0) > 0;
+}
+
+// =============================================================================
+// REQUEST AUTH (middleware)
+// =============================================================================
+
+/**
+ * Checks a key, counts the request against its rate limit and logs it.
+ * Runs before any session exists, so it uses the admin client.
+ */
+export async function authenticateApiKey(key: string, requestPath: string): Promise<ApiKeyAuthResult> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase.rpc('use_api_key', {
+    p_key_hash: await hashApiKey(key),
+    p_request_path: requestPath,
+  });
+
+  const result = Array.isArray(data) ? data[0] : data;
+  if (error || !result) {
+    console.error('[API Keys] Failed to authenticate key:', error);
+    return { success: false, status: 500, error: 'Failed to verify API key' };
+  }
+
+  if (!result.success) {
+    return result.key_id
+      ? { success: false, status: 429, error: 'Rate limit exceeded', retryAfterSeconds: result.retry_after_seconds }
+      : { success: false, status: 401, error: 'Invalid API key' };
+  }
+
+  return {
+    success: true,
+    keyId: result.key_id,
+    userId: result.key_user_id,
+    email: result.key_user_email,
+    scopes: ((result.key_scopes || []) as unknown[]).filter(isApiKeyScope),
+  };
+}
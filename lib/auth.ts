@@ -20,8 +20,10 @@
  * @see SUPABASE_AUTH_MIGRATION.md for full migration documentation
  */
 
+import { headers } from 'next/headers'
 import { createClient } from '@/lib/supabase/server'
 import { getOrCreateUser } from './data-store'
+import { API_KEY_EMAIL_HEADER, API_KEY_SCOPES_HEADER, type ApiKeyScope } from './api-keys'
 
 /**
  * Gets the authenticated user's email from Supabase Auth session.
@@ -29,8 +31,19 @@ import { getOrCreateUser } from './data-store'
  * 
  * MIGRATION NOTE: Previously used jwtVerify from jose to verify custom JWT.
  * Now uses Supabase Auth's getUser() which automatically handles session cookies.
+ *
+ * API KEYS: Requests authenticated by API key in the middleware
+ * (lib/api-keys.ts) are only accepted by routes that pass the scope they
+ * need, and only if the key has it. Without a scope, key requests get null.
  */
-export async function getAuthenticatedUser(): Promise<string | null> {
+export async function getAuthenticatedUser(scope?: ApiKeyScope): Promise<string | null> {
+  const headerStore = await headers()
+  const apiKeyEmail = headerStore.get(API_KEY_EMAIL_HEADER)
+  if (apiKeyEmail) {
+    const scopes = headerStore.get(API_KEY_SCOPES_HEADER)?.split(' ') ?? []
+    return scope && scopes.includes(scope) ? apiKeyEmail : null
+  }
+
   const supabase = await createClient()
 
   const { data: { user }, error } = await supabase.auth.getUser()
@@ -0,0 +1,331 @@
+// =============================================================================
+// AUTOMATIC WALLET TOP-UP
+// =============================================================================
+//
+// Opt-in auto-recharge: the user picks a credit pack (CREDIT_PACKS), a
+// balance threshold and a monthly cap. When a reservation settlement leaves
+// the wallet below the threshold, the pack is charged to their saved Dodo
+// payment method.
+//
+// FLOW:
+// =====
+// 1. settleCreditReservation (lib/wallet.ts) calls maybeStartAutoTopUp after
+//    the response
+// 2. claim_wallet_auto_topup() decides atomically whether this settlement
+//    starts a charge: once per threshold crossing, within the monthly cap,
+//    and never with another charge pending. It records the attempt in
+//    wallet_auto_topups
+// 3. A confirmed Dodo checkout session charges the saved payment method
+// 4. payment.succeeded adds the credits like any purchased pack, then
+//    completeAutoTopUpCharge marks the attempt and re-arms for the next
+//    crossing. payment.failed marks it failed and leaves it disarmed until the
+//    balance is back above the threshold (e.g. after a manual purchase)
+//
+// Schema: docs/migrations/2026-10-19-wallet-auto-topup.sql
+// =============================================================================
+
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { CREDIT_PACKS, isValidCreditPack, type CreditPackId } from '@/lib/credit-packs';
+import { getCreditPackProductId, getDodoClient, withDodoErrorHandling } from '@/lib/dodo';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface AutoTopUpSettings {
+  enabled: boolean;
+  packId: CreditPackId | null;
+  /** Recharge when a settlement leaves the balance below this (cents) */
+  thresholdInCents: number | null;
+  /** Most that can be charged per calendar month, UTC (cents) */
+  monthlyCapInCents: number | null;
+}
+
+export interface AutoTopUpCharge {
+  id: string;
+  packId: string;
+  /** Charged to the card, in cents */
+  amount: number;
+  balanceAtTrigger: number;
+  status: 'pending' | 'succeeded' | 'failed';
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export type AutoTopUpSettingsParseResult =
+  | { success: true; settings: AutoTopUpSettings }
+  | { success: false; error: string };
+
+export const MIN_AUTO_TOPUP_THRESHOLD_IN_CENTS = 100;
+export const MAX_AUTO_TOPUP_THRESHOLD_IN_CENTS = 100000;
+export const MAX_AUTO_TOPUP_MONTHLY_CAP_IN_CENTS = 500000;
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/** Start of the current calendar month (UTC), the cap's window */
+export function getAutoTopUpPeriodStart(now: Date = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+}
+
+// =============================================================================
+// SETTINGS
+// =============================================================================
+
+/**
+ * Validates a PUT /api/billing/auto-topup body. Disabling leaves the saved
+ * pack, threshold and cap in place, so re-enabling starts from them.
+ */
+export function parseAutoTopUpSettings(body: Record<string, unknown>): AutoTopUpSettingsParseResult {
+  if (typeof body.enabled !== 'boolean') {
+    return { success: false, error: 'enabled must be true or false' };
+  }
+
+  if (!body.enabled) {
+    return {
+      success: true,
+      settings: { enabled: false, packId: null, thresholdInCents: null, monthlyCapInCents: null },
+    };
+  }
+
+  const { packId, thresholdInCents, monthlyCapInCents } = body;
+  if (typeof packId !== 'string' || !isValidCreditPack(packId)) {
+    return { success: false, error: `packId must be one of: ${Object.keys(CREDIT_PACKS).join(', ')}` };
+  }
+
+  if (
+    typeof thresholdInCents !== 'number' ||
+    !Number.isInteger(thresholdInCents) ||
+    thresholdInCents < MIN_AUTO_TOPUP_THRESHOLD_IN_CENTS ||
+    thresholdInCents > MAX_AUTO_TOPUP_THRESHOLD_IN_CENTS
+  ) {
+    return {
+      success: false,
+      error: `thresholdInCents must be a whole number of cents from ${MIN_AUTO_TOPUP_THRESHOLD_IN_CENTS} to ${MAX_AUTO_TOPUP_THRESHOLD_IN_CENTS}`,
+    };
+  }
+
+  const pack = CREDIT_PACKS[packId];
+  if (
+    typeof monthlyCapInCents !== 'number' ||
+    !Number.isInteger(monthlyCapInCents) ||
+    monthlyCapInCents < pack.priceInCents ||
+    monthlyCapInCents > MAX_AUTO_TOPUP_MONTHLY_CAP_IN_CENTS
+  ) {
+    return {
+      success: false,
+      error: `monthlyCapInCents must be a whole number of cents from ${pack.priceInCents} (one ${pack.name} pack) to ${MAX_AUTO_TOPUP_MONTHLY_CAP_IN_CENTS}`,
+    };
+  }
+
+  return { success: true, settings: { enabled: true, packId, thresholdInCents, monthlyCapInCents } };
+}
+
+export async function getAutoTopUpSettings(userId: string): Promise<AutoTopUpSettings> {
+  const supabase = await createClient();
+  const { data } = await supabase
+    .from('users')
+    .select('auto_topup_enabled, auto_topup_pack_id, auto_topup_threshold, auto_topup_monthly_cap')
+    .eq('id', userId)
+    .maybeSingle();
+
+  return {
+    enabled: !!data?.auto_topup_enabled,
+    packId: data?.auto_topup_pack_id && isValidCreditPack(data.auto_topup_pack_id) ? data.auto_topup_pack_id : null,
+    thresholdInCents: data?.auto_topup_threshold ?? null,
+    monthlyCapInCents: data?.auto_topup_monthly_cap ?? null,
+  };
+}
+
+/** Saves the settings and re-arms, so the next settlement below the threshold charges */
+export async function saveAutoTopUpSettings(userId: string, settings: AutoTopUpSettings): Promise<boolean> {
+  const supabase = await createClient();
+  const updates: Record<string, unknown> = {
+    auto_topup_enabled: settings.enabled,
+    auto_topup_armed: true,
+    updated_at: new Date().toISOString(),
+  };
+  if (settings.enabled) {
+    updates.auto_topup_pack_id = settings.packId;
+    updates.auto_topup_threshold = settings.thresholdInCents;
+    updates.auto_topup_monthly_cap = settings.monthlyCapInCents;
+  }
+
+  const { error } = await supabase.from('users').update(updates).eq('id', userId);
+  if (error) {
+    console.error('[Auto Top-Up] Failed to save settings:', error);
+    return false;
+  }
+  return true;
+}
+
+/** Charges since `since`, newest first */
+export async function getAutoTopUpCharges(userId: string, since: string): Promise<AutoTopUpCharge[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('wallet_auto_topups')
+    .select('*')
+    .eq('user_id', userId)
+    .gte('created_at', since)
+    .order('created_at', { ascending: false });
+
+  if (error || !data) return [];
+
+  return data.map((row) => ({
+    id: row.id,
+    packId: row.pack_id,
+    amount: row.amount,
+    balanceAtTrigger: row.balance_at_trigger,
+    status: row.status,
+    error: row.error ?? null,
+    createdAt: row.created_at,
+    completedAt: row.completed_at ?? null,
+  }));
+}
+
+/**
+ * The customer's most recently used payment method that Dodo can charge
+ * without them present, or null if they have none saved.
+ */
+export async function getSavedPaymentMethodId(dodoCustomerId: string): Promise<string | null> {
+  const client = getDodoClient();
+  const { items } = await withDodoErrorHandling(
+    () => client.customers.retrievePaymentMethods(dodoCustomerId),
+    'listing saved payment methods'
+  );
+
+  const usable = items
+    .filter((item) => item.recurring_enabled !== false)
+    .sort((a, b) => (b.last_used_at || '').localeCompare(a.last_used_at || ''));
+  return usable[0]?.payment_method_id ?? null;
+}
+
+// =============================================================================
+// CHARGING
+// =============================================================================
+
+/**
+ * Starts an auto top-up charge if this account's settings call for one.
+ * Safe to call after every settlement: claim_wallet_auto_topup makes it a
+ * no-op unless the balance has just crossed below the threshold. Never throws.
+ */
+export async function maybeStartAutoTopUp(userId: string): Promise<void> {
+  const supabase = createAdminClient();
+  let chargeId: string | null = null;
+
+  try {
+    const { data: user } = await supabase
+      .from('users')
+      .select('dodo_customer_id, auto_topup_enabled, auto_topup_pack_id')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (!user?.auto_topup_enabled || !user.auto_topup_pack_id || !isValidCreditPack(user.auto_topup_pack_id)) {
+      return;
+    }
+    const pack = CREDIT_PACKS[user.auto_topup_pack_id];
+
+    const newChargeId = generateId('autotopup');
+    const { data, error } = await supabase.rpc('claim_wallet_auto_topup', {
+      p_user_id: userId,
+      p_charge_id: newChargeId,
+      p_pack_price: pack.priceInCents,
+    });
+    if (error) {
+      console.error('[Auto Top-Up] Claim failed:', error);
+      return;
+    }
+
+    const claim = data?.[0];
+    if (claim?.reason === 'cap_reached') {
+      console.warn('[Auto Top-Up] Monthly cap reached:', { userId, balance: claim.balance });
+    }
+    if (!claim?.claimed) return;
+    chargeId = newChargeId;
+
+    const paymentMethodId = user.dodo_customer_id
+      ? await getSavedPaymentMethodId(user.dodo_customer_id)
+      : null;
+    if (!paymentMethodId) {
+      await completeAutoTopUpCharge(chargeId, { status: 'failed', error: 'No saved payment method' }, supabase);
+      return;
+    }
+
+    const client = getDodoClient();
+    const session = await withDodoErrorHandling(
+      () => client.checkoutSessions.create({
+        product_cart: [{ product_id: getCreditPackProductId(pack.id), quantity: 1 }],
+        customer: { customer_id: user.dodo_customer_id },
+        payment_method_id: paymentMethodId,
+        confirm: true,
+        // Same metadata as a manual pack purchase, so payment.succeeded adds
+        // the credits; auto_topup_id links the payment back to the attempt
+        metadata: {
+          user_id: userId,
+          pack_id: pack.id,
+          type: 'topup',
+          auto_topup_id: newChargeId,
+        },
+      }),
+      'starting auto top-up charge'
+    );
+
+    await supabase
+      .from('wallet_auto_topups')
+      .update({ checkout_session_id: session.session_id })
+      .eq('id', chargeId);
+
+    console.log('[Auto Top-Up] Charge started:', {
+      userId,
+      packId: pack.id,
+      balance: claim.balance,
+      sessionId: session.session_id,
+    });
+  } catch (error) {
+    console.error('[Auto Top-Up] Failed to start charge:', error);
+    if (chargeId) {
+      await completeAutoTopUpCharge(
+        chargeId,
+        { status: 'failed', error: error instanceof Error ? error.message : 'Charge could not be started' },
+        supabase
+      );
+    }
+  }
+}
+
+/**
+ * Records the outcome of a pending charge (from the Dodo payment webhooks).
+ * A successful charge re-arms auto top-up, so a balance that is still below
+ * the threshold can recharge again, within the monthly cap.
+ */
+export async function completeAutoTopUpCharge(
+  chargeId: string,
+  outcome: { status: 'succeeded' | 'failed'; paymentId?: string; error?: string },
+  client: SupabaseClient
+): Promise<void> {
+  const { data, error } = await client
+    .from('wallet_auto_topups')
+    .update({
+      status: outcome.status,
+      payment_id: outcome.paymentId ?? null,
+      error: outcome.error ?? null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', chargeId)
+    .eq('status', 'pending')
+    .select('user_id')
+    .maybeSingle();
+
+  if (error) {
+    console.error('[Auto Top-Up] Failed to record charge outcome:', error);
+    return;
+  }
+
+  if (data && outcome.status === 'succeeded') {
+    await client.from('users').update({ auto_topup_armed: true }).eq('id', data.user_id);
+  }
+}
@@ -0,0 +1,261 @@
+// =============================================================================
+// AGENCY CLIENT SUB-ACCOUNTS
+// =============================================================================
+//
+// Agencies on the Scale plan can create a sub-account per client. Each client
+// has its own ICP settings, CRM, analysis history, integrations and wallet
+// budget (table: users, rows with parent_user_id = the agency's account).
+//
+// FLOW:
+// =====
+// 1. Settings > Clients creates a client; its ICP starts as a copy of the
+//    agency's
+// 2. The agency allocates a budget from its wallet (transfer_client_budget;
+//    plan credits move as plan credits and purchased as purchased, in both
+//    directions)
+// 3. The sidebar client switcher stores the active client in the
+//    ACTIVE_CLIENT_COOKIE. getAccountContext (lib/workspaces.ts) then returns
+//    the client as `account`, so every route reads and charges the client
+//    instead of the agency
+// 4. Settings > Clients reports each client's spend over a period
+//
+// Clients can't sign in; their email is a placeholder on the reserved .invalid
+// domain. Workspace members of the agency can switch between its clients;
+// owners and admins create them and move budget.
+// =============================================================================
+
+import { cookies } from 'next/headers';
+import { createClient } from '@/lib/supabase/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createUser, type User } from '@/lib/data-store';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ClientAccount {
+  id: string;
+  name: string;
+  walletBalance: number;
+  createdAt: string;
+}
+
+export interface ClientSpend extends ClientAccount {
+  /** Net usage charges (charges minus refunds) in the period, in cents */
+  spent: number;
+  /** Net spend per action type (post_analysis, profile_enrichment, ...) */
+  spentByAction: Record<string, number>;
+}
+
+export const AGENCY_PLAN = 'scale';
+export const MAX_CLIENT_ACCOUNTS = 50;
+export const ACTIVE_CLIENT_COOKIE = 'active_client_id';
+
+const CLIENT_EMAIL_DOMAIN = 'clients.invalid';
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function toClientAccount(row: Pick<User, 'id' | 'full_name' | 'wallet_balance' | 'created_at'>): ClientAccount {
+  return {
+    id: row.id,
+    name: row.full_name || 'Client',
+    walletBalance: row.wallet_balance || 0,
+    createdAt: row.created_at,
+  };
+}
+
+export function isAgencyPlan(plan: string | null | undefined): boolean {
+  return plan === AGENCY_PLAN;
+}
+
+/** The client picked in the sidebar switcher, if any (not yet validated) */
+export async function getActiveClientId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  return cookieStore.get(ACTIVE_CLIENT_COOKIE)?.value || null;
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+export function parseClientName(raw: unknown): { success: true; name: string } | { success: false; error: string } {
+  const name = typeof raw === 'string' ? raw.trim() : '';
+  if (!name) {
+    return { success: false, error: 'Please enter a client name' };
+  }
+  if (name.length > 80) {
+    return { success: false, error: 'name must be 80 characters or fewer' };
+  }
+  return { success: true, name };
+}
+
+/**
+ * Validates a budget change in cents: positive allocates agency credits to
+ * the client, negative returns client credits to the agency.
+ */
+export function parseBudgetAmount(raw: unknown): { success: true; amount: number } | { success: false; error: string } {
+  if (typeof raw !== 'number' || !Number.isInteger(raw) || raw === 0) {
+    return { success: false, error: 'amount must be a non-zero whole number of cents' };
+  }
+  if (Math.abs(raw) > 10_000_000) {
+    return { success: false, error: 'amount is too large' };
+  }
+  return { success: true, amount: raw };
+}
+
+// =============================================================================
+// CLIENT OPERATIONS
+// =============================================================================
+
+/** The agency's clients, oldest first */
+export async function getClientAccounts(agencyUserId: string, client?: SupabaseClient): Promise<ClientAccount[]> {
+  const supabase = client ?? await createClient();
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, full_name, wallet_balance, created_at')
+    .eq('parent_user_id', agencyUserId)
+    .order('created_at', { ascending: true });
+
+  if (error || !data) return [];
+  return data.map(toClientAccount);
+}
+
+/** A client's full user row, only if it belongs to the agency */
+export async function getClientAccount(
+  agencyUserId: string,
+  clientId: string,
+  client?: SupabaseClient
+): Promise<User | null> {
+  const supabase = client ?? await createClient();
+  const { data, error } = await supabase
+    .from('users')
+    .select('*')
+    .eq('id', clientId)
+    .eq('parent_user_id', agencyUserId)
+    .maybeSingle();
+
+  if (error || !data) return null;
+  return data as User;
+}
+
+/**
+ * Creates a client sub-account on the agency's plan. Its ICP settings,
+ * locations and industries start as a copy of the agency's.
+ */
+export async function createClientAccount(
+  agency: User,
+  name: string
+): Promise<{ success: boolean; error?: string; client?: ClientAccount }> {
+  if (!isAgencyPlan(agency.plan)) {
+    return { success: false, error: 'Client accounts are available on the Scale plan.' };
+  }
+
+  const existing = await getClientAccounts(agency.id);
+  if (existing.length >= MAX_CLIENT_ACCOUNTS) {
+    return { success: false, error: `You can have up to ${MAX_CLIENT_ACCOUNTS} clients.` };
+  }
+
+  const id = generateId('client');
+  try {
+    const created = await createUser(`${id}@${CLIENT_EMAIL_DOMAIN}`, {
+      id,
+      parent_user_id: agency.id,
+      full_name: name,
+      company: name,
+      settings: { ...agency.settings },
+      locations: agency.locations,
+      industries: agency.industries,
+      onboarding_completed: true,
+      onboarding_step: 3,
+      plan: agency.plan,
+      plan_started_at: new Date().toISOString(),
+    });
+    return { success: true, client: toClientAccount(created) };
+  } catch (error) {
+    console.error('[Client Accounts] Failed to create client:', error);
+    return { success: false, error: 'Failed to create client' };
+  }
+}
+
+/**
+ * Moves budget between the agency wallet and a client wallet. The sender's
+ * plan credits go first; planCredits and purchasedCredits say how the amount
+ * split, and each part stays the same kind of credit on the other side.
+ *
+ * @param amount - Cents; positive allocates to the client, negative returns
+ * credits to the agency
+ */
+export async function transferClientBudget(
+  agencyUserId: string,
+  clientId: string,
+  amount: number,
+  actorUserId: string
+): Promise<{
+  success: boolean;
+  error?: string;
+  agencyBalance?: number;
+  clientBalance?: number;
+  planCredits?: number;
+  purchasedCredits?: number;
+}> {
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc('transfer_client_budget', {
+    p_parent_user_id: agencyUserId,
+    p_client_user_id: clientId,
+    p_amount: amount,
+    p_actor_user_id: actorUserId,
+  });
+
+  const result = Array.isArray(data) ? data[0] : data;
+  if (error || !result) {
+    console.error('[Client Accounts] Budget transfer failed:', error);
+    return { success: false, error: 'Failed to update client budget' };
+  }
+
+  if (!result.success) {
+    return { success: false, error: result.error_message || 'Failed to update client budget' };
+  }
+
+  return {
+    success: true,
+    agencyBalance: result.parent_balance,
+    clientBalance: result.client_balance,
+    planCredits: result.plan_amount,
+    purchasedCredits: result.purchased_amount,
+  };
+}
+
+/**
+ * Each client's net usage spend since `since`, with a per-action breakdown.
+ * Budget transfers have no action type and aren't counted.
+ */
+export async function getClientSpendReport(agencyUserId: string, since: string): Promise<ClientSpend[]> {
+  const clients = await getClientAccounts(agencyUserId);
+  if (clients.length === 0) return [];
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('wallet_transactions')
+    .select('user_id, action_type, amount')
+    .in('user_id', clients.map((c) => c.id))
+    .not('action_type', 'is', null)
+    .gte('created_at', since);
+
+  if (error) {
+    console.error('[Client Accounts] Failed to load client spend:', error);
+  }
+
+  const report = new Map<string, ClientSpend>(
+    clients.map((c) => [c.id, { ...c, spent: 0, spentByAction: {} }])
+  );
+  for (const row of data || []) {
+    const entry = report.get(row.user_id);
+    if (!entry) continue;
+    entry.spent -= row.amount;
+    entry.spentByAction[row.action_type] = (entry.spentByAction[row.action_type] || 0) - row.amount;
+  }
+
+  return Array.from(report.values());
+}
@@ -0,0 +1,352 @@
+// =============================================================================
+// CRM INTEGRATIONS
+// =============================================================================
+//
+// OAuth connections to external CRMs (table: crm_integrations, one row per
+// user + provider). Provider API clients live in their own modules
+// (lib/hubspot.ts, lib/salesforce.ts); this module holds what they share:
+// - storing and refreshing connections
+// - CRM lead field values for field mapping (getCRMLeadFieldValue)
+// - the per-lead sync log (table: crm_sync_log)
+//
+// Tokens never leave the server: routes return toCRMIntegrationStatus().
+//
+// Pushes run from after() when leads are auto-pushed on add, so every
+// function takes an optional admin client.
+// =============================================================================
+
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import type { CRMLead } from '@/lib/data-store';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type CRMIntegrationProvider = 'hubspot' | 'salesforce';
+
+export interface CRMIntegrationSettings {
+  /** Push leads as soon as they're added to the CRM */
+  auto_push?: boolean;
+  /** Source field -> external property name; '' means don't sync the field */
+  field_mapping?: Record<string, string>;
+}
+
+export interface CRMIntegration {
+  id: string;
+  user_id: string;
+  provider: CRMIntegrationProvider;
+  access_token: string;
+  refresh_token: string;
+  expires_at: string;
+  account_id: string | null;
+  account_name: string | null;
+  /** API host for providers with per-org hosts (Salesforce) */
+  instance_url: string | null;
+  settings: CRMIntegrationSettings;
+  connected_at: string;
+  updated_at: string;
+}
+
+export interface CRMIntegrationTokens {
+  accessToken: string;
+  refreshToken: string;
+  /** Seconds until the access token expires */
+  expiresIn: number;
+}
+
+/** What the settings UI sees (no tokens) */
+export interface CRMIntegrationStatus {
+  provider: CRMIntegrationProvider;
+  connected: boolean;
+  accountId: string | null;
+  accountName: string | null;
+  connectedAt: string | null;
+  settings: CRMIntegrationSettings;
+}
+
+// Refresh a little early so a token doesn't expire mid-push
+const TOKEN_REFRESH_MARGIN_MS = 60_000;
+
+// =============================================================================
+// OPERATIONS
+// =============================================================================
+
+export async function getCRMIntegration(
+  userId: string,
+  provider: CRMIntegrationProvider,
+  client?: SupabaseClient
+): Promise<CRMIntegration | null> {
+  const supabase = client ?? await createClient();
+  const { data, error } = await supabase
+    .from('crm_integrations')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('provider', provider)
+    .maybeSingle();
+
+  if (error || !data) return null;
+  return data as CRMIntegration;
+}
+
+/**
+ * Stores a new connection, or replaces the tokens/account of an existing one.
+ * Settings are kept when reconnecting.
+ */
+export async function saveCRMIntegration(
+  userId: string,
+  provider: CRMIntegrationProvider,
+  tokens: CRMIntegrationTokens,
+  account: { id: string | null; name: string | null; instanceUrl?: string | null },
+  client?: SupabaseClient
+): Promise<void> {
+  const supabase = client ?? await createClient();
+  const now = new Date().toISOString();
+  const connection = {
+    access_token: tokens.accessToken,
+    refresh_token: tokens.refreshToken,
+    expires_at: new Date(Date.now() + tokens.expiresIn * 1000).toISOString(),
+    account_id: account.id,
+    account_name: account.name,
+    instance_url: account.instanceUrl ?? null,
+    connected_at: now,
+    updated_at: now,
+  };
+
+  const existing = await getCRMIntegration(userId, provider, supabase);
+  const { error } = existing
+    ? await supabase.from('crm_integrations').update(connection).eq('id', existing.id)
+    : await supabase.from('crm_integrations').insert({
+        id: `int_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        user_id: userId,
+        provider,
+        settings: {},
+        ...connection,
+      });
+
+  if (error) {
+    throw new Error(`Failed to save ${provider} integration: ${error.message}`);
+  }
+}
+
+export async function updateCRMIntegrationSettings(
+  userId: string,
+  provider: CRMIntegrationProvider,
+  settings: CRMIntegrationSettings,
+  client?: SupabaseClient
+): Promise<CRMIntegration | null> {
+  const supabase = client ?? await createClient();
+  const { data, error } = await supabase
+    .from('crm_integrations')
+    .update({ settings, updated_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('provider', provider)
+    .select('*')
+    .maybeSingle();
+
+  if (error || !data) return null;
+  return data as CRMIntegration;
+}
+
+export async function deleteCRMIntegration(
+  userId: string,
+  provider: CRMIntegrationProvider,
+  client?: SupabaseClient
+): Promise<boolean> {
+  const supabase = client ?? await createClient();
+  const { error } = await supabase
+    .from('crm_integrations')
+    .delete()
+    .eq('user_id', userId)
+    .eq('provider', provider);
+
+  return !error;
+}
+
+/**
+ * Returns a usable access token, refreshing (and saving) it when it's about
+ * to expire.
+ *
+ * @param refresh - Provider token refresh, e.g. refreshHubSpotToken
+ * @throws Error if the refresh fails (the connection needs to be redone)
+ */
+export async function getCRMIntegrationAccessToken(
+  integration: CRMIntegration,
+  refresh: (refreshToken: string) => Promise<CRMIntegrationTokens>,
+  client?: SupabaseClient
+): Promise<string> {
+  if (new Date(integration.expires_at).getTime() - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+    return integration.access_token;
+  }
+  return refreshCRMIntegrationAccessToken(integration, refresh, client);
+}
+
+/**
+ * Refreshes and saves the access token regardless of its expiry, for
+ * providers that can revoke sessions early (Salesforce session timeouts).
+ */
+export async function refreshCRMIntegrationAccessToken(
+  integration: CRMIntegration,
+  refresh: (refreshToken: string) => Promise<CRMIntegrationTokens>,
+  client?: SupabaseClient
+): Promise<string> {
+  const tokens = await refresh(integration.refresh_token);
+  const supabase = client ?? await createClient();
+  const { error } = await supabase
+    .from('crm_integrations')
+    .update({
+      access_token: tokens.accessToken,
+      refresh_token: tokens.refreshToken,
+      expires_at: new Date(Date.now() + tokens.expiresIn * 1000).toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', integration.id);
+
+  // The new token still works for this push; it'll just be refreshed again next time
+  if (error) {
+    console.error(`[CRM Integrations] Failed to save refreshed ${integration.provider} token:`, error);
+  }
+
+  return tokens.accessToken;
+}
+
+export function toCRMIntegrationStatus(
+  provider: CRMIntegrationProvider,
+  integration: CRMIntegration | null
+): CRMIntegrationStatus {
+  return {
+    provider,
+    connected: !!integration,
+    accountId: integration?.account_id ?? null,
+    accountName: integration?.account_name ?? null,
+    connectedAt: integration?.connected_at ?? null,
+    settings: integration?.settings ?? {},
+  };
+}
+
+// =============================================================================
+// FIELD VALUES
+// =============================================================================
+
+/** CRM lead values that can be mapped onto external CRM fields */
+export type CRMSourceField =
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'jobTitle'
+  | 'headline'
+  | 'profileUrl'
+  | 'city'
+  | 'country'
+  | 'about'
+  | 'connections'
+  | 'icpScore'
+  | 'stage'
+  | 'tags'
+  | 'notes'
+  | 'company'
+  | 'companyUrl'
+  | 'sourcePostUrl';
+
+/**
+ * A lead's value for one source field as a string, preferring enriched data.
+ * null when unknown, so callers can skip it instead of blanking the field.
+ */
+export function getCRMLeadFieldValue(lead: CRMLead, key: CRMSourceField): string | null {
+  const enriched = lead.enriched_data;
+  const fullName = enriched?.fullName || lead.name;
+  const [first, ...rest] = fullName.trim().split(/\s+/);
+  const currentRole = enriched?.experience?.find((exp) => exp.isCurrent) || enriched?.experience?.[0];
+
+  switch (key) {
+    case 'firstName':
+      return enriched?.firstName || first || null;
+    case 'lastName':
+      return enriched?.lastName || rest.join(' ') || null;
+    case 'email':
+      // Only verified/risky finds; not_found leaves the external value alone
+      return lead.email || null;
+    case 'jobTitle':
+      return currentRole?.title || enriched?.headline || lead.headline || null;
+    case 'headline':
+      return enriched?.headline || lead.headline || null;
+    case 'profileUrl':
+      return lead.profile_url;
+    case 'city':
+      return enriched?.city || null;
+    case 'country':
+      return enriched?.country || null;
+    case 'about':
+      return enriched?.about || null;
+    case 'connections':
+      return enriched?.connectionCount != null ? String(enriched.connectionCount) : null;
+    case 'icpScore':
+      return lead.icp_score != null ? String(lead.icp_score) : null;
+    case 'stage':
+      return lead.stage || null;
+    case 'tags':
+      return lead.tags && lead.tags.length > 0 ? lead.tags.join(';') : null;
+    case 'notes':
+      return lead.notes || null;
+    case 'company':
+      return enriched?.currentCompany || currentRole?.company || null;
+    case 'companyUrl':
+      return enriched?.currentCompanyUrl || null;
+    case 'sourcePostUrl':
+      return lead.source_post_url || null;
+  }
+}
+
+// =============================================================================
+// SYNC LOG
+// =============================================================================
+
+export type CRMSyncAction = 'created' | 'updated' | 'matched' | 'failed';
+
+export interface CRMSyncLogEntry {
+  id: string;
+  user_id: string;
+  lead_id: string;
+  provider: CRMIntegrationProvider;
+  action: CRMSyncAction;
+  /** e.g. 'contact' (HubSpot), 'Lead' / 'Contact' (Salesforce) */
+  external_object: string | null;
+  external_id: string | null;
+  error: string | null;
+  created_at: string;
+}
+
+/** Best-effort: a failed log write never fails the push */
+export async function logCRMSync(
+  entry: Omit<CRMSyncLogEntry, 'id' | 'created_at'>,
+  client?: SupabaseClient
+): Promise<void> {
+  const supabase = client ?? await createClient();
+  const { error } = await supabase.from('crm_sync_log').insert({
+    ...entry,
+    id: `sync_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    created_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    console.error('[CRM Integrations] Failed to write sync log:', error);
+  }
+}
+
+export async function getCRMSyncLog(
+  userId: string,
+  leadId: string,
+  limit = 50
+): Promise<CRMSyncLogEntry[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('crm_sync_log')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('lead_id', leadId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error || !data) return [];
+  return data as CRMSyncLogEntry[];
+}
@@ -0,0 +1,307 @@
+// =============================================================================
+// CRM LEAD UPDATES
+// =============================================================================
+//
+// Validation for user edits to CRM leads (PATCH /api/crm/leads), the list
+// filters shared by the CRM page and /api/crm/export, and the per-lead notes
+// timeline (table: crm_lead_notes, /api/crm/leads/[id]/notes).
+//
+// Only the fields in CRMLeadUpdate can be changed by the user. Everything
+// else on a lead is owned by server code paths:
+// - enrichment_status / enriched_data / name / headline: /api/crm/enrich
+// - email / email_status: /api/crm/email
+// - icp_score, source_*, added_at: set when the lead is added
+// - notes: a digest of the notes timeline, kept up to date by a trigger
+// =============================================================================
+
+import { createClient } from '@/lib/supabase/server';
+import type { CRMLead, CRMLeadFilters, CRMLeadStage } from '@/lib/data-store';
+
+export const CRM_LEAD_STAGES: { value: CRMLeadStage; label: string }[] = [
+  { value: 'new', label: 'New' },
+  { value: 'contacted', label: 'Contacted' },
+  { value: 'replied', label: 'Replied' },
+  { value: 'meeting', label: 'Meeting' },
+  { value: 'won', label: 'Won' },
+  { value: 'lost', label: 'Lost' },
+];
+
+const MAX_NOTE_LENGTH = 5000;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+const MAX_OWNER_LENGTH = 100;
+
+/** Most leads one PATCH can change at once (bulk stage/owner changes) */
+export const MAX_BULK_LEAD_UPDATES = 500;
+
+/** User-editable CRM lead fields; null clears owner */
+export interface CRMLeadUpdate {
+  tags?: string[];
+  stage?: CRMLeadStage;
+  owner?: string | null;
+}
+
+export type CRMLeadUpdateParseResult =
+  | { success: true; updates: CRMLeadUpdate }
+  | { success: false; error: string };
+
+function isCRMLeadStage(value: unknown): value is CRMLeadStage {
+  return CRM_LEAD_STAGES.some((stage) => stage.value === value);
+}
+
+/**
+ * Validates a PATCH body against CRMLeadUpdate. Unknown or system fields are
+ * rejected rather than silently dropped, so clients notice.
+ *
+ * @param raw - Request body without `id`
+ *
+ * @example
+ * parseCRMLeadUpdate({ stage: 'contacted', tags: [' Warm ', 'warm'] });
+ * // { success: true, updates: { stage: 'contacted', tags: ['warm'] } }
+ */
+export function parseCRMLeadUpdate(raw: unknown): CRMLeadUpdateParseResult {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { success: false, error: 'Request body must be an object' };
+  }
+
+  const body = raw as Record<string, unknown>;
+  const updates: CRMLeadUpdate = {};
+
+  if ('notes' in body) {
+    return { success: false, error: 'notes is read-only; add notes with POST /api/crm/leads/{id}/notes' };
+  }
+
+  const unknownFields = Object.keys(body).filter(
+    (key) => !['tags', 'stage', 'owner'].includes(key)
+  );
+  if (unknownFields.length > 0) {
+    return { success: false, error: `These fields can't be updated: ${unknownFields.join(', ')}` };
+  }
+
+  if ('tags' in body) {
+    if (!Array.isArray(body.tags) || body.tags.some((tag) => typeof tag !== 'string')) {
+      return { success: false, error: 'tags must be an array of strings' };
+    }
+    const tags = Array.from(
+      new Set((body.tags as string[]).map((tag) => tag.trim().toLowerCase()).filter(Boolean))
+    );
+    if (tags.length > MAX_TAGS) {
+      return { success: false, error: `A lead can have at most ${MAX_TAGS} tags` };
+    }
+    if (tags.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+      return { success: false, error: `Tags can be at most ${MAX_TAG_LENGTH} characters` };
+    }
+    updates.tags = tags;
+  }
+
+  if ('stage' in body) {
+    if (!isCRMLeadStage(body.stage)) {
+      return {
+        success: false,
+        error: `stage must be one of: ${CRM_LEAD_STAGES.map((s) => s.value).join(', ')}`,
+      };
+    }
+    updates.stage = body.stage;
+  }
+
+  if ('owner' in body) {
+    if (body.owner !== null && typeof body.owner !== 'string') {
+      return { success: false, error: 'owner must be a string or null' };
+    }
+    const owner = typeof body.owner === 'string' ? body.owner.trim() : '';
+    if (owner.length > MAX_OWNER_LENGTH) {
+      return { success: false, error: `owner can be at most ${MAX_OWNER_LENGTH} characters` };
+    }
+    updates.owner = owner || null;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return { success: false, error: 'No fields to update' };
+  }
+
+  return { success: true, updates };
+}
+
+// =============================================================================
+// LIST FILTERS
+// =============================================================================
+
+const ENRICHMENT_STATUSES: CRMLead['enrichment_status'][] = ['pending', 'enriching', 'enriched', 'failed'];
+const MAX_SEARCH_LENGTH = 200;
+const MAX_FILTER_IDS = 200;
+
+/** Leads per GET /api/crm/leads page: default and maximum */
+export const CRM_LEADS_PAGE_SIZE = 50;
+export const MAX_CRM_LEADS_PAGE_SIZE = 200;
+
+function parseScore(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined;
+  const score = Number(value);
+  return Number.isInteger(score) && score >= 0 && score <= 100 ? score : undefined;
+}
+
+function parseDate(value: string | null): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function parseList(value: string | null, max: number): string[] {
+  return Array.from(new Set((value || '').split(',').map((item) => item.trim()).filter(Boolean))).slice(0, max);
+}
+
+/**
+ * Reads the CRM list filters the way the CRM page sends them:
+ * ?search=        full-text over name, headline, company and location
+ * ?status=        enrichment status
+ * ?stage=         pipeline stage
+ * ?source_post=   leads from one LinkedIn post URL
+ * ?tags=a,b       leads with all of these tags
+ * ?min_score= / ?max_score=       ICP score range, 0-100 inclusive
+ * ?added_after= / ?added_before=  ISO dates; after is inclusive, before exclusive
+ * ?ids=a,b        only these leads (up to 200), e.g. to poll a batch
+ * ?sort=score     highest ICP score first (default: newest first)
+ *
+ * Unknown values fall back to "no filter" rather than erroring, matching the
+ * page's own defaults (status=all, stage=all, sort=added).
+ *
+ * @example
+ * parseCRMLeadFilters(new URLSearchParams('search=founder&status=enriched&tags=warm&min_score=70&sort=score'));
+ * // { search: 'founder', status: 'enriched', tags: ['warm'], minScore: 70, sort: 'score' }
+ */
+export function parseCRMLeadFilters(params: URLSearchParams): CRMLeadFilters {
+  const filters: CRMLeadFilters = {};
+
+  const search = (params.get('search') || '').trim().slice(0, MAX_SEARCH_LENGTH);
+  if (search) filters.search = search;
+
+  const status = params.get('status');
+  const matchedStatus = ENRICHMENT_STATUSES.find((value) => value === status);
+  if (matchedStatus) filters.status = matchedStatus;
+
+  const stage = params.get('stage');
+  if (isCRMLeadStage(stage)) filters.stage = stage;
+
+  const sourcePostUrl = (params.get('source_post') || '').trim();
+  if (sourcePostUrl) filters.sourcePostUrl = sourcePostUrl;
+
+  const tags = parseList(params.get('tags'), MAX_TAGS).map((tag) => tag.toLowerCase());
+  if (tags.length > 0) filters.tags = tags;
+
+  const minScore = parseScore(params.get('min_score'));
+  if (minScore !== undefined) filters.minScore = minScore;
+  const maxScore = parseScore(params.get('max_score'));
+  if (maxScore !== undefined) filters.maxScore = maxScore;
+
+  const addedAfter = parseDate(params.get('added_after'));
+  if (addedAfter) filters.addedAfter = addedAfter;
+  const addedBefore = parseDate(params.get('added_before'));
+  if (addedBefore) filters.addedBefore = addedBefore;
+
+  const ids = parseList(params.get('ids'), MAX_FILTER_IDS);
+  if (ids.length > 0) filters.ids = ids;
+
+  if (params.get('sort') === 'score') filters.sort = 'score';
+
+  return filters;
+}
+
+// =============================================================================
+// NOTES
+// =============================================================================
+
+export interface CRMLeadNote {
+  id: string;
+  /** The account that owns the lead */
+  user_id: string;
+  lead_id: string;
+  /** Who wrote it; null once that user is deleted */
+  author_user_id: string | null;
+  author_email: string | null;
+  body: string;
+  created_at: string;
+}
+
+export type CRMLeadNoteParseResult =
+  | { success: true; body: string }
+  | { success: false; error: string };
+
+export function parseCRMLeadNoteBody(raw: unknown): CRMLeadNoteParseResult {
+  if (typeof raw !== 'string' || !raw.trim()) {
+    return { success: false, error: 'body is required' };
+  }
+  const body = raw.trim();
+  if (body.length > MAX_NOTE_LENGTH) {
+    return { success: false, error: `Notes can be at most ${MAX_NOTE_LENGTH} characters` };
+  }
+  return { success: true, body };
+}
+
+/** Newest first */
+export async function getCRMLeadNotes(userId: string, leadId: string): Promise<CRMLeadNote[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('crm_lead_notes')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('lead_id', leadId)
+    .order('created_at', { ascending: false });
+
+  if (error || !data) return [];
+  return data as CRMLeadNote[];
+}
+
+/**
+ * Adds a note to a lead the caller has already loaded (so it belongs to
+ * `userId`). The crm_leads.notes digest is refreshed by a trigger.
+ */
+export async function addCRMLeadNote(
+  userId: string,
+  leadId: string,
+  author: { id: string; email: string },
+  body: string
+): Promise<CRMLeadNote> {
+  const supabase = await createClient();
+  const note: CRMLeadNote = {
+    id: `note_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    user_id: userId,
+    lead_id: leadId,
+    author_user_id: author.id,
+    author_email: author.email,
+    body,
+    created_at: new Date().toISOString(),
+  };
+
+  const { error } = await supabase.from('crm_lead_notes').insert(note);
+  if (error) {
+    throw new Error(`Failed to add note: ${error.message}`);
+  }
+  return note;
+}
+
+/**
+ * Returns false when the note doesn't exist on this lead, or `authorUserId`
+ * is given and someone else wrote it.
+ */
+export async function deleteCRMLeadNote(
+  userId: string,
+  leadId: string,
+  noteId: string,
+  authorUserId?: string
+): Promise<boolean> {
+  const supabase = await createClient();
+  let query = supabase
+    .from('crm_lead_notes')
+    .delete()
+    .eq('id', noteId)
+    .eq('lead_id', leadId)
+    .eq('user_id', userId);
+
+  if (authorUserId) {
+    query = query.eq('author_user_id', authorUserId);
+  }
+
+  const { data, error } = await query.select('id');
+
+  return !error && !!data && data.length > 0;
+}
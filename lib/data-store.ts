@@ -1,6 +1,9 @@
 import { createClient } from '@/lib/supabase/server';
 import { type SupabaseClient } from '@supabase/supabase-js';
 import { WALLET_PLANS, formatCredits, getWalletStatus, isWalletPlan, TRIAL_WALLET_CREDITS_IN_CENTS, type WalletPlanId } from '@/lib/wallet';
+import type { ICPScoreBreakdown, ICPScoringModel } from '@/lib/icp';
+import type { ExportFormat } from '@/lib/export';
+import type { CRMLeadUpdate } from '@/lib/crm-leads';
 
 // Data Store — Supabase PostgreSQL storage layer.
 // Uses the cookie-based server client by default (preserves RLS).
@@ -63,15 +66,22 @@ export interface User {
   wallet_balance: number; // Current wallet balance in cents
   wallet_reset_at: string | null; // When wallet was last reset (billing cycle)
   purchased_credits: number; // Top-up credits that survive billing resets
+  // Agency client sub-accounts (see lib/client-accounts.ts): the agency's user id
+  parent_user_id: string | null;
 }
 
 export interface UserSettings {
   icp_keywords: string[];
   exclude_keywords: string[];
-  default_export_format: 'csv' | 'json';
+  default_export_format: ExportFormat; // see lib/export.ts
   notifications_enabled: boolean;
+  icp_scoring?: ICPScoringModel; // Weighted 0-100 lead scoring (see lib/icp.ts)
 }
 
+// ICP settings are read from the account (workspace owner or active agency
+// client, see getAccountContext) rather than the signed-in user
+export const ACCOUNT_SETTING_KEYS = ['icp_keywords', 'exclude_keywords', 'icp_scoring'] as const;
+
 export interface Analysis {
   id: string;
   user_id: string;
@@ -98,6 +108,11 @@ export interface Lead {
   profile_url: string;
   profile_picture?: string;
   matches_icp: boolean;
+  icp_match_reason?: string;
+  icp_score?: number; // 0-100
+  icp_score_breakdown?: ICPScoreBreakdown;
+  source?: 'reaction' | 'comment';
+  comment_text?: string;
   email?: string;
   email_status?: 'pending' | 'found' | 'not_found';
 }
@@ -121,7 +136,26 @@ export async function getUser(
   return data as User;
 }
 
-export async function createUser(email: string): Promise<User> {
+export async function getUserById(
+  id: string,
+  client?: SupabaseClient
+): Promise<User | null> {
+  const supabase = client ?? await createClient();
+  const { data, error } = await supabase
+    .from('users')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error || !data) return null;
+  return data as User;
+}
+
+/**
+ * Inserts a user row. `fields` override the new-user defaults (used for
+ * agency client sub-accounts, see lib/client-accounts.ts).
+ */
+export async function createUser(email: string, fields: Partial<User> = {}): Promise<User> {
   const supabase = await createClient();
   const now = new Date().toISOString();
   const id = `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -172,7 +206,9 @@ export async function createUser(email: string): Promise<User> {
     // New users start with 0 balance until they subscribe to a paid plan
     wallet_balance: 0,
     wallet_reset_at: null,
-    purchased_credits: 0
+    purchased_credits: 0,
+    parent_user_id: null,
+    ...fields
   };
 
   const { error } = await supabase.from('users').insert(user);
@@ -211,6 +247,30 @@ export async function updateUserSettings(email: string, settings: Partial<UserSe
   return { ...user, settings: updatedSettings, updated_at: new Date().toISOString() };
 }
 
+/**
+ * Same as updateUserSettings, by user id. Used for settings that belong to
+ * the account rather than the signed-in user (see ACCOUNT_SETTING_KEYS).
+ */
+export async function updateUserSettingsById(id: string, settings: Partial<UserSettings>): Promise<User | null> {
+  const supabase = await createClient();
+  const user = await getUserById(id);
+  if (!user) return null;
+
+  const updatedSettings = { ...user.settings, ...settings };
+
+  const { error } = await supabase
+    .from('users')
+    .update({
+      settings: updatedSettings,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id);
+
+  if (error) return null;
+
+  return { ...user, settings: updatedSettings, updated_at: new Date().toISOString() };
+}
+
 // ============================================================================
 // ONBOARDING OPERATIONS
 // ============================================================================
@@ -457,7 +517,7 @@ export async function getUserBillingInfo(userId: string): Promise<{
   const supabase = await createClient();
   const { data: user, error } = await supabase
     .from('users')
-    .select('plan, billing_period, trial_ends_at, plan_expires_at, analyses_used, enrichments_used, card_last_four, card_brand, card_expiry, wallet_balance, wallet_reset_at, purchased_credits')
+    .select('plan, billing_period, trial_ends_at, plan_expires_at, analyses_used, enrichments_used, card_last_four, card_brand, card_expiry, wallet_balance, wallet_reset_at, purchased_credits, parent_user_id')
     .eq('id', userId)
     .single();
 
@@ -476,7 +536,8 @@ export async function getUserBillingInfo(userId: string): Promise<{
   const isTrialing = planId !== 'free' && trialEnd ? trialEnd > now : false;
   const trialDaysRemaining = isTrialing && trialEnd ? Math.max(0, Math.ceil((trialEnd.getTime() - now.getTime()) / (1000 * 60 * 60 * 24))) : 0;
   const walletStatus = await getWalletStatus(userId);
-  const planConfig = isWalletPlan(planId) ? WALLET_PLANS[planId as WalletPlanId] : null;
+  // Client sub-accounts share the agency's plan but only have the budget it allocated
+  const planConfig = isWalletPlan(planId) && !user.parent_user_id ? WALLET_PLANS[planId as WalletPlanId] : null;
   const walletBalance = walletStatus?.balanceInCents ?? user.wallet_balance ?? 0;
   const purchasedCredits = walletStatus?.purchasedCreditsInCents ?? user.purchased_credits ?? 0;
   // Trial cap - 2026-05-17 19:05 IST, paras: trial UI should show the $20 trial wallet, not full paid plan credits.
@@ -539,8 +600,8 @@ export async function getAnalyses(userId: string): Promise<Analysis[]> {
   return data as Analysis[];
 }
 
-export async function getAnalysis(id: string, userId: string): Promise<Analysis | null> {
-  const supabase = await createClient();
+export async function getAnalysis(id: string, userId: string, client?: SupabaseClient): Promise<Analysis | null> {
+  const supabase = client ?? await createClient();
   const { data, error } = await supabase
     .from('analyses')
     .select('*')
@@ -552,8 +613,89 @@ export async function getAnalysis(id: string, userId: string): Promise<Analysis
   return data as Analysis;
 }
 
-export async function saveAnalysis(analysis: Omit<Analysis, 'id' | 'created_at'>): Promise<Analysis> {
+/** Post stats from the newest analysis of this post since `since`, if any */
+export async function getRecentPostAnalysisStats(
+  userId: string,
+  postUrl: string,
+  since: string
+): Promise<Pick<Analysis, 'post_data' | 'created_at'> | null> {
   const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('analyses')
+    .select('post_data, created_at')
+    .eq('user_id', userId)
+    .eq('post_url', postUrl)
+    .gte('created_at', since)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error || !data) return null;
+  return data as Pick<Analysis, 'post_data' | 'created_at'>;
+}
+
+export interface CachedPostStats {
+  post_url: string;
+  total_reactions: number;
+  total_comments: number;
+  fetched_at: string;
+}
+
+/** Post stats scraped for a quote since `since`, by any account */
+export async function getCachedPostStats(postUrl: string, since: string): Promise<CachedPostStats | null> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('post_stats_cache')
+    .select('*')
+    .eq('post_url', postUrl)
+    .gte('fetched_at', since)
+    .maybeSingle();
+
+  if (error || !data) return null;
+  return data as CachedPostStats;
+}
+
+export async function cachePostStats(stats: Omit<CachedPostStats, 'fetched_at'>): Promise<void> {
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from('post_stats_cache')
+    .upsert({ ...stats, fetched_at: new Date().toISOString() }, { onConflict: 'post_url' });
+
+  if (error) {
+    console.error('[DataStore] Failed to cache post stats:', error);
+  }
+}
+
+/**
+ * Records a quote scrape for this account if it has run fewer than `limit` in
+ * the last hour (claim_post_stats_scrape, atomic per account). Refusals carry
+ * retryAfterSeconds; null if the claim couldn't be made.
+ */
+export async function claimPostStatsScrape(
+  userId: string,
+  postUrl: string,
+  limit: number
+): Promise<{ allowed: boolean; retryAfterSeconds: number | null } | null> {
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc('claim_post_stats_scrape', {
+    p_user_id: userId,
+    p_post_url: postUrl,
+    p_limit: limit,
+  });
+
+  const result = data?.[0];
+  if (error || !result) {
+    console.error('[DataStore] Failed to claim post stats scrape:', error);
+    return null;
+  }
+  return { allowed: result.allowed, retryAfterSeconds: result.retry_after_seconds };
+}
+
+export async function saveAnalysis(
+  analysis: Omit<Analysis, 'id' | 'created_at'>,
+  client?: SupabaseClient
+): Promise<Analysis> {
+  const supabase = client ?? await createClient();
   const id = `analysis_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   const created_at = new Date().toISOString();
 
@@ -572,8 +714,8 @@ export async function saveAnalysis(analysis: Omit<Analysis, 'id' | 'created_at'>
   return newAnalysis;
 }
 
-export async function deleteAnalysis(id: string, userId: string): Promise<boolean> {
-  const supabase = await createClient();
+export async function deleteAnalysis(id: string, userId: string, client?: SupabaseClient): Promise<boolean> {
+  const supabase = client ?? await createClient();
   const { error } = await supabase
     .from('analyses')
     .delete()
@@ -601,52 +743,47 @@ export async function getUserStats(userId: string): Promise<{
   };
 }
 
-// ============================================================================
-// EXPORT HELPERS
-// ============================================================================
-
-export function leadsToCSV(leads: Lead[]): string {
-  const headers = ['Name', 'Headline', 'Profile URL', 'Matches ICP', 'Email'];
-  const rows = leads.map(lead => [
-    `"${lead.name.replace(/"/g, '""')}"`,
-    `"${lead.headline.replace(/"/g, '""')}"`,
-    lead.profile_url,
-    lead.matches_icp ? 'Yes' : 'No',
-    lead.email || ''
-  ]);
-
-  return [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
-}
-
-export function analysisToCSV(analysis: Analysis): string {
-  const meta = [
-    `Post URL,${analysis.post_url}`,
-    `Author,${analysis.post_data.author}`,
-    `Analyzed On,${new Date(analysis.created_at).toLocaleDateString()}`,
-    `Total Reactions,${analysis.total_reactors}`,
-    `Qualified Leads,${analysis.qualified_leads_count}`,
-    ''
-  ];
-
-  return meta.join('\n') + '\n' + leadsToCSV(analysis.leads);
-}
-
 // ============================================================================
 // CRM LEAD TYPES & OPERATIONS
 // ============================================================================
 
+export type CRMLeadStage = 'new' | 'contacted' | 'replied' | 'meeting' | 'won' | 'lost';
+
 export interface CRMLead {
   id: string;
   user_id: string;
   name: string;
   headline: string;
   profile_url: string;
+  profile_url_key?: string; // lower(profile_url), generated; unique per account
   profile_picture?: string;
   source_analysis_id?: string;
   source_post_url?: string;
+  icp_score?: number; // 0-100, scored when the lead is added
   added_at: string;
   enrichment_status: 'pending' | 'enriching' | 'enriched' | 'failed';
+  enrichment_started_at?: string | null; // when the lead was last claimed for enrichment
   enriched_data?: EnrichedData;
+  email?: string | null;
+  email_status?: 'found' | 'risky' | 'not_found' | null; // null until looked up
+  email_provider?: string | null;
+  email_checked_at?: string | null;
+  // User-editable (see lib/crm-leads.ts for validation)
+  notes?: string | null;
+  tags?: string[];
+  stage?: CRMLeadStage;
+  owner?: string | null;
+  // HubSpot push state (see lib/hubspot.ts); null until first pushed
+  hubspot_contact_id?: string | null;
+  hubspot_sync_status?: 'synced' | 'failed' | null;
+  hubspot_sync_error?: string | null;
+  hubspot_synced_at?: string | null;
+  // Salesforce push state (see lib/salesforce.ts); null until first pushed
+  salesforce_id?: string | null;
+  salesforce_object?: 'Lead' | 'Contact' | null;
+  salesforce_sync_status?: 'synced' | 'failed' | null;
+  salesforce_sync_error?: string | null;
+  salesforce_synced_at?: string | null;
 }
 
 export interface EnrichedData {
@@ -684,16 +821,150 @@ export interface EnrichedData {
   enrichedAt: string;
 }
 
-export async function getCRMLeads(userId: string): Promise<CRMLead[]> {
-  const supabase = await createClient();
-  const { data, error } = await supabase
+/** Same filters as the CRM list page (see parseCRMLeadFilters) */
+export interface CRMLeadFilters {
+  search?: string;
+  status?: CRMLead['enrichment_status'];
+  stage?: CRMLeadStage;
+  sourcePostUrl?: string;
+  /** Leads must have all of these */
+  tags?: string[];
+  minScore?: number;
+  maxScore?: number;
+  /** ISO timestamps; after is inclusive, before exclusive */
+  addedAfter?: string;
+  addedBefore?: string;
+  ids?: string[];
+  sort?: 'added' | 'score';
+}
+
+/** Position after the last lead of a page, in the page's sort order */
+export interface CRMLeadCursor {
+  sort: 'added' | 'score';
+  score: number | null;
+  addedAt: string;
+  id: string;
+}
+
+function encodeCRMLeadCursor(cursor: CRMLeadCursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.score, cursor.addedAt, cursor.id])).toString('base64url');
+}
+
+/**
+ * Reads a nextCursor from getCRMLeadsPage. Returns null when it's malformed
+ * or was issued for a different sort; routes check this before paging.
+ */
+export function decodeCRMLeadCursor(raw: string, sort: 'added' | 'score'): CRMLeadCursor | null {
+  try {
+    const [cursorSort, score, addedAt, id] = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    if (cursorSort !== sort) return null;
+    if (score !== null && !Number.isInteger(score)) return null;
+    if (typeof addedAt !== 'string' || Number.isNaN(new Date(addedAt).getTime())) return null;
+    if (typeof id !== 'string' || !id) return null;
+    return { sort, score, addedAt, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetches one page of filtered CRM leads, newest first (or highest score
+ * first), with a keyset cursor for the next page. `total` counts every
+ * matching lead and is only computed for the first page.
+ *
+ * Search is prefix full-text over name, headline, company and location.
+ * Pass `client` when paging outside the request (e.g. from a response stream).
+ */
+export async function getCRMLeadsPage(
+  userId: string,
+  filters: CRMLeadFilters,
+  page: { cursor?: string | null; limit: number },
+  client?: SupabaseClient
+): Promise<{ leads: CRMLead[]; nextCursor: string | null; total: number | null }> {
+  const supabase = client ?? await createClient();
+  const sort = filters.sort ?? 'added';
+  const cursor = page.cursor ? decodeCRMLeadCursor(page.cursor, sort) : null;
+  if (page.cursor && !cursor) {
+    throw new Error('Invalid cursor');
+  }
+
+  let query = supabase
     .from('crm_leads')
-    .select('*')
-    .eq('user_id', userId)
-    .order('added_at', { ascending: false });
+    .select('*', cursor ? undefined : { count: 'exact' })
+    .eq('user_id', userId);
 
-  if (error || !data) return [];
-  return data as CRMLead[];
+  if (filters.status) {
+    query = query.eq('enrichment_status', filters.status);
+  }
+  if (filters.stage) {
+    query = query.eq('stage', filters.stage);
+  }
+  if (filters.sourcePostUrl) {
+    query = query.eq('source_post_url', filters.sourcePostUrl);
+  }
+  if (filters.tags?.length) {
+    query = query.contains('tags', filters.tags);
+  }
+  if (filters.minScore !== undefined) {
+    query = query.gte('icp_score', filters.minScore);
+  }
+  if (filters.maxScore !== undefined) {
+    query = query.lte('icp_score', filters.maxScore);
+  }
+  if (filters.addedAfter) {
+    query = query.gte('added_at', filters.addedAfter);
+  }
+  if (filters.addedBefore) {
+    query = query.lt('added_at', filters.addedBefore);
+  }
+  if (filters.ids?.length) {
+    query = query.in('id', filters.ids);
+  }
+  if (filters.search) {
+    // Each word as a prefix: "foun acme" matches "Founder at Acme Corp"
+    const terms = filters.search.replace(/[^\p{L}\p{N}]+/gu, ' ').trim().split(' ').filter(Boolean);
+    if (terms.length > 0) {
+      query = query.textSearch('search_vector', terms.map((term) => `${term}:*`).join(' & '), { config: 'simple' });
+    }
+  }
+
+  if (cursor) {
+    // Rows after the cursor in (added_at DESC, id ASC) order
+    const addedAt = `"${cursor.addedAt}"`;
+    const id = `"${cursor.id}"`;
+    const afterAdded = `added_at.lt.${addedAt},and(added_at.eq.${addedAt},id.gt.${id})`;
+
+    if (sort === 'added') {
+      query = query.or(afterAdded);
+    } else if (cursor.score === null) {
+      // Unscored leads sort last, so only more unscored leads follow
+      query = query.is('icp_score', null).or(afterAdded);
+    } else {
+      const score = cursor.score;
+      query = query.or(
+        `icp_score.lt.${score},icp_score.is.null,and(icp_score.eq.${score},or(${afterAdded}))`
+      );
+    }
+  }
+
+  query = sort === 'score'
+    ? query.order('icp_score', { ascending: false, nullsFirst: false }).order('added_at', { ascending: false })
+    : query.order('added_at', { ascending: false });
+
+  // One extra row tells us whether there's a next page
+  const { data, error, count } = await query
+    .order('id', { ascending: true })
+    .limit(page.limit + 1);
+
+  if (error || !data) return { leads: [], nextCursor: null, total: null };
+
+  const leads = (data as CRMLead[]).slice(0, page.limit);
+  const last = leads[leads.length - 1];
+  const nextCursor = data.length > page.limit && last
+    ? encodeCRMLeadCursor({ sort, score: last.icp_score ?? null, addedAt: last.added_at, id: last.id })
+    : null;
+
+  return { leads, nextCursor, total: count ?? null };
 }
 
 export async function getCRMLead(id: string, userId: string): Promise<CRMLead | null> {
@@ -709,22 +980,38 @@ export async function getCRMLead(id: string, userId: string): Promise<CRMLead |
   return data as CRMLead;
 }
 
-export async function addCRMLeads(userId: string, leads: Omit<CRMLead, 'id' | 'user_id' | 'added_at' | 'enrichment_status'>[]): Promise<CRMLead[]> {
+// Profile URLs are matched case-insensitively, the same way addCRMLeads dedupes
+export async function getCRMLeadByProfileUrl(userId: string, profileUrl: string): Promise<CRMLead | null> {
   const supabase = await createClient();
-  // Get existing profile URLs to avoid duplicates
-  const { data: existingLeads } = await supabase
+  const { data, error } = await supabase
     .from('crm_leads')
-    .select('profile_url')
-    .eq('user_id', userId);
+    .select('*')
+    .eq('user_id', userId)
+    .eq('profile_url_key', profileUrl.toLowerCase())
+    .maybeSingle();
 
-  const existingUrls = new Set(
-    (existingLeads || []).map((l: { profile_url: string }) => l.profile_url.toLowerCase())
-  );
+  if (error || !data) return null;
+  return data as CRMLead;
+}
 
+/**
+ * Adds leads, skipping any whose profile URL (case-insensitive) the account
+ * already has. Dedupe is enforced by the unique (user_id, profile_url_key)
+ * index, so concurrent adds of the same lead can't both land.
+ */
+export async function addCRMLeads(userId: string, leads: Omit<CRMLead, 'id' | 'user_id' | 'added_at' | 'enrichment_status'>[]): Promise<CRMLead[]> {
+  const supabase = await createClient();
   const now = new Date().toISOString();
 
+  // The index would skip these too; dropping them here keeps the first copy
+  const seenUrls = new Set<string>();
   const newLeads: CRMLead[] = leads
-    .filter(lead => !existingUrls.has(lead.profile_url.toLowerCase()))
+    .filter((lead) => {
+      const key = lead.profile_url.toLowerCase();
+      if (seenUrls.has(key)) return false;
+      seenUrls.add(key);
+      return true;
+    })
     .map(lead => ({
       ...lead,
       id: `crm_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -737,19 +1024,25 @@ export async function addCRMLeads(userId: string, leads: Omit<CRMLead, 'id' | 'u
     return [];
   }
 
-  const { error } = await supabase.from('crm_leads').insert(newLeads);
+  // Only the rows actually inserted come back
+  const { data, error } = await supabase
+    .from('crm_leads')
+    .upsert(newLeads, { onConflict: 'user_id,profile_url_key', ignoreDuplicates: true })
+    .select('*');
 
   if (error) {
     throw new Error(`Failed to add CRM leads: ${error.message}`);
   }
 
-  return newLeads;
+  return (data || []) as CRMLead[];
 }
 
 export async function updateCRMLead(id: string, userId: string, updates: Partial<CRMLead>): Promise<CRMLead | null> {
   const supabase = await createClient();
-  // Don't allow updating id or user_id
+  // Don't allow updating id, user_id or added_at. Callers with user input must
+  // go through parseCRMLeadUpdate (lib/crm-leads.ts) first.
   const { id: _, user_id: __, ...safeUpdates } = updates as any;
+  delete safeUpdates.added_at;
 
   const { error } = await supabase
     .from('crm_leads')
@@ -762,6 +1055,20 @@ export async function updateCRMLead(id: string, userId: string, updates: Partial
   return getCRMLead(id, userId);
 }
 
+/** Applies the same validated update to several leads; returns the updated leads */
+export async function updateCRMLeads(ids: string[], userId: string, updates: CRMLeadUpdate): Promise<CRMLead[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('crm_leads')
+    .update(updates)
+    .eq('user_id', userId)
+    .in('id', ids)
+    .select('*');
+
+  if (error || !data) return [];
+  return data as CRMLead[];
+}
+
 export async function deleteCRMLeads(userId: string, ids: string[]): Promise<number> {
   const supabase = await createClient();
   const { error } = await supabase
@@ -774,15 +1081,47 @@ export async function deleteCRMLeads(userId: string, ids: string[]): Promise<num
   return ids.length; // Supabase doesn't return count with .delete()
 }
 
+export async function getCRMLeadCount(userId: string): Promise<number> {
+  const supabase = await createClient();
+  const { count, error } = await supabase
+    .from('crm_leads')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  if (error) return 0;
+  return count ?? 0;
+}
+
+/** Account-wide counts for the CRM page's stat cards and stage filter */
 export async function getCRMStats(userId: string): Promise<{
   totalLeads: number;
   enrichedLeads: number;
   pendingLeads: number;
+  stageCounts: Record<CRMLeadStage, number>;
 }> {
-  const leads = await getCRMLeads(userId);
+  const supabase = await createClient();
+  const countWhere = async (column?: string, value?: string) => {
+    let query = supabase
+      .from('crm_leads')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId);
+    if (column && value) query = query.eq(column, value);
+    const { count } = await query;
+    return count ?? 0;
+  };
+
+  const stages: CRMLeadStage[] = ['new', 'contacted', 'replied', 'meeting', 'won', 'lost'];
+  const [totalLeads, enrichedLeads, pendingLeads, ...stageTotals] = await Promise.all([
+    countWhere(),
+    countWhere('enrichment_status', 'enriched'),
+    countWhere('enrichment_status', 'pending'),
+    ...stages.map((stage) => countWhere('stage', stage)),
+  ]);
+
   return {
-    totalLeads: leads.length,
-    enrichedLeads: leads.filter(l => l.enrichment_status === 'enriched').length,
-    pendingLeads: leads.filter(l => l.enrichment_status === 'pending').length,
+    totalLeads,
+    enrichedLeads,
+    pendingLeads,
+    stageCounts: Object.fromEntries(stages.map((stage, i) => [stage, stageTotals[i]])) as Record<CRMLeadStage, number>,
   };
 }
@@ -0,0 +1,167 @@
+// =============================================================================
+// EMAIL FINDER
+// =============================================================================
+//
+// Provider-pluggable email lookup + verification for CRM leads.
+//
+// PROVIDERS:
+// ==========
+// Pick one with EMAIL_FINDER_PROVIDER (default: hunter). Each provider
+// returns one of three statuses:
+//
+// | Status    | Meaning                                               | Billed |
+// |-----------|-------------------------------------------------------|--------|
+// | found     | Email found and verified deliverable                  | Yes    |
+// | risky     | Email found but unverifiable (catch-all, low score)   | Yes    |
+// | not_found | No email, or the candidate failed verification        | No     |
+//
+// To add a provider, implement EmailFinderProvider and register it in
+// EMAIL_FINDER_PROVIDERS. Billing lives in the caller (/api/crm/email), so
+// providers only talk to their API.
+// =============================================================================
+
+import type { CRMLead } from '@/lib/data-store';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type EmailStatus = 'found' | 'risky' | 'not_found';
+
+export interface EmailLookupInput {
+  firstName: string;
+  lastName: string;
+  fullName: string;
+  company: string;
+  profileUrl: string;
+}
+
+export interface EmailLookupResult {
+  email: string | null;
+  status: EmailStatus;
+  /** Provider confidence 0-100, when the provider reports one */
+  confidence: number | null;
+  provider: string;
+}
+
+export interface EmailFinderProvider {
+  name: string;
+  /** Whether the provider's credentials are configured */
+  isConfigured(): boolean;
+  /** @throws Error on transport/API errors (the caller releases the reservation) */
+  findEmail(input: EmailLookupInput): Promise<EmailLookupResult>;
+}
+
+// =============================================================================
+// PROVIDERS
+// =============================================================================
+
+// Hunter scores below this are reported as risky even when verification passes
+const HUNTER_MIN_CONFIDENCE = 70;
+
+interface HunterEmailFinderResponse {
+  data?: {
+    email?: string | null;
+    score?: number | null;
+    verification?: { status?: 'valid' | 'invalid' | 'accept_all' | 'unknown' | null };
+  };
+  errors?: { details?: string }[];
+}
+
+const hunterProvider: EmailFinderProvider = {
+  name: 'hunter',
+
+  isConfigured() {
+    return !!process.env.HUNTER_API_KEY;
+  },
+
+  async findEmail(input) {
+    const params = new URLSearchParams({
+      company: input.company,
+      first_name: input.firstName,
+      last_name: input.lastName,
+      api_key: process.env.HUNTER_API_KEY || '',
+    });
+
+    const response = await fetch(`https://api.hunter.io/v2/email-finder?${params}`);
+    const body = (await response.json()) as HunterEmailFinderResponse;
+
+    // Hunter answers 404 when it has no candidate for this person
+    if (response.status === 404) {
+      return { email: null, status: 'not_found', confidence: null, provider: 'hunter' };
+    }
+
+    if (!response.ok) {
+      throw new Error(body.errors?.[0]?.details || `Hunter API error (${response.status})`);
+    }
+
+    const email = body.data?.email || null;
+    const confidence = body.data?.score ?? null;
+    const verification = body.data?.verification?.status;
+
+    if (!email || verification === 'invalid') {
+      return { email: null, status: 'not_found', confidence, provider: 'hunter' };
+    }
+
+    const status: EmailStatus = verification === 'valid' && (confidence ?? 0) >= HUNTER_MIN_CONFIDENCE
+      ? 'found'
+      : 'risky';
+
+    return { email, status, confidence, provider: 'hunter' };
+  },
+};
+
+const EMAIL_FINDER_PROVIDERS: Record<string, EmailFinderProvider> = {
+  hunter: hunterProvider,
+};
+
+/**
+ * Returns the configured provider, or null if it's unknown or missing
+ * credentials.
+ */
+export function getEmailFinderProvider(): EmailFinderProvider | null {
+  const name = (process.env.EMAIL_FINDER_PROVIDER || 'hunter').toLowerCase();
+  const provider = EMAIL_FINDER_PROVIDERS[name];
+
+  if (!provider || !provider.isConfigured()) return null;
+  return provider;
+}
+
+// =============================================================================
+// INPUT BUILDING
+// =============================================================================
+
+/**
+ * Pulls "Company" out of headlines like "VP Sales at Acme" or "CTO @ Acme | ...".
+ */
+function companyFromHeadline(headline: string): string | null {
+  const match = headline.match(/\s(?:at|@)\s+([^|,•·]+)/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Builds provider input from a CRM lead. Prefers enriched data (exact name
+ * parts and current company) over the scraped headline.
+ *
+ * @returns null when we can't tell which company the lead works at
+ */
+export function buildEmailLookupInput(lead: CRMLead): EmailLookupInput | null {
+  const enriched = lead.enriched_data;
+  const fullName = (enriched?.fullName || lead.name).trim();
+  const [first, ...rest] = fullName.split(/\s+/);
+
+  const company =
+    enriched?.currentCompany ||
+    enriched?.experience?.find((e) => e.isCurrent)?.company ||
+    companyFromHeadline(enriched?.headline || lead.headline || '');
+
+  if (!company || !first) return null;
+
+  return {
+    firstName: enriched?.firstName || first,
+    lastName: enriched?.lastName || rest.join(' '),
+    fullName,
+    company,
+    profileUrl: lead.profile_url,
+  };
+}
@@ -0,0 +1,667 @@
+// =============================================================================
+// LEAD EXPORT
+// =============================================================================
+//
+// One export pipeline for analysis leads and CRM leads:
+//
+//   Analysis / BatchLead[] / CRMLead[]  ->  ExportLead[]  ->  CSV | JSON | XLSX | vCard
+//
+// FORMATS:
+// ========
+// | Format | Content-Type                                                        | Notes                    |
+// |--------|---------------------------------------------------------------------|--------------------------|
+// | csv    | text/csv                                                            | One row per lead         |
+// | json   | application/json                                                    | { meta, leads }          |
+// | xlsx   | application/vnd.openxmlformats-officedocument.spreadsheetml.sheet   | Single sheet, no styling |
+// | vcf    | text/vcard                                                          | One vCard 3.0 per lead   |
+//
+// Routes take ?format= and fall back to settings.default_export_format
+// (resolveExportFormat), then CSV. renderExport builds a file in memory;
+// streamExport pages through a source (used for CRM exports, which can be large).
+// =============================================================================
+
+import type { Analysis, CRMLead, UserSettings } from '@/lib/data-store';
+import type { BatchLead } from '@/lib/analysis-batches';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx' | 'vcf';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'csv', label: 'CSV', description: 'Excel, Google Sheets' },
+  { value: 'json', label: 'JSON', description: 'API integrations' },
+  { value: 'xlsx', label: 'Excel', description: 'Native .xlsx workbook' },
+  { value: 'vcf', label: 'vCard', description: 'Contacts apps, phones' },
+];
+
+const FORMAT_FILES: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+  xlsx: { contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' },
+  vcf: { contentType: 'text/vcard; charset=utf-8', extension: 'vcf' },
+};
+
+/** Flat lead record shared by every format; null = unknown for this source */
+export interface ExportLead {
+  name: string;
+  headline: string;
+  profileUrl: string;
+  company: string | null;
+  companyUrl: string | null;
+  location: string | null;
+  city: string | null;
+  country: string | null;
+  about: string | null;
+  followers: number | null;
+  connections: number | null;
+  /** "Title @ Company (duration)" entries, most recent first */
+  experience: string[];
+  /** "School (duration)" entries */
+  education: string[];
+  email: string | null;
+  emailStatus: string | null;
+  emailCheckedAt: string | null;
+  icpScore: number | null;
+  matchesICP: boolean | null;
+  icpReason: string | null;
+  source: 'reaction' | 'comment' | null;
+  commentText: string | null;
+  sourcePostUrl: string | null;
+  enrichmentStatus: CRMLead['enrichment_status'] | null;
+  stage: string | null;
+  tags: string[];
+  owner: string | null;
+  notes: string | null;
+  addedAt: string | null;
+}
+
+export type ExportColumnKey = keyof ExportLead;
+
+export const EXPORT_COLUMNS: { key: ExportColumnKey; header: string }[] = [
+  { key: 'name', header: 'Name' },
+  { key: 'headline', header: 'Headline' },
+  { key: 'profileUrl', header: 'Profile URL' },
+  { key: 'company', header: 'Company' },
+  { key: 'companyUrl', header: 'Company URL' },
+  { key: 'location', header: 'Location' },
+  { key: 'city', header: 'City' },
+  { key: 'country', header: 'Country' },
+  { key: 'about', header: 'About' },
+  { key: 'followers', header: 'Followers' },
+  { key: 'connections', header: 'Connections' },
+  { key: 'experience', header: 'Experience' },
+  { key: 'education', header: 'Education' },
+  { key: 'email', header: 'Email' },
+  { key: 'emailStatus', header: 'Email Status' },
+  { key: 'emailCheckedAt', header: 'Email Checked At' },
+  { key: 'icpScore', header: 'ICP Score' },
+  { key: 'matchesICP', header: 'Matches ICP' },
+  { key: 'icpReason', header: 'ICP Reason' },
+  { key: 'source', header: 'Source' },
+  { key: 'commentText', header: 'Comment' },
+  { key: 'sourcePostUrl', header: 'Source Post' },
+  { key: 'enrichmentStatus', header: 'Enrichment Status' },
+  { key: 'stage', header: 'Stage' },
+  { key: 'tags', header: 'Tags' },
+  { key: 'owner', header: 'Owner' },
+  { key: 'notes', header: 'Notes' },
+  { key: 'addedAt', header: 'Added At' },
+];
+
+export interface ExportFile {
+  body: string | Uint8Array<ArrayBuffer>;
+  contentType: string;
+  filename: string;
+}
+
+export interface RenderExportOptions {
+  /** Filename without extension */
+  filename: string;
+  /** Included in JSON exports only (tabular formats stay one row per lead) */
+  meta?: Record<string, unknown>;
+  /** Subset/order of columns for CSV, JSON and XLSX (default: all) */
+  columns?: ExportColumnKey[];
+}
+
+/** Returns up to `limit` leads starting at `offset`; fewer than `limit` ends the export */
+export type ExportPageFetcher = (offset: number, limit: number) => Promise<ExportLead[]>;
+
+export interface ExportStream {
+  body: ReadableStream<Uint8Array>;
+  contentType: string;
+  filename: string;
+}
+
+const EXPORT_PAGE_SIZE = 500;
+
+// =============================================================================
+// SOURCES
+// =============================================================================
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && value in FORMAT_FILES;
+}
+
+/**
+ * Picks the requested format, else the user's saved default, else CSV.
+ */
+export function resolveExportFormat(
+  requested: string | null | undefined,
+  settings?: Pick<UserSettings, 'default_export_format'> | null
+): ExportFormat {
+  if (isExportFormat(requested)) return requested;
+  if (isExportFormat(settings?.default_export_format)) return settings.default_export_format;
+  return 'csv';
+}
+
+export type ExportColumnsParseResult =
+  | { success: true; columns: ExportColumnKey[] | undefined }
+  | { success: false; error: string };
+
+/**
+ * Parses a comma-separated `?columns=` value. Empty/missing means all columns.
+ *
+ * @example
+ * parseExportColumns('name,email,experience');
+ * // { success: true, columns: ['name', 'email', 'experience'] }
+ */
+export function parseExportColumns(raw: string | null | undefined): ExportColumnsParseResult {
+  const keys = Array.from(new Set((raw || '').split(',').map((key) => key.trim()).filter(Boolean)));
+  if (keys.length === 0) return { success: true, columns: undefined };
+
+  const unknown = keys.filter((key) => !EXPORT_COLUMNS.some((column) => column.key === key));
+  if (unknown.length > 0) {
+    return { success: false, error: `Unknown export columns: ${unknown.join(', ')}` };
+  }
+  return { success: true, columns: keys as ExportColumnKey[] };
+}
+
+export function analysisToExportLeads(analysis: Analysis): ExportLead[] {
+  return analysis.leads.map((lead) => ({
+    name: lead.name,
+    headline: lead.headline,
+    profileUrl: lead.profile_url,
+    company: null,
+    companyUrl: null,
+    location: null,
+    city: null,
+    country: null,
+    about: null,
+    followers: null,
+    connections: null,
+    experience: [],
+    education: [],
+    email: lead.email || null,
+    emailStatus: lead.email_status || null,
+    emailCheckedAt: null,
+    icpScore: lead.icp_score ?? null,
+    matchesICP: lead.matches_icp,
+    icpReason: lead.icp_match_reason || null,
+    source: lead.source || null,
+    commentText: lead.comment_text || null,
+    sourcePostUrl: analysis.post_url,
+    enrichmentStatus: null,
+    stage: null,
+    tags: [],
+    owner: null,
+    notes: null,
+    addedAt: analysis.created_at,
+  }));
+}
+
+/** Combined bulk-analysis leads; Source Post lists every post the lead engaged with */
+export function batchLeadsToExportLeads(leads: BatchLead[]): ExportLead[] {
+  return leads.map((lead) => ({
+    name: lead.name,
+    headline: lead.headline,
+    profileUrl: lead.profile_url,
+    company: null,
+    companyUrl: null,
+    location: null,
+    city: null,
+    country: null,
+    about: null,
+    followers: null,
+    connections: null,
+    experience: [],
+    education: [],
+    email: lead.email || null,
+    emailStatus: lead.email_status || null,
+    emailCheckedAt: null,
+    icpScore: lead.icp_score ?? null,
+    matchesICP: lead.matches_icp,
+    icpReason: lead.icp_match_reason || null,
+    source: lead.source || null,
+    commentText: lead.posts.find((post) => post.comment_text)?.comment_text || null,
+    sourcePostUrl: lead.posts.map((post) => `${post.post_url} (${post.source || 'reaction'})`).join(' | '),
+    enrichmentStatus: null,
+    stage: null,
+    tags: [],
+    owner: null,
+    notes: null,
+    addedAt: null,
+  }));
+}
+
+export function crmLeadsToExportLeads(leads: CRMLead[]): ExportLead[] {
+  return leads.map((lead) => {
+    const enriched = lead.enriched_data;
+    return {
+      name: enriched?.fullName || lead.name,
+      headline: enriched?.headline || lead.headline,
+      profileUrl: lead.profile_url,
+      company: enriched?.currentCompany || null,
+      companyUrl: enriched?.currentCompanyUrl || null,
+      location: enriched?.location || null,
+      city: enriched?.city || null,
+      country: enriched?.country || null,
+      about: enriched?.about || null,
+      followers: enriched?.followerCount ?? null,
+      connections: enriched?.connectionCount ?? null,
+      experience: (enriched?.experience || []).map((exp) =>
+        [
+          [exp.title, exp.company].filter(Boolean).join(' @ '),
+          exp.duration ? `(${exp.duration})` : null,
+        ].filter(Boolean).join(' ')
+      ),
+      education: (enriched?.education || []).map((edu) =>
+        [edu.school, edu.duration ? `(${edu.duration})` : null].filter(Boolean).join(' ')
+      ),
+      email: lead.email || null,
+      emailStatus: lead.email_status || null,
+      emailCheckedAt: lead.email_checked_at || null,
+      icpScore: lead.icp_score ?? null,
+      matchesICP: null,
+      icpReason: null,
+      source: null,
+      commentText: null,
+      sourcePostUrl: lead.source_post_url || null,
+      enrichmentStatus: lead.enrichment_status,
+      stage: lead.stage || null,
+      tags: lead.tags || [],
+      owner: lead.owner || null,
+      notes: lead.notes || null,
+      addedAt: lead.added_at,
+    };
+  });
+}
+
+// =============================================================================
+// RENDERING
+// =============================================================================
+
+function formatCell(value: ExportLead[ExportColumnKey]): string | number {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.join('; ');
+  return value;
+}
+
+function selectColumns(keys?: ExportColumnKey[]) {
+  if (!keys || keys.length === 0) return EXPORT_COLUMNS;
+  return keys
+    .map((key) => EXPORT_COLUMNS.find((column) => column.key === key))
+    .filter((column): column is (typeof EXPORT_COLUMNS)[number] => !!column);
+}
+
+/**
+ * Renders leads in the given format.
+ *
+ * @example
+ * const file = renderExport(crmLeadsToExportLeads(leads), 'xlsx', { filename: 'crm-leads' });
+ * // file.filename === 'crm-leads.xlsx'
+ */
+export function renderExport(
+  leads: ExportLead[],
+  format: ExportFormat,
+  options: RenderExportOptions
+): ExportFile {
+  const columns = selectColumns(options.columns);
+  const { contentType, extension } = FORMAT_FILES[format];
+
+  let body: string | Uint8Array<ArrayBuffer>;
+  switch (format) {
+    case 'json':
+      body = toJSON(leads, columns, options.meta);
+      break;
+    case 'xlsx':
+      body = toXLSX(leads, columns);
+      break;
+    case 'vcf':
+      body = leads.map(toVCard).join('');
+      break;
+    default:
+      body = toCSV(leads, columns);
+  }
+
+  return { body, contentType, filename: `${options.filename}.${extension}` };
+}
+
+/**
+ * Streams an export page by page so large CRMs aren't held in memory at once.
+ * CSV, JSON and vCard are written as each page arrives; XLSX needs the full
+ * row set for its zip headers, so it is buffered and emitted once at the end.
+ *
+ * A page shorter than `limit` ends the export. See app/api/crm/export for a
+ * keyset-paged fetcher.
+ *
+ * @example
+ * const file = streamExport(
+ *   async (offset, limit) => crmLeadsToExportLeads(await fetchLeads(offset, limit)),
+ *   'csv',
+ *   { filename: 'crm-leads' }
+ * );
+ * return new NextResponse(file.body, { headers: { 'Content-Type': file.contentType } });
+ */
+export function streamExport(
+  fetchPage: ExportPageFetcher,
+  format: ExportFormat,
+  options: RenderExportOptions
+): ExportStream {
+  const columns = selectColumns(options.columns);
+  const { contentType, extension } = FORMAT_FILES[format];
+  const encoder = new TextEncoder();
+
+  let offset = 0;
+  let done = false;
+  const buffered: ExportLead[] = [];
+
+  // Returns the text for one page (XLSX buffers and returns '' until the last page)
+  const renderPage = (leads: ExportLead[], isFirst: boolean, isLast: boolean): string | Uint8Array => {
+    switch (format) {
+      case 'json': {
+        const rows = leads.map((lead) =>
+          JSON.stringify(Object.fromEntries(columns.map((column) => [column.key, lead[column.key]])))
+        );
+        let chunk = '';
+        if (isFirst) {
+          const head = { exportedAt: new Date().toISOString(), ...(options.meta ? { meta: options.meta } : {}) };
+          chunk += `${JSON.stringify(head).slice(0, -1)},"leads":[`;
+        }
+        chunk += `${!isFirst && rows.length > 0 ? ',' : ''}${rows.join(',')}`;
+        return isLast ? `${chunk}]}` : chunk;
+      }
+      case 'xlsx':
+        buffered.push(...leads);
+        return isLast ? toXLSX(buffered, columns) : '';
+      case 'vcf':
+        return leads.map(toVCard).join('');
+      default:
+        return (isFirst ? toCSVHeader(columns) : '') +
+          leads.map((lead) => `\n${toCSVRow(lead, columns)}`).join('');
+    }
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      // Keep fetching until there's something to send, or the stream would stall
+      while (!done) {
+        const leads = await fetchPage(offset, EXPORT_PAGE_SIZE);
+        const isFirst = offset === 0;
+        const isLast = leads.length < EXPORT_PAGE_SIZE;
+        offset += leads.length;
+
+        const chunk = renderPage(leads, isFirst, isLast);
+        if (isLast) done = true;
+
+        if (chunk.length > 0) {
+          controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+        }
+        if (done) {
+          controller.close();
+        } else if (chunk.length > 0) {
+          return;
+        }
+      }
+    },
+  });
+
+  return { body, contentType, filename: `${options.filename}.${extension}` };
+}
+
+// -----------------------------------------------------------------------------
+// CSV
+// -----------------------------------------------------------------------------
+
+export function csvEscape(value: string | number): string {
+  if (typeof value === 'number') return String(value);
+  // Spreadsheet apps evaluate cells starting with these as formulas
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+function toCSVHeader(columns: { header: string }[]): string {
+  return columns.map((column) => csvEscape(column.header)).join(',');
+}
+
+function toCSVRow(lead: ExportLead, columns: { key: ExportColumnKey }[]): string {
+  return columns.map((column) => csvEscape(formatCell(lead[column.key]))).join(',');
+}
+
+function toCSV(leads: ExportLead[], columns: { key: ExportColumnKey; header: string }[]): string {
+  return [toCSVHeader(columns), ...leads.map((lead) => toCSVRow(lead, columns))].join('\n');
+}
+
+// -----------------------------------------------------------------------------
+// JSON
+// -----------------------------------------------------------------------------
+
+function toJSON(
+  leads: ExportLead[],
+  columns: { key: ExportColumnKey }[],
+  meta?: Record<string, unknown>
+): string {
+  const picked = leads.map((lead) =>
+    Object.fromEntries(columns.map((column) => [column.key, lead[column.key]]))
+  );
+  return JSON.stringify({ exportedAt: new Date().toISOString(), ...(meta ? { meta } : {}), leads: picked }, null, 2);
+}
+
+// -----------------------------------------------------------------------------
+// vCard 3.0
+// -----------------------------------------------------------------------------
+
+function vCardEscape(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+}
+
+// Lines longer than 75 octets are folded with CRLF + space (RFC 2426)
+function foldVCardLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (encoder.encode(current + char).length > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function toVCard(lead: ExportLead): string {
+  const [first, ...rest] = lead.name.trim().split(/\s+/);
+  const notes = [
+    lead.icpScore !== null ? `ICP score: ${lead.icpScore}` : null,
+    lead.source ? `Engaged via ${lead.source}` : null,
+    lead.sourcePostUrl ? `Post: ${lead.sourcePostUrl}` : null,
+    lead.notes,
+  ].filter(Boolean).join('\n');
+
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `FN:${vCardEscape(lead.name)}`,
+    `N:${vCardEscape(rest.join(' '))};${vCardEscape(first || '')};;;`,
+    lead.headline ? `TITLE:${vCardEscape(lead.headline)}` : null,
+    lead.company ? `ORG:${vCardEscape(lead.company)}` : null,
+    lead.email ? `EMAIL;TYPE=INTERNET,WORK:${lead.email}` : null,
+    lead.location ? `ADR;TYPE=WORK:;;;${vCardEscape(lead.location)};;;` : null,
+    `URL:${lead.profileUrl}`,
+    `X-SOCIALPROFILE;TYPE=linkedin:${lead.profileUrl}`,
+    lead.tags.length > 0 ? `CATEGORIES:${lead.tags.map(vCardEscape).join(',')}` : null,
+    notes ? `NOTE:${vCardEscape(notes)}` : null,
+    'END:VCARD',
+  ].filter((line): line is string => line !== null);
+
+  return lines.map(foldVCardLine).join('\r\n') + '\r\n';
+}
+
+// -----------------------------------------------------------------------------
+// XLSX (single sheet, inline strings, stored zip - no dependencies)
+// -----------------------------------------------------------------------------
+
+function xmlEscape(value: string): string {
+  return value
+    // Control characters aren't allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+function toXLSXCell(value: string | number, ref: string): string {
+  if (typeof value === 'number') return `<c r="${ref}"><v>${value}</v></c>`;
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${xmlEscape(value)}</t></is></c>`;
+}
+
+function toXLSX(leads: ExportLead[], columns: { key: ExportColumnKey; header: string }[]): Uint8Array<ArrayBuffer> {
+  const rows = [
+    columns.map((column) => column.header as string | number),
+    ...leads.map((lead) => columns.map((column) => formatCell(lead[column.key]))),
+  ];
+
+  const sheetRows = rows
+    .map((row, r) =>
+      `<row r="${r + 1}">${row.map((value, c) => toXLSXCell(value, `${columnLetter(c)}${r + 1}`)).join('')}</row>`
+    )
+    .join('');
+
+  const files: Record<string, string> = {
+    '[Content_Types].xml':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>',
+    '_rels/.rels':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>',
+    'xl/workbook.xml':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      '<sheets><sheet name="Leads" sheetId="1" r:id="rId1"/></sheets>' +
+      '</workbook>',
+    'xl/_rels/workbook.xml.rels':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '</Relationships>',
+    'xl/worksheets/sheet1.xml':
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      `<sheetData>${sheetRows}</sheetData>` +
+      '</worksheet>',
+  };
+
+  return zipStored(files);
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// 1980-01-01, the earliest DOS date; entries carry no real timestamp
+const DOS_DATE_1980 = (1 << 5) | 1;
+
+/**
+ * Minimal zip writer (no compression), enough for an OOXML package.
+ */
+function zipStored(files: Record<string, string>): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name);
+    const data = encoder.encode(content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(12, DOS_DATE_1980, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, nameBytes.length, true);
+    localParts.push(new Uint8Array(local.buffer), nameBytes, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(14, DOS_DATE_1980, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, nameBytes.length, true);
+    central.setUint32(42, offset, true);
+    centralParts.push(new Uint8Array(central.buffer), nameBytes);
+
+    offset += 30 + nameBytes.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, Object.keys(files).length, true);
+  end.setUint16(10, Object.keys(files).length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    output.set(part, position);
+    position += part.length;
+  }
+  return output;
+}
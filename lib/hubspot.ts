@@ -0,0 +1,470 @@
+// =============================================================================
+// HUBSPOT SYNC
+// =============================================================================
+//
+// Pushes CRM leads to HubSpot as contacts, each associated with a company.
+//
+// FLOW:
+// =====
+// 1. Settings > Integrations > Connect: /api/integrations/hubspot/connect
+//    redirects to HubSpot; the callback stores tokens (lib/crm-integrations.ts)
+// 2. Pushes come from POST /api/crm/hubspot/sync (selected leads) or from
+//    POST /api/crm/leads when auto_push is on (in after())
+// 3. syncLeadsToHubSpot, per lead:
+//    - contact: update hubspot_contact_id if set, else find by email, else create
+//    - company: find by name, else create; then associate with the contact
+//    - write hubspot_contact_id / hubspot_sync_status / error / synced_at
+//      and a crm_sync_log row
+//
+// FIELD MAPPING:
+// ==============
+// HUBSPOT_FIELDS lists every source field with its default HubSpot property.
+// Users can point a field at another (custom) property or turn it off ('')
+// in Settings; the overrides live in crm_integrations.settings.field_mapping.
+//
+// TESTING:
+// ========
+// HUBSPOT_API_BASE_URL and HUBSPOT_APP_BASE_URL override
+// https://api.hubapi.com and https://app.hubspot.com, so the whole flow can
+// run against a mock server.
+//
+// Pushes are free (no wallet charge).
+// =============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { CRMLead } from '@/lib/data-store';
+import {
+  getCRMIntegration,
+  getCRMIntegrationAccessToken,
+  getCRMLeadFieldValue,
+  logCRMSync,
+  type CRMIntegrationTokens,
+  type CRMSourceField,
+  type CRMSyncAction,
+} from '@/lib/crm-integrations';
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+const HUBSPOT_API_BASE_URL = process.env.HUBSPOT_API_BASE_URL || 'https://api.hubapi.com';
+const HUBSPOT_APP_BASE_URL = process.env.HUBSPOT_APP_BASE_URL || 'https://app.hubspot.com';
+
+const HUBSPOT_SCOPES = [
+  'oauth',
+  'crm.objects.contacts.read',
+  'crm.objects.contacts.write',
+  'crm.objects.companies.read',
+  'crm.objects.companies.write',
+];
+
+export const MAX_HUBSPOT_SYNC_LEADS = 100;
+
+// Set by /connect, checked by /callback
+export const HUBSPOT_OAUTH_STATE_COOKIE = 'hubspot_oauth_state';
+
+export function isHubSpotConfigured(): boolean {
+  return !!process.env.HUBSPOT_CLIENT_ID && !!process.env.HUBSPOT_CLIENT_SECRET;
+}
+
+/** Must match a redirect URL registered on the HubSpot app */
+export function getHubSpotRedirectUri(): string {
+  const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || process.env.NEXT_PUBLIC_APP_URL || 'https://www.guffles.com';
+  return `${baseUrl}/api/integrations/hubspot/callback`;
+}
+
+// =============================================================================
+// API CLIENT
+// =============================================================================
+
+export class HubSpotApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'HubSpotApiError';
+    this.status = status;
+  }
+}
+
+async function hubspotRequest<T>(
+  accessToken: string,
+  method: 'GET' | 'POST' | 'PATCH' | 'PUT',
+  path: string,
+  body?: unknown
+): Promise<T> {
+  const response = await fetch(`${HUBSPOT_API_BASE_URL}${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new HubSpotApiError(data?.message || `HubSpot request failed (${response.status})`, response.status);
+  }
+  return data as T;
+}
+
+async function requestHubSpotToken(params: Record<string, string>): Promise<CRMIntegrationTokens> {
+  const response = await fetch(`${HUBSPOT_API_BASE_URL}/oauth/v1/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: process.env.HUBSPOT_CLIENT_ID || '',
+      client_secret: process.env.HUBSPOT_CLIENT_SECRET || '',
+      ...params,
+    }),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.access_token) {
+    throw new HubSpotApiError(data?.message || `HubSpot token request failed (${response.status})`, response.status);
+  }
+
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token,
+    expiresIn: data.expires_in,
+  };
+}
+
+export function getHubSpotAuthorizeUrl(state: string, redirectUri: string): string {
+  const params = new URLSearchParams({
+    client_id: process.env.HUBSPOT_CLIENT_ID || '',
+    redirect_uri: redirectUri,
+    scope: HUBSPOT_SCOPES.join(' '),
+    state,
+  });
+  return `${HUBSPOT_APP_BASE_URL}/oauth/authorize?${params}`;
+}
+
+export function exchangeHubSpotCode(code: string, redirectUri: string): Promise<CRMIntegrationTokens> {
+  return requestHubSpotToken({ grant_type: 'authorization_code', code, redirect_uri: redirectUri });
+}
+
+export function refreshHubSpotToken(refreshToken: string): Promise<CRMIntegrationTokens> {
+  return requestHubSpotToken({ grant_type: 'refresh_token', refresh_token: refreshToken });
+}
+
+/** Portal (hub) the token belongs to */
+export async function getHubSpotAccount(accessToken: string): Promise<{ id: string | null; name: string | null }> {
+  const info = await hubspotRequest<{ hub_id?: number; hub_domain?: string }>(
+    accessToken,
+    'GET',
+    `/oauth/v1/access-tokens/${encodeURIComponent(accessToken)}`
+  );
+  return {
+    id: info.hub_id !== undefined ? String(info.hub_id) : null,
+    name: info.hub_domain || null,
+  };
+}
+
+// =============================================================================
+// FIELD MAPPING
+// =============================================================================
+
+export const HUBSPOT_FIELDS: {
+  key: CRMSourceField;
+  label: string;
+  object: 'contact' | 'company';
+  defaultProperty: string;
+}[] = [
+  { key: 'firstName', label: 'First name', object: 'contact', defaultProperty: 'firstname' },
+  { key: 'lastName', label: 'Last name', object: 'contact', defaultProperty: 'lastname' },
+  { key: 'email', label: 'Email', object: 'contact', defaultProperty: 'email' },
+  { key: 'jobTitle', label: 'Current title', object: 'contact', defaultProperty: 'jobtitle' },
+  { key: 'headline', label: 'LinkedIn headline', object: 'contact', defaultProperty: '' },
+  { key: 'profileUrl', label: 'LinkedIn profile URL', object: 'contact', defaultProperty: '' },
+  { key: 'city', label: 'City', object: 'contact', defaultProperty: 'city' },
+  { key: 'country', label: 'Country', object: 'contact', defaultProperty: 'country' },
+  { key: 'about', label: 'About', object: 'contact', defaultProperty: 'linkedinbio' },
+  { key: 'connections', label: 'Connections', object: 'contact', defaultProperty: 'linkedinconnections' },
+  { key: 'icpScore', label: 'ICP score', object: 'contact', defaultProperty: '' },
+  { key: 'stage', label: 'Stage', object: 'contact', defaultProperty: '' },
+  { key: 'tags', label: 'Tags', object: 'contact', defaultProperty: '' },
+  { key: 'notes', label: 'Notes', object: 'contact', defaultProperty: '' },
+  { key: 'company', label: 'Company name', object: 'company', defaultProperty: 'name' },
+  { key: 'companyUrl', label: 'Company LinkedIn page', object: 'company', defaultProperty: 'linkedin_company_page' },
+];
+
+export type HubSpotFieldMapping = Partial<Record<CRMSourceField, string>>;
+
+// HubSpot internal property names
+const PROPERTY_NAME_PATTERN = /^[a-z][a-z0-9_]{0,99}$/;
+
+/** Defaults with the user's overrides applied */
+export function resolveHubSpotFieldMapping(overrides?: Record<string, string>): HubSpotFieldMapping {
+  return Object.fromEntries(
+    HUBSPOT_FIELDS.map((field) => [
+      field.key,
+      typeof overrides?.[field.key] === 'string' ? overrides[field.key] : field.defaultProperty,
+    ])
+  );
+}
+
+export type HubSpotFieldMappingParseResult =
+  | { success: true; mapping: HubSpotFieldMapping }
+  | { success: false; error: string };
+
+/**
+ * Validates field mapping overrides from Settings. '' turns a field off.
+ *
+ * @example
+ * parseHubSpotFieldMapping({ profileUrl: 'linkedin_url', about: '' });
+ * // { success: true, mapping: { profileUrl: 'linkedin_url', about: '' } }
+ */
+export function parseHubSpotFieldMapping(raw: unknown): HubSpotFieldMappingParseResult {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { success: false, error: 'field_mapping must be an object' };
+  }
+
+  const mapping: HubSpotFieldMapping = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    const field = HUBSPOT_FIELDS.find((f) => f.key === key);
+    if (!field) {
+      return { success: false, error: `Unknown field: ${key}` };
+    }
+    if (typeof value !== 'string') {
+      return { success: false, error: `${field.label} must map to a property name` };
+    }
+    const property = value.trim().toLowerCase();
+    if (property && !PROPERTY_NAME_PATTERN.test(property)) {
+      return {
+        success: false,
+        error: `"${value}" isn't a valid HubSpot property name (lowercase letters, numbers and underscores)`,
+      };
+    }
+    mapping[field.key] = property;
+  }
+
+  return { success: true, mapping };
+}
+
+/**
+ * HubSpot properties for one object. Empty values are left out so a push
+ * never blanks data someone entered in HubSpot.
+ */
+export function buildHubSpotProperties(
+  lead: CRMLead,
+  mapping: HubSpotFieldMapping,
+  object: 'contact' | 'company'
+): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (const field of HUBSPOT_FIELDS) {
+    const property = mapping[field.key];
+    if (field.object !== object || !property) continue;
+    const value = getCRMLeadFieldValue(lead, field.key);
+    if (value) properties[property] = value;
+  }
+  return properties;
+}
+
+// =============================================================================
+// PUSH
+// =============================================================================
+
+interface HubSpotObject {
+  id: string;
+}
+
+async function findHubSpotObject(
+  accessToken: string,
+  objectType: 'contacts' | 'companies',
+  propertyName: string,
+  value: string
+): Promise<string | null> {
+  const result = await hubspotRequest<{ results?: HubSpotObject[] }>(
+    accessToken,
+    'POST',
+    `/crm/v3/objects/${objectType}/search`,
+    {
+      filterGroups: [{ filters: [{ propertyName, operator: 'EQ', value }] }],
+      properties: [propertyName],
+      limit: 1,
+    }
+  );
+  return result.results?.[0]?.id ?? null;
+}
+
+interface HubSpotPushResult {
+  contactId: string;
+  action: Extract<CRMSyncAction, 'created' | 'updated'>;
+}
+
+async function upsertHubSpotContact(
+  accessToken: string,
+  lead: CRMLead,
+  mapping: HubSpotFieldMapping
+): Promise<HubSpotPushResult> {
+  const properties = buildHubSpotProperties(lead, mapping, 'contact');
+
+  if (lead.hubspot_contact_id) {
+    try {
+      await hubspotRequest(accessToken, 'PATCH', `/crm/v3/objects/contacts/${lead.hubspot_contact_id}`, { properties });
+      return { contactId: lead.hubspot_contact_id, action: 'updated' };
+    } catch (error) {
+      // Deleted in HubSpot: fall through and find/create it again
+      if (!(error instanceof HubSpotApiError) || error.status !== 404) throw error;
+    }
+  }
+
+  const emailProperty = mapping.email;
+  const existingId = emailProperty && properties[emailProperty]
+    ? await findHubSpotObject(accessToken, 'contacts', emailProperty, properties[emailProperty])
+    : null;
+
+  if (existingId) {
+    await hubspotRequest(accessToken, 'PATCH', `/crm/v3/objects/contacts/${existingId}`, { properties });
+    return { contactId: existingId, action: 'updated' };
+  }
+
+  const created = await hubspotRequest<HubSpotObject>(accessToken, 'POST', '/crm/v3/objects/contacts', { properties });
+  return { contactId: created.id, action: 'created' };
+}
+
+async function upsertHubSpotCompany(
+  accessToken: string,
+  lead: CRMLead,
+  mapping: HubSpotFieldMapping
+): Promise<string | null> {
+  const properties = buildHubSpotProperties(lead, mapping, 'company');
+  const nameProperty = mapping.company;
+  if (!nameProperty || !properties[nameProperty]) return null;
+
+  const existingId = await findHubSpotObject(accessToken, 'companies', nameProperty, properties[nameProperty]);
+  if (existingId) return existingId;
+
+  const created = await hubspotRequest<HubSpotObject>(accessToken, 'POST', '/crm/v3/objects/companies', { properties });
+  return created.id;
+}
+
+/**
+ * Pushes one lead (contact + company + association).
+ *
+ * @throws HubSpotApiError on API errors
+ */
+export async function pushLeadToHubSpot(
+  accessToken: string,
+  lead: CRMLead,
+  mapping: HubSpotFieldMapping
+): Promise<HubSpotPushResult> {
+  const result = await upsertHubSpotContact(accessToken, lead, mapping);
+  const contactId = result.contactId;
+  const companyId = await upsertHubSpotCompany(accessToken, lead, mapping);
+
+  if (companyId) {
+    await hubspotRequest(
+      accessToken,
+      'PUT',
+      `/crm/v4/objects/contacts/${contactId}/associations/default/companies/${companyId}`
+    );
+  }
+
+  return result;
+}
+
+export interface HubSpotSyncResult {
+  synced: number;
+  failed: number;
+  leads: CRMLead[];
+}
+
+/**
+ * Pushes the given leads one at a time and records the outcome on each.
+ * A failing lead doesn't stop the rest.
+ *
+ * @throws Error if HubSpot isn't connected or the token can't be refreshed
+ */
+export async function syncLeadsToHubSpot(
+  userId: string,
+  leadIds: string[],
+  client?: SupabaseClient
+): Promise<HubSpotSyncResult> {
+  const supabase = client ?? await createClient();
+
+  const integration = await getCRMIntegration(userId, 'hubspot', supabase);
+  if (!integration) {
+    throw new Error('HubSpot is not connected');
+  }
+  const accessToken = await getCRMIntegrationAccessToken(integration, refreshHubSpotToken, supabase);
+  const mapping = resolveHubSpotFieldMapping(integration.settings.field_mapping);
+
+  const { data } = await supabase
+    .from('crm_leads')
+    .select('*')
+    .eq('user_id', userId)
+    .in('id', leadIds);
+
+  const result: HubSpotSyncResult = { synced: 0, failed: 0, leads: [] };
+
+  for (const lead of (data || []) as CRMLead[]) {
+    let updates: Partial<CRMLead>;
+    try {
+      const { contactId, action } = await pushLeadToHubSpot(accessToken, lead, mapping);
+      await logCRMSync({
+        user_id: userId,
+        lead_id: lead.id,
+        provider: 'hubspot',
+        action,
+        external_object: 'contact',
+        external_id: contactId,
+        error: null,
+      }, supabase);
+      updates = {
+        hubspot_contact_id: contactId,
+        hubspot_sync_status: 'synced',
+        hubspot_sync_error: null,
+        hubspot_synced_at: new Date().toISOString(),
+      };
+      result.synced++;
+    } catch (error) {
+      console.error(`[HubSpot] Push failed for lead ${lead.id}:`, error);
+      const message = error instanceof Error ? error.message.slice(0, 500) : 'Unknown error';
+      await logCRMSync({
+        user_id: userId,
+        lead_id: lead.id,
+        provider: 'hubspot',
+        action: 'failed',
+        external_object: 'contact',
+        external_id: lead.hubspot_contact_id ?? null,
+        error: message,
+      }, supabase);
+      updates = {
+        hubspot_sync_status: 'failed',
+        hubspot_sync_error: message,
+        hubspot_synced_at: new Date().toISOString(),
+      };
+      result.failed++;
+    }
+
+    await supabase.from('crm_leads').update(updates).eq('id', lead.id).eq('user_id', userId);
+    result.leads.push({ ...lead, ...updates });
+  }
+
+  return result;
+}
+
+/**
+ * Auto-push for newly added leads (runs in after(), so it uses the admin
+ * client). Does nothing unless HubSpot is connected with auto_push on.
+ */
+export async function autoPushLeadsToHubSpot(userId: string, leadIds: string[]): Promise<void> {
+  if (leadIds.length === 0 || !isHubSpotConfigured()) return;
+
+  const supabase = createAdminClient();
+  const integration = await getCRMIntegration(userId, 'hubspot', supabase);
+  if (!integration?.settings.auto_push) return;
+
+  try {
+    const result = await syncLeadsToHubSpot(userId, leadIds, supabase);
+    console.log(`[HubSpot] Auto-pushed ${result.synced} lead(s), ${result.failed} failed`);
+  } catch (error) {
+    console.error('[HubSpot] Auto-push error:', error);
+  }
+}
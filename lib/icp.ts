@@ -0,0 +1,469 @@
+// =============================================================================
+// ICP MATCHING ENGINE
+// =============================================================================
+//
+// Server-side matching of scraped leads against a user's Ideal Customer
+// Profile (ICP). The ICP is what the user saved during onboarding and in
+// Settings → ICP:
+//
+// - settings.icp_keywords      → a headline must contain at least one
+// - settings.exclude_keywords  → a headline containing any of these is dropped
+// - industries                 → industry terms found in the headline
+// - locations                  → region terms, checked only when a location
+//                                is known for the lead (e.g. after enrichment)
+//
+// MATCHING RULES:
+// ===============
+// 1. Exclude keywords always win. A lead hitting one never matches.
+// 2. If the lead has a known location and the user picked specific regions
+//    (anything other than "Global / Remote"), the location must fall inside
+//    one of them.
+// 3. The lead matches if the headline contains an include keyword or a
+//    target industry; either one is enough.
+//
+// Every evaluated lead gets a short human-readable reason so the UI and
+// exports can explain why someone was (or wasn't) qualified.
+//
+// Reactors only come with name + headline from the short scraper mode, so
+// location filtering is a no-op during analysis and kicks in for enriched
+// leads.
+//
+// WEIGHTED SCORING:
+// =================
+// On top of the yes/no match, every lead gets a 0–100 score from the user's
+// scoring model (settings.icp_scoring). Each signal earns a fraction (0–1)
+// that is multiplied by its weight, and the total is scaled to 100:
+//
+// | Signal     | Earns 1.0 when…                                          |
+// |------------|----------------------------------------------------------|
+// | seniority  | C-level / founder (VP, head of, director earn less)      |
+// | function   | headline mentions a target function (or an ICP keyword)  |
+// | company    | headline/company mentions a company keyword or industry  |
+// | location   | known location inside a target region (unknown = 0.5)    |
+// | engagement | the lead commented (reacting only earns 0.3)             |
+//
+// Leads hitting an exclude keyword always score 0.
+// =============================================================================
+
+import { DEFAULT_EXCLUDE_KEYWORDS, DEFAULT_ICP_KEYWORDS } from './onboarding-options';
+import type { User } from './data-store';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ICPCriteria {
+  includeKeywords: string[];
+  excludeKeywords: string[];
+  locations: string[];
+  industries: string[];
+}
+
+/** Minimal lead shape the engine needs. Works for reactors, commenters and CRM leads. */
+export interface ICPCandidate {
+  headline: string;
+  location?: string;
+}
+
+export type ICPScoreSignal = 'seniority' | 'function' | 'company' | 'location' | 'engagement';
+
+export interface ICPScoringModel {
+  weights: Record<ICPScoreSignal, number>;
+  /** Values from FUNCTION_OPTIONS, e.g. ['sales', 'marketing'] */
+  targetFunctions: string[];
+  /** Free-text terms matched against headline and company, e.g. ['b2b', 'series a'] */
+  companyKeywords: string[];
+}
+
+/** Points earned per signal. Sums to the lead's score. */
+export type ICPScoreBreakdown = Record<ICPScoreSignal, number>;
+
+export interface ICPScoreResult {
+  score: number;
+  breakdown: ICPScoreBreakdown;
+}
+
+/** Lead data the scorer can use beyond the headline. */
+export interface ICPScoreCandidate extends ICPCandidate {
+  company?: string | null;
+  source?: 'reaction' | 'comment';
+}
+
+export interface ICPMatchResult {
+  matches: boolean;
+  reason: string;
+  matchedKeywords: string[];
+  matchedIndustries: string[];
+  matchedLocation?: string;
+}
+
+// =============================================================================
+// REGION & INDUSTRY VOCABULARY
+// =============================================================================
+//
+// Keyed by the option values in lib/onboarding-options.ts. Terms are matched
+// as whole words/phrases (see includesTerm), so short terms like "ai" or
+// "vp" don't fire inside longer words.
+// =============================================================================
+
+const LOCATION_TERMS: Record<string, string[]> = {
+  'north-america': [
+    'united states', 'usa', 'u.s.', 'canada', 'new york', 'san francisco',
+    'los angeles', 'chicago', 'boston', 'seattle', 'austin', 'toronto',
+    'vancouver', 'montreal', 'bay area', 'silicon valley',
+  ],
+  'europe': [
+    'europe', 'united kingdom', 'england', 'london', 'germany', 'berlin',
+    'munich', 'france', 'paris', 'netherlands', 'amsterdam', 'spain',
+    'madrid', 'barcelona', 'italy', 'milan', 'ireland', 'dublin', 'sweden',
+    'stockholm', 'switzerland', 'zurich', 'poland', 'portugal', 'lisbon',
+  ],
+  'asia-pacific': [
+    'india', 'bangalore', 'bengaluru', 'mumbai', 'delhi', 'singapore',
+    'australia', 'sydney', 'melbourne', 'japan', 'tokyo', 'china',
+    'hong kong', 'indonesia', 'philippines', 'vietnam', 'new zealand',
+  ],
+  'middle-east': [
+    'dubai', 'abu dhabi', 'united arab emirates', 'uae', 'saudi arabia',
+    'riyadh', 'qatar', 'doha', 'israel', 'tel aviv', 'bahrain', 'kuwait',
+  ],
+  'latin-america': [
+    'brazil', 'são paulo', 'sao paulo', 'mexico', 'argentina',
+    'buenos aires', 'colombia', 'bogotá', 'bogota', 'chile', 'santiago',
+    'peru', 'lima',
+  ],
+  'africa': [
+    'africa', 'nigeria', 'lagos', 'kenya', 'nairobi', 'egypt', 'cairo',
+    'ghana', 'morocco', 'south africa', 'cape town', 'johannesburg',
+  ],
+};
+
+const INDUSTRY_TERMS: Record<string, string[]> = {
+  'saas': ['saas', 'software', 'b2b', 'platform', 'cloud'],
+  'fintech': ['fintech', 'finance', 'banking', 'payments', 'lending', 'insurtech', 'crypto'],
+  'healthtech': ['healthtech', 'healthcare', 'health', 'medical', 'clinical', 'pharma', 'biotech'],
+  'ecommerce': ['ecommerce', 'e-commerce', 'retail', 'd2c', 'dtc', 'shopify', 'marketplace'],
+  'agency': ['agency', 'consulting', 'consultant', 'advisory'],
+  'ai-ml': ['ai', 'machine learning', 'artificial intelligence', 'ml', 'llm', 'data science'],
+  'cybersecurity': ['security', 'cybersecurity', 'infosec', 'soc', 'threat'],
+  'edtech': ['edtech', 'education', 'learning', 'university', 'school'],
+  'real-estate': ['real estate', 'proptech', 'property', 'realtor'],
+  'manufacturing': ['manufacturing', 'industrial', 'factory', 'supply'],
+  'media': ['media', 'entertainment', 'publishing', 'content', 'studio'],
+  'logistics': ['logistics', 'supply chain', 'freight', 'shipping', 'fleet'],
+};
+
+export const FUNCTION_OPTIONS = [
+  { value: 'sales', label: 'Sales', terms: ['sales', 'account executive', 'business development', 'bdr', 'sdr', 'revenue'] },
+  { value: 'marketing', label: 'Marketing', terms: ['marketing', 'growth', 'brand', 'demand gen', 'cmo'] },
+  { value: 'engineering', label: 'Engineering', terms: ['engineer', 'engineering', 'developer', 'cto', 'devops', 'architect'] },
+  { value: 'product', label: 'Product', terms: ['product', 'cpo', 'ux', 'design'] },
+  { value: 'operations', label: 'Operations', terms: ['operations', 'coo', 'ops', 'procurement'] },
+  { value: 'finance', label: 'Finance', terms: ['finance', 'cfo', 'accounting', 'controller'] },
+  { value: 'hr', label: 'HR / Talent', terms: ['hr', 'talent', 'recruiter', 'recruiting', 'people', 'chro'] },
+  { value: 'customer-success', label: 'Customer Success', terms: ['customer success', 'support', 'account manager', 'cx'] },
+] as const;
+
+// Ordered from most to least senior; the first tier that matches wins.
+const SENIORITY_TIERS: { fraction: number; terms: string[] }[] = [
+  { fraction: 1, terms: ['ceo', 'cto', 'cfo', 'coo', 'cmo', 'cpo', 'chief', 'founder', 'co-founder', 'owner', 'president', 'partner'] },
+  { fraction: 0.8, terms: ['vp', 'vice president', 'head of', 'director'] },
+  { fraction: 0.6, terms: ['manager', 'lead', 'principal'] },
+  { fraction: 0.4, terms: ['senior', 'sr.'] },
+];
+
+const REACTION_ENGAGEMENT_FRACTION = 0.3;
+const UNKNOWN_LOCATION_FRACTION = 0.5;
+
+export const DEFAULT_ICP_SCORING_MODEL: ICPScoringModel = {
+  weights: {
+    seniority: 30,
+    function: 25,
+    company: 20,
+    location: 10,
+    engagement: 15,
+  },
+  targetFunctions: [],
+  companyKeywords: [],
+};
+
+/**
+ * Coerces a stored/submitted scoring model into a valid one.
+ * Unknown keys are dropped, weights are clamped to 0–100 and missing
+ * pieces fall back to DEFAULT_ICP_SCORING_MODEL.
+ */
+export function normalizeICPScoringModel(raw: unknown): ICPScoringModel {
+  const input = (raw && typeof raw === 'object' ? raw : {}) as Partial<ICPScoringModel>;
+  const rawWeights = (input.weights && typeof input.weights === 'object' ? input.weights : {}) as Partial<Record<ICPScoreSignal, unknown>>;
+
+  const weights = { ...DEFAULT_ICP_SCORING_MODEL.weights };
+  for (const signal of Object.keys(weights) as ICPScoreSignal[]) {
+    const value = Number(rawWeights[signal]);
+    if (Number.isFinite(value)) {
+      weights[signal] = Math.min(100, Math.max(0, Math.round(value)));
+    }
+  }
+
+  const validFunctions = new Set<string>(FUNCTION_OPTIONS.map((f) => f.value));
+
+  return {
+    weights,
+    targetFunctions: Array.isArray(input.targetFunctions)
+      ? normalizeTerms(input.targetFunctions.map(String)).filter((f) => validFunctions.has(f))
+      : [],
+    companyKeywords: Array.isArray(input.companyKeywords)
+      ? normalizeTerms(input.companyKeywords.map(String))
+      : [],
+  };
+}
+
+// =============================================================================
+// CRITERIA
+// =============================================================================
+
+/**
+ * Builds ICP criteria from a user's saved settings and onboarding answers.
+ *
+ * Falls back to the onboarding defaults only when the user never saved any
+ * keywords (settings missing entirely). An explicitly empty list is respected.
+ *
+ * @param user - The user record from lib/data-store.ts
+ * @returns Normalized (trimmed, lowercased, deduped) criteria
+ */
+export function getICPCriteria(user: Pick<User, 'settings' | 'locations' | 'industries'>): ICPCriteria {
+  const settings = user.settings;
+
+  return {
+    includeKeywords: normalizeTerms(settings?.icp_keywords ?? DEFAULT_ICP_KEYWORDS),
+    excludeKeywords: normalizeTerms(settings?.exclude_keywords ?? DEFAULT_EXCLUDE_KEYWORDS),
+    locations: normalizeTerms(user.locations ?? []),
+    industries: normalizeTerms(user.industries ?? []),
+  };
+}
+
+/**
+ * Whole-word/phrase containment check for vocabulary terms.
+ * User-entered keywords keep plain substring matching (existing behaviour).
+ */
+function includesTerm(text: string, term: string): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(text);
+}
+
+function normalizeTerms(terms: string[]): string[] {
+  return Array.from(
+    new Set(terms.map((t) => t.trim().toLowerCase()).filter((t) => t.length > 0))
+  );
+}
+
+// =============================================================================
+// MATCHING
+// =============================================================================
+
+/**
+ * Returns the region value (e.g. 'europe') a free-text location belongs to,
+ * or null if it doesn't match any known region.
+ */
+export function resolveRegion(location: string): string | null {
+  const text = location.toLowerCase();
+  for (const [region, terms] of Object.entries(LOCATION_TERMS)) {
+    if (terms.some((term) => includesTerm(text, term))) {
+      return region;
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns the industry values whose terms appear in the given text.
+ */
+export function findIndustries(text: string, industries: string[]): string[] {
+  const haystack = text.toLowerCase();
+  return industries.filter((industry) =>
+    (INDUSTRY_TERMS[industry] || [industry]).some((term) => includesTerm(haystack, term))
+  );
+}
+
+/**
+ * Evaluates a single lead against the user's ICP (see MATCHING RULES above):
+ * an include keyword or a target industry in the headline is enough.
+ *
+ * @param lead - Headline (and optional location) of the lead
+ * @param criteria - Criteria from getICPCriteria()
+ * @returns Whether the lead matches plus a reason suitable for display
+ *
+ * @example
+ * const result = matchLeadToICP({ headline: 'Founder @ Acme SaaS' }, criteria);
+ * // { matches: true, reason: 'Title: founder · Industry: saas', ... }
+ */
+export function matchLeadToICP(lead: ICPCandidate, criteria: ICPCriteria): ICPMatchResult {
+  const headline = (lead.headline || '').toLowerCase();
+
+  // ---------------------------------------------------------------------------
+  // 1. Exclusions
+  // ---------------------------------------------------------------------------
+  const excluded = criteria.excludeKeywords.find((keyword) => headline.includes(keyword));
+  if (excluded) {
+    return {
+      matches: false,
+      reason: `Excluded keyword: ${excluded}`,
+      matchedKeywords: [],
+      matchedIndustries: [],
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // 2. Location (only when we actually know it)
+  // ---------------------------------------------------------------------------
+  const targetRegions = criteria.locations.filter((l) => l !== 'global');
+  let matchedLocation: string | undefined;
+
+  if (lead.location && targetRegions.length > 0) {
+    const region = resolveRegion(lead.location);
+    if (!region || !targetRegions.includes(region)) {
+      return {
+        matches: false,
+        reason: `Outside target locations: ${lead.location}`,
+        matchedKeywords: [],
+        matchedIndustries: [],
+      };
+    }
+    matchedLocation = region;
+  }
+
+  // ---------------------------------------------------------------------------
+  // 3. Keywords + industries
+  // ---------------------------------------------------------------------------
+  const targetIndustries = criteria.industries.filter((i) => i !== 'other');
+  const matchedKeywords = criteria.includeKeywords.filter((keyword) => headline.includes(keyword));
+  const matchedIndustries = findIndustries(headline, targetIndustries);
+
+  // Either kind of term is enough
+  const matches = matchedKeywords.length > 0 || matchedIndustries.length > 0;
+
+  const parts: string[] = [];
+  if (matchedKeywords.length > 0) parts.push(`Title: ${matchedKeywords.join(', ')}`);
+  if (matchedIndustries.length > 0) parts.push(`Industry: ${matchedIndustries.join(', ')}`);
+  if (matchedLocation) parts.push(`Location: ${matchedLocation}`);
+
+  let reason: string;
+  if (matches) {
+    reason = parts.join(' · ');
+  } else if (criteria.includeKeywords.length > 0 && targetIndustries.length > 0) {
+    reason = 'No ICP keyword or target industry in headline';
+  } else if (criteria.includeKeywords.length > 0) {
+    reason = 'No ICP keyword in headline';
+  } else {
+    reason = 'No target industry in headline';
+  }
+
+  return { matches, reason, matchedKeywords, matchedIndustries, matchedLocation };
+}
+
+// =============================================================================
+// SCORING
+// =============================================================================
+
+/**
+ * Gets the scoring model from a user's settings, falling back to defaults.
+ */
+export function getICPScoringModel(user: Pick<User, 'settings'>): ICPScoringModel {
+  return normalizeICPScoringModel(user.settings?.icp_scoring);
+}
+
+/**
+ * Scores a lead 0–100 against the user's ICP and scoring model.
+ *
+ * @param lead - Headline plus whatever else is known (company, location, source)
+ * @param criteria - Criteria from getICPCriteria()
+ * @param model - Model from getICPScoringModel()
+ * @returns The rounded score and the points earned per signal
+ *
+ * @example
+ * const { score, breakdown } = scoreLeadAgainstICP(
+ *   { headline: 'VP Sales @ Acme', source: 'comment' },
+ *   criteria,
+ *   model
+ * );
+ * // With the default model and no target regions/industries:
+ * // score: 74, breakdown: { seniority: 24, function: 25, company: 0, location: 10, engagement: 15 }
+ */
+export function scoreLeadAgainstICP(
+  lead: ICPScoreCandidate,
+  criteria: ICPCriteria,
+  model: ICPScoringModel
+): ICPScoreResult {
+  const zero: ICPScoreBreakdown = { seniority: 0, function: 0, company: 0, location: 0, engagement: 0 };
+  const headline = (lead.headline || '').toLowerCase();
+
+  if (criteria.excludeKeywords.some((keyword) => headline.includes(keyword))) {
+    return { score: 0, breakdown: zero };
+  }
+
+  const totalWeight = Object.values(model.weights).reduce((sum, w) => sum + w, 0);
+  if (totalWeight === 0) {
+    return { score: 0, breakdown: zero };
+  }
+
+  const fractions: Record<ICPScoreSignal, number> = {
+    seniority: getSeniorityFraction(headline),
+    function: getFunctionFraction(headline, criteria, model),
+    company: getCompanyFraction(headline, lead.company, criteria, model),
+    location: getLocationFraction(lead.location, criteria),
+    engagement: lead.source === 'comment' ? 1 : REACTION_ENGAGEMENT_FRACTION,
+  };
+
+  const breakdown = { ...zero };
+  let score = 0;
+  for (const signal of Object.keys(breakdown) as ICPScoreSignal[]) {
+    const points = (fractions[signal] * model.weights[signal] * 100) / totalWeight;
+    breakdown[signal] = Math.round(points);
+    score += points;
+  }
+
+  return { score: Math.round(score), breakdown };
+}
+
+function getSeniorityFraction(headline: string): number {
+  const tier = SENIORITY_TIERS.find((t) => t.terms.some((term) => includesTerm(headline, term)));
+  return tier ? tier.fraction : 0;
+}
+
+function getFunctionFraction(headline: string, criteria: ICPCriteria, model: ICPScoringModel): number {
+  if (model.targetFunctions.length > 0) {
+    const hit = FUNCTION_OPTIONS.some(
+      (option) =>
+        model.targetFunctions.includes(option.value) &&
+        option.terms.some((term) => includesTerm(headline, term))
+    );
+    return hit ? 1 : 0;
+  }
+
+  // No target functions configured: the ICP keywords are the best proxy
+  return criteria.includeKeywords.some((keyword) => headline.includes(keyword)) ? 1 : 0;
+}
+
+function getCompanyFraction(
+  headline: string,
+  company: string | null | undefined,
+  criteria: ICPCriteria,
+  model: ICPScoringModel
+): number {
+  const text = `${headline} ${(company || '').toLowerCase()}`;
+
+  if (model.companyKeywords.some((keyword) => text.includes(keyword))) {
+    return 1;
+  }
+
+  const industries = criteria.industries.filter((i) => i !== 'other');
+  return findIndustries(text, industries).length > 0 ? 1 : 0;
+}
+
+function getLocationFraction(location: string | undefined, criteria: ICPCriteria): number {
+  const targetRegions = criteria.locations.filter((l) => l !== 'global');
+  if (targetRegions.length === 0) return 1;
+  if (!location) return UNKNOWN_LOCATION_FRACTION;
+
+  const region = resolveRegion(location);
+  return region && targetRegions.includes(region) ? 1 : 0;
+}
@@ -0,0 +1,349 @@
+// =============================================================================
+// LINKEDIN SCRAPER (Apify)
+// =============================================================================
+//
+// Thin wrappers around the Apify actors we use to read LinkedIn data.
+// These functions do NO auth and NO billing — callers are responsible for
+// reserving wallet credits first and settling/releasing afterwards:
+//
+// - app/actions/analyze-post.ts  → analyzePost server action (demo page)
+// - lib/analysis-jobs.ts         → background analysis worker
+// - lib/profile-monitoring.ts    → scheduled checks of monitored profiles
+// - lib/post-discovery.ts        → discovery search for posts to analyze
+//
+// ACTORS:
+// =======
+// | Purpose   | Actor ID           | Notes                                   |
+// |-----------|--------------------|-----------------------------------------|
+// | Post      | d0DhjXPjkkwm4W5xK  | Post text, author, engagement stats     |
+// | Reactions | S6mgSO5lezSZKi0zN  | profileScraperMode "short" (no enrich)  |
+// | Comments  | ZI6ykbLlGS3APaPE8  | profileScraperMode "short" (no enrich)  |
+// | Profile   | harvestapi/        | Recent posts of a profile (monitoring)  |
+// |  posts    | linkedin-profile-  |                                         |
+// |           | posts              |                                         |
+// | Post      | harvestapi/        | Keyword search over recent posts        |
+// |  search   | linkedin-post-     | (discovery)                             |
+// |           | search             |                                         |
+// =============================================================================
+
+import { ApifyClient } from 'apify-client';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PostData {
+  author: string;
+  authorHeadline?: string;
+  content: string;
+  totalReactions: number;
+  totalComments: number;
+  totalShares: number;
+  image?: string;
+  postImage?: string;
+  postUrl: string;
+  activityId?: string;
+}
+
+export interface Reactor {
+  name: string;
+  headline: string;
+  profileUrl: string;
+  profilePicture?: string;
+  reactionType: string;
+}
+
+// Commenter uses same structure as Reactor for consistency
+export interface Commenter {
+  name: string;
+  headline: string;
+  profileUrl: string;
+  profilePicture?: string;
+  commentText: string;
+}
+
+/** A post from a profile feed or a search, without its engagers */
+export interface ScrapedPost {
+  postUrl: string;
+  postedAt?: string;
+  content: string;
+  authorName?: string;
+  authorHeadline?: string;
+  authorImage?: string;
+  totalReactions: number;
+  totalComments: number;
+  totalShares: number;
+}
+
+// Raw actor output (only the fields we read)
+interface ApifyPostItem {
+  author?: { name?: string; headline?: string; profile_picture?: string };
+  post?: { id?: string; text?: string; images?: (string | { url?: string })[]; img?: string };
+  stats?: { total_reactions?: number; comments?: number; shares?: number };
+  media?: ({ url?: string } | string)[];
+  image?: string;
+}
+
+interface ApifyEngagementItem {
+  actor?: {
+    name?: string;
+    position?: string;
+    linkedinUrl?: string;
+    pictureUrl?: string;
+    picture?: { url?: string };
+  };
+  reactionType?: string;
+  commentary?: string;
+}
+
+interface ApifyPostListItem {
+  linkedinUrl?: string;
+  url?: string;
+  content?: string;
+  postedAt?: { date?: string; timestamp?: number } | string;
+  author?: { name?: string; info?: string; headline?: string; avatar?: { url?: string } };
+  engagement?: { likes?: number; reactions?: number; comments?: number; shares?: number };
+}
+
+// =============================================================================
+// CLIENT
+// =============================================================================
+
+const apifyClient = new ApifyClient({
+  token: process.env.APIFY_API_TOKEN,
+});
+
+// =============================================================================
+// SCRAPERS
+// =============================================================================
+
+/**
+ * Fetches post details (author, text, image, engagement stats).
+ *
+ * @throws Error if the post can't be found or isn't public
+ */
+export async function scrapePostDetails(url: string): Promise<PostData> {
+  const postRun = await apifyClient.actor('d0DhjXPjkkwm4W5xK').call({
+    post_urls: [url],
+  });
+
+  const { items: postItems } = await apifyClient.dataset(postRun.defaultDatasetId).listItems();
+
+  if (!postItems || postItems.length === 0) {
+    throw new Error("Could not fetch post data. Please ensure it's a valid public LinkedIn post URL.");
+  }
+
+  const postData = postItems[0] as ApifyPostItem;
+
+  // Extract activity ID from URL or use the post ID
+  let activityId = '';
+  const activityMatch = url.match(/activity[:\-](\d+)/);
+  if (activityMatch && activityMatch[1]) {
+    activityId = activityMatch[1];
+  } else if (postData.post?.id) {
+    activityId = postData.post.id;
+  }
+
+  // Extract image
+  let fetchedImage: string | undefined;
+
+  if (postData.media && Array.isArray(postData.media) && postData.media.length > 0) {
+    const firstMedia = postData.media[0];
+    if (typeof firstMedia === 'object' && firstMedia && firstMedia.url) {
+      fetchedImage = firstMedia.url;
+    }
+  }
+  if (!fetchedImage && postData.post?.images && Array.isArray(postData.post.images) && postData.post.images.length > 0) {
+    const firstImage = postData.post.images[0];
+    if (typeof firstImage === 'string') {
+      fetchedImage = firstImage;
+    } else if (typeof firstImage === 'object' && firstImage && firstImage.url) {
+      fetchedImage = firstImage.url;
+    }
+  }
+  if (!fetchedImage && postData.post?.img) {
+    fetchedImage = postData.post.img;
+  }
+  if (!fetchedImage && postData.image) {
+    fetchedImage = postData.image;
+  }
+
+  return {
+    author: postData.author?.name || 'Unknown Author',
+    authorHeadline: postData.author?.headline,
+    content: postData.post?.text || '',
+    totalReactions: postData.stats?.total_reactions || 0,
+    totalComments: postData.stats?.comments || 0,
+    totalShares: postData.stats?.shares || 0,
+    image: postData.author?.profile_picture,
+    postImage: fetchedImage,
+    postUrl: url,
+    activityId: activityId,
+  };
+}
+
+/**
+ * Fetches up to `maxItems` reactors of a post.
+ */
+export async function scrapeReactions(postUrl: string, maxItems: number): Promise<Reactor[]> {
+  const reactionsRun = await apifyClient.actor('S6mgSO5lezSZKi0zN').call({
+    posts: [postUrl],
+    maxItems,
+    profileScraperMode: 'short',
+  });
+
+  const { items: reactionItems } = await apifyClient.dataset(reactionsRun.defaultDatasetId).listItems();
+
+  // Scraper returns: { actor: { name, position, linkedinUrl, pictureUrl }, reactionType }
+  return (reactionItems as ApifyEngagementItem[]).map((item) => ({
+    name: item.actor?.name || 'Unknown',
+    headline: item.actor?.position || '',
+    profileUrl: item.actor?.linkedinUrl || '',
+    profilePicture: item.actor?.pictureUrl || item.actor?.picture?.url || '',
+    reactionType: item.reactionType || 'LIKE',
+  }));
+}
+
+/**
+ * Fetches up to `maxItems` commenters of a post.
+ */
+export async function scrapeComments(postUrl: string, maxItems: number): Promise<Commenter[]> {
+  const commentsRun = await apifyClient.actor('ZI6ykbLlGS3APaPE8').call({
+    posts: [postUrl],
+    maxItems,
+    profileScraperMode: 'short',
+  });
+
+  const { items: commentItems } = await apifyClient.dataset(commentsRun.defaultDatasetId).listItems();
+
+  // Scraper returns: { actor: { name, position, linkedinUrl, pictureUrl }, commentary }
+  return (commentItems as ApifyEngagementItem[]).map((item) => ({
+    name: item.actor?.name || 'Unknown',
+    headline: item.actor?.position || '',
+    profileUrl: item.actor?.linkedinUrl || '',
+    profilePicture: item.actor?.pictureUrl || item.actor?.picture?.url || '',
+    commentText: item.commentary || '',
+  }));
+}
+
+/**
+ * Maps post-list actor items (profile feeds, search) to ScrapedPost. Reposts
+ * and items without a recognizable post URL are skipped.
+ */
+function toScrapedPosts(items: ApifyPostListItem[]): ScrapedPost[] {
+  const posts: ScrapedPost[] = [];
+
+  for (const item of items) {
+    const postUrl = normalizeLinkedInPostUrl(item.linkedinUrl || item.url || '');
+    if (!postUrl) continue;
+
+    const postedAt = typeof item.postedAt === 'string'
+      ? item.postedAt
+      : item.postedAt?.date || (item.postedAt?.timestamp ? new Date(item.postedAt.timestamp).toISOString() : undefined);
+
+    posts.push({
+      postUrl,
+      postedAt,
+      content: item.content || '',
+      authorName: item.author?.name,
+      authorHeadline: item.author?.headline || item.author?.info,
+      authorImage: item.author?.avatar?.url,
+      totalReactions: item.engagement?.reactions ?? item.engagement?.likes ?? 0,
+      totalComments: item.engagement?.comments ?? 0,
+      totalShares: item.engagement?.shares ?? 0,
+    });
+  }
+
+  return posts;
+}
+
+/**
+ * Fetches the most recent posts of a profile, newest first.
+ */
+export async function scrapeProfilePosts(profileUrl: string, maxItems: number): Promise<ScrapedPost[]> {
+  const run = await apifyClient.actor('harvestapi/linkedin-profile-posts').call({
+    targetUrls: [profileUrl],
+    maxPosts: maxItems,
+  });
+
+  const { items } = await apifyClient.dataset(run.defaultDatasetId).listItems();
+  return toScrapedPosts(items as ApifyPostListItem[]);
+}
+
+/**
+ * Searches recent LinkedIn posts (past month) matching a keyword query.
+ */
+export async function searchLinkedInPosts(query: string, maxItems: number): Promise<ScrapedPost[]> {
+  const run = await apifyClient.actor('harvestapi/linkedin-post-search').call({
+    searchQueries: [query],
+    maxPosts: maxItems,
+    postedLimit: 'month',
+    sortBy: 'relevance',
+  });
+
+  const { items } = await apifyClient.dataset(run.defaultDatasetId).listItems();
+  return toScrapedPosts(items as ApifyPostListItem[]);
+}
+
+// =============================================================================
+// URL HELPERS
+// =============================================================================
+
+/**
+ * Returns a cleaned post URL (no query/hash, no trailing slash) if the input
+ * looks like a LinkedIn post/activity URL, otherwise null.
+ *
+ * @example
+ * normalizeLinkedInPostUrl('https://www.linkedin.com/posts/jane_activity-123-abc?utm_source=share')
+ * // 'https://www.linkedin.com/posts/jane_activity-123-abc'
+ */
+export function normalizeLinkedInPostUrl(input: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    return null;
+  }
+
+  const host = url.hostname.toLowerCase();
+  if (url.protocol !== 'https:' || (host !== 'linkedin.com' && !host.endsWith('.linkedin.com'))) {
+    return null;
+  }
+
+  const path = url.pathname.replace(/\/+$/, '');
+  if (!/^\/(posts\/|feed\/update\/|pulse\/)/.test(path)) {
+    return null;
+  }
+
+  return `https://www.linkedin.com${path}`;
+}
+
+/**
+ * Returns a cleaned profile URL (https://www.linkedin.com/in/<slug>) for a
+ * person or company page, otherwise null.
+ *
+ * @example
+ * normalizeLinkedInProfileUrl('linkedin.com/in/jane-doe/?originalSubdomain=uk')
+ * // 'https://www.linkedin.com/in/jane-doe'
+ */
+export function normalizeLinkedInProfileUrl(input: string): string | null {
+  const trimmed = input.trim();
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return null;
+  }
+
+  const host = url.hostname.toLowerCase();
+  if (host !== 'linkedin.com' && !host.endsWith('.linkedin.com')) {
+    return null;
+  }
+
+  const match = url.pathname.match(/^\/(in|company)\/([^/]+)/);
+  if (!match) {
+    return null;
+  }
+
+  return `https://www.linkedin.com/${match[1]}/${match[2].toLowerCase()}`;
+}
@@ -0,0 +1,632 @@
+// =============================================================================
+// OPENAPI DESCRIPTION
+// =============================================================================
+//
+// OpenAPI 3.1 description of the routes that accept API keys (see
+// lib/api-keys.ts), served at GET /api/openapi. Keep it in step with the
+// route handlers when their parameters or responses change.
+//
+// Schemas list the fields integrations rely on; responses may carry more.
+// =============================================================================
+
+import { API_KEY_SCOPES, type ApiKeyScope } from '@/lib/api-keys';
+import { EXPORT_FORMATS } from '@/lib/export';
+import {
+  CRM_LEADS_PAGE_SIZE,
+  CRM_LEAD_STAGES,
+  MAX_BULK_LEAD_UPDATES,
+  MAX_CRM_LEADS_PAGE_SIZE,
+} from '@/lib/crm-leads';
+import { REACTION_TYPES } from '@/lib/plans';
+
+type JsonSchema = Record<string, unknown>;
+
+const APP_URL = process.env.NEXT_PUBLIC_SITE_URL || process.env.NEXT_PUBLIC_APP_URL || 'https://www.guffles.com';
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+
+const json = (schema: JsonSchema) => ({ 'application/json': { schema } });
+
+const idParam = (description: string) => ({
+  name: 'id',
+  in: 'path',
+  required: true,
+  description,
+  schema: { type: 'string' },
+});
+
+const formatParam = {
+  name: 'format',
+  in: 'query',
+  description: "File format; defaults to the user's saved export format",
+  schema: { type: 'string', enum: EXPORT_FORMATS.map((f) => f.value) },
+};
+
+/** Filters shared by the CRM list and export (see parseCRMLeadFilters) */
+const crmLeadFilterParams = [
+  { name: 'search', in: 'query', description: 'Word prefixes in name, headline, company or location', schema: { type: 'string' } },
+  { name: 'status', in: 'query', schema: { type: 'string', enum: ['pending', 'enriching', 'enriched', 'failed'] } },
+  { name: 'stage', in: 'query', schema: { type: 'string', enum: CRM_LEAD_STAGES.map((s) => s.value) } },
+  { name: 'source_post', in: 'query', description: 'LinkedIn post URL the leads came from', schema: { type: 'string' } },
+  { name: 'tags', in: 'query', description: 'Comma-separated; leads must have all of them', schema: { type: 'string' } },
+  { name: 'min_score', in: 'query', schema: { type: 'integer', minimum: 0, maximum: 100 } },
+  { name: 'max_score', in: 'query', schema: { type: 'integer', minimum: 0, maximum: 100 } },
+  { name: 'added_after', in: 'query', description: 'ISO date or time, inclusive', schema: { type: 'string', format: 'date-time' } },
+  { name: 'added_before', in: 'query', description: 'ISO date or time, exclusive', schema: { type: 'string', format: 'date-time' } },
+  { name: 'ids', in: 'query', description: 'Comma-separated lead ids (up to 200)', schema: { type: 'string' } },
+  { name: 'sort', in: 'query', schema: { type: 'string', enum: ['added', 'score'] } },
+];
+
+/** One operation that needs `scope`, with the error responses every key request can get */
+const scrapeOptionProperties = {
+  reactionCap: { type: 'integer', minimum: 0, description: "Reactions to scrape; defaults to and can't exceed the plan's cap. 0 = none" },
+  commentCap: { type: 'integer', minimum: 0, description: "Comments to scrape; defaults to and can't exceed the plan's cap. 0 = none" },
+  reactionTypes: {
+    type: 'array',
+    items: { type: 'string', enum: REACTION_TYPES.map((r) => r.value) },
+    description: 'Keep only these reactions as leads (all are still scraped and billed)',
+  },
+};
+
+function operation(
+  scope: ApiKeyScope,
+  summary: string,
+  responses: Record<string, unknown>,
+  extra: Record<string, unknown> = {}
+) {
+  return {
+    summary,
+    description: `Requires the \`${scope}\` scope.`,
+    'x-required-scope': scope,
+    ...extra,
+    responses: {
+      ...responses,
+      '401': { description: 'Missing or invalid API key, or the key lacks the scope', content: json(ref('Error')) },
+      '429': {
+        description: 'Rate limit exceeded',
+        headers: { 'Retry-After': { description: 'Seconds until the next request is allowed', schema: { type: 'integer' } } },
+        content: json(ref('Error')),
+      },
+    },
+  };
+}
+
+const SCHEMAS: Record<string, JsonSchema> = {
+  Error: {
+    type: 'object',
+    properties: { error: { type: 'string' } },
+    required: ['error'],
+  },
+  Lead: {
+    type: 'object',
+    description: 'A person who reacted to or commented on an analyzed post',
+    properties: {
+      name: { type: 'string' },
+      headline: { type: 'string' },
+      profile_url: { type: 'string' },
+      profile_picture: { type: 'string' },
+      matches_icp: { type: 'boolean' },
+      icp_score: { type: 'integer', minimum: 0, maximum: 100 },
+      source: { type: 'string', enum: ['reaction', 'comment'] },
+      comment_text: { type: 'string' },
+    },
+  },
+  Analysis: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      post_url: { type: 'string' },
+      post_data: { type: 'object' },
+      total_reactors: { type: 'integer' },
+      qualified_leads_count: { type: 'integer' },
+      leads: { type: 'array', items: ref('Lead') },
+      created_at: { type: 'string', format: 'date-time' },
+    },
+  },
+  AnalysisJob: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      post_url: { type: 'string' },
+      status: { type: 'string', enum: ['queued', 'running', 'completed', 'failed'] },
+      reaction_cap: { type: ['integer', 'null'] },
+      comment_cap: { type: ['integer', 'null'] },
+      reaction_types: { type: ['array', 'null'], items: { type: 'string' } },
+      analysis_id: { type: ['string', 'null'] },
+      error: { type: ['string', 'null'] },
+      created_at: { type: 'string', format: 'date-time' },
+    },
+  },
+  CRMLead: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      headline: { type: 'string' },
+      profile_url: { type: 'string' },
+      profile_picture: { type: ['string', 'null'] },
+      source_analysis_id: { type: ['string', 'null'] },
+      source_post_url: { type: ['string', 'null'] },
+      icp_score: { type: ['integer', 'null'] },
+      enrichment_status: { type: 'string', enum: ['pending', 'enriching', 'enriched', 'failed'] },
+      enriched_data: { type: ['object', 'null'] },
+      email: { type: ['string', 'null'] },
+      notes: { type: ['string', 'null'], description: 'Read-only digest of the notes timeline, newest first' },
+      tags: { type: 'array', items: { type: 'string' } },
+      stage: { type: 'string', enum: CRM_LEAD_STAGES.map((s) => s.value) },
+      owner: { type: ['string', 'null'] },
+      added_at: { type: 'string', format: 'date-time' },
+    },
+  },
+  CRMLeadNote: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      lead_id: { type: 'string' },
+      author_email: { type: ['string', 'null'] },
+      body: { type: 'string' },
+      created_at: { type: 'string', format: 'date-time' },
+    },
+  },
+  NewCRMLead: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      profile_url: { type: 'string' },
+      headline: { type: 'string' },
+      profile_picture: { type: 'string' },
+      source_analysis_id: { type: 'string' },
+      source_post_url: { type: 'string' },
+      source: { type: 'string', enum: ['reaction', 'comment'] },
+    },
+    required: ['name', 'profile_url'],
+  },
+  WalletTransaction: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string' },
+      amount: { type: 'integer', description: 'Cents; negative for charges' },
+      amountFormatted: { type: 'string' },
+      balanceAfter: { type: 'integer' },
+      balanceAfterFormatted: { type: 'string' },
+      reason: { type: ['string', 'null'] },
+      actionType: { type: ['string', 'null'] },
+      createdAt: { type: 'string', format: 'date-time' },
+    },
+  },
+  WalletLedgerEntry: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['credit', 'debit'] },
+      amount: { type: 'integer', description: 'Cents; negative for charges' },
+      amountFormatted: { type: 'string' },
+      balanceAfter: { type: 'integer' },
+      balanceAfterFormatted: { type: 'string' },
+      reason: { type: ['string', 'null'] },
+      actionType: { type: ['string', 'null'] },
+      postUrl: { type: ['string', 'null'] },
+      reservation: {
+        type: ['object', 'null'],
+        description: 'Set on reservation debits',
+        properties: {
+          status: { type: 'string', enum: ['reserved', 'settled', 'released'] },
+          reservedAmount: { type: 'integer' },
+          actualAmount: { type: ['integer', 'null'] },
+          refundAmount: { type: ['integer', 'null'] },
+          settledAt: { type: ['string', 'null'], format: 'date-time' },
+          releaseReason: { type: ['string', 'null'] },
+        },
+      },
+      refundOfReservationId: { type: ['string', 'null'], description: 'Set on refunds of unused reserved credits' },
+      actorUserId: { type: ['string', 'null'] },
+      actorEmail: { type: ['string', 'null'] },
+      createdAt: { type: 'string', format: 'date-time' },
+    },
+  },
+  CostQuote: {
+    type: 'object',
+    description: 'All amounts in cents. Nothing is reserved.',
+    properties: {
+      actionType: { type: 'string', enum: ['post_analysis', 'profile_enrichment'] },
+      expectedCost: { type: 'integer' },
+      expectedCostFormatted: { type: 'string' },
+      maxCost: { type: 'integer', description: 'Reserved up front; the most the action can charge' },
+      maxCostFormatted: { type: 'string' },
+      balance: { type: 'integer' },
+      balanceFormatted: { type: 'string' },
+      balanceAfter: { type: 'integer', description: 'Once the expected cost settles' },
+      balanceAfterFormatted: { type: 'string' },
+      balanceAfterReservation: { type: 'integer' },
+      wouldSucceed: { type: 'boolean', description: 'Whether the reservation would go through now' },
+      reason: { type: 'string', description: 'Why it would be refused' },
+      topUpAvailable: { type: 'boolean' },
+      totalReactions: { type: 'integer', description: 'Analysis quotes only' },
+      totalComments: { type: 'integer', description: 'Analysis quotes only' },
+      reactionsToScrape: { type: 'integer', description: 'Analysis quotes only; capped by the plan' },
+      commentsToScrape: { type: 'integer', description: 'Analysis quotes only; capped by the plan' },
+      reactionCap: { type: 'integer' },
+      commentCap: { type: 'integer' },
+    },
+  },
+};
+
+/**
+ * Builds the OpenAPI document for the API key routes.
+ */
+export function buildOpenApiSpec() {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Guffles API',
+      version: '1.0.0',
+      description:
+        'Analyze LinkedIn posts, manage CRM leads and read your wallet. ' +
+        'Create an API key in Settings > API Keys and send it as `Authorization: Bearer gk_...`. ' +
+        'Each key has scopes and a per-minute rate limit (60 requests by default).',
+    },
+    servers: [{ url: APP_URL }],
+    security: [{ apiKey: [] }],
+    tags: [
+      { name: 'Analyses' },
+      { name: 'CRM' },
+      { name: 'Wallet' },
+    ],
+    paths: {
+      '/api/analysis-jobs': {
+        get: operation('analyses:read', 'List recent analysis jobs', {
+          '200': { description: 'Jobs, newest first', content: json({ type: 'object', properties: { jobs: { type: 'array', items: ref('AnalysisJob') } } }) },
+        }, {
+          tags: ['Analyses'],
+          parameters: [
+            { name: 'active', in: 'query', description: 'Set to 1 for queued/running jobs only', schema: { type: 'string', enum: ['1'] } },
+            { name: 'single', in: 'query', description: 'Set to 1 to leave out bulk batch and profile monitoring jobs', schema: { type: 'string', enum: ['1'] } },
+          ],
+        }),
+        post: operation('analyses:write', 'Analyze a LinkedIn post in the background', {
+          '202': { description: 'Job queued; poll GET /api/analysis-jobs/{id}', content: json({ type: 'object', properties: { job: ref('AnalysisJob') } }) },
+          '400': { description: 'Invalid post URL or scrape options', content: json(ref('Error')) },
+          '402': { description: 'Not enough wallet credits', content: json(ref('Error')) },
+        }, {
+          tags: ['Analyses'],
+          requestBody: {
+            required: true,
+            content: json({
+              type: 'object',
+              description: 'The wallet reservation is sized to the caps',
+              properties: { postUrl: { type: 'string' }, ...scrapeOptionProperties },
+              required: ['postUrl'],
+            }),
+          },
+        }),
+      },
+      '/api/analysis-jobs/{id}': {
+        get: operation('analyses:read', 'Get an analysis job', {
+          '200': { description: 'The job', content: json({ type: 'object', properties: { job: ref('AnalysisJob') } }) },
+          '404': { description: 'Job not found', content: json(ref('Error')) },
+        }, { tags: ['Analyses'], parameters: [idParam('Job id')] }),
+      },
+      '/api/analyses': {
+        get: operation('analyses:read', 'List analyses', {
+          '200': { description: 'Analyses, newest first', content: json({ type: 'object', properties: { analyses: { type: 'array', items: ref('Analysis') } } }) },
+        }, { tags: ['Analyses'] }),
+      },
+      '/api/analyses/{id}': {
+        get: operation('analyses:read', 'Get an analysis with its leads', {
+          '200': { description: 'The analysis', content: json({ type: 'object', properties: { analysis: ref('Analysis') } }) },
+          '404': { description: 'Analysis not found', content: json(ref('Error')) },
+        }, { tags: ['Analyses'], parameters: [idParam('Analysis id')] }),
+        delete: operation('analyses:write', 'Delete an analysis', {
+          '200': { description: 'Deleted', content: json({ type: 'object', properties: { success: { type: 'boolean' } } }) },
+        }, { tags: ['Analyses'], parameters: [idParam('Analysis id')] }),
+      },
+      '/api/analyses/{id}/export': {
+        get: operation('analyses:read', "Export an analysis's leads", {
+          '200': { description: 'File download (CSV, JSON, XLSX or vCard)' },
+          '404': { description: 'Analysis not found', content: json(ref('Error')) },
+        }, { tags: ['Analyses'], parameters: [idParam('Analysis id'), formatParam] }),
+      },
+      '/api/crm/leads': {
+        get: operation('crm:read', 'List CRM leads, one page at a time', {
+          '200': {
+            description: 'A page of leads; pass nextCursor as cursor for the next one',
+            content: json({
+              type: 'object',
+              properties: {
+                success: { type: 'boolean' },
+                leads: { type: 'array', items: ref('CRMLead') },
+                nextCursor: { type: ['string', 'null'], description: 'null on the last page' },
+                total: { type: ['integer', 'null'], description: 'Matching leads; first page only' },
+              },
+            }),
+          },
+          '400': { description: 'Invalid cursor', content: json(ref('Error')) },
+        }, {
+          tags: ['CRM'],
+          parameters: [
+            { name: 'cursor', in: 'query', description: 'nextCursor from the previous page, with the same sort', schema: { type: 'string' } },
+            { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: MAX_CRM_LEADS_PAGE_SIZE, default: CRM_LEADS_PAGE_SIZE } },
+            ...crmLeadFilterParams,
+          ],
+        }),
+        post: operation('crm:write', 'Add leads (duplicates by profile URL are skipped)', {
+          '200': {
+            description: 'Leads added',
+            content: json({
+              type: 'object',
+              properties: {
+                success: { type: 'boolean' },
+                added: { type: 'integer' },
+                skipped: { type: 'integer' },
+                leads: { type: 'array', items: ref('CRMLead') },
+              },
+            }),
+          },
+          '400': { description: 'A lead is missing name or profile_url', content: json(ref('Error')) },
+        }, {
+          tags: ['CRM'],
+          requestBody: {
+            required: true,
+            content: json({
+              oneOf: [
+                { type: 'object', properties: { leads: { type: 'array', items: ref('NewCRMLead') } }, required: ['leads'] },
+                ref('NewCRMLead'),
+              ],
+            }),
+          },
+        }),
+        patch: operation('crm:write', "Update a lead's tags, stage or owner, or several leads at once with ids", {
+          '200': {
+            description: 'The updated lead, or with ids the updated leads (unknown ids are skipped)',
+            content: json({
+              type: 'object',
+              properties: {
+                success: { type: 'boolean' },
+                lead: ref('CRMLead'),
+                updated: { type: 'integer' },
+                leads: { type: 'array', items: ref('CRMLead') },
+              },
+            }),
+          },
+          '400': { description: 'Invalid or read-only field', content: json(ref('Error')) },
+          '404': { description: 'Lead not found', content: json(ref('Error')) },
+        }, {
+          tags: ['CRM'],
+          requestBody: {
+            required: true,
+            content: json({
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                ids: { type: 'array', items: { type: 'string' }, maxItems: MAX_BULK_LEAD_UPDATES },
+                tags: { type: 'array', items: { type: 'string' } },
+                stage: { type: 'string', enum: CRM_LEAD_STAGES.map((s) => s.value) },
+                owner: { type: ['string', 'null'] },
+              },
+              additionalProperties: false,
+            }),
+          },
+        }),
+        delete: operation('crm:write', 'Delete leads', {
+          '200': { description: 'Leads deleted', content: json({ type: 'object', properties: { success: { type: 'boolean' }, deleted: { type: 'integer' } } }) },
+        }, {
+          tags: ['CRM'],
+          requestBody: {
+            required: true,
+            content: json({ type: 'object', properties: { ids: { type: 'array', items: { type: 'string' } } }, required: ['ids'] }),
+          },
+        }),
+      },
+      '/api/crm/export': {
+        get: operation('crm:read', 'Export filtered CRM leads', {
+          '200': { description: 'File download (CSV, JSON, XLSX or vCard)' },
+          '400': { description: 'Unknown column', content: json(ref('Error')) },
+        }, {
+          tags: ['CRM'],
+          parameters: [
+            formatParam,
+            { name: 'columns', in: 'query', description: 'Comma-separated columns; all by default', schema: { type: 'string' } },
+            ...crmLeadFilterParams,
+          ],
+        }),
+      },
+      '/api/crm/stats': {
+        get: operation('crm:read', 'Count leads in total, by enrichment status and by stage', {
+          '200': {
+            description: 'Lead counts',
+            content: json({
+              type: 'object',
+              properties: {
+                success: { type: 'boolean' },
+                totalLeads: { type: 'integer' },
+                enrichedLeads: { type: 'integer' },
+                pendingLeads: { type: 'integer' },
+                stageCounts: { type: 'object', additionalProperties: { type: 'integer' } },
+              },
+            }),
+          },
+        }, { tags: ['CRM'] }),
+      },
+      '/api/crm/leads/{id}/notes': {
+        get: operation('crm:read', "List a lead's notes, newest first", {
+          '200': { description: 'Notes', content: json({ type: 'object', properties: { success: { type: 'boolean' }, notes: { type: 'array', items: ref('CRMLeadNote') } } }) },
+          '404': { description: 'Lead not found', content: json(ref('Error')) },
+        }, { tags: ['CRM'], parameters: [idParam('Lead id')] }),
+        post: operation('crm:write', 'Add a timestamped note to a lead', {
+          '200': { description: 'The new note', content: json({ type: 'object', properties: { success: { type: 'boolean' }, note: ref('CRMLeadNote') } }) },
+          '400': { description: 'Empty or too long', content: json(ref('Error')) },
+          '404': { description: 'Lead not found', content: json(ref('Error')) },
+        }, {
+          tags: ['CRM'],
+          parameters: [idParam('Lead id')],
+          requestBody: {
+            required: true,
+            content: json({ type: 'object', properties: { body: { type: 'string', maxLength: 5000 } }, required: ['body'] }),
+          },
+        }),
+      },
+      '/api/crm/enrich': {
+        post: operation('crm:write', 'Enrich one lead with LinkedIn profile data (charged per profile)', {
+          '200': { description: 'Enriched profile', content: json({ type: 'object' }) },
+          '402': { description: 'Not enough wallet credits', content: json(ref('Error')) },
+          '404': { description: 'Lead not found', content: json(ref('Error')) },
+        }, {
+          tags: ['CRM'],
+          requestBody: {
+            required: true,
+            content: json({ type: 'object', properties: { leadId: { type: 'string' }, profileUrl: { type: 'string' } } }),
+          },
+        }),
+      },
+      '/api/crm/enrich/batch': {
+        post: operation('crm:write', 'Enrich several leads in the background', {
+          '202': {
+            description: 'Batch started; queued leads are marked enriching',
+            content: json({
+              type: 'object',
+              properties: {
+                success: { type: 'boolean' },
+                leadIds: { type: 'array', items: { type: 'string' } },
+                queued: { type: 'integer' },
+                skipped: { type: 'integer' },
+              },
+            }),
+          },
+          '402': { description: 'Not enough wallet credits', content: json(ref('Error')) },
+        }, {
+          tags: ['CRM'],
+          requestBody: {
+            required: true,
+            content: json({ type: 'object', properties: { leadIds: { type: 'array', items: { type: 'string' } } }, required: ['leadIds'] }),
+          },
+        }),
+      },
+      '/api/crm/email': {
+        post: operation('crm:write', "Find a lead's work email (charged only when found)", {
+          '200': { description: 'The lead with email and email_status', content: json({ type: 'object', properties: { success: { type: 'boolean' }, lead: ref('CRMLead'), charged: { type: 'boolean' } } }) },
+          '402': { description: 'Not enough wallet credits', content: json(ref('Error')) },
+          '404': { description: 'Lead not found', content: json(ref('Error')) },
+        }, {
+          tags: ['CRM'],
+          requestBody: {
+            required: true,
+            content: json({ type: 'object', properties: { leadId: { type: 'string' }, profileUrl: { type: 'string' } } }),
+          },
+        }),
+      },
+      '/api/billing/wallet': {
+        get: operation('wallet:read', 'Get wallet balance and optionally recent transactions', {
+          '200': {
+            description: 'Wallet status',
+            content: json({
+              type: 'object',
+              properties: {
+                balance: {
+                  type: 'object',
+                  properties: {
+                    current: { type: 'integer', description: 'Cents' },
+                    formatted: { type: 'string' },
+                    plan: { type: 'string' },
+                  },
+                },
+                usage: { type: 'object' },
+                period: { type: 'object' },
+                transactions: { type: 'array', items: ref('WalletTransaction') },
+              },
+            }),
+          },
+        }, {
+          tags: ['Wallet'],
+          parameters: [
+            { name: 'history', in: 'query', description: 'Set to true to include transactions', schema: { type: 'string', enum: ['true'] } },
+            { name: 'limit', in: 'query', description: 'Transactions to include (1-100, default 20)', schema: { type: 'integer', minimum: 1, maximum: 100 } },
+          ],
+        }),
+      },
+      '/api/billing/wallet/ledger': {
+        get: operation('wallet:read', 'Page or download filtered wallet transactions', {
+          '200': {
+            description: 'A page of transactions, newest first, or a CSV file with format=csv',
+            content: json({
+              type: 'object',
+              properties: {
+                success: { type: 'boolean' },
+                entries: { type: 'array', items: ref('WalletLedgerEntry') },
+                nextCursor: { type: ['string', 'null'] },
+                total: { type: ['integer', 'null'], description: 'First page only' },
+              },
+            }),
+          },
+          '400': { description: 'Invalid cursor', content: json(ref('Error')) },
+        }, {
+          tags: ['Wallet'],
+          parameters: [
+            { name: 'format', in: 'query', description: 'csv to download every matching transaction', schema: { type: 'string', enum: ['csv'] } },
+            { name: 'cursor', in: 'query', description: 'nextCursor from the previous page', schema: { type: 'string' } },
+            { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 200, default: 50 } },
+            { name: 'action', in: 'query', description: 'Comma-separated action types', schema: { type: 'string' } },
+            { name: 'type', in: 'query', schema: { type: 'string', enum: ['credit', 'debit'] } },
+            { name: 'post', in: 'query', description: 'LinkedIn post URL the spend was for', schema: { type: 'string' } },
+            { name: 'created_after', in: 'query', description: 'ISO date or time, inclusive', schema: { type: 'string', format: 'date-time' } },
+            { name: 'created_before', in: 'query', description: 'ISO date or time, exclusive', schema: { type: 'string', format: 'date-time' } },
+          ],
+        }),
+      },
+      '/api/billing/quote': {
+        post: operation('wallet:read', 'Quote the cost of analyzing a post or enriching leads', {
+          '200': {
+            description: 'The quote',
+            content: json({
+              type: 'object',
+              properties: {
+                success: { type: 'boolean' },
+                quote: ref('CostQuote'),
+                postUrl: { type: 'string' },
+                statsSource: { type: 'string', enum: ['analysis', 'scrape'], description: 'Post quotes: a recent analysis, or a post scrape (shared across accounts for 6 hours)' },
+                statsFetchedAt: { type: 'string', format: 'date-time' },
+                leadCount: { type: 'integer', description: 'Lead quotes: leads that would be enriched' },
+                skipped: { type: 'integer', description: 'Lead quotes: requested leads that would be skipped' },
+              },
+            }),
+          },
+          '400': { description: 'Invalid post URL or lead ids', content: json(ref('Error')) },
+          '402': { description: 'Billing inactive; post stats were not fetched', content: json(ref('Error')) },
+          '422': { description: 'The post could not be fetched', content: json(ref('Error')) },
+        }, {
+          tags: ['Wallet'],
+          requestBody: {
+            required: true,
+            content: json({
+              type: 'object',
+              description: 'Either postUrl or leadIds',
+              properties: {
+                postUrl: { type: 'string' },
+                ...scrapeOptionProperties,
+                leadIds: { type: 'array', items: { type: 'string' }, maxItems: 200 },
+              },
+            }),
+          },
+        }),
+      },
+      '/api/billing': {
+        get: operation('wallet:read', 'Get plan, subscription and usage', {
+          '200': { description: 'Billing info', content: json({ type: 'object' }) },
+        }, { tags: ['Wallet'] }),
+      },
+    },
+    components: {
+      securitySchemes: {
+        apiKey: {
+          type: 'http',
+          scheme: 'bearer',
+          description:
+            'API key from Settings > API Keys. Scopes: ' +
+            API_KEY_SCOPES.map((s) => `\`${s.scope}\` (${s.description})`).join('; ') +
+            '.',
+        },
+      },
+      schemas: SCHEMAS,
+    },
+  };
+}
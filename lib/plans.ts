@@ -66,6 +66,119 @@ export const PLANS: Record<PlanId, Plan> = {
   },
 };
 
+// =============================================================================
+// PER-ANALYSIS SCRAPE OPTIONS
+// =============================================================================
+//
+// An analysis can scrape less than the plan allows: lower caps, one source
+// only (a cap of 0 turns reactions or comments off), or only some reaction
+// types. The wallet reservation is sized to the resolved caps (lib/usage.ts).
+// Reactions are billed as scraped; the type filter only decides which become
+// leads.
+// =============================================================================
+
+/** LinkedIn reaction types, as the reactions scraper reports them */
+export const REACTION_TYPES = [
+  { value: 'LIKE', label: 'Like' },
+  { value: 'PRAISE', label: 'Celebrate' },
+  { value: 'APPRECIATION', label: 'Support' },
+  { value: 'EMPATHY', label: 'Love' },
+  { value: 'INTEREST', label: 'Insightful' },
+  { value: 'ENTERTAINMENT', label: 'Funny' },
+] as const;
+
+export type ReactionType = typeof REACTION_TYPES[number]['value'];
+
+export interface ScrapingCaps {
+  reactionCap: number;
+  commentCap: number;
+}
+
+export interface ScrapeOptions {
+  /** At most the plan's cap; 0 = no reactions */
+  reactionCap?: number;
+  /** At most the plan's cap; 0 = no comments */
+  commentCap?: number;
+  /** Keep only these reactions; empty or missing = all */
+  reactionTypes?: ReactionType[];
+}
+
+export interface ResolvedScrapeOptions extends ScrapingCaps {
+  reactionTypes: ReactionType[];
+}
+
+export type ScrapeOptionsParseResult =
+  | { success: true; options: ScrapeOptions }
+  | { success: false; error: string };
+
+function isCap(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Validates scrape options from a request body or server action. Caps above
+ * the plan's are allowed here and clamped by resolveScrapeOptions.
+ */
+export function parseScrapeOptions(input: {
+  reactionCap?: unknown;
+  commentCap?: unknown;
+  reactionTypes?: unknown;
+}): ScrapeOptionsParseResult {
+  const options: ScrapeOptions = {};
+
+  if (input.reactionCap !== undefined && input.reactionCap !== null) {
+    if (!isCap(input.reactionCap)) {
+      return { success: false, error: 'reactionCap must be a whole number, 0 or more' };
+    }
+    options.reactionCap = input.reactionCap;
+  }
+
+  if (input.commentCap !== undefined && input.commentCap !== null) {
+    if (!isCap(input.commentCap)) {
+      return { success: false, error: 'commentCap must be a whole number, 0 or more' };
+    }
+    options.commentCap = input.commentCap;
+  }
+
+  if (options.reactionCap === 0 && options.commentCap === 0) {
+    return { success: false, error: 'Turn on reactions or comments (both caps are 0)' };
+  }
+
+  if (input.reactionTypes !== undefined && input.reactionTypes !== null) {
+    if (
+      !Array.isArray(input.reactionTypes) ||
+      !input.reactionTypes.every((type) => REACTION_TYPES.some((r) => r.value === type))
+    ) {
+      return {
+        success: false,
+        error: `reactionTypes must be a list of: ${REACTION_TYPES.map((r) => r.value).join(', ')}`,
+      };
+    }
+    options.reactionTypes = Array.from(new Set(input.reactionTypes as ReactionType[]));
+  }
+
+  return { success: true, options };
+}
+
+/** The caps an analysis actually runs with: the options, never above the plan's */
+export function resolveScrapeOptions(planCaps: ScrapingCaps, options: ScrapeOptions = {}): ResolvedScrapeOptions {
+  const reactionCap = Math.min(options.reactionCap ?? planCaps.reactionCap, planCaps.reactionCap);
+  return {
+    reactionCap,
+    commentCap: Math.min(options.commentCap ?? planCaps.commentCap, planCaps.commentCap),
+    reactionTypes: reactionCap > 0 ? options.reactionTypes ?? [] : [],
+  };
+}
+
+/** Keeps reactions of the chosen types (all of them when none are chosen) */
+export function filterReactionsByType<T extends { reactionType: string }>(
+  reactions: T[],
+  reactionTypes: ReactionType[]
+): T[] {
+  if (reactionTypes.length === 0) return reactions;
+  return reactions.filter((reaction) => (reactionTypes as string[]).includes(reaction.reactionType));
+}
+
 // =============================================================================
 // HELPER FUNCTIONS
 // =============================================================================
@@ -0,0 +1,278 @@
+// =============================================================================
+// AI POST DISCOVERY
+// =============================================================================
+//
+// Finds recent, high-engagement LinkedIn posts whose audience is likely to
+// contain the user's buyers, so they know which posts are worth analyzing
+// (table: post_searches).
+//
+// FLOW:
+// =====
+// 1. POST /api/discovery/search with a topic, or with useICP to build the
+//    queries from the saved ICP (industries + target functions + keywords)
+// 2. Reserve CREDIT_COSTS.aiSearch ('ai_search') before calling Apify
+// 3. Run up to MAX_QUERIES post searches, merge and dedupe the results
+// 4. Rank each post 0-100 (see rankDiscoveredPosts), settle the reservation
+//    and store the search so results survive a page refresh
+//    - Any failure before settling releases the reservation
+// 5. The page sends a chosen result to POST /api/analysis-jobs as usual
+// =============================================================================
+
+import { createClient } from '@/lib/supabase/server';
+import { type User } from '@/lib/data-store';
+import {
+  FUNCTION_OPTIONS,
+  getICPCriteria,
+  getICPScoringModel,
+  scoreLeadAgainstICP,
+  type ICPCriteria,
+  type ICPScoringModel,
+} from '@/lib/icp';
+import { searchLinkedInPosts, type ScrapedPost } from '@/lib/linkedin-scraper';
+import { releaseSearchReservation, reserveSearchCredits, settleSearchUsage, type UsageInfo } from '@/lib/usage';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type DiscoverySignal = 'engagement' | 'relevance' | 'audience' | 'recency';
+
+export interface DiscoveredPost extends ScrapedPost {
+  /** 0-100, higher means more worth analyzing */
+  score: number;
+  breakdown: Record<DiscoverySignal, number>;
+  /** Query terms found in the post text */
+  matchedTerms: string[];
+}
+
+export interface PostSearch {
+  id: string;
+  user_id: string;
+  query: string;
+  used_icp: boolean;
+  results: DiscoveredPost[];
+  created_at: string;
+}
+
+export interface PostSearchResult {
+  success: boolean;
+  error?: string;
+  limitReached?: boolean;
+  usage?: UsageInfo;
+  search?: PostSearch;
+}
+
+const MAX_QUERIES = 2;
+const POSTS_PER_QUERY = 25;
+const MAX_RESULTS = 30;
+
+// Points per signal (sum = 100)
+const DISCOVERY_WEIGHTS: Record<DiscoverySignal, number> = {
+  engagement: 35,
+  relevance: 30,
+  audience: 20,
+  recency: 15,
+};
+
+// =============================================================================
+// QUERY BUILDING
+// =============================================================================
+
+/**
+ * Builds search queries from a topic, or from the saved ICP when no topic is
+ * given: "<industry> <function>" pairs first, then ICP keywords.
+ */
+export function buildDiscoveryQueries(
+  topic: string,
+  criteria: ICPCriteria,
+  model: ICPScoringModel
+): string[] {
+  const trimmed = topic.trim();
+  if (trimmed) return [trimmed];
+
+  const functions = FUNCTION_OPTIONS
+    .filter((f) => model.targetFunctions.includes(f.value))
+    .map((f) => f.label.toLowerCase());
+
+  const queries: string[] = [];
+  for (const industry of criteria.industries) {
+    queries.push(functions.length > 0 ? `${industry} ${functions[0]}` : industry);
+  }
+  for (const keyword of criteria.includeKeywords) {
+    queries.push(keyword);
+  }
+
+  return Array.from(new Set(queries)).slice(0, MAX_QUERIES);
+}
+
+function getQueryTerms(queries: string[]): string[] {
+  const terms = queries
+    .flatMap((q) => q.toLowerCase().split(/[^a-z0-9+#]+/))
+    .filter((t) => t.length > 2);
+  return Array.from(new Set(terms));
+}
+
+// =============================================================================
+// RANKING
+// =============================================================================
+
+/**
+ * Ranks posts 0-100 by how worth analyzing they are:
+ * - engagement: reactions + comments (comments count double), log scaled so
+ *   ~1,000 engagements is a full score
+ * - relevance: share of query terms that appear in the post text
+ * - audience: the author's headline scored against the ICP — people tend to
+ *   engage with peers, so an ICP-like author suggests an ICP-like audience
+ * - recency: full score within a week, fading out over 30 days
+ */
+export function rankDiscoveredPosts(
+  posts: ScrapedPost[],
+  queries: string[],
+  criteria: ICPCriteria,
+  model: ICPScoringModel,
+  now: Date = new Date()
+): DiscoveredPost[] {
+  const terms = getQueryTerms(queries);
+  const day = 24 * 60 * 60 * 1000;
+
+  return posts
+    .map((post) => {
+      const text = post.content.toLowerCase();
+      const matchedTerms = terms.filter((t) => text.includes(t));
+
+      const engagementCount = post.totalReactions + post.totalComments * 2;
+      const engagement = Math.min(1, Math.log10(1 + engagementCount) / 3);
+      const relevance = terms.length > 0 ? matchedTerms.length / terms.length : 0;
+      const audience = post.authorHeadline
+        ? scoreLeadAgainstICP({ headline: post.authorHeadline }, criteria, model).score / 100
+        : 0;
+
+      let recency = 0.5;
+      if (post.postedAt) {
+        const ageDays = (now.getTime() - new Date(post.postedAt).getTime()) / day;
+        recency = ageDays <= 7 ? 1 : Math.max(0, 1 - (ageDays - 7) / 23);
+      }
+
+      const breakdown: Record<DiscoverySignal, number> = {
+        engagement: Math.round(engagement * DISCOVERY_WEIGHTS.engagement),
+        relevance: Math.round(relevance * DISCOVERY_WEIGHTS.relevance),
+        audience: Math.round(audience * DISCOVERY_WEIGHTS.audience),
+        recency: Math.round(recency * DISCOVERY_WEIGHTS.recency),
+      };
+      const score = Object.values(breakdown).reduce((sum, points) => sum + points, 0);
+
+      return { ...post, score, breakdown, matchedTerms };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+// =============================================================================
+// SEARCH
+// =============================================================================
+
+/**
+ * Runs a billed discovery search and stores the ranked results.
+ */
+export async function searchPostsForUser(
+  user: User,
+  options: { topic?: string; useICP?: boolean; actorUserId?: string }
+): Promise<PostSearchResult> {
+  const criteria = getICPCriteria(user);
+  const model = getICPScoringModel(user);
+  const queries = buildDiscoveryQueries(options.useICP ? '' : options.topic || '', criteria, model);
+
+  if (queries.length === 0) {
+    return {
+      success: false,
+      error: options.useICP
+        ? 'Add industries or ICP keywords in Settings to search from your ICP.'
+        : 'Enter a topic to search for.',
+    };
+  }
+
+  const queryLabel = queries.join(' | ');
+
+  // -------------------------------------------------------------------------
+  // Step 1: Reserve
+  // -------------------------------------------------------------------------
+  const reservation = await reserveSearchCredits(user.id, queryLabel, options.actorUserId);
+  if (!reservation.allowed || !reservation.reservationId) {
+    return {
+      success: false,
+      error: reservation.reason || 'Start a trial or add wallet credits to search.',
+      limitReached: true,
+      usage: reservation.usage,
+    };
+  }
+
+  try {
+    // -----------------------------------------------------------------------
+    // Step 2: Search and rank
+    // -----------------------------------------------------------------------
+    const byUrl = new Map<string, ScrapedPost>();
+    for (const query of queries) {
+      const posts = await searchLinkedInPosts(query, POSTS_PER_QUERY);
+      for (const post of posts) {
+        const key = post.postUrl.toLowerCase();
+        if (!byUrl.has(key)) byUrl.set(key, post);
+      }
+    }
+
+    const results = rankDiscoveredPosts(Array.from(byUrl.values()), queries, criteria, model)
+      .slice(0, MAX_RESULTS);
+
+    // -----------------------------------------------------------------------
+    // Step 3: Settle, then store
+    // -----------------------------------------------------------------------
+    const settlement = await settleSearchUsage(user.id, reservation.reservationId, {
+      query: queryLabel,
+      resultsFound: results.length,
+    });
+
+    if (!settlement.success) {
+      await releaseSearchReservation(user.id, reservation.reservationId, {
+        query: queryLabel,
+        releaseReason: 'settlement_failed',
+      });
+      return { success: false, error: settlement.error || 'We could not charge your wallet for this search.' };
+    }
+
+    const search: PostSearch = {
+      id: `search_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      user_id: user.id,
+      query: queryLabel,
+      used_icp: !!options.useICP,
+      results,
+      created_at: new Date().toISOString(),
+    };
+
+    const supabase = await createClient();
+    const { error } = await supabase.from('post_searches').insert(search);
+    if (error) {
+      // Already paid for; still return the results
+      console.error('[Discovery] Failed to save search (non-critical):', error);
+    }
+
+    return { success: true, search };
+  } catch (error) {
+    console.error('[Discovery] Search failed:', error);
+    await releaseSearchReservation(user.id, reservation.reservationId, {
+      query: queryLabel,
+      releaseReason: 'search_failed',
+    });
+    return { success: false, error: 'Search failed. Your credits have been refunded.' };
+  }
+}
+
+export async function getPostSearches(userId: string, limit: number = 10): Promise<PostSearch[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('post_searches')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error || !data) return [];
+  return data as PostSearch[];
+}
@@ -0,0 +1,390 @@
+// =============================================================================
+// PROFILE ENRICHMENT
+// =============================================================================
+//
+// Shared Apify profile scraping for CRM lead enrichment, plus the server-side
+// bulk enrichment batch.
+//
+// BATCH FLOW:
+// ===========
+// 1. POST /api/crm/enrich/batch with { leadIds }
+// 2. startEnrichmentBatch: claim the leads that are pending/failed by moving
+//    them to 'enriching' in one conditional update (a concurrent batch for
+//    the same leads gets none of them), then reserve
+//    CREDIT_COSTS.profileEnrichment x claimed leads in ONE wallet reservation
+// 3. runEnrichmentBatch (in after()): scrape ENRICH_CHUNK_SIZE usernames per
+//    Apify run and write each lead as its chunk comes back
+//    - found: enriched_data + 'enriched'
+//    - not found / chunk error: 'failed'
+//    - out of time: back to 'pending' (not charged, can be retried)
+// 4. Settle the reservation for the profiles actually found (release if none)
+// 5. One crm_lead.enriched webhook event for the leads enriched (lib/webhooks.ts)
+//
+// The CRM page polls /api/crm/leads while any lead is 'enriching'. A run that
+// dies mid-chunk (past maxDuration) never hands its leads back, so
+// resetStaleEnrichments returns leads claimed more than
+// ENRICHING_STALE_MINUTES ago to 'pending'.
+// =============================================================================
+
+import { ApifyClient } from 'apify-client';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { CRMLead, EnrichedData } from '@/lib/data-store';
+import {
+  reserveBatchEnrichmentCredits,
+  settleBatchEnrichmentUsage,
+  type UsageInfo,
+} from '@/lib/usage';
+import { dispatchWebhookEvent, toCRMLeadsWebhookData } from '@/lib/webhooks';
+
+// =============================================================================
+// APIFY
+// =============================================================================
+
+const APIFY_TOKEN = process.env.APIFY_API_TOKEN;
+
+// Single profile (username input) and batch (usernames input) variants of the
+// same scraper; both return items in the same shape
+export const LINKEDIN_PROFILE_ACTOR_ID = 'VhxlqQXRwhW8H5hNV';
+const LINKEDIN_PROFILE_BATCH_ACTOR_ID = 'apimaestro/linkedin-profile-batch-scraper-no-cookies-required';
+
+export const MAX_ENRICH_BATCH_LEADS = 200;
+const ENRICH_CHUNK_SIZE = 25;
+const ENRICH_TIME_BUDGET_MS = 240_000;
+// Well past the batch route's maxDuration (300 s)
+const ENRICHING_STALE_MINUTES = 10;
+
+/**
+ * Extracts the username from URLs like https://www.linkedin.com/in/username/
+ */
+export function extractLinkedInUsername(profileUrl: string): string | null {
+  const match = profileUrl.match(/linkedin\.com\/in\/([^\/\?]+)/);
+  return match ? decodeURIComponent(match[1]).toLowerCase() : null;
+}
+
+/**
+ * Whether the scraper returned a real profile for this item
+ */
+export function isProfileFound(rawProfile: any): boolean {
+  return !!rawProfile && rawProfile.message !== 'No profile found or wrong input' && !!rawProfile.basic_info;
+}
+
+/**
+ * Maps a raw scraper item into our EnrichedData shape.
+ * Handles potentially missing fields gracefully.
+ */
+export function toEnrichedData(rawProfile: any, username: string): EnrichedData {
+  return {
+    // Basic info - always try to get these
+    fullName: rawProfile.basic_info?.fullname || null,
+    firstName: rawProfile.basic_info?.first_name || null,
+    lastName: rawProfile.basic_info?.last_name || null,
+    headline: rawProfile.basic_info?.headline || null,
+    profileUrl: rawProfile.basic_info?.profile_url || `https://linkedin.com/in/${username}`,
+    profilePicture: rawProfile.basic_info?.profile_picture_url || null,
+
+    // About/Bio
+    about: rawProfile.basic_info?.about || null,
+
+    // Location
+    location: rawProfile.basic_info?.location?.full || null,
+    city: rawProfile.basic_info?.location?.city || null,
+    country: rawProfile.basic_info?.location?.country || null,
+
+    // Current company
+    currentCompany: rawProfile.basic_info?.current_company || null,
+    currentCompanyUrl: rawProfile.basic_info?.current_company_url || null,
+
+    // Stats
+    followerCount: rawProfile.basic_info?.follower_count || null,
+    connectionCount: rawProfile.basic_info?.connection_count || null,
+
+    // Flags
+    isCreator: rawProfile.basic_info?.is_creator || false,
+    isInfluencer: rawProfile.basic_info?.is_influencer || false,
+    isPremium: rawProfile.basic_info?.is_premium || false,
+    openToWork: rawProfile.basic_info?.open_to_work || false,
+
+    // Topics they post about
+    topics: rawProfile.basic_info?.creator_hashtags || [],
+
+    // Experience - take top 3 most recent
+    experience: (rawProfile.experience || []).slice(0, 3).map((exp: any) => ({
+      title: exp.title || null,
+      company: exp.company || null,
+      duration: exp.duration || null,
+      isCurrent: exp.is_current || false,
+      companyLogo: exp.company_logo_url || null,
+    })),
+
+    // Education - take top 2
+    education: (rawProfile.education || []).slice(0, 2).map((edu: any) => ({
+      school: edu.school || null,
+      duration: edu.duration || null,
+      schoolLogo: edu.school_logo_url || null,
+    })),
+
+    // Metadata
+    enrichedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Lead columns written on a successful enrichment. Enriched name, headline and
+ * picture replace the scraped ones when present.
+ */
+export function getEnrichedLeadUpdates(lead: CRMLead, profile: EnrichedData): Partial<CRMLead> {
+  return {
+    enrichment_status: 'enriched',
+    enriched_data: profile,
+    name: profile.fullName || lead.name,
+    headline: profile.headline || lead.headline,
+    profile_picture: profile.profilePicture || lead.profile_picture,
+  };
+}
+
+/**
+ * Scrapes several profiles in one Apify run.
+ *
+ * @returns Found profiles keyed by lowercased username (missing = not found)
+ * @throws Error if the Apify run fails
+ */
+async function scrapeProfiles(usernames: string[]): Promise<Map<string, EnrichedData>> {
+  const client = new ApifyClient({ token: APIFY_TOKEN });
+
+  const run = await client.actor(LINKEDIN_PROFILE_BATCH_ACTOR_ID).call({
+    usernames,
+    includeEmail: false,
+  });
+  const { items } = await client.dataset(run.defaultDatasetId).listItems();
+
+  const profiles = new Map<string, EnrichedData>();
+  for (const item of items as any[]) {
+    if (!isProfileFound(item)) continue;
+
+    const username = (
+      item.basic_info?.public_identifier ||
+      extractLinkedInUsername(item.basic_info?.profile_url || '') ||
+      ''
+    ).toLowerCase();
+    if (username) profiles.set(username, toEnrichedData(item, username));
+  }
+
+  return profiles;
+}
+
+// =============================================================================
+// BATCH
+// =============================================================================
+
+export interface StartEnrichmentBatchResult {
+  success: boolean;
+  error?: string;
+  limitReached?: boolean;
+  usage?: UsageInfo;
+  reservationId?: string;
+  /** Leads marked 'enriching' and handed to runEnrichmentBatch */
+  leads?: CRMLead[];
+  /** Requested leads skipped (already enriched/enriching, or not a /in/ URL) */
+  skipped?: number;
+}
+
+/**
+ * Returns leads stuck in 'enriching' by a run that died to 'pending'. Leads
+ * without a claim timestamp predate it and are treated as stuck.
+ */
+export async function resetStaleEnrichments(userId: string, client?: SupabaseClient): Promise<void> {
+  const supabase = client ?? await createClient();
+  const cutoff = new Date(Date.now() - ENRICHING_STALE_MINUTES * 60 * 1000).toISOString();
+  const { error } = await supabase
+    .from('crm_leads')
+    .update({ enrichment_status: 'pending', enrichment_started_at: null })
+    .eq('user_id', userId)
+    .eq('enrichment_status', 'enriching')
+    .or(`enrichment_started_at.is.null,enrichment_started_at.lt.${cutoff}`);
+
+  if (error) {
+    console.error('[Enrich Batch] Failed to reset stale enrichments:', error);
+  }
+}
+
+/**
+ * The requested leads a batch would enrich: pending or failed, with a /in/
+ * profile URL. Null if the leads couldn't be loaded.
+ */
+export async function getLeadsToEnrich(userId: string, leadIds: string[]): Promise<CRMLead[] | null> {
+  const supabase = await createClient();
+  await resetStaleEnrichments(userId, supabase);
+
+  const { data, error } = await supabase
+    .from('crm_leads')
+    .select('*')
+    .eq('user_id', userId)
+    .in('id', leadIds);
+
+  if (error) {
+    console.error('[Enrich Batch] Failed to load leads:', error);
+    return null;
+  }
+
+  return ((data || []) as CRMLead[]).filter(
+    (lead) =>
+      (lead.enrichment_status === 'pending' || lead.enrichment_status === 'failed') &&
+      !!extractLinkedInUsername(lead.profile_url)
+  );
+}
+
+/**
+ * Validates the selection, claims the leads ('enriching') and reserves
+ * credits for the ones claimed. Runs in the request so the user gets billing
+ * errors immediately.
+ */
+export async function startEnrichmentBatch(
+  userId: string,
+  leadIds: string[],
+  actorUserId?: string
+): Promise<StartEnrichmentBatchResult> {
+  const supabase = await createClient();
+  const leads = await getLeadsToEnrich(userId, leadIds);
+  if (!leads) {
+    return { success: false, error: 'Failed to load leads' };
+  }
+
+  if (leads.length === 0) {
+    return { success: false, error: 'None of the selected leads need enrichment.' };
+  }
+
+  // Only leads still pending/failed are claimed, so a concurrent batch for
+  // the same leads can't enrich (and charge for) them twice
+  const { data: claimedRows, error: claimError } = await supabase
+    .from('crm_leads')
+    .update({ enrichment_status: 'enriching', enrichment_started_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .in('id', leads.map((lead) => lead.id))
+    .in('enrichment_status', ['pending', 'failed'])
+    .select('*');
+
+  if (claimError) {
+    console.error('[Enrich Batch] Failed to mark leads enriching:', claimError);
+    return { success: false, error: 'Failed to start enrichment' };
+  }
+
+  const claimed = (claimedRows || []) as CRMLead[];
+  if (claimed.length === 0) {
+    return { success: false, error: 'The selected leads are already being enriched.' };
+  }
+
+  const reservation = await reserveBatchEnrichmentCredits(userId, claimed.length, actorUserId);
+  if (!reservation.allowed || !reservation.reservationId) {
+    // Hand the claimed leads back with the status they had
+    const previousStatus = new Map(leads.map((lead) => [lead.id, lead.enrichment_status]));
+    for (const status of ['pending', 'failed'] as const) {
+      const ids = claimed.filter((lead) => previousStatus.get(lead.id) === status).map((lead) => lead.id);
+      if (ids.length === 0) continue;
+      await supabase
+        .from('crm_leads')
+        .update({ enrichment_status: status, enrichment_started_at: null })
+        .eq('user_id', userId)
+        .eq('enrichment_status', 'enriching')
+        .in('id', ids);
+    }
+
+    return {
+      success: false,
+      error: reservation.reason || 'Start a trial or add wallet credits to enrich profiles.',
+      limitReached: true,
+      usage: reservation.usage,
+    };
+  }
+
+  return {
+    success: true,
+    reservationId: reservation.reservationId,
+    leads: claimed,
+    skipped: leadIds.length - claimed.length,
+  };
+}
+
+/**
+ * Scrapes the batch chunk by chunk, writes each lead as its chunk finishes,
+ * then settles the reservation for the profiles found. Runs in after(), so
+ * it uses the admin client and scopes every write to the user.
+ *
+ * @returns Number of leads enriched
+ */
+export async function runEnrichmentBatch(
+  userId: string,
+  reservationId: string,
+  leads: CRMLead[],
+  client?: SupabaseClient
+): Promise<number> {
+  const supabase = client ?? createAdminClient();
+  const deadline = Date.now() + ENRICH_TIME_BUDGET_MS;
+  const enrichedLeads: CRMLead[] = [];
+  let index = 0;
+
+  const setStatus = async (ids: string[], status: CRMLead['enrichment_status']) => {
+    if (ids.length === 0) return;
+    await supabase
+      .from('crm_leads')
+      .update({ enrichment_status: status, enrichment_started_at: null })
+      .eq('user_id', userId)
+      .in('id', ids);
+  };
+
+  try {
+    while (index < leads.length && Date.now() < deadline) {
+      const chunk = leads.slice(index, index + ENRICH_CHUNK_SIZE);
+      index += chunk.length;
+
+      let profiles: Map<string, EnrichedData>;
+      try {
+        profiles = await scrapeProfiles(chunk.map((lead) => extractLinkedInUsername(lead.profile_url) as string));
+      } catch (error) {
+        console.error('[Enrich Batch] Apify run failed:', error);
+        await setStatus(chunk.map((lead) => lead.id), 'failed');
+        continue;
+      }
+
+      const notFound: string[] = [];
+      for (const lead of chunk) {
+        const profile = profiles.get(extractLinkedInUsername(lead.profile_url) as string);
+        if (!profile) {
+          notFound.push(lead.id);
+          continue;
+        }
+
+        const updates = getEnrichedLeadUpdates(lead, profile);
+        const { error } = await supabase
+          .from('crm_leads')
+          .update(updates)
+          .eq('id', lead.id)
+          .eq('user_id', userId);
+
+        if (error) {
+          console.error(`[Enrich Batch] Failed to save lead ${lead.id}:`, error);
+          notFound.push(lead.id);
+        } else {
+          enrichedLeads.push({ ...lead, ...updates });
+        }
+      }
+      await setStatus(notFound, 'failed');
+    }
+
+    // Out of time: hand the rest back uncharged so they can be retried
+    await setStatus(leads.slice(index).map((lead) => lead.id), 'pending');
+  } catch (error) {
+    console.error('[Enrich Batch] Batch failed:', error);
+    await setStatus(leads.slice(index).map((lead) => lead.id), 'pending');
+  } finally {
+    await settleBatchEnrichmentUsage(userId, reservationId, enrichedLeads.length, supabase);
+  }
+
+  if (enrichedLeads.length > 0) {
+    await dispatchWebhookEvent(userId, 'crm_lead.enriched', toCRMLeadsWebhookData(enrichedLeads), supabase);
+  }
+
+  console.log(`[Enrich Batch] Enriched ${enrichedLeads.length}/${leads.length} leads for ${userId}`);
+  return enrichedLeads.length;
+}
@@ -0,0 +1,441 @@
+// =============================================================================
+// PROFILE MONITORING
+// =============================================================================
+//
+// Watch LinkedIn creators and automatically analyze their new posts
+// (table: monitored_profiles).
+//
+// FLOW:
+// =====
+// 1. POST /api/monitoring/profiles adds a profile and charges
+//    CREDIT_COSTS.profileMonitoringSetup once (reserve → insert → settle)
+// 2. GET /api/cron/profile-monitoring runs processDueMonitoredProfiles() on a
+//    schedule. For each due profile it:
+//    - reserves CREDIT_COSTS.profileMonitoringCheck ('profile_monitoring')
+//    - fetches the profile's recent posts (released if the fetch fails)
+//    - queues an analysis job for each post it hasn't seen, reserving
+//      credits at the plan's monitoredReactions / monitoredComments caps
+// 3. The analysis job sweeper (GET /api/cron/analysis-jobs) runs the queued
+//    jobs and settles each reservation to what was actually scraped
+//
+// Only posts published after monitoring started count as new, so adding a
+// prolific creator doesn't analyze their whole back catalogue.
+//
+// The checker has no user session, so it uses the admin client throughout.
+// =============================================================================
+
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getUserById, type User } from '@/lib/data-store';
+import { createAnalysisJob } from '@/lib/analysis-jobs';
+import { normalizeLinkedInProfileUrl, scrapeProfilePosts, type ScrapedPost } from '@/lib/linkedin-scraper';
+import {
+  releaseAnalysisReservation,
+  releaseMonitoringReservation,
+  reserveMonitoredAnalysisCredits,
+  reserveMonitoringCredits,
+  settleMonitoringUsage,
+} from '@/lib/usage';
+import { getPlanWalletConfig } from '@/lib/wallet';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface MonitoredProfile {
+  id: string;
+  user_id: string;
+  profile_url: string;
+  name: string | null;
+  headline: string | null;
+  profile_picture: string | null;
+  is_active: boolean;
+  seen_post_urls: string[];
+  posts_analyzed: number;
+  last_post_at: string | null;
+  last_checked_at: string | null;
+  next_check_at: string;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AddMonitoredProfileResult {
+  success: boolean;
+  error?: string;
+  reason?: 'invalid_url' | 'plan' | 'duplicate' | 'credits';
+  profile?: MonitoredProfile;
+}
+
+// How often each profile is checked for new posts
+export const MONITOR_CHECK_INTERVAL_HOURS = 6;
+// Recent posts fetched per check
+const POSTS_PER_CHECK = 10;
+// New posts analyzed per check; the rest wait for the next check
+const MAX_NEW_POSTS_PER_CHECK = 3;
+// Post URLs remembered per profile to detect new ones
+const SEEN_POSTS_KEPT = 50;
+
+const PLAN_REQUIRED_MESSAGE = 'Profile monitoring is available on the Pro, Growth and Scale plans.';
+
+function getNextCheckAt(from: Date = new Date()): string {
+  return new Date(from.getTime() + MONITOR_CHECK_INTERVAL_HOURS * 60 * 60 * 1000).toISOString();
+}
+
+// =============================================================================
+// PROFILE OPERATIONS (user context)
+// =============================================================================
+
+export async function getMonitoredProfiles(userId: string): Promise<MonitoredProfile[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('monitored_profiles')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error || !data) return [];
+  return data as MonitoredProfile[];
+}
+
+/**
+ * Starts monitoring a profile. The setup fee is reserved before the insert
+ * and settled after it, so a failed insert never charges the user.
+ */
+export async function addMonitoredProfile(
+  user: Pick<User, 'id' | 'plan'>,
+  rawProfileUrl: string,
+  actorUserId?: string
+): Promise<AddMonitoredProfileResult> {
+  const profileUrl = normalizeLinkedInProfileUrl(rawProfileUrl);
+  if (!profileUrl) {
+    return {
+      success: false,
+      reason: 'invalid_url',
+      error: 'Please enter a valid LinkedIn profile URL (linkedin.com/in/...)',
+    };
+  }
+
+  if (!getPlanWalletConfig(user.plan || 'free')) {
+    return { success: false, reason: 'plan', error: PLAN_REQUIRED_MESSAGE };
+  }
+
+  const supabase = await createClient();
+  const { data: existing } = await supabase
+    .from('monitored_profiles')
+    .select('id')
+    .eq('user_id', user.id)
+    .eq('profile_url', profileUrl)
+    .maybeSingle();
+
+  if (existing) {
+    return { success: false, reason: 'duplicate', error: 'You are already monitoring this profile.' };
+  }
+
+  const reservation = await reserveMonitoringCredits(user.id, 'setup', { profileUrl, actorUserId });
+  if (!reservation.success || !reservation.reservationId) {
+    return { success: false, reason: 'credits', error: reservation.error };
+  }
+
+  const now = new Date().toISOString();
+  const profile: MonitoredProfile = {
+    id: `monitor_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    user_id: user.id,
+    profile_url: profileUrl,
+    name: null,
+    headline: null,
+    profile_picture: null,
+    is_active: true,
+    seen_post_urls: [],
+    posts_analyzed: 0,
+    last_post_at: null,
+    last_checked_at: null,
+    next_check_at: now,
+    last_error: null,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const { error } = await supabase.from('monitored_profiles').insert(profile);
+
+  if (error) {
+    await releaseMonitoringReservation(user.id, reservation.reservationId, {
+      profileUrl,
+      releaseReason: 'monitor_create_failed',
+    });
+    throw new Error(`Failed to add monitored profile: ${error.message}`);
+  }
+
+  const settlement = await settleMonitoringUsage(user.id, reservation.reservationId, 'setup', {
+    profileUrl,
+    monitoredProfileId: profile.id,
+  });
+
+  if (!settlement.success) {
+    // The profile exists; leave it in place and let the reservation expire
+    console.error('[Monitoring] Failed to settle setup fee:', profile.id, settlement.error);
+  }
+
+  return { success: true, profile };
+}
+
+export async function setMonitoredProfileActive(
+  id: string,
+  userId: string,
+  isActive: boolean
+): Promise<MonitoredProfile | null> {
+  const supabase = await createClient();
+  const updates: Partial<MonitoredProfile> = {
+    is_active: isActive,
+    updated_at: new Date().toISOString(),
+  };
+
+  // Resuming checks right away rather than waiting out the old schedule
+  if (isActive) {
+    updates.next_check_at = new Date().toISOString();
+    updates.last_error = null;
+  }
+
+  const { data, error } = await supabase
+    .from('monitored_profiles')
+    .update(updates)
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error || !data) return null;
+  return data as MonitoredProfile;
+}
+
+export async function deleteMonitoredProfile(id: string, userId: string): Promise<boolean> {
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from('monitored_profiles')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId);
+
+  return !error;
+}
+
+// =============================================================================
+// CHECKER (admin context)
+// =============================================================================
+
+async function updateProfile(
+  supabase: SupabaseClient,
+  id: string,
+  updates: Partial<MonitoredProfile>
+): Promise<void> {
+  const { error } = await supabase
+    .from('monitored_profiles')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    console.error('[Monitoring] Failed to update profile:', id, error);
+  }
+}
+
+/**
+ * Claims a due profile by moving its next_check_at forward, only if nobody
+ * else already did. Returns false when another checker got there first.
+ */
+async function claimProfileCheck(supabase: SupabaseClient, profile: MonitoredProfile): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('monitored_profiles')
+    .update({ next_check_at: getNextCheckAt() })
+    .eq('id', profile.id)
+    .eq('next_check_at', profile.next_check_at)
+    .select('id');
+
+  if (error) {
+    console.error('[Monitoring] Failed to claim profile:', profile.id, error);
+    return false;
+  }
+
+  return !!data && data.length > 0;
+}
+
+/**
+ * A post is new if we haven't handled it and it was published after
+ * monitoring started. Undated posts seen on the very first check are
+ * treated as the existing back catalogue.
+ */
+function isNewPost(post: ScrapedPost, profile: MonitoredProfile, seen: Set<string>): boolean {
+  if (seen.has(post.postUrl.toLowerCase())) return false;
+
+  if (post.postedAt) {
+    return new Date(post.postedAt) > new Date(profile.created_at);
+  }
+
+  return profile.last_checked_at !== null;
+}
+
+/**
+ * Runs one check for a claimed profile. Never throws.
+ *
+ * @returns Number of analysis jobs queued
+ */
+async function checkMonitoredProfile(supabase: SupabaseClient, profile: MonitoredProfile): Promise<number> {
+  const now = new Date().toISOString();
+
+  try {
+    const user = await getUserById(profile.user_id, supabase);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    // Plan downgraded to free: stop checking until the user resumes it
+    const planConfig = getPlanWalletConfig(user.plan || 'free');
+    if (!planConfig) {
+      await updateProfile(supabase, profile.id, { is_active: false, last_error: PLAN_REQUIRED_MESSAGE });
+      return 0;
+    }
+
+    // -------------------------------------------------------------------------
+    // Step 1: Charge the check
+    // -------------------------------------------------------------------------
+    const reservation = await reserveMonitoringCredits(user.id, 'check', {
+      profileUrl: profile.profile_url,
+      monitoredProfileId: profile.id,
+    }, supabase);
+
+    if (!reservation.success || !reservation.reservationId) {
+      await updateProfile(supabase, profile.id, {
+        last_error: reservation.error || 'Not enough wallet credits to check this profile.',
+      });
+      return 0;
+    }
+
+    // -------------------------------------------------------------------------
+    // Step 2: Fetch recent posts (released on failure)
+    // -------------------------------------------------------------------------
+    let posts: ScrapedPost[];
+    try {
+      posts = await scrapeProfilePosts(profile.profile_url, POSTS_PER_CHECK);
+    } catch (error) {
+      await releaseMonitoringReservation(user.id, reservation.reservationId, {
+        profileUrl: profile.profile_url,
+        monitoredProfileId: profile.id,
+        releaseReason: 'monitor_check_failed',
+      }, supabase);
+      throw error;
+    }
+
+    const settlement = await settleMonitoringUsage(user.id, reservation.reservationId, 'check', {
+      profileUrl: profile.profile_url,
+      monitoredProfileId: profile.id,
+      postsFound: posts.length,
+    }, supabase);
+
+    if (!settlement.success) {
+      throw new Error(settlement.error || 'We could not charge your wallet for this check.');
+    }
+
+    // -------------------------------------------------------------------------
+    // Step 3: Queue analyses for new posts (oldest first)
+    // -------------------------------------------------------------------------
+    const seen = new Set(profile.seen_post_urls.map((u) => u.toLowerCase()));
+    const newPosts = posts.filter((p) => isNewPost(p, profile, seen)).reverse();
+    const caps = { reactionCap: planConfig.monitoredReactions, commentCap: planConfig.monitoredComments };
+
+    const queued: string[] = [];
+    let lastError: string | null = null;
+
+    for (const post of newPosts.slice(0, MAX_NEW_POSTS_PER_CHECK)) {
+      const analysisReservation = await reserveMonitoredAnalysisCredits(user.id, post.postUrl, caps, supabase);
+      if (!analysisReservation.success || !analysisReservation.reservationId) {
+        lastError = analysisReservation.error || 'Not enough wallet credits to analyze new posts.';
+        break;
+      }
+
+      try {
+        await createAnalysisJob(user.id, post.postUrl, analysisReservation.reservationId, {
+          monitoredProfileId: profile.id,
+          ...caps,
+        }, supabase);
+        queued.push(post.postUrl);
+      } catch (error) {
+        console.error('[Monitoring] Failed to queue analysis:', profile.id, post.postUrl, error);
+        await releaseAnalysisReservation(user.id, analysisReservation.reservationId, {
+          postUrl: post.postUrl,
+          releaseReason: 'job_create_failed',
+        }, supabase);
+        lastError = 'Failed to queue an analysis for a new post.';
+        break;
+      }
+    }
+
+    // -------------------------------------------------------------------------
+    // Step 4: Remember what we've handled. New posts that weren't queued stay
+    // unseen so the next check retries them.
+    // -------------------------------------------------------------------------
+    const unqueued = new Set(
+      newPosts.filter((p) => !queued.includes(p.postUrl)).map((p) => p.postUrl.toLowerCase())
+    );
+    const handled = posts.map((p) => p.postUrl).filter((u) => !unqueued.has(u.toLowerCase()));
+    const seenPostUrls = Array.from(new Set([...handled, ...profile.seen_post_urls])).slice(0, SEEN_POSTS_KEPT);
+
+    const author = posts.find((p) => p.authorName);
+    const latestPostedAt = posts.map((p) => p.postedAt).filter((d): d is string => !!d).sort().pop();
+
+    await updateProfile(supabase, profile.id, {
+      name: profile.name || author?.authorName || null,
+      headline: author?.authorHeadline || profile.headline,
+      profile_picture: author?.authorImage || profile.profile_picture,
+      seen_post_urls: seenPostUrls,
+      posts_analyzed: profile.posts_analyzed + queued.length,
+      last_post_at: latestPostedAt || profile.last_post_at,
+      last_checked_at: now,
+      last_error: lastError,
+    });
+
+    console.log('[Monitoring] Profile checked:', { profileId: profile.id, posts: posts.length, queued: queued.length });
+    return queued.length;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    console.error('[Monitoring] Profile check failed:', profile.id, message);
+    await updateProfile(supabase, profile.id, { last_checked_at: now, last_error: message });
+    return 0;
+  }
+}
+
+/**
+ * Cron entry point: checks up to `limit` active profiles that are due.
+ *
+ * @returns Counts for logging/monitoring
+ */
+export async function processDueMonitoredProfiles(
+  limit: number = 20,
+  client?: SupabaseClient
+): Promise<{ checked: number; postsQueued: number }> {
+  const supabase = client ?? createAdminClient();
+
+  const { data, error } = await supabase
+    .from('monitored_profiles')
+    .select('*')
+    .eq('is_active', true)
+    .lte('next_check_at', new Date().toISOString())
+    .order('next_check_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error('[Monitoring] Failed to load due profiles:', error);
+    return { checked: 0, postsQueued: 0 };
+  }
+
+  let checked = 0;
+  let postsQueued = 0;
+
+  for (const profile of (data || []) as MonitoredProfile[]) {
+    if (!(await claimProfileCheck(supabase, profile))) continue;
+
+    postsQueued += await checkMonitoredProfile(supabase, profile);
+    checked++;
+  }
+
+  return { checked, postsQueued };
+}
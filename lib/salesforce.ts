@@ -0,0 +1,486 @@
+// =============================================================================
+// SALESFORCE SYNC
+// =============================================================================
+//
+// Pushes CRM leads to Salesforce as Leads, or links them to an existing
+// Contact when one matches.
+//
+// FLOW:
+// =====
+// 1. Settings > Integrations > Connect: /api/integrations/salesforce/connect
+//    redirects to Salesforce; the callback stores tokens + instance URL
+// 2. Pushes come from POST /api/crm/salesforce/sync, either with CRM lead ids
+//    (CRM page) or with profile URLs of rows just added from an analysis
+//    (history detail page)
+// 3. syncLeadsToSalesforce, per lead:
+//    a. already linked to a Contact             -> 'matched' (nothing written)
+//    b. Contact with the same LinkedIn URL/email -> link it, 'matched'
+//    c. already linked to a Lead, or an open Lead with the same
+//       LinkedIn URL/email                       -> update it, 'updated'
+//    d. otherwise                                -> create a Lead, 'created'
+//    Each push writes salesforce_* on the lead and a crm_sync_log row.
+//
+// FIELD MAPPING:
+// ==============
+// SALESFORCE_FIELDS maps CRM lead values onto Lead fields (API names).
+// sourcePostUrl is the campaign attribution field: the LinkedIn post the lead
+// engaged with. contactProfileUrl / contactEmail are the Contact fields used
+// for matching only. LinkedIn URL and campaign fields are custom in most orgs
+// (e.g. LinkedIn_URL__c), so they're off until set in Settings.
+//
+// Salesforce requires LastName and Company on a Lead; missing values are sent
+// as '[not provided]', as Salesforce's own web-to-lead does.
+//
+// TESTING:
+// ========
+// SALESFORCE_LOGIN_URL overrides https://login.salesforce.com (use
+// https://test.salesforce.com for sandboxes, or a mock server). API calls go
+// to the instance_url returned with the token, so a mock controls both.
+// =============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import type { CRMLead } from '@/lib/data-store';
+import {
+  getCRMIntegration,
+  getCRMIntegrationAccessToken,
+  getCRMLeadFieldValue,
+  logCRMSync,
+  refreshCRMIntegrationAccessToken,
+  type CRMIntegrationTokens,
+  type CRMSourceField,
+  type CRMSyncAction,
+} from '@/lib/crm-integrations';
+
+// =============================================================================
+// CONFIG
+// =============================================================================
+
+const SALESFORCE_LOGIN_URL = process.env.SALESFORCE_LOGIN_URL || 'https://login.salesforce.com';
+const SALESFORCE_API_VERSION = 'v60.0';
+
+// Salesforce doesn't return an expiry; sessions last 2h by default, and a
+// 401 mid-push triggers a refresh anyway
+const SALESFORCE_TOKEN_TTL_SECONDS = 3600;
+
+export const MAX_SALESFORCE_SYNC_LEADS = 100;
+
+// Set by /connect, checked by /callback
+export const SALESFORCE_OAUTH_STATE_COOKIE = 'salesforce_oauth_state';
+
+const NOT_PROVIDED = '[not provided]';
+
+export function isSalesforceConfigured(): boolean {
+  return !!process.env.SALESFORCE_CLIENT_ID && !!process.env.SALESFORCE_CLIENT_SECRET;
+}
+
+/** Must match the callback URL on the Salesforce connected app */
+export function getSalesforceRedirectUri(): string {
+  const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || process.env.NEXT_PUBLIC_APP_URL || 'https://www.guffles.com';
+  return `${baseUrl}/api/integrations/salesforce/callback`;
+}
+
+// =============================================================================
+// API CLIENT
+// =============================================================================
+
+export class SalesforceApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'SalesforceApiError';
+    this.status = status;
+  }
+}
+
+async function salesforceRequest<T>(
+  instanceUrl: string,
+  accessToken: string,
+  method: 'GET' | 'POST' | 'PATCH',
+  path: string,
+  body?: unknown
+): Promise<T> {
+  const response = await fetch(`${instanceUrl}/services/data/${SALESFORCE_API_VERSION}${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  // PATCH returns 204 No Content
+  const data = response.status === 204 ? null : await response.json().catch(() => null);
+  if (!response.ok) {
+    // Errors come back as [{ message, errorCode, fields }]
+    const detail = Array.isArray(data) ? data[0] : data;
+    throw new SalesforceApiError(
+      detail?.message || `Salesforce request failed (${response.status})`,
+      response.status
+    );
+  }
+  return data as T;
+}
+
+interface SalesforceTokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  instance_url: string;
+  /** Identity URL: https://login.salesforce.com/id/{orgId}/{userId} */
+  id: string;
+}
+
+async function requestSalesforceToken(params: Record<string, string>): Promise<SalesforceTokenResponse> {
+  const response = await fetch(`${SALESFORCE_LOGIN_URL}/services/oauth2/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: process.env.SALESFORCE_CLIENT_ID || '',
+      client_secret: process.env.SALESFORCE_CLIENT_SECRET || '',
+      ...params,
+    }),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.access_token) {
+    throw new SalesforceApiError(
+      data?.error_description || `Salesforce token request failed (${response.status})`,
+      response.status
+    );
+  }
+  return data as SalesforceTokenResponse;
+}
+
+export function getSalesforceAuthorizeUrl(state: string, redirectUri: string): string {
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: process.env.SALESFORCE_CLIENT_ID || '',
+    redirect_uri: redirectUri,
+    scope: 'api refresh_token',
+    state,
+  });
+  return `${SALESFORCE_LOGIN_URL}/services/oauth2/authorize?${params}`;
+}
+
+/**
+ * Exchanges the OAuth code. The org id comes from the identity URL and the
+ * instance host doubles as the account name shown in Settings.
+ */
+export async function exchangeSalesforceCode(
+  code: string,
+  redirectUri: string
+): Promise<{ tokens: CRMIntegrationTokens; account: { id: string | null; name: string | null; instanceUrl: string } }> {
+  const data = await requestSalesforceToken({ grant_type: 'authorization_code', code, redirect_uri: redirectUri });
+
+  return {
+    tokens: {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token || '',
+      expiresIn: SALESFORCE_TOKEN_TTL_SECONDS,
+    },
+    account: {
+      id: data.id?.split('/id/')[1]?.split('/')[0] || null,
+      name: new URL(data.instance_url).hostname,
+      instanceUrl: data.instance_url,
+    },
+  };
+}
+
+export async function refreshSalesforceToken(refreshToken: string): Promise<CRMIntegrationTokens> {
+  const data = await requestSalesforceToken({ grant_type: 'refresh_token', refresh_token: refreshToken });
+  return {
+    accessToken: data.access_token,
+    // Salesforce keeps the same refresh token
+    refreshToken: data.refresh_token || refreshToken,
+    expiresIn: SALESFORCE_TOKEN_TTL_SECONDS,
+  };
+}
+
+// =============================================================================
+// FIELD MAPPING
+// =============================================================================
+
+export type SalesforceMappingKey = CRMSourceField | 'contactProfileUrl' | 'contactEmail';
+
+export const SALESFORCE_FIELDS: {
+  key: SalesforceMappingKey;
+  label: string;
+  object: 'lead' | 'contact';
+  defaultProperty: string;
+}[] = [
+  { key: 'firstName', label: 'First name', object: 'lead', defaultProperty: 'FirstName' },
+  { key: 'lastName', label: 'Last name', object: 'lead', defaultProperty: 'LastName' },
+  { key: 'email', label: 'Email', object: 'lead', defaultProperty: 'Email' },
+  { key: 'jobTitle', label: 'Current title', object: 'lead', defaultProperty: 'Title' },
+  { key: 'company', label: 'Company', object: 'lead', defaultProperty: 'Company' },
+  { key: 'city', label: 'City', object: 'lead', defaultProperty: 'City' },
+  { key: 'country', label: 'Country', object: 'lead', defaultProperty: 'Country' },
+  { key: 'profileUrl', label: 'LinkedIn profile URL', object: 'lead', defaultProperty: '' },
+  { key: 'sourcePostUrl', label: 'Campaign attribution (source post URL)', object: 'lead', defaultProperty: '' },
+  { key: 'headline', label: 'LinkedIn headline', object: 'lead', defaultProperty: '' },
+  { key: 'about', label: 'About', object: 'lead', defaultProperty: '' },
+  { key: 'icpScore', label: 'ICP score', object: 'lead', defaultProperty: '' },
+  { key: 'tags', label: 'Tags', object: 'lead', defaultProperty: '' },
+  { key: 'notes', label: 'Notes', object: 'lead', defaultProperty: '' },
+  { key: 'contactProfileUrl', label: 'LinkedIn profile URL (match)', object: 'contact', defaultProperty: '' },
+  { key: 'contactEmail', label: 'Email (match)', object: 'contact', defaultProperty: 'Email' },
+];
+
+export type SalesforceFieldMapping = Partial<Record<SalesforceMappingKey, string>>;
+
+// Salesforce field API names (custom fields end in __c)
+const FIELD_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]{0,79}$/;
+
+/** Defaults with the user's overrides applied */
+export function resolveSalesforceFieldMapping(overrides?: Record<string, string>): SalesforceFieldMapping {
+  return Object.fromEntries(
+    SALESFORCE_FIELDS.map((field) => [
+      field.key,
+      typeof overrides?.[field.key] === 'string' ? overrides[field.key] : field.defaultProperty,
+    ])
+  );
+}
+
+export type SalesforceFieldMappingParseResult =
+  | { success: true; mapping: SalesforceFieldMapping }
+  | { success: false; error: string };
+
+/**
+ * Validates field mapping overrides from Settings. '' turns a field off,
+ * except LastName and Company which Salesforce requires.
+ *
+ * @example
+ * parseSalesforceFieldMapping({ profileUrl: 'LinkedIn_URL__c', sourcePostUrl: 'Campaign_Post__c' });
+ * // { success: true, mapping: { profileUrl: 'LinkedIn_URL__c', sourcePostUrl: 'Campaign_Post__c' } }
+ */
+export function parseSalesforceFieldMapping(raw: unknown): SalesforceFieldMappingParseResult {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { success: false, error: 'field_mapping must be an object' };
+  }
+
+  const mapping: SalesforceFieldMapping = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    const field = SALESFORCE_FIELDS.find((f) => f.key === key);
+    if (!field) {
+      return { success: false, error: `Unknown field: ${key}` };
+    }
+    if (typeof value !== 'string') {
+      return { success: false, error: `${field.label} must map to a field name` };
+    }
+    const name = value.trim();
+    if (!name && (field.key === 'lastName' || field.key === 'company')) {
+      return { success: false, error: `${field.label} is required on Salesforce Leads` };
+    }
+    if (name && !FIELD_NAME_PATTERN.test(name)) {
+      return { success: false, error: `"${value}" isn't a valid Salesforce field API name` };
+    }
+    mapping[field.key] = name;
+  }
+
+  return { success: true, mapping };
+}
+
+/** Lead fields for create/update. Empty values are left out. */
+export function buildSalesforceLeadFields(
+  lead: CRMLead,
+  mapping: SalesforceFieldMapping
+): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const field of SALESFORCE_FIELDS) {
+    const name = mapping[field.key];
+    // Contact fields are only used for matching
+    if (!name || field.key === 'contactProfileUrl' || field.key === 'contactEmail') continue;
+    const value = getCRMLeadFieldValue(lead, field.key);
+    if (value) fields[name] = value;
+  }
+  return fields;
+}
+
+// =============================================================================
+// PUSH
+// =============================================================================
+
+function soqlString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+async function findSalesforceRecord(
+  instanceUrl: string,
+  accessToken: string,
+  object: 'Lead' | 'Contact',
+  criteria: { field: string | undefined; value: string | null }[]
+): Promise<string | null> {
+  const conditions = criteria
+    .filter((c): c is { field: string; value: string } => !!c.field && !!c.value)
+    .map((c) => `${c.field} = ${soqlString(c.value)}`);
+  if (conditions.length === 0) return null;
+
+  const where = `(${conditions.join(' OR ')})${object === 'Lead' ? ' AND IsConverted = false' : ''}`;
+  const query = `SELECT Id FROM ${object} WHERE ${where} ORDER BY CreatedDate DESC LIMIT 1`;
+  const result = await salesforceRequest<{ records?: { Id: string }[] }>(
+    instanceUrl,
+    accessToken,
+    'GET',
+    `/query?q=${encodeURIComponent(query)}`
+  );
+  return result.records?.[0]?.Id ?? null;
+}
+
+export interface SalesforcePushResult {
+  object: 'Lead' | 'Contact';
+  id: string;
+  action: Extract<CRMSyncAction, 'created' | 'updated' | 'matched'>;
+}
+
+/**
+ * Pushes one lead (see FLOW above for the match order).
+ *
+ * @throws SalesforceApiError on API errors
+ */
+export async function pushLeadToSalesforce(
+  instanceUrl: string,
+  accessToken: string,
+  lead: CRMLead,
+  mapping: SalesforceFieldMapping
+): Promise<SalesforcePushResult> {
+  if (lead.salesforce_id && lead.salesforce_object === 'Contact') {
+    return { object: 'Contact', id: lead.salesforce_id, action: 'matched' };
+  }
+
+  const email = getCRMLeadFieldValue(lead, 'email');
+  const contactId = await findSalesforceRecord(instanceUrl, accessToken, 'Contact', [
+    { field: mapping.contactProfileUrl, value: lead.profile_url },
+    { field: mapping.contactEmail, value: email },
+  ]);
+  if (contactId) {
+    return { object: 'Contact', id: contactId, action: 'matched' };
+  }
+
+  const fields = buildSalesforceLeadFields(lead, mapping);
+
+  let leadId = lead.salesforce_object === 'Lead' ? lead.salesforce_id ?? null : null;
+  if (leadId) {
+    try {
+      await salesforceRequest(instanceUrl, accessToken, 'PATCH', `/sobjects/Lead/${leadId}`, fields);
+      return { object: 'Lead', id: leadId, action: 'updated' };
+    } catch (error) {
+      // Deleted or merged in Salesforce: find/create it again
+      if (!(error instanceof SalesforceApiError) || error.status !== 404) throw error;
+    }
+  }
+
+  leadId = await findSalesforceRecord(instanceUrl, accessToken, 'Lead', [
+    { field: mapping.profileUrl, value: lead.profile_url },
+    { field: mapping.email, value: email },
+  ]);
+  if (leadId) {
+    await salesforceRequest(instanceUrl, accessToken, 'PATCH', `/sobjects/Lead/${leadId}`, fields);
+    return { object: 'Lead', id: leadId, action: 'updated' };
+  }
+
+  const created = await salesforceRequest<{ id: string }>(instanceUrl, accessToken, 'POST', '/sobjects/Lead', {
+    ...fields,
+    [mapping.lastName || 'LastName']: fields[mapping.lastName || 'LastName'] || NOT_PROVIDED,
+    [mapping.company || 'Company']: fields[mapping.company || 'Company'] || NOT_PROVIDED,
+  });
+  return { object: 'Lead', id: created.id, action: 'created' };
+}
+
+export interface SalesforceSyncResult {
+  synced: number;
+  failed: number;
+  leads: CRMLead[];
+}
+
+/**
+ * Pushes the given leads one at a time and records the outcome on each.
+ * A failing lead doesn't stop the rest.
+ *
+ * @throws Error if Salesforce isn't connected or the token can't be refreshed
+ */
+export async function syncLeadsToSalesforce(
+  userId: string,
+  leadIds: string[],
+  client?: SupabaseClient
+): Promise<SalesforceSyncResult> {
+  const supabase = client ?? await createClient();
+
+  const integration = await getCRMIntegration(userId, 'salesforce', supabase);
+  if (!integration?.instance_url) {
+    throw new Error('Salesforce is not connected');
+  }
+  const instanceUrl = integration.instance_url;
+  let accessToken = await getCRMIntegrationAccessToken(integration, refreshSalesforceToken, supabase);
+  let refreshed = false;
+  const mapping = resolveSalesforceFieldMapping(integration.settings.field_mapping);
+
+  const push = async (lead: CRMLead) => {
+    try {
+      return await pushLeadToSalesforce(instanceUrl, accessToken, lead, mapping);
+    } catch (error) {
+      // Session expired early (org timeout policy): refresh once and retry
+      if (error instanceof SalesforceApiError && error.status === 401 && !refreshed) {
+        refreshed = true;
+        accessToken = await refreshCRMIntegrationAccessToken(integration, refreshSalesforceToken, supabase);
+        return pushLeadToSalesforce(instanceUrl, accessToken, lead, mapping);
+      }
+      throw error;
+    }
+  };
+
+  const { data } = await supabase
+    .from('crm_leads')
+    .select('*')
+    .eq('user_id', userId)
+    .in('id', leadIds);
+
+  const result: SalesforceSyncResult = { synced: 0, failed: 0, leads: [] };
+
+  for (const lead of (data || []) as CRMLead[]) {
+    let updates: Partial<CRMLead>;
+    try {
+      const pushed = await push(lead);
+      await logCRMSync({
+        user_id: userId,
+        lead_id: lead.id,
+        provider: 'salesforce',
+        action: pushed.action,
+        external_object: pushed.object,
+        external_id: pushed.id,
+        error: null,
+      }, supabase);
+      updates = {
+        salesforce_id: pushed.id,
+        salesforce_object: pushed.object,
+        salesforce_sync_status: 'synced',
+        salesforce_sync_error: null,
+        salesforce_synced_at: new Date().toISOString(),
+      };
+      result.synced++;
+    } catch (error) {
+      console.error(`[Salesforce] Push failed for lead ${lead.id}:`, error);
+      const message = error instanceof Error ? error.message.slice(0, 500) : 'Unknown error';
+      await logCRMSync({
+        user_id: userId,
+        lead_id: lead.id,
+        provider: 'salesforce',
+        action: 'failed',
+        external_object: lead.salesforce_object ?? null,
+        external_id: lead.salesforce_id ?? null,
+        error: message,
+      }, supabase);
+      updates = {
+        salesforce_sync_status: 'failed',
+        salesforce_sync_error: message,
+        salesforce_synced_at: new Date().toISOString(),
+      };
+      result.failed++;
+    }
+
+    await supabase.from('crm_leads').update(updates).eq('id', lead.id).eq('user_id', userId);
+    result.leads.push({ ...lead, ...updates });
+  }
+
+  return result;
+}
@@ -0,0 +1,396 @@
+// =============================================================================
+// WALLET SPEND LIMITS
+// =============================================================================
+//
+// User-defined caps on what each kind of paid action (WalletActionType) may
+// spend per day, week or month, on top of the wallet balance itself. Stops a
+// careless bulk run from draining the whole wallet in an afternoon.
+//
+// FLOW:
+// =====
+// 1. Every reservation in lib/usage.ts goes through the
+//    reserve_wallet_credits_within_limits RPC, which refuses it if the amount
+//    would take a cap past its limit; describeSpendLimitRefusal names the cap.
+//    checkSpendLimits is the same check without reserving (quotes)
+// 2. After a reservation (or a refusal), notifySpendLimitAlerts fires the
+//    wallet.spend_limit webhook when spend reaches 50/80/100% of a cap, once
+//    per level per period (table: wallet_spend_limit_alerts)
+//
+// Periods are calendar periods in UTC; weeks start on Monday. Spend is what
+// the wallet actually charged, so settled reservations count their real cost
+// (get_wallet_spend_by_action).
+//
+// The RPC locks the wallet row before checking, so concurrent reservations
+// are checked one after another and can't overshoot a cap together.
+//
+// Schema: docs/migrations/2026-10-19-wallet-spend-limits.sql,
+//         docs/migrations/2026-10-19-wallet-spend-limit-reservations.sql
+// =============================================================================
+
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { formatCredits, type WalletActionType } from '@/lib/wallet';
+import { WALLET_ACTION_TYPES } from '@/lib/wallet-ledger';
+import { dispatchWebhookEvent } from '@/lib/webhooks';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type SpendLimitPeriod = 'daily' | 'weekly' | 'monthly';
+
+export const SPEND_LIMIT_PERIODS: { value: SpendLimitPeriod; label: string; current: string; resets: string }[] = [
+  { value: 'daily', label: 'Daily', current: 'today', resets: 'at midnight UTC' },
+  { value: 'weekly', label: 'Weekly', current: 'this week', resets: 'on Monday (00:00 UTC)' },
+  { value: 'monthly', label: 'Monthly', current: 'this month', resets: 'on the 1st (00:00 UTC)' },
+];
+
+export interface SpendLimit {
+  id: string;
+  actionType: WalletActionType;
+  period: SpendLimitPeriod;
+  limitInCents: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SpendLimitStatus extends SpendLimit {
+  spentInCents: number;
+  /** Whole percent of the limit spent this period (can pass 100) */
+  percentUsed: number;
+  periodStart: string;
+  resetsAt: string;
+}
+
+export interface SpendLimitInput {
+  actionType: WalletActionType;
+  period: SpendLimitPeriod;
+  limitInCents: number;
+}
+
+export type SpendLimitInputParseResult =
+  | { success: true; input: SpendLimitInput }
+  | { success: false; error: string };
+
+export type SpendLimitCheckResult =
+  | { allowed: true }
+  /** limit is the cap that refused; absent when spend couldn't be checked */
+  | { allowed: false; reason: string; limit?: SpendLimitStatus };
+
+/** Percent of a limit at which wallet.spend_limit fires */
+export const SPEND_LIMIT_ALERT_PERCENTS = [50, 80, 100] as const;
+
+export const MIN_SPEND_LIMIT_IN_CENTS = 100;
+export const MAX_SPEND_LIMIT_IN_CENTS = 1000000;
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function toSpendLimit(row: Record<string, unknown>): SpendLimit {
+  return {
+    id: row.id as string,
+    actionType: row.action_type as WalletActionType,
+    period: row.period as SpendLimitPeriod,
+    limitInCents: row.limit_in_cents as number,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function getActionLabel(actionType: WalletActionType): string {
+  return WALLET_ACTION_TYPES.find((a) => a.value === actionType)?.label ?? actionType;
+}
+
+function getPeriod(period: SpendLimitPeriod): (typeof SPEND_LIMIT_PERIODS)[number] {
+  return SPEND_LIMIT_PERIODS.find((p) => p.value === period) as (typeof SPEND_LIMIT_PERIODS)[number];
+}
+
+// =============================================================================
+// PERIODS
+// =============================================================================
+
+export function getSpendLimitPeriodStart(period: SpendLimitPeriod, now: Date = new Date()): Date {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  if (period === 'weekly') {
+    // getUTCDay: Sunday = 0; weeks start on Monday
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  } else if (period === 'monthly') {
+    start.setUTCDate(1);
+  }
+  return start;
+}
+
+export function getSpendLimitPeriodEnd(period: SpendLimitPeriod, now: Date = new Date()): Date {
+  const end = getSpendLimitPeriodStart(period, now);
+  if (period === 'daily') {
+    end.setUTCDate(end.getUTCDate() + 1);
+  } else if (period === 'weekly') {
+    end.setUTCDate(end.getUTCDate() + 7);
+  } else {
+    end.setUTCMonth(end.getUTCMonth() + 1);
+  }
+  return end;
+}
+
+// =============================================================================
+// SETTINGS
+// =============================================================================
+
+/** Validates a PUT /api/billing/spend-limits body */
+export function parseSpendLimitInput(body: Record<string, unknown>): SpendLimitInputParseResult {
+  const { actionType, period, limitInCents } = body;
+
+  if (typeof actionType !== 'string' || !WALLET_ACTION_TYPES.some((a) => a.value === actionType)) {
+    return { success: false, error: `actionType must be one of: ${WALLET_ACTION_TYPES.map((a) => a.value).join(', ')}` };
+  }
+
+  if (typeof period !== 'string' || !SPEND_LIMIT_PERIODS.some((p) => p.value === period)) {
+    return { success: false, error: `period must be one of: ${SPEND_LIMIT_PERIODS.map((p) => p.value).join(', ')}` };
+  }
+
+  if (
+    typeof limitInCents !== 'number' ||
+    !Number.isInteger(limitInCents) ||
+    limitInCents < MIN_SPEND_LIMIT_IN_CENTS ||
+    limitInCents > MAX_SPEND_LIMIT_IN_CENTS
+  ) {
+    return {
+      success: false,
+      error: `limitInCents must be a whole number of cents from ${MIN_SPEND_LIMIT_IN_CENTS} to ${MAX_SPEND_LIMIT_IN_CENTS}`,
+    };
+  }
+
+  return {
+    success: true,
+    input: { actionType: actionType as WalletActionType, period: period as SpendLimitPeriod, limitInCents },
+  };
+}
+
+export async function getSpendLimits(
+  userId: string,
+  actionType?: WalletActionType,
+  client?: SupabaseClient
+): Promise<SpendLimit[]> {
+  const supabase = client ?? await createClient();
+  let query = supabase
+    .from('wallet_spend_limits')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+  if (actionType) {
+    query = query.eq('action_type', actionType);
+  }
+
+  // Throws rather than returning [], which would read as "no limits"
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load spend limits: ${error.message}`);
+  }
+
+  return (data ?? []).map(toSpendLimit);
+}
+
+/** Limits with what has been spent against each in its current period */
+export async function getSpendLimitStatuses(
+  userId: string,
+  actionType?: WalletActionType,
+  client?: SupabaseClient
+): Promise<SpendLimitStatus[]> {
+  const supabase = client ?? await createClient();
+  const limits = await getSpendLimits(userId, actionType, supabase);
+  if (limits.length === 0) return [];
+
+  const now = new Date();
+  const periods = Array.from(new Set(limits.map((limit) => limit.period)));
+  const spendByPeriod = new Map<SpendLimitPeriod, Map<string, number>>();
+
+  await Promise.all(periods.map(async (period) => {
+    const { data, error } = await supabase.rpc('get_wallet_spend_by_action', {
+      p_user_id: userId,
+      p_since: getSpendLimitPeriodStart(period, now).toISOString(),
+    });
+    if (error) {
+      throw new Error(`Failed to load ${period} spend: ${error.message}`);
+    }
+    spendByPeriod.set(period, new Map(
+      ((data ?? []) as { action_type: string; spent: number }[]).map((row) => [row.action_type, row.spent])
+    ));
+  }));
+
+  return limits.map((limit) => {
+    const spentInCents = spendByPeriod.get(limit.period)?.get(limit.actionType) ?? 0;
+    return {
+      ...limit,
+      spentInCents,
+      percentUsed: Math.floor((spentInCents / limit.limitInCents) * 100),
+      periodStart: getSpendLimitPeriodStart(limit.period, now).toISOString(),
+      resetsAt: getSpendLimitPeriodEnd(limit.period, now).toISOString(),
+    };
+  });
+}
+
+/** Creates the limit for this action and period, or changes its amount */
+export async function saveSpendLimit(userId: string, input: SpendLimitInput): Promise<SpendLimit | null> {
+  const supabase = await createClient();
+  const now = new Date().toISOString();
+
+  const { data: existing } = await supabase
+    .from('wallet_spend_limits')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('action_type', input.actionType)
+    .eq('period', input.period)
+    .maybeSingle();
+
+  const { data, error } = existing
+    ? await supabase
+        .from('wallet_spend_limits')
+        .update({ limit_in_cents: input.limitInCents, updated_at: now })
+        .eq('id', existing.id)
+        .select()
+        .single()
+    : await supabase
+        .from('wallet_spend_limits')
+        .insert({
+          id: generateId('spendlimit'),
+          user_id: userId,
+          action_type: input.actionType,
+          period: input.period,
+          limit_in_cents: input.limitInCents,
+          created_at: now,
+          updated_at: now,
+        })
+        .select()
+        .single();
+
+  if (error || !data) {
+    console.error('[Spend Limits] Failed to save limit:', error);
+    return null;
+  }
+
+  return toSpendLimit(data);
+}
+
+export async function deleteSpendLimit(limitId: string, userId: string): Promise<boolean> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('wallet_spend_limits')
+    .delete()
+    .eq('id', limitId)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    console.error('[Spend Limits] Failed to delete limit:', error);
+    return false;
+  }
+
+  return (data?.length ?? 0) > 0;
+}
+
+// =============================================================================
+// ENFORCEMENT
+// =============================================================================
+
+/**
+ * Whether reserving `amount` more for this action keeps every one of its caps
+ * within limit. The refusal names the first cap it would break. Refuses when
+ * spend can't be loaded, rather than letting a capped action through.
+ */
+export async function checkSpendLimits(
+  userId: string,
+  actionType: WalletActionType,
+  amount: number,
+  client?: SupabaseClient
+): Promise<SpendLimitCheckResult> {
+  let statuses: SpendLimitStatus[];
+  try {
+    statuses = await getSpendLimitStatuses(userId, actionType, client);
+  } catch (error) {
+    console.error('[Spend Limits] Failed to check limits:', error);
+    return { allowed: false, reason: 'Unable to verify spend limits. Please try again.' };
+  }
+
+  const blocking = statuses.find((limit) => limit.spentInCents + amount > limit.limitInCents);
+  if (!blocking) return { allowed: true };
+
+  return {
+    allowed: false,
+    limit: blocking,
+    reason: describeSpendLimitRefusal(actionType, blocking, amount),
+  };
+}
+
+/** Why a reservation of `amount` was refused by this cap, for the user */
+export function describeSpendLimitRefusal(
+  actionType: WalletActionType,
+  limit: Pick<SpendLimit, 'period' | 'limitInCents'> & { spentInCents: number },
+  amount: number
+): string {
+  const period = getPeriod(limit.period);
+  return (
+    `${period.label} spend limit reached for ${getActionLabel(actionType).toLowerCase()}: ` +
+    `${formatCredits(limit.spentInCents)} of ${formatCredits(limit.limitInCents)} spent ${period.current}, ` +
+    `and this needs up to ${formatCredits(amount)}. ` +
+    `The limit resets ${period.resets}, or a workspace admin can raise it in Settings > Billing.`
+  );
+}
+
+/**
+ * Fires wallet.spend_limit for every cap on this action whose spend has
+ * reached a new alert level this period. A cap that just refused a
+ * reservation (blockedLimitId) counts as 100%. Runs in after(); never throws.
+ */
+export async function notifySpendLimitAlerts(
+  userId: string,
+  actionType: WalletActionType,
+  blockedLimitId?: string
+): Promise<void> {
+  try {
+    const supabase = createAdminClient();
+    const statuses = await getSpendLimitStatuses(userId, actionType, supabase);
+
+    for (const limit of statuses) {
+      const blocked = limit.id === blockedLimitId;
+      const percentUsed = blocked ? Math.max(limit.percentUsed, 100) : limit.percentUsed;
+      const reached = SPEND_LIMIT_ALERT_PERCENTS.filter((percent) => percentUsed >= percent);
+      if (reached.length === 0) continue;
+
+      // Claims each level once per period; levels skipped past are recorded too
+      const { data: claimed, error } = await supabase
+        .from('wallet_spend_limit_alerts')
+        .upsert(
+          reached.map((percent) => ({
+            limit_id: limit.id,
+            period_start: limit.periodStart,
+            threshold_percent: percent,
+            spent_in_cents: limit.spentInCents,
+          })),
+          { onConflict: 'limit_id,period_start,threshold_percent', ignoreDuplicates: true }
+        )
+        .select('threshold_percent');
+
+      if (error) {
+        console.error('[Spend Limits] Failed to record alert:', error);
+        continue;
+      }
+      if (!claimed || claimed.length === 0) continue;
+
+      const thresholdPercent = Math.max(...claimed.map((row) => row.threshold_percent as number));
+      await dispatchWebhookEvent(userId, 'wallet.spend_limit', {
+        action_type: limit.actionType,
+        period: limit.period,
+        threshold_percent: thresholdPercent,
+        limit_in_cents: limit.limitInCents,
+        spent_in_cents: limit.spentInCents,
+        blocked,
+        period_start: limit.periodStart,
+        resets_at: limit.resetsAt,
+      }, supabase);
+    }
+  } catch (error) {
+    console.error('[Spend Limits] Alert check failed:', error);
+  }
+}
@@ -21,20 +21,73 @@
  * the request alone. They check the checkout_sessions table (updated by webhook)
  * to verify payment succeeded. Only the webhook can mark sessions as 'completed'.
  *
+ * UPDATE (19th Oct 2026) - API Keys:
+ * ===================================
+ * Requests to API_KEY_PATHS with "Authorization: Bearer gk_..." are
+ * authenticated by API key instead of the session cookie (see
+ * lib/api-keys.ts). An invalid key gets a JSON 401 (not the login redirect),
+ * an exhausted rate limit a 429 with Retry-After.
+ *
+ * SECURITY: The API_KEY_HEADERS are stripped from EVERY incoming request
+ * before anything else, so only this middleware can set them.
+ *
  * @see SUPABASE_AUTH_MIGRATION.md for full migration documentation
  */
 
 import { createServerClient } from '@supabase/ssr'
 import { NextResponse, type NextRequest } from 'next/server'
+import {
+  API_KEY_EMAIL_HEADER,
+  API_KEY_HEADERS,
+  API_KEY_ID_HEADER,
+  API_KEY_SCOPES_HEADER,
+  authenticateApiKey,
+  getApiKeyFromAuthorization,
+} from '@/lib/api-keys'
+
+// Routes that accept API keys (each handler still checks the key's scope)
+const API_KEY_PATHS = ['/api/analyses', '/api/analysis-jobs', '/api/crm', '/api/billing']
+
+/**
+ * Authenticates an API key request. Returns the response to send: the
+ * request forwarded with the key's user and scopes, or a JSON error.
+ */
+async function handleApiKeyRequest(request: NextRequest, key: string) {
+  const result = await authenticateApiKey(key, request.nextUrl.pathname)
+
+  if (!result.success) {
+    return NextResponse.json(
+      { error: result.error },
+      {
+        status: result.status,
+        headers: result.retryAfterSeconds ? { 'Retry-After': String(result.retryAfterSeconds) } : undefined,
+      }
+    )
+  }
+
+  request.headers.set(API_KEY_ID_HEADER, result.keyId)
+  request.headers.set(API_KEY_EMAIL_HEADER, result.email)
+  request.headers.set(API_KEY_SCOPES_HEADER, result.scopes.join(' '))
+  return NextResponse.next({ request })
+}
 
 /**
  * Updates the user session and handles route protection.
  * Called by the root middleware.ts on every request.
  * 
- * Protected paths: /dashboard, /onboarding, /api/user, /api/analyses, /api/crm, /api/billing, /api/onboarding
+ * Protected paths: /dashboard, /onboarding, /api/user, /api/analyses, /api/analysis-jobs, /api/analysis-batches, /api/monitoring, /api/discovery, /api/crm, /api/billing, /api/onboarding
  * Auth paths (redirect if logged in): /login, /signup
+ * API key paths: API_KEY_PATHS
  */
 export async function updateSession(request: NextRequest) {
+  // Only handleApiKeyRequest may set these
+  API_KEY_HEADERS.forEach(header => request.headers.delete(header))
+
+  const apiKey = getApiKeyFromAuthorization(request.headers.get('authorization'))
+  if (apiKey && API_KEY_PATHS.some(path => request.nextUrl.pathname.startsWith(path))) {
+    return handleApiKeyRequest(request, apiKey)
+  }
+
   // Create initial response
   let supabaseResponse = NextResponse.next({
     request,
@@ -104,7 +157,14 @@ export async function updateSession(request: NextRequest) {
     '/onboarding',
     '/api/user',
     '/api/analyses',
+    '/api/analysis-jobs',
+    '/api/analysis-batches',
+    '/api/monitoring',
+    '/api/discovery',
     '/api/crm',
+    '/api/integrations',
+    '/api/workspace',
+    '/api/clients',
     '/api/billing',
     '/api/onboarding'
   ]
@@ -10,7 +10,9 @@
  */
 
 import { createServerClient } from '@supabase/ssr'
-import { cookies } from 'next/headers'
+import { cookies, headers } from 'next/headers'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { API_KEY_ID_HEADER } from '@/lib/api-keys'
 
 /**
  * Creates a Supabase client for use in server-side code.
@@ -20,8 +22,16 @@ import { cookies } from 'next/headers'
  * - Server Actions that need auth
  * 
  * IMPORTANT: This function is async because it needs to access cookies().
+ *
+ * API KEYS: Requests authenticated by API key (header set by the middleware,
+ * see lib/api-keys.ts) have no session for RLS, so they get the admin client.
+ * Data functions scope every query by user id.
  */
 export async function createClient() {
+  if ((await headers()).has(API_KEY_ID_HEADER)) {
+    return createAdminClient()
+  }
+
   const cookieStore = await cookies()
 
   return createServerClient(
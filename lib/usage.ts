@@ -19,23 +19,42 @@
 //
 // 3. deductCredits return value is now properly checked
 //    - Previously ignored failures which could lead to silent billing issues
+//
+// TEAM WORKSPACES - 19th October 2026
+// ===================================
+// userId is the account whose wallet is charged: the workspace owner for
+// members (see getAccountContext in lib/workspaces.ts). Reservations also take
+// the signed-in member as actorUserId; it's kept in the wallet metadata and
+// becomes wallet_transactions.actor_user_id for per-member spend.
+//
+// SPEND LIMITS - 19th October 2026
+// ================================
+// Every reservation goes through reserveWithinSpendLimits, which refuses
+// amounts that would break one of the account's daily/weekly/monthly caps for
+// that action (lib/spend-limits.ts) and schedules the budget alerts.
 // =============================================================================
 
+import { after } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { getPlanLimits } from './plans';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { getPlanLimits, resolveScrapeOptions, type ResolvedScrapeOptions, type ScrapeOptions, type ScrapingCaps } from './plans';
 import {
   hasEnoughCredits,
   deductCredits,
   getWalletStatus,
   CREDIT_COSTS,
-  WALLET_PLANS,
-  isWalletPlan,
+  calculatePostAnalysisCost,
+  estimateMaxPostAnalysisCost,
+  formatCredits,
   releaseExpiredWalletReservations,
   reserveCredits,
   settleCreditReservation,
   releaseCreditReservation,
+  type WalletActionType,
+  type WalletReservationResult,
   type WalletStatus,
 } from './wallet';
+import { checkSpendLimits, describeSpendLimitRefusal, notifySpendLimitAlerts } from './spend-limits';
 
 // =============================================================================
 // TYPES
@@ -70,11 +89,49 @@ export interface UsageReservationResult extends UsageCheckResult {
   reservedAmount?: number;
 }
 
+export interface AnalysisReservationResult extends UsageReservationResult {
+  /** The caps and reaction types the reservation was sized to */
+  scrapeOptions?: ResolvedScrapeOptions;
+}
+
+/**
+ * What an action would cost and whether its reservation would go through
+ * right now. Nothing is reserved.
+ */
+export interface UsageQuote {
+  actionType: WalletActionType;
+  /** Likely charge, in cents */
+  expectedCost: number;
+  /** What the reservation holds up front: the most it can charge */
+  maxCost: number;
+  balance: number;
+  /** Balance once the expected charge settles */
+  balanceAfter: number;
+  /** Balance while the reservation is held */
+  balanceAfterReservation: number;
+  wouldSucceed: boolean;
+  /** Why the reservation would be refused */
+  reason?: string;
+  topUpAvailable?: boolean;
+}
+
+export interface AnalysisQuote extends UsageQuote {
+  totalReactions: number;
+  totalComments: number;
+  /** Reactions and comments that would be scraped under the plan caps */
+  reactionsToScrape: number;
+  commentsToScrape: number;
+  reactionCap: number;
+  commentCap: number;
+}
+
 export interface AnalysisMetadata {
   postUrl: string;
   reactionsScraped: number;
   commentsScraped: number;
   leadsFound: number;
+  /** Background job the reservation belongs to (lib/analysis-jobs.ts) */
+  jobId?: string;
 }
 
 export interface UsageStats {
@@ -106,8 +163,12 @@ function getDefaultUsageInfo(): UsageInfo {
   };
 }
 
-async function hasWalletBillingAccess(userId: string, walletStatus: WalletStatus | null): Promise<{ allowed: boolean; reason?: string }> {
-  const supabase = await createClient();
+async function hasWalletBillingAccess(
+  userId: string,
+  walletStatus: WalletStatus | null,
+  client?: SupabaseClient
+): Promise<{ allowed: boolean; reason?: string }> {
+  const supabase = client ?? await createClient();
   const { data: subscription } = await supabase
     .from('subscriptions')
     .select('status, current_period_end')
@@ -141,14 +202,46 @@ async function hasWalletBillingAccess(userId: string, walletStatus: WalletStatus
   return { allowed: false, reason: 'Your wallet is empty. Start a trial or add credits to continue.' };
 }
 
-function getEstimatedAnalysisCost(plan: string): number {
-  const planConfig = isWalletPlan(plan)
-    ? WALLET_PLANS[plan as keyof typeof WALLET_PLANS]
-    : null;
+/**
+ * Max cost reserved for one post analysis on this plan. Wallet plans use
+ * estimateMaxPostAnalysisCost; anything else falls back to 100 reactions
+ * and 75 comments.
+ */
+export function getEstimatedAnalysisCost(plan: string): number {
+  return estimateMaxPostAnalysisCost(plan) ??
+    CREDIT_COSTS.postAnalysisBase +
+    (100 * CREDIT_COSTS.perReaction) +
+    (75 * CREDIT_COSTS.perComment);
+}
 
-  return CREDIT_COSTS.postAnalysisBase +
-    ((planConfig?.reactionsPerPost ?? 100) * CREDIT_COSTS.perReaction) +
-    ((planConfig?.commentsPerPost ?? 75) * CREDIT_COSTS.perComment);
+/**
+ * reserveCredits behind the account's spend limits. A refusal by a limit sets
+ * spendLimitReached, since topping up the wallet wouldn't help.
+ */
+async function reserveWithinSpendLimits(
+  userId: string,
+  amount: number,
+  actionType: WalletActionType,
+  reason: string,
+  metadata?: Record<string, unknown>,
+  client?: SupabaseClient
+): Promise<WalletReservationResult & { spendLimitReached?: boolean }> {
+  // The limits are checked inside the reservation RPC, under the wallet's row lock
+  const reservation = await reserveCredits(userId, amount, actionType, reason, metadata, client);
+  const blocking = reservation.spendLimit;
+  if (blocking) {
+    after(() => notifySpendLimitAlerts(userId, actionType, blocking.id));
+    return {
+      ...reservation,
+      error: describeSpendLimitRefusal(actionType, blocking, amount),
+      spendLimitReached: true,
+    };
+  }
+
+  if (reservation.success) {
+    after(() => notifySpendLimitAlerts(userId, actionType));
+  }
+  return reservation;
 }
 
 function getActualAnalysisCost(metadata: AnalysisMetadata): number {
@@ -214,8 +307,10 @@ export async function getUsageInfo(userId: string): Promise<UsageInfo | null> {
  * - Scale: up to 1000 reactions + 600 comments = ~$16.01 max
  *
  * This ensures users have enough credits BEFORE we start expensive operations.
+ * An analysis with lower caps (per-analysis scrape options) passes its own
+ * estimatedMaxCost.
  */
-export async function canAnalyze(userId: string): Promise<UsageCheckResult> {
+export async function canAnalyze(userId: string, estimatedMaxCost?: number): Promise<UsageCheckResult> {
   const usage = await getUsageInfo(userId);
 
   if (!usage) {
@@ -237,14 +332,14 @@ export async function canAnalyze(userId: string): Promise<UsageCheckResult> {
     };
   }
 
-  const estimatedMaxCost = getEstimatedAnalysisCost(usage.plan);
+  const maxCost = estimatedMaxCost ?? getEstimatedAnalysisCost(usage.plan);
 
-  const hasCredits = await hasEnoughCredits(userId, estimatedMaxCost);
+  const hasCredits = await hasEnoughCredits(userId, maxCost);
 
   if (!hasCredits) {
     return {
       allowed: false,
-      reason: `Insufficient credits. You have $${((walletStatus?.balanceInCents || usage.walletBalance) / 100).toFixed(2)} but may need up to $${(estimatedMaxCost / 100).toFixed(2)} for a full analysis.`,
+      reason: `Insufficient credits. You have $${((walletStatus?.balanceInCents || usage.walletBalance) / 100).toFixed(2)} but may need up to $${(maxCost / 100).toFixed(2)} for ${estimatedMaxCost === undefined ? 'a full analysis' : 'this analysis'}.`,
       topUpAvailable: true,
       usage,
     };
@@ -253,17 +348,26 @@ export async function canAnalyze(userId: string): Promise<UsageCheckResult> {
   return { allowed: true, usage };
 }
 
+/**
+ * Reserves the most one analysis can cost: the plan's full caps, or the lower
+ * caps chosen in options. The resolved caps come back as scrapeOptions for
+ * the job to scrape with, so it can't scrape past what was reserved.
+ */
 export async function reserveAnalysisCredits(
   userId: string,
-  postUrl: string
-): Promise<UsageReservationResult> {
+  postUrl: string,
+  actorUserId?: string,
+  options?: ScrapeOptions
+): Promise<AnalysisReservationResult> {
   await releaseExpiredWalletReservations(userId);
 
-  const usageCheck = await canAnalyze(userId);
+  const scrapeOptions = resolveScrapeOptions(await getScrapingCaps(userId), options);
+  const estimatedMaxCost = calculatePostAnalysisCost(scrapeOptions.reactionCap, scrapeOptions.commentCap);
+
+  const usageCheck = await canAnalyze(userId, options ? estimatedMaxCost : undefined);
   if (!usageCheck.allowed) return usageCheck;
 
-  const estimatedMaxCost = getEstimatedAnalysisCost(usageCheck.usage.plan);
-  const reservation = await reserveCredits(
+  const reservation = await reserveWithinSpendLimits(
     userId,
     estimatedMaxCost,
     'post_analysis',
@@ -272,6 +376,10 @@ export async function reserveAnalysisCredits(
       postUrl,
       reservedAmount: estimatedMaxCost,
       reservationType: 'post_analysis',
+      actorUserId,
+      reactionCap: scrapeOptions.reactionCap,
+      commentCap: scrapeOptions.commentCap,
+      ...(scrapeOptions.reactionTypes.length > 0 && { reactionTypes: scrapeOptions.reactionTypes }),
     }
   );
 
@@ -279,7 +387,7 @@ export async function reserveAnalysisCredits(
     return {
       allowed: false,
       reason: reservation.error || 'Unable to reserve wallet credits. Please try again.',
-      topUpAvailable: true,
+      topUpAvailable: !reservation.spendLimitReached,
       usage: usageCheck.usage,
     };
   }
@@ -289,6 +397,7 @@ export async function reserveAnalysisCredits(
     usage: usageCheck.usage,
     reservationId: reservation.reservationId,
     reservedAmount: estimatedMaxCost,
+    scrapeOptions,
   };
 }
 
@@ -332,13 +441,16 @@ export async function canEnrich(userId: string): Promise<UsageCheckResult> {
   return { allowed: true, usage };
 }
 
-export async function reserveEnrichmentCredits(userId: string): Promise<UsageReservationResult> {
+export async function reserveEnrichmentCredits(
+  userId: string,
+  actorUserId?: string
+): Promise<UsageReservationResult> {
   await releaseExpiredWalletReservations(userId);
 
   const usageCheck = await canEnrich(userId);
   if (!usageCheck.allowed) return usageCheck;
 
-  const reservation = await reserveCredits(
+  const reservation = await reserveWithinSpendLimits(
     userId,
     CREDIT_COSTS.profileEnrichment,
     'profile_enrichment',
@@ -346,6 +458,7 @@ export async function reserveEnrichmentCredits(userId: string): Promise<UsageRes
     {
       reservedAmount: CREDIT_COSTS.profileEnrichment,
       reservationType: 'profile_enrichment',
+      actorUserId,
     }
   );
 
@@ -353,7 +466,7 @@ export async function reserveEnrichmentCredits(userId: string): Promise<UsageRes
     return {
       allowed: false,
       reason: reservation.error || 'Unable to reserve wallet credits. Please try again.',
-      topUpAvailable: true,
+      topUpAvailable: !reservation.spendLimitReached,
       usage: usageCheck.usage,
     };
   }
@@ -424,9 +537,10 @@ export async function incrementAnalysisUsage(
 export async function settleAnalysisUsage(
   userId: string,
   reservationId: string,
-  metadata: AnalysisMetadata
+  metadata: AnalysisMetadata,
+  client?: SupabaseClient
 ): Promise<{ success: boolean; error?: string }> {
-  const supabase = await createClient();
+  const supabase = client ?? await createClient();
   const cost = getActualAnalysisCost(metadata);
 
   const settlement = await settleCreditReservation(userId, reservationId, cost, {
@@ -434,7 +548,8 @@ export async function settleAnalysisUsage(
     reactionsScraped: metadata.reactionsScraped,
     commentsScraped: metadata.commentsScraped,
     leadsFound: metadata.leadsFound,
-  });
+    ...(metadata.jobId && { jobId: metadata.jobId }),
+  }, supabase);
 
   if (!settlement.success) {
     console.error('[Usage] Failed to settle analysis reservation:', settlement.error);
@@ -460,12 +575,13 @@ export async function settleAnalysisUsage(
 export async function releaseAnalysisReservation(
   userId: string,
   reservationId: string,
-  metadata?: Record<string, unknown>
+  metadata?: Record<string, unknown>,
+  client?: SupabaseClient
 ): Promise<{ success: boolean; error?: string }> {
   const release = await releaseCreditReservation(userId, reservationId, {
     reservationType: 'post_analysis',
     ...metadata,
-  });
+  }, client);
 
   if (!release.success) {
     return { success: false, error: release.error || 'Failed to release wallet reservation' };
@@ -562,6 +678,490 @@ export async function releaseEnrichmentReservation(
   return { success: true };
 }
 
+/**
+ * Reserves enrichment credits for a whole bulk batch in one reservation
+ * (CREDIT_COSTS.profileEnrichment x leadCount).
+ */
+export async function reserveBatchEnrichmentCredits(
+  userId: string,
+  leadCount: number,
+  actorUserId?: string
+): Promise<UsageReservationResult> {
+  await releaseExpiredWalletReservations(userId);
+
+  const usageCheck = await canEnrich(userId);
+  if (!usageCheck.allowed) return usageCheck;
+
+  const amount = CREDIT_COSTS.profileEnrichment * leadCount;
+  const reservation = await reserveWithinSpendLimits(
+    userId,
+    amount,
+    'profile_enrichment',
+    `Bulk enrichment reservation: ${leadCount} profiles`,
+    {
+      leadCount,
+      reservedAmount: amount,
+      reservationType: 'profile_enrichment',
+      actorUserId,
+    }
+  );
+
+  if (!reservation.success || !reservation.reservationId) {
+    return {
+      allowed: false,
+      reason: reservation.error || 'Unable to reserve wallet credits. Please try again.',
+      topUpAvailable: !reservation.spendLimitReached,
+      usage: usageCheck.usage,
+    };
+  }
+
+  return {
+    allowed: true,
+    usage: usageCheck.usage,
+    reservationId: reservation.reservationId,
+    reservedAmount: amount,
+  };
+}
+
+/**
+ * Settles a bulk enrichment reservation for the profiles actually found; the
+ * rest of the reservation is refunded. Called from after(), hence the client.
+ */
+export async function settleBatchEnrichmentUsage(
+  userId: string,
+  reservationId: string,
+  enrichedCount: number,
+  client?: SupabaseClient
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = client ?? await createClient();
+
+  const settlement = await settleCreditReservation(
+    userId,
+    reservationId,
+    CREDIT_COSTS.profileEnrichment * enrichedCount,
+    { reservationType: 'profile_enrichment', enrichedCount },
+    supabase
+  );
+
+  if (!settlement.success) {
+    console.error('[Usage] Failed to settle bulk enrichment reservation:', settlement.error);
+    return { success: false, error: settlement.error || 'Failed to settle wallet reservation' };
+  }
+
+  if (enrichedCount > 0) {
+    const { error: logError } = await supabase
+      .from('usage_logs')
+      .insert(Array.from({ length: enrichedCount }, () => ({ user_id: userId, action: 'enrichment' })));
+
+    if (logError) {
+      console.error('[Usage] Failed to log bulk enrichment usage (non-critical):', logError);
+    }
+  }
+
+  return { success: true };
+}
+
+// =============================================================================
+// AI POST DISCOVERY
+// =============================================================================
+
+export async function reserveSearchCredits(
+  userId: string,
+  query: string,
+  actorUserId?: string
+): Promise<UsageReservationResult> {
+  const usage = await getUsageInfo(userId);
+  if (!usage) {
+    return {
+      allowed: false,
+      reason: 'Unable to verify usage limits. Please try again.',
+      usage: getDefaultUsageInfo(),
+    };
+  }
+
+  const walletStatus = await getWalletStatus(userId);
+  const access = await hasWalletBillingAccess(userId, walletStatus);
+  if (!access.allowed) {
+    return { allowed: false, reason: access.reason, topUpAvailable: true, usage };
+  }
+
+  const reservation = await reserveWithinSpendLimits(
+    userId,
+    CREDIT_COSTS.aiSearch,
+    'ai_search',
+    `AI search reservation: ${query}`,
+    {
+      query,
+      reservedAmount: CREDIT_COSTS.aiSearch,
+      reservationType: 'ai_search',
+      actorUserId,
+    }
+  );
+
+  if (!reservation.success || !reservation.reservationId) {
+    return {
+      allowed: false,
+      reason: reservation.error || 'Unable to reserve wallet credits. Please try again.',
+      topUpAvailable: !reservation.spendLimitReached,
+      usage,
+    };
+  }
+
+  return {
+    allowed: true,
+    usage,
+    reservationId: reservation.reservationId,
+    reservedAmount: CREDIT_COSTS.aiSearch,
+  };
+}
+
+export async function settleSearchUsage(
+  userId: string,
+  reservationId: string,
+  metadata: { query: string; resultsFound: number }
+): Promise<{ success: boolean; error?: string }> {
+  const settlement = await settleCreditReservation(userId, reservationId, CREDIT_COSTS.aiSearch, {
+    reservationType: 'ai_search',
+    ...metadata,
+  });
+
+  if (!settlement.success) {
+    console.error('[Usage] Failed to settle search reservation:', settlement.error);
+    return { success: false, error: settlement.error || 'Failed to settle wallet reservation' };
+  }
+
+  return { success: true };
+}
+
+export async function releaseSearchReservation(
+  userId: string,
+  reservationId: string,
+  metadata?: Record<string, unknown>
+): Promise<{ success: boolean; error?: string }> {
+  const release = await releaseCreditReservation(userId, reservationId, {
+    reservationType: 'ai_search',
+    ...metadata,
+  });
+
+  if (!release.success) {
+    return { success: false, error: release.error || 'Failed to release wallet reservation' };
+  }
+
+  return { success: true };
+}
+
+// =============================================================================
+// EMAIL LOOKUP
+// =============================================================================
+//
+// Reserved before calling the email finder provider. Settled when an email is
+// returned (found or risky), released when nothing is found.
+
+export async function reserveEmailLookupCredits(
+  userId: string,
+  leadId: string,
+  actorUserId?: string
+): Promise<UsageReservationResult> {
+  const usage = await getUsageInfo(userId);
+  if (!usage) {
+    return {
+      allowed: false,
+      reason: 'Unable to verify usage limits. Please try again.',
+      usage: getDefaultUsageInfo(),
+    };
+  }
+
+  const walletStatus = await getWalletStatus(userId);
+  const access = await hasWalletBillingAccess(userId, walletStatus);
+  if (!access.allowed) {
+    return { allowed: false, reason: access.reason, topUpAvailable: true, usage };
+  }
+
+  const reservation = await reserveWithinSpendLimits(
+    userId,
+    CREDIT_COSTS.emailLookup,
+    'email_lookup',
+    'Email lookup reservation',
+    {
+      leadId,
+      reservedAmount: CREDIT_COSTS.emailLookup,
+      reservationType: 'email_lookup',
+      actorUserId,
+    }
+  );
+
+  if (!reservation.success || !reservation.reservationId) {
+    return {
+      allowed: false,
+      reason: reservation.error || 'Unable to reserve wallet credits. Please try again.',
+      topUpAvailable: !reservation.spendLimitReached,
+      usage,
+    };
+  }
+
+  return {
+    allowed: true,
+    usage,
+    reservationId: reservation.reservationId,
+    reservedAmount: CREDIT_COSTS.emailLookup,
+  };
+}
+
+export async function settleEmailLookupUsage(
+  userId: string,
+  reservationId: string,
+  metadata: { leadId: string; emailStatus: string; provider: string }
+): Promise<{ success: boolean; error?: string }> {
+  const settlement = await settleCreditReservation(userId, reservationId, CREDIT_COSTS.emailLookup, {
+    reservationType: 'email_lookup',
+    ...metadata,
+  });
+
+  if (!settlement.success) {
+    console.error('[Usage] Failed to settle email lookup reservation:', settlement.error);
+    return { success: false, error: settlement.error || 'Failed to settle wallet reservation' };
+  }
+
+  return { success: true };
+}
+
+export async function releaseEmailLookupReservation(
+  userId: string,
+  reservationId: string,
+  metadata?: Record<string, unknown>
+): Promise<{ success: boolean; error?: string }> {
+  const release = await releaseCreditReservation(userId, reservationId, {
+    reservationType: 'email_lookup',
+    ...metadata,
+  });
+
+  if (!release.success) {
+    return { success: false, error: release.error || 'Failed to release wallet reservation' };
+  }
+
+  return { success: true };
+}
+
+// =============================================================================
+// PROFILE MONITORING
+// =============================================================================
+//
+// Monitoring runs from the cron checker without a user session, so these
+// take an optional admin client. Setup and check fees are billed as
+// 'profile_monitoring'; the analyses of new posts are ordinary
+// 'post_analysis' reservations sized to the plan's monitored caps.
+// =============================================================================
+
+export type MonitoringCharge = 'setup' | 'check';
+
+function getMonitoringCost(charge: MonitoringCharge): number {
+  return charge === 'setup'
+    ? CREDIT_COSTS.profileMonitoringSetup
+    : CREDIT_COSTS.profileMonitoringCheck;
+}
+
+export async function reserveMonitoringCredits(
+  userId: string,
+  charge: MonitoringCharge,
+  metadata: { profileUrl: string; monitoredProfileId?: string; actorUserId?: string },
+  client?: SupabaseClient
+): Promise<{ success: boolean; reservationId?: string; error?: string }> {
+  const walletStatus = await getWalletStatus(userId, client);
+  const access = await hasWalletBillingAccess(userId, walletStatus, client);
+  if (!access.allowed) {
+    return { success: false, error: access.reason };
+  }
+
+  const cost = getMonitoringCost(charge);
+  const reservation = await reserveWithinSpendLimits(
+    userId,
+    cost,
+    'profile_monitoring',
+    `Profile monitoring ${charge} reservation: ${metadata.profileUrl}`,
+    {
+      ...metadata,
+      monitoringCharge: charge,
+      reservedAmount: cost,
+      reservationType: 'profile_monitoring',
+    },
+    client
+  );
+
+  if (!reservation.success || !reservation.reservationId) {
+    return { success: false, error: reservation.error || 'Unable to reserve wallet credits. Please try again.' };
+  }
+
+  return { success: true, reservationId: reservation.reservationId };
+}
+
+export async function settleMonitoringUsage(
+  userId: string,
+  reservationId: string,
+  charge: MonitoringCharge,
+  metadata?: Record<string, unknown>,
+  client?: SupabaseClient
+): Promise<{ success: boolean; error?: string }> {
+  const settlement = await settleCreditReservation(userId, reservationId, getMonitoringCost(charge), {
+    reservationType: 'profile_monitoring',
+    monitoringCharge: charge,
+    ...metadata,
+  }, client);
+
+  if (!settlement.success) {
+    console.error('[Usage] Failed to settle monitoring reservation:', settlement.error);
+    return { success: false, error: settlement.error || 'Failed to settle wallet reservation' };
+  }
+
+  return { success: true };
+}
+
+export async function releaseMonitoringReservation(
+  userId: string,
+  reservationId: string,
+  metadata?: Record<string, unknown>,
+  client?: SupabaseClient
+): Promise<{ success: boolean; error?: string }> {
+  const release = await releaseCreditReservation(userId, reservationId, {
+    reservationType: 'profile_monitoring',
+    ...metadata,
+  }, client);
+
+  if (!release.success) {
+    return { success: false, error: release.error || 'Failed to release wallet reservation' };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Reserves credits for an automatic analysis of a monitored profile's new
+ * post. Sized to the given caps (the plan's monitoredReactions and
+ * monitoredComments) and settled by the analysis worker like any other job.
+ */
+export async function reserveMonitoredAnalysisCredits(
+  userId: string,
+  postUrl: string,
+  caps: { reactionCap: number; commentCap: number },
+  client?: SupabaseClient
+): Promise<{ success: boolean; reservationId?: string; error?: string }> {
+  const walletStatus = await getWalletStatus(userId, client);
+  const access = await hasWalletBillingAccess(userId, walletStatus, client);
+  if (!access.allowed) {
+    return { success: false, error: access.reason };
+  }
+
+  const estimatedMaxCost = calculatePostAnalysisCost(caps.reactionCap, caps.commentCap);
+  const reservation = await reserveWithinSpendLimits(
+    userId,
+    estimatedMaxCost,
+    'post_analysis',
+    `Monitored post analysis reservation: ${postUrl}`,
+    {
+      postUrl,
+      reservedAmount: estimatedMaxCost,
+      reservationType: 'post_analysis',
+      monitored: true,
+    },
+    client
+  );
+
+  if (!reservation.success || !reservation.reservationId) {
+    return { success: false, error: reservation.error || 'Unable to reserve wallet credits. Please try again.' };
+  }
+
+  return { success: true, reservationId: reservation.reservationId };
+}
+
+// =============================================================================
+// COST QUOTES
+// =============================================================================
+//
+// Pre-flight answers for "what will this cost?", run through the same checks
+// as the reservation (billing access, balance, spend limits) without
+// reserving anything. The reservation can still fail if the balance or spend
+// changes in between.
+
+/** Whether billing lets this account spend wallet credits at all */
+export async function checkWalletBillingAccess(userId: string): Promise<{ allowed: boolean; reason?: string }> {
+  const walletStatus = await getWalletStatus(userId);
+  return hasWalletBillingAccess(userId, walletStatus);
+}
+
+async function quoteReservation(
+  userId: string,
+  actionType: WalletActionType,
+  expectedCost: number,
+  maxCost: number
+): Promise<UsageQuote> {
+  const walletStatus = await getWalletStatus(userId);
+  const balance = walletStatus?.balanceInCents || 0;
+  const quote: UsageQuote = {
+    actionType,
+    expectedCost,
+    maxCost,
+    balance,
+    balanceAfter: balance - expectedCost,
+    balanceAfterReservation: balance - maxCost,
+    wouldSucceed: false,
+  };
+
+  const access = await hasWalletBillingAccess(userId, walletStatus);
+  if (!access.allowed) {
+    return { ...quote, reason: access.reason, topUpAvailable: true };
+  }
+
+  if (balance < maxCost) {
+    return {
+      ...quote,
+      reason: `Insufficient credits. You have ${formatCredits(balance)} but this reserves up to ${formatCredits(maxCost)}.`,
+      topUpAvailable: true,
+    };
+  }
+
+  const spendLimit = await checkSpendLimits(userId, actionType, maxCost);
+  if (!spendLimit.allowed) {
+    return { ...quote, reason: spendLimit.reason };
+  }
+
+  return { ...quote, wouldSucceed: true };
+}
+
+/**
+ * Quote for analyzing a post with these engagement stats. Expected cost
+ * scrapes the post's reactions and comments up to the caps (the plan's, or
+ * lower ones from options); the reservation is sized to the full caps, as in
+ * reserveAnalysisCredits.
+ */
+export async function quoteAnalysisCost(
+  userId: string,
+  stats: { totalReactions: number; totalComments: number },
+  options?: ScrapeOptions
+): Promise<AnalysisQuote> {
+  const { reactionCap, commentCap } = resolveScrapeOptions(await getScrapingCaps(userId), options);
+
+  const reactionsToScrape = Math.min(stats.totalReactions, reactionCap);
+  const commentsToScrape = Math.min(stats.totalComments, commentCap);
+  const expectedCost = calculatePostAnalysisCost(reactionsToScrape, commentsToScrape);
+  const maxCost = calculatePostAnalysisCost(reactionCap, commentCap);
+
+  const quote = await quoteReservation(userId, 'post_analysis', expectedCost, maxCost);
+  return {
+    ...quote,
+    totalReactions: stats.totalReactions,
+    totalComments: stats.totalComments,
+    reactionsToScrape,
+    commentsToScrape,
+    reactionCap,
+    commentCap,
+  };
+}
+
+/** Quote for enriching leadCount profiles in one batch */
+export async function quoteEnrichmentCost(userId: string, leadCount: number): Promise<UsageQuote> {
+  const cost = CREDIT_COSTS.profileEnrichment * leadCount;
+  return quoteReservation(userId, 'profile_enrichment', cost, cost);
+}
+
 /**
  * Get usage statistics for a user
  */
@@ -613,8 +1213,11 @@ export async function getUsageStats(userId: string): Promise<UsageStats> {
 /**
  * Get the reaction/comment caps for a user's plan
  */
-export async function getScrapingCaps(userId: string): Promise<{ reactionCap: number; commentCap: number }> {
-  const supabase = await createClient();
+export async function getScrapingCaps(
+  userId: string,
+  client?: SupabaseClient
+): Promise<ScrapingCaps> {
+  const supabase = client ?? await createClient();
   const { data: user } = await supabase
     .from('users')
     .select('plan')
@@ -0,0 +1,335 @@
+// =============================================================================
+// WALLET LEDGER
+// =============================================================================
+//
+// Filtered, paged view of wallet_transactions for the Wallet activity page
+// (app/dashboard/wallet) and its CSV download (/api/billing/wallet/ledger).
+//
+// RESERVATIONS:
+// =============
+// Paid work reserves credits first (reserveCredits in lib/wallet.ts). The
+// reservation is a debit row whose metadata is updated in place when it is
+// settled or released:
+//
+//   reservationStatus  'reserved' -> 'settled'
+//   actualAmount       what the work really cost (0 = released)
+//   refundAmount       the unused part, returned as a separate credit row
+//
+// The refund credit row carries metadata.reservationId. Ledger entries expose
+// both sides, so a reservation can be shown next to its outcome.
+// =============================================================================
+
+import { createClient } from '@/lib/supabase/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { toWalletTransaction, type WalletActionType, type WalletTransaction } from '@/lib/wallet';
+import { csvEscape } from '@/lib/export';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export const WALLET_ACTION_TYPES: { value: WalletActionType; label: string }[] = [
+  { value: 'post_analysis', label: 'Post analysis' },
+  { value: 'profile_enrichment', label: 'Enrichment' },
+  { value: 'email_lookup', label: 'Email lookup' },
+  { value: 'ai_search', label: 'Discovery' },
+  { value: 'profile_monitoring', label: 'Monitoring' },
+];
+
+export interface WalletLedgerFilters {
+  actionTypes?: WalletActionType[];
+  type?: WalletTransaction['type'];
+  /** LinkedIn post URL the spend was for */
+  postUrl?: string;
+  /** ISO timestamps; after is inclusive, before exclusive */
+  createdAfter?: string;
+  createdBefore?: string;
+}
+
+export interface WalletReservationOutcome {
+  status: 'reserved' | 'settled' | 'released';
+  reservedAmount: number;
+  /** What was finally charged; null while still reserved */
+  actualAmount: number | null;
+  refundAmount: number | null;
+  settledAt: string | null;
+  /** e.g. 'expired_reservation' when the work never finished */
+  releaseReason: string | null;
+}
+
+export interface WalletLedgerEntry extends WalletTransaction {
+  postUrl: string | null;
+  /** Set on reservation debits */
+  reservation: WalletReservationOutcome | null;
+  /** Set on refund credits: the reservation they return credits from */
+  refundOfReservationId: string | null;
+}
+
+export interface WalletLedgerPage {
+  entries: WalletLedgerEntry[];
+  nextCursor: string | null;
+  /** Matching transactions; only computed for the first page */
+  total: number | null;
+}
+
+/** Transactions per ledger page: default and maximum */
+export const WALLET_LEDGER_PAGE_SIZE = 50;
+export const MAX_WALLET_LEDGER_PAGE_SIZE = 200;
+
+const CSV_PAGE_SIZE = 500;
+// A post's refunds are matched by reservation id; more reservations than this
+// for one post only drops the oldest refunds from a filtered view
+const MAX_POST_RESERVATIONS = 500;
+
+// =============================================================================
+// FILTERS
+// =============================================================================
+
+function parseDate(value: string | null): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Reads the ledger filters from a query string:
+ * ?action=a,b      action types (see WALLET_ACTION_TYPES)
+ * ?type=           credit or debit
+ * ?post=           spend for one LinkedIn post URL, with its refunds
+ * ?created_after= / ?created_before=  ISO dates; after is inclusive, before exclusive
+ *
+ * Unknown values are ignored, as in parseCRMLeadFilters.
+ */
+export function parseWalletLedgerFilters(params: URLSearchParams): WalletLedgerFilters {
+  const filters: WalletLedgerFilters = {};
+
+  const actionTypes = (params.get('action') || '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter((value): value is WalletActionType => WALLET_ACTION_TYPES.some((action) => action.value === value));
+  if (actionTypes.length > 0) filters.actionTypes = Array.from(new Set(actionTypes));
+
+  const type = params.get('type');
+  if (type === 'credit' || type === 'debit') filters.type = type;
+
+  const postUrl = (params.get('post') || '').trim();
+  if (postUrl) filters.postUrl = postUrl;
+
+  const createdAfter = parseDate(params.get('created_after'));
+  if (createdAfter) filters.createdAfter = createdAfter;
+  const createdBefore = parseDate(params.get('created_before'));
+  if (createdBefore) filters.createdBefore = createdBefore;
+
+  return filters;
+}
+
+// =============================================================================
+// ENTRIES
+// =============================================================================
+
+function metadataString(metadata: Record<string, unknown> | undefined, key: string): string | null {
+  const value = metadata?.[key];
+  return typeof value === 'string' && value ? value : null;
+}
+
+function metadataNumber(metadata: Record<string, unknown> | undefined, key: string): number | null {
+  const value = metadata?.[key];
+  return typeof value === 'number' ? value : null;
+}
+
+function toLedgerEntry(transaction: WalletTransaction): WalletLedgerEntry {
+  const metadata = transaction.metadata;
+  const reservationStatus = metadataString(metadata, 'reservationStatus');
+
+  let reservation: WalletReservationOutcome | null = null;
+  if (reservationStatus) {
+    const actualAmount = reservationStatus === 'reserved' ? null : metadataNumber(metadata, 'actualAmount');
+    reservation = {
+      status: reservationStatus === 'reserved' ? 'reserved' : actualAmount === 0 ? 'released' : 'settled',
+      reservedAmount: metadataNumber(metadata, 'reservedAmount') ?? Math.abs(transaction.amount),
+      actualAmount,
+      refundAmount: reservationStatus === 'reserved' ? null : metadataNumber(metadata, 'refundAmount') ?? 0,
+      settledAt: metadataString(metadata, 'settledAt'),
+      releaseReason: metadataString(metadata, 'releaseReason'),
+    };
+  }
+
+  return {
+    ...transaction,
+    postUrl: metadataString(metadata, 'postUrl'),
+    reservation,
+    refundOfReservationId: metadata?.reservationRefund ? metadataString(metadata, 'reservationId') : null,
+  };
+}
+
+// =============================================================================
+// PAGING
+// =============================================================================
+
+interface WalletLedgerCursor {
+  createdAt: string;
+  id: string;
+}
+
+function encodeWalletLedgerCursor(cursor: WalletLedgerCursor): string {
+  return Buffer.from(JSON.stringify([cursor.createdAt, cursor.id])).toString('base64url');
+}
+
+/** Reads a nextCursor from getWalletLedgerPage; null when it's malformed */
+export function decodeWalletLedgerCursor(raw: string): WalletLedgerCursor | null {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    if (typeof createdAt !== 'string' || Number.isNaN(new Date(createdAt).getTime())) return null;
+    if (typeof id !== 'string' || !id) return null;
+    return { createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+/** Double-quotes a value for a PostgREST or() filter */
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Fetches one page of wallet transactions, newest first, with a keyset
+ * cursor for the next page. Throws 'Invalid cursor' for a malformed cursor.
+ *
+ * The post filter also matches the refunds of that post's reservations,
+ * which don't carry the post URL themselves.
+ * Pass `client` when paging outside the request (e.g. from a response stream).
+ */
+export async function getWalletLedgerPage(
+  userId: string,
+  filters: WalletLedgerFilters,
+  page: { cursor?: string | null; limit: number },
+  client?: SupabaseClient
+): Promise<WalletLedgerPage> {
+  const supabase = client ?? await createClient();
+  const cursor = page.cursor ? decodeWalletLedgerCursor(page.cursor) : null;
+  if (page.cursor && !cursor) {
+    throw new Error('Invalid cursor');
+  }
+
+  let query = supabase
+    .from('wallet_transactions')
+    .select('*', cursor ? undefined : { count: 'exact' })
+    .eq('user_id', userId);
+
+  if (filters.actionTypes?.length) {
+    query = query.in('action_type', filters.actionTypes);
+  }
+  if (filters.type) {
+    query = query.eq('type', filters.type);
+  }
+  if (filters.createdAfter) {
+    query = query.gte('created_at', filters.createdAfter);
+  }
+  if (filters.createdBefore) {
+    query = query.lt('created_at', filters.createdBefore);
+  }
+  // or() groups are ANDed together by nesting them in one filter
+  const orGroups: string[] = [];
+  if (filters.postUrl) {
+    const { data: reservations } = await supabase
+      .from('wallet_transactions')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('metadata->>postUrl', filters.postUrl)
+      .not('metadata->>reservationStatus', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(MAX_POST_RESERVATIONS);
+
+    const reservationIds = (reservations || []).map((row) => quoteFilterValue(String(row.id)));
+    const forPost = `metadata->>postUrl.eq.${quoteFilterValue(filters.postUrl)}`;
+    orGroups.push(reservationIds.length > 0
+      ? `${forPost},metadata->>reservationId.in.(${reservationIds.join(',')})`
+      : forPost);
+  }
+  if (cursor) {
+    // Rows after the cursor in (created_at DESC, id DESC) order
+    const createdAt = quoteFilterValue(cursor.createdAt);
+    const id = quoteFilterValue(cursor.id);
+    orGroups.push(`created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${id})`);
+  }
+  if (orGroups.length === 1) {
+    query = query.or(orGroups[0]);
+  } else if (orGroups.length > 1) {
+    query = query.or(`and(${orGroups.map((group) => `or(${group})`).join(',')})`);
+  }
+
+  // One extra row tells us whether there's a next page
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(page.limit + 1);
+
+  if (error || !data) {
+    console.error('[Wallet Ledger] Failed to get transactions:', error);
+    return { entries: [], nextCursor: null, total: null };
+  }
+
+  const entries = data.slice(0, page.limit).map((row) => toLedgerEntry(toWalletTransaction(row)));
+  const last = entries[entries.length - 1];
+  const nextCursor = data.length > page.limit && last
+    ? encodeWalletLedgerCursor({ createdAt: last.createdAt, id: last.id })
+    : null;
+
+  return { entries, nextCursor, total: count ?? null };
+}
+
+// =============================================================================
+// CSV
+// =============================================================================
+
+const CSV_COLUMNS: { header: string; value: (entry: WalletLedgerEntry, actorEmail: string) => string | number }[] = [
+  { header: 'Date', value: (entry) => entry.createdAt },
+  { header: 'Transaction ID', value: (entry) => entry.id },
+  { header: 'Type', value: (entry) => entry.type },
+  { header: 'Action', value: (entry) => entry.actionType ?? '' },
+  { header: 'Description', value: (entry) => entry.reason ?? '' },
+  { header: 'Amount ($)', value: (entry) => entry.amount / 100 },
+  { header: 'Balance After ($)', value: (entry) => entry.balanceAfter / 100 },
+  { header: 'Source Post', value: (entry) => entry.postUrl ?? '' },
+  { header: 'Reservation Status', value: (entry) => entry.reservation?.status ?? '' },
+  { header: 'Reserved ($)', value: (entry) => (entry.reservation ? entry.reservation.reservedAmount / 100 : '') },
+  { header: 'Charged ($)', value: (entry) => (entry.reservation?.actualAmount != null ? entry.reservation.actualAmount / 100 : '') },
+  { header: 'Refunded ($)', value: (entry) => (entry.reservation?.refundAmount != null ? entry.reservation.refundAmount / 100 : '') },
+  { header: 'Refund Of Reservation', value: (entry) => entry.refundOfReservationId ?? '' },
+  { header: 'Member', value: (_entry, actorEmail) => actorEmail },
+];
+
+/**
+ * Streams every matching transaction as CSV, newest first. Amounts are in
+ * dollars; debits are negative. `actorEmails` maps actor user ids to the
+ * Member column (unknown ids are written as-is).
+ */
+export function streamWalletLedgerCSV(
+  userId: string,
+  filters: WalletLedgerFilters,
+  actorEmails: Map<string, string>,
+  client: SupabaseClient
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let cursor: string | null = null;
+  let isFirst = true;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const page = await getWalletLedgerPage(userId, filters, { cursor, limit: CSV_PAGE_SIZE }, client);
+      const rows = page.entries.map((entry) => {
+        const actorEmail = entry.actorUserId ? actorEmails.get(entry.actorUserId) ?? entry.actorUserId : '';
+        return CSV_COLUMNS.map((column) => csvEscape(column.value(entry, actorEmail))).join(',');
+      });
+
+      const header = isFirst ? CSV_COLUMNS.map((column) => csvEscape(column.header)).join(',') : '';
+      const chunk = header + rows.map((row) => `\n${row}`).join('');
+      if (chunk) controller.enqueue(encoder.encode(chunk));
+
+      isFirst = false;
+      cursor = page.nextCursor;
+      if (!cursor) controller.close();
+    },
+  });
+}
@@ -45,8 +45,11 @@
 // Last Updated: 2nd January 2026
 // =============================================================================
 
+import { after } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { type SupabaseClient } from '@supabase/supabase-js';
+import { notifyWalletLowBalance } from '@/lib/webhooks';
+import { maybeStartAutoTopUp } from '@/lib/auto-topup';
 
 // =============================================================================
 // TYPES
@@ -102,6 +105,13 @@ export interface WalletOperationResult {
 
 export interface WalletReservationResult extends WalletOperationResult {
   reservationId?: string;
+  /** Set when a spend limit on the action refused the reservation */
+  spendLimit?: {
+    id: string;
+    period: 'daily' | 'weekly' | 'monthly';
+    limitInCents: number;
+    spentInCents: number;
+  };
 }
 
 export interface WalletSettlementResult extends WalletOperationResult {
@@ -154,6 +164,8 @@ export interface WalletTransaction {
   actionType?: WalletActionType;
   /** Additional metadata (e.g., post URL for analysis) */
   metadata?: Record<string, unknown>;
+  /** Workspace member who caused the transaction (the account owner otherwise) */
+  actorUserId: string | null;
   createdAt: string;
 }
 
@@ -179,6 +191,9 @@ interface WalletResetOptions {
 export const TRIAL_PERIOD_DAYS = 7;
 export const TRIAL_WALLET_CREDITS_IN_CENTS = 2000;
 
+// Below this the dashboard shows "Low balance" and wallet.low_balance fires
+export const WALLET_LOW_BALANCE_THRESHOLD_IN_CENTS = 500;
+
 export const WALLET_PLANS: Record<WalletPlanId, PlanWalletConfig> = {
   pro: {
     name: 'Pro',
@@ -388,10 +403,14 @@ export function estimateMaxPostAnalysisCost(planId: string): number | null {
  * Gets the current wallet status for a user.
  *
  * @param userId - The user's ID
+ * @param client - Optional Supabase client (pass admin client from cron/worker context)
  * @returns Wallet status or null if user not found
  */
-export async function getWalletStatus(userId: string): Promise<WalletStatus | null> {
-  const supabase = await createClient();
+export async function getWalletStatus(
+  userId: string,
+  client?: SupabaseClient
+): Promise<WalletStatus | null> {
+  const supabase = client ?? await createClient();
 
   const { data: user, error } = await supabase
     .from('users')
@@ -533,14 +552,22 @@ export async function deductCredits(
     reason,
   });
 
+  notifyIfLowBalance(userId, result.new_balance);
   return { success: true, newBalance: result.new_balance };
 }
 
+/** Fires the wallet.low_balance webhook after the response, without holding up the charge */
+function notifyIfLowBalance(userId: string, balanceInCents: number): void {
+  if (balanceInCents >= WALLET_LOW_BALANCE_THRESHOLD_IN_CENTS) return;
+  after(() => notifyWalletLowBalance(userId, balanceInCents, WALLET_LOW_BALANCE_THRESHOLD_IN_CENTS));
+}
+
 export async function releaseExpiredWalletReservations(
   userId: string,
-  olderThanMinutes: number = 120
+  olderThanMinutes: number = 120,
+  client?: SupabaseClient
 ): Promise<void> {
-  const supabase = await createClient();
+  const supabase = client ?? await createClient();
   const { error } = await supabase.rpc('release_expired_wallet_reservations', {
     p_user_id: userId,
     p_older_than_minutes: olderThanMinutes,
@@ -556,18 +583,20 @@ export async function reserveCredits(
   amount: number,
   actionType: WalletActionType,
   reason: string,
-  metadata?: Record<string, unknown>
+  metadata?: Record<string, unknown>,
+  client?: SupabaseClient
 ): Promise<WalletReservationResult> {
   if (amount <= 0) {
     return { success: false, newBalance: 0, error: 'Amount must be positive' };
   }
 
-  await releaseExpiredWalletReservations(userId);
+  await releaseExpiredWalletReservations(userId, 120, client);
 
-  const supabase = await createClient();
+  const supabase = client ?? await createClient();
 
   // Wallet reservation - 2026-05-18 15:28 IST, paras: reserve before Apify so parallel tabs cannot spend the same balance twice.
-  const { data, error } = await supabase.rpc('reserve_wallet_credits', {
+  // Checks the action's spend limits under the same row lock, so parallel reservations can't overshoot a cap either.
+  const { data, error } = await supabase.rpc('reserve_wallet_credits_within_limits', {
     p_user_id: userId,
     p_amount: amount,
     p_action_type: actionType,
@@ -590,9 +619,18 @@ export async function reserveCredits(
       success: false,
       newBalance: result.new_balance || 0,
       error: result.error_message || 'Credit reservation failed',
+      ...(result.limit_id && {
+        spendLimit: {
+          id: result.limit_id,
+          period: result.limit_period,
+          limitInCents: result.limit_in_cents,
+          spentInCents: result.limit_spent,
+        },
+      }),
     };
   }
 
+  notifyIfLowBalance(userId, result.new_balance);
   return {
     success: true,
     newBalance: result.new_balance,
@@ -604,7 +642,8 @@ export async function settleCreditReservation(
   userId: string,
   reservationId: string,
   actualAmount: number,
-  metadata?: Record<string, unknown>
+  metadata?: Record<string, unknown>,
+  client?: SupabaseClient
 ): Promise<WalletSettlementResult> {
   if (!reservationId) {
     return { success: false, newBalance: 0, refundAmount: 0, error: 'Missing reservation ID' };
@@ -614,7 +653,7 @@ export async function settleCreditReservation(
     return { success: false, newBalance: 0, refundAmount: 0, error: 'Actual amount must be zero or positive' };
   }
 
-  const supabase = await createClient();
+  const supabase = client ?? await createClient();
   const { data, error } = await supabase.rpc('settle_wallet_reservation', {
     p_user_id: userId,
     p_reservation_id: reservationId,
@@ -641,6 +680,8 @@ export async function settleCreditReservation(
     };
   }
 
+  // Auto top-up - checks the new balance against the user's threshold after the response
+  after(() => maybeStartAutoTopUp(userId));
   return {
     success: true,
     newBalance: result.new_balance,
@@ -648,15 +689,44 @@ export async function settleCreditReservation(
   };
 }
 
+/**
+ * A reservation's current state: 'reserved' while the credits are held,
+ * 'settled' once charged or released (releases carry released: true or a
+ * releaseReason in metadata). Null when there's no such reservation.
+ */
+export async function getCreditReservation(
+  userId: string,
+  reservationId: string,
+  client?: SupabaseClient
+): Promise<{ status: 'reserved' | 'settled'; metadata: Record<string, unknown> } | null> {
+  const supabase = client ?? await createClient();
+  const { data, error } = await supabase
+    .from('wallet_transactions')
+    .select('metadata')
+    .eq('id', reservationId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load wallet reservation: ${error.message}`);
+  }
+
+  const metadata = (data?.metadata || {}) as Record<string, unknown>;
+  if (!data || !metadata.reservationStatus) return null;
+
+  return { status: metadata.reservationStatus === 'reserved' ? 'reserved' : 'settled', metadata };
+}
+
 export async function releaseCreditReservation(
   userId: string,
   reservationId: string,
-  metadata?: Record<string, unknown>
+  metadata?: Record<string, unknown>,
+  client?: SupabaseClient
 ): Promise<WalletSettlementResult> {
   return settleCreditReservation(userId, reservationId, 0, {
     released: true,
     ...metadata,
-  });
+  }, client);
 }
 
 /**
@@ -941,17 +1011,23 @@ export async function getWalletTransactions(
     return [];
   }
 
-  return data.map((row) => ({
-    id: row.id,
-    userId: row.user_id,
-    amount: row.amount,
-    balanceAfter: row.balance_after,
-    type: row.type,
-    reason: row.reason,
-    actionType: row.action_type,
-    metadata: row.metadata,
-    createdAt: row.created_at,
-  }));
+  return data.map(toWalletTransaction);
+}
+
+/** Maps a wallet_transactions row (select '*') to a WalletTransaction */
+export function toWalletTransaction(row: Record<string, unknown>): WalletTransaction {
+  return {
+    id: String(row.id),
+    userId: row.user_id as string,
+    amount: row.amount as number,
+    balanceAfter: row.balance_after as number,
+    type: row.type as WalletTransaction['type'],
+    reason: row.reason as string,
+    actionType: row.action_type as WalletActionType | undefined,
+    metadata: row.metadata as Record<string, unknown> | undefined,
+    actorUserId: (row.actor_user_id as string | null) ?? null,
+    createdAt: row.created_at as string,
+  };
 }
 
 /**
@@ -0,0 +1,719 @@
+// =============================================================================
+// OUTBOUND WEBHOOKS
+// =============================================================================
+//
+// User-configured endpoints (Zapier, Make, n8n, internal services) that get a
+// signed POST when something happens in their account
+// (tables: webhook_endpoints, webhook_deliveries).
+//
+// FLOW:
+// =====
+// 1. Settings > Integrations > Webhooks adds an endpoint (URL + events) and
+//    shows its signing secret
+// 2. dispatchWebhookEvent(userId, type, data) creates one delivery per
+//    enabled endpoint subscribed to the event and attempts each right away.
+//    Route handlers call it in after(); background jobs await it.
+// 3. A failed attempt (non-2xx, timeout) is retried after
+//    WEBHOOK_RETRY_DELAYS_MINUTES by GET /api/cron/webhook-deliveries; after
+//    the last retry the delivery is marked 'failed'
+// 4. Every attempt is visible in the endpoint's delivery log
+//
+// SIGNING:
+// ========
+// Standard Webhooks (https://www.standardwebhooks.com), the same scheme Dodo
+// uses for the webhooks we receive (see verifyWebhookSignature in
+// lib/dodo.ts). Each request carries webhook-id (the delivery id, stable
+// across retries), webhook-timestamp and webhook-signature; receivers verify
+// with the endpoint secret using any Standard Webhooks library.
+//
+// Body: { id, type, created_at, data }. crm_lead.* events carry a batch of
+// leads in data.leads (one event per add/enrichment, not per lead).
+//
+// Dispatch runs without a user session, so it uses the admin client.
+//
+// In production deliveries go through PUBLIC_ONLY_AGENT, whose DNS lookup
+// refuses hosts that resolve to a private, loopback or link-local address.
+// The check runs on the lookup the connection itself uses, so a DNS record
+// changed after the endpoint was saved (or between two lookups) can't reach
+// our network.
+// =============================================================================
+
+import { lookup, type LookupAddress } from 'node:dns';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { Webhook } from 'standardwebhooks';
+import { Agent, fetch as undiciFetch } from 'undici';
+import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { Analysis, CRMLead } from '@/lib/data-store';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export const WEBHOOK_EVENTS = [
+  { type: 'analysis.completed', description: 'A post analysis finished and its leads are ready' },
+  { type: 'crm_lead.added', description: 'Leads were added to the CRM' },
+  { type: 'crm_lead.enriched', description: 'CRM leads were enriched with profile data' },
+  { type: 'wallet.low_balance', description: 'Your wallet balance dropped below $5.00' },
+  { type: 'wallet.spend_limit', description: 'Spending reached 50%, 80% or 100% of a spend limit' },
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number]['type'];
+
+/** Sent by "Send test event"; endpoints receive it whatever they subscribe to */
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+export interface WebhookEndpoint {
+  id: string;
+  user_id: string;
+  url: string;
+  description: string | null;
+  events: WebhookEventType[];
+  secret: string;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEventType | typeof WEBHOOK_TEST_EVENT;
+  created_at: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  user_id: string;
+  event_type: WebhookPayload['type'];
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  response_status: number | null;
+  last_error: string | null;
+  last_attempt_at: string | null;
+  delivered_at: string | null;
+  created_at: string;
+}
+
+// Wait before retry N (after attempt N fails); attempts = retries + 1
+export const WEBHOOK_RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720];
+const MAX_ATTEMPTS = WEBHOOK_RETRY_DELAYS_MINUTES.length + 1;
+
+export const MAX_WEBHOOK_ENDPOINTS = 10;
+const REQUEST_TIMEOUT_MS = 10_000;
+// A swept delivery is skipped by other sweepers for this long
+const CLAIM_MINUTES = 5;
+// Deliveries retried per sweep
+const SWEEP_BATCH_SIZE = 50;
+// At most one wallet.low_balance event per user in this window
+const LOW_BALANCE_EVENT_INTERVAL_HOURS = 24;
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function generateWebhookSecret(): string {
+  return `whsec_${Buffer.from(crypto.getRandomValues(new Uint8Array(24))).toString('base64')}`;
+}
+
+function minutesFromNow(minutes: number): string {
+  return new Date(Date.now() + minutes * 60 * 1000).toISOString();
+}
+
+// =============================================================================
+// EVENT DATA
+// =============================================================================
+
+const APP_URL = process.env.NEXT_PUBLIC_SITE_URL || process.env.NEXT_PUBLIC_APP_URL || 'https://www.guffles.com';
+
+/** analysis.completed data. Leads aren't inlined (posts can have thousands). */
+export function toAnalysisWebhookData(analysis: Analysis): Record<string, unknown> {
+  return {
+    analysis: {
+      id: analysis.id,
+      post_url: analysis.post_url,
+      post_author: analysis.post_data?.author ?? null,
+      total_reactors: analysis.total_reactors,
+      leads_count: analysis.leads.length,
+      qualified_leads_count: analysis.qualified_leads_count,
+      created_at: analysis.created_at,
+      dashboard_url: `${APP_URL}/dashboard/history/${analysis.id}`,
+    },
+  };
+}
+
+/** crm_lead.* data */
+export function toCRMLeadsWebhookData(leads: CRMLead[]): Record<string, unknown> {
+  return {
+    leads: leads.map((lead) => ({
+      id: lead.id,
+      name: lead.enriched_data?.fullName || lead.name,
+      headline: lead.enriched_data?.headline || lead.headline,
+      profile_url: lead.profile_url,
+      source_post_url: lead.source_post_url ?? null,
+      icp_score: lead.icp_score ?? null,
+      enrichment_status: lead.enrichment_status,
+      company: lead.enriched_data?.currentCompany ?? null,
+      location: lead.enriched_data?.location ?? null,
+      email: lead.email ?? null,
+      added_at: lead.added_at,
+    })),
+  };
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+export interface WebhookEndpointInput {
+  url?: string;
+  description?: string | null;
+  events?: WebhookEventType[];
+  enabled?: boolean;
+}
+
+export type WebhookEndpointParseResult =
+  | { success: true; input: WebhookEndpointInput }
+  | { success: false; error: string };
+
+// Loopback, private, shared (CGNAT), link-local and unspecified ranges.
+// IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) match the IPv4 subnets.
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addAddress('::', 'ipv6');
+PRIVATE_ADDRESSES.addAddress('::1', 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+
+function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Public https URLs only, so endpoints can't be pointed at our own network.
+ * Plain http is allowed outside production for local testing.
+ */
+function validateWebhookUrl(raw: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return null;
+  }
+
+  const allowHttp = process.env.NODE_ENV !== 'production';
+  if (url.protocol !== 'https:' && !(allowHttp && url.protocol === 'http:')) return null;
+  if (url.username || url.password) return null;
+
+  if (process.env.NODE_ENV === 'production') {
+    const host = url.hostname.toLowerCase();
+    if (
+      host === 'localhost' ||
+      host.endsWith('.localhost') ||
+      host.endsWith('.local') ||
+      host.endsWith('.internal') ||
+      host.startsWith('[') ||
+      isPrivateAddress(host)
+    ) {
+      return null;
+    }
+  }
+
+  return url.toString();
+}
+
+/**
+ * Validates a create (all of url + events required) or update (any subset)
+ * request body.
+ *
+ * @example
+ * parseWebhookEndpointInput({ url: 'https://hooks.zapier.com/...', events: ['crm_lead.added'] }, 'create');
+ * // { success: true, input: { url: 'https://hooks.zapier.com/...', events: ['crm_lead.added'] } }
+ */
+export function parseWebhookEndpointInput(
+  raw: unknown,
+  mode: 'create' | 'update'
+): WebhookEndpointParseResult {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { success: false, error: 'Request body must be an object' };
+  }
+  const body = raw as Record<string, unknown>;
+  const input: WebhookEndpointInput = {};
+
+  if (body.url !== undefined || mode === 'create') {
+    const url = typeof body.url === 'string' ? validateWebhookUrl(body.url) : null;
+    if (!url) {
+      return { success: false, error: 'Please enter a public https:// URL' };
+    }
+    input.url = url;
+  }
+
+  if (body.events !== undefined || mode === 'create') {
+    if (!Array.isArray(body.events) || body.events.length === 0) {
+      return { success: false, error: 'Select at least one event' };
+    }
+    const unknown = body.events.find((event) => !WEBHOOK_EVENTS.some((e) => e.type === event));
+    if (unknown !== undefined) {
+      return { success: false, error: `Unknown event: ${String(unknown)}` };
+    }
+    input.events = Array.from(new Set(body.events as WebhookEventType[]));
+  }
+
+  if (body.description !== undefined) {
+    if (body.description !== null && typeof body.description !== 'string') {
+      return { success: false, error: 'description must be a string' };
+    }
+    const description = body.description?.trim() || null;
+    if (description && description.length > 200) {
+      return { success: false, error: 'description must be 200 characters or fewer' };
+    }
+    input.description = description;
+  }
+
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') {
+      return { success: false, error: 'enabled must be a boolean' };
+    }
+    input.enabled = body.enabled;
+  }
+
+  return { success: true, input };
+}
+
+// =============================================================================
+// ENDPOINT OPERATIONS (user context)
+// =============================================================================
+
+export async function getWebhookEndpoints(userId: string): Promise<WebhookEndpoint[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error || !data) return [];
+  return data as WebhookEndpoint[];
+}
+
+export async function getWebhookEndpoint(id: string, userId: string): Promise<WebhookEndpoint | null> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error || !data) return null;
+  return data as WebhookEndpoint;
+}
+
+export async function createWebhookEndpoint(
+  userId: string,
+  input: Required<Pick<WebhookEndpointInput, 'url' | 'events'>> & WebhookEndpointInput
+): Promise<{ success: boolean; error?: string; endpoint?: WebhookEndpoint }> {
+  const supabase = await createClient();
+
+  const { count } = await supabase
+    .from('webhook_endpoints')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  if ((count ?? 0) >= MAX_WEBHOOK_ENDPOINTS) {
+    return { success: false, error: `You can add up to ${MAX_WEBHOOK_ENDPOINTS} webhook endpoints.` };
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .insert({
+      id: generateId('whk'),
+      user_id: userId,
+      url: input.url,
+      description: input.description ?? null,
+      events: input.events,
+      secret: generateWebhookSecret(),
+      enabled: input.enabled ?? true,
+      created_at: now,
+      updated_at: now,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    console.error('[Webhooks] Failed to create endpoint:', error);
+    return { success: false, error: 'Failed to create webhook endpoint' };
+  }
+
+  return { success: true, endpoint: data as WebhookEndpoint };
+}
+
+export async function updateWebhookEndpoint(
+  id: string,
+  userId: string,
+  input: WebhookEndpointInput
+): Promise<WebhookEndpoint | null> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .update({ ...input, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle();
+
+  if (error || !data) return null;
+  return data as WebhookEndpoint;
+}
+
+/** Deletes the endpoint and its delivery log (ON DELETE CASCADE) */
+export async function deleteWebhookEndpoint(id: string, userId: string): Promise<boolean> {
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from('webhook_endpoints')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId);
+
+  return !error;
+}
+
+export async function getWebhookDeliveries(
+  endpointId: string,
+  userId: string,
+  limit = 50
+): Promise<WebhookDelivery[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('endpoint_id', endpointId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error || !data) return [];
+  return data as WebhookDelivery[];
+}
+
+// =============================================================================
+// DELIVERY
+// =============================================================================
+
+class PrivateAddressError extends Error {
+  constructor(host: string) {
+    super(`${host} resolves to a private address`);
+    this.name = 'PrivateAddressError';
+  }
+}
+
+/**
+ * dns.lookup for outgoing connections that fails if any address the host
+ * resolves to is private. Answers in whichever shape the caller asked for
+ * (net.connect asks for all addresses when autoSelectFamily is on).
+ */
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+      callback(new PrivateAddressError(hostname), '', 0);
+      return;
+    }
+    if (options.all) {
+      (callback as unknown as (error: null, addresses: LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// Connects only to addresses lookupPublicAddress accepted
+const PUBLIC_ONLY_AGENT = new Agent({ connect: { lookup: lookupPublicAddress } });
+
+/**
+ * Why the endpoint can't be delivered to, or null. IP literals never go
+ * through a DNS lookup, so they're checked here; hostnames are checked by
+ * PUBLIC_ONLY_AGENT when it connects. Only enforced in production, like
+ * validateWebhookUrl.
+ */
+function checkWebhookHost(rawUrl: string): string | null {
+  if (process.env.NODE_ENV !== 'production') return null;
+
+  const host = new URL(rawUrl).hostname.replace(/^\[|\]$/g, '');
+  return isIP(host) && isPrivateAddress(host) ? `${host} is a private address` : null;
+}
+
+/** POSTs the payload signed with the endpoint secret. Never throws. */
+async function sendWebhookRequest(
+  endpoint: Pick<WebhookEndpoint, 'url' | 'secret'>,
+  delivery: Pick<WebhookDelivery, 'id' | 'payload'>
+): Promise<{ ok: boolean; status: number | null; error: string | null }> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = new Date();
+
+  try {
+    const blocked = checkWebhookHost(endpoint.url);
+    if (blocked) {
+      return { ok: false, status: null, error: blocked };
+    }
+
+    const signature = new Webhook(endpoint.secret).sign(delivery.id, timestamp, body);
+    const response = await undiciFetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Guffles-Webhooks/1.0',
+        'webhook-id': delivery.id,
+        'webhook-timestamp': Math.floor(timestamp.getTime() / 1000).toString(),
+        'webhook-signature': signature,
+      },
+      body,
+      // Redirects could lead anywhere; receivers must answer directly
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      dispatcher: process.env.NODE_ENV === 'production' ? PUBLIC_ONLY_AGENT : undefined,
+    });
+
+    if (response.ok) {
+      return { ok: true, status: response.status, error: null };
+    }
+    return { ok: false, status: response.status, error: `Endpoint responded with ${response.status}` };
+  } catch (error) {
+    // fetch reports connection failures as "fetch failed" with the reason as its cause
+    const cause = error instanceof Error ? error.cause : undefined;
+    const message = error instanceof Error && error.name === 'TimeoutError'
+      ? `No response within ${REQUEST_TIMEOUT_MS / 1000}s`
+      : cause instanceof PrivateAddressError ? cause.message
+      : error instanceof Error ? error.message : 'Request failed';
+    return { ok: false, status: null, error: message };
+  }
+}
+
+/**
+ * Makes one attempt and records it. Failures are rescheduled until
+ * MAX_ATTEMPTS; test deliveries get a single attempt.
+ */
+async function attemptWebhookDelivery(
+  supabase: SupabaseClient,
+  endpoint: Pick<WebhookEndpoint, 'url' | 'secret'>,
+  delivery: WebhookDelivery
+): Promise<WebhookDelivery> {
+  const result = await sendWebhookRequest(endpoint, delivery);
+  const attempts = delivery.attempts + 1;
+  const now = new Date().toISOString();
+  const retry = !result.ok && delivery.event_type !== WEBHOOK_TEST_EVENT && attempts < MAX_ATTEMPTS;
+
+  const updates: Partial<WebhookDelivery> = {
+    attempts,
+    status: result.ok ? 'succeeded' : retry ? 'pending' : 'failed',
+    next_attempt_at: retry ? minutesFromNow(WEBHOOK_RETRY_DELAYS_MINUTES[attempts - 1]) : null,
+    response_status: result.status,
+    last_error: result.error,
+    last_attempt_at: now,
+    delivered_at: result.ok ? now : null,
+  };
+
+  const { error } = await supabase.from('webhook_deliveries').update(updates).eq('id', delivery.id);
+  if (error) {
+    console.error('[Webhooks] Failed to record delivery attempt:', delivery.id, error);
+  }
+
+  return { ...delivery, ...updates };
+}
+
+function buildPayload(type: WebhookPayload['type'], data: Record<string, unknown>): WebhookPayload {
+  return { id: generateId('evt'), type, created_at: new Date().toISOString(), data };
+}
+
+/**
+ * Sends an event to every enabled endpoint subscribed to it. Never throws,
+ * so it's safe in after(); failed deliveries are left for the sweeper.
+ */
+export async function dispatchWebhookEvent(
+  userId: string,
+  type: WebhookEventType,
+  data: Record<string, unknown>,
+  client?: SupabaseClient
+): Promise<void> {
+  try {
+    const supabase = client ?? createAdminClient();
+    const { data: endpoints, error } = await supabase
+      .from('webhook_endpoints')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('enabled', true)
+      .contains('events', [type]);
+
+    if (error || !endpoints || endpoints.length === 0) return;
+
+    const payload = buildPayload(type, data);
+    const now = new Date().toISOString();
+    const deliveries: WebhookDelivery[] = (endpoints as WebhookEndpoint[]).map((endpoint) => ({
+      id: generateId('whd'),
+      endpoint_id: endpoint.id,
+      user_id: userId,
+      event_type: type,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      // Picked up by the sweeper if this process dies before the first attempt
+      next_attempt_at: minutesFromNow(CLAIM_MINUTES),
+      response_status: null,
+      last_error: null,
+      last_attempt_at: null,
+      delivered_at: null,
+      created_at: now,
+    }));
+
+    const { error: insertError } = await supabase.from('webhook_deliveries').insert(deliveries);
+    if (insertError) {
+      console.error('[Webhooks] Failed to queue deliveries:', insertError);
+      return;
+    }
+
+    await Promise.all(deliveries.map((delivery, i) =>
+      attemptWebhookDelivery(supabase, endpoints[i] as WebhookEndpoint, delivery)
+    ));
+  } catch (error) {
+    console.error(`[Webhooks] Failed to dispatch ${type}:`, error);
+  }
+}
+
+/** "Send test event": one attempt, logged like any other delivery */
+export async function sendTestWebhook(endpoint: WebhookEndpoint): Promise<WebhookDelivery | null> {
+  const supabase = await createClient();
+  const delivery: WebhookDelivery = {
+    id: generateId('whd'),
+    endpoint_id: endpoint.id,
+    user_id: endpoint.user_id,
+    event_type: WEBHOOK_TEST_EVENT,
+    payload: buildPayload(WEBHOOK_TEST_EVENT, {
+      message: 'Test event from Guffles',
+      endpoint_id: endpoint.id,
+    }),
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: null,
+    response_status: null,
+    last_error: null,
+    last_attempt_at: null,
+    delivered_at: null,
+    created_at: new Date().toISOString(),
+  };
+
+  const { error } = await supabase.from('webhook_deliveries').insert(delivery);
+  if (error) {
+    console.error('[Webhooks] Failed to create test delivery:', error);
+    return null;
+  }
+
+  return attemptWebhookDelivery(supabase, endpoint, delivery);
+}
+
+/**
+ * wallet.low_balance, at most once per LOW_BALANCE_EVENT_INTERVAL_HOURS so a
+ * run of small charges near the threshold doesn't flood the endpoint.
+ */
+export async function notifyWalletLowBalance(
+  userId: string,
+  balanceInCents: number,
+  thresholdInCents: number
+): Promise<void> {
+  try {
+    const supabase = createAdminClient();
+    const since = new Date(Date.now() - LOW_BALANCE_EVENT_INTERVAL_HOURS * 60 * 60 * 1000).toISOString();
+    const { count } = await supabase
+      .from('webhook_deliveries')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('event_type', 'wallet.low_balance')
+      .gte('created_at', since);
+
+    if ((count ?? 0) > 0) return;
+
+    await dispatchWebhookEvent(userId, 'wallet.low_balance', {
+      balance_in_cents: balanceInCents,
+      threshold_in_cents: thresholdInCents,
+    }, supabase);
+  } catch (error) {
+    console.error('[Webhooks] Low balance check failed:', error);
+  }
+}
+
+// =============================================================================
+// RETRY SWEEPER (cron)
+// =============================================================================
+
+/**
+ * Retries pending deliveries that are due. Each is claimed by pushing its
+ * next_attempt_at forward first, so overlapping sweeps don't double-send.
+ */
+export async function processDueWebhookDeliveries(): Promise<{ attempted: number; succeeded: number }> {
+  const supabase = createAdminClient();
+  const { data: due, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(SWEEP_BATCH_SIZE);
+
+  if (error || !due || due.length === 0) {
+    return { attempted: 0, succeeded: 0 };
+  }
+
+  const endpointIds = Array.from(new Set((due as WebhookDelivery[]).map((d) => d.endpoint_id)));
+  const { data: endpoints } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .in('id', endpointIds);
+  const endpointsById = new Map((endpoints as WebhookEndpoint[] || []).map((e) => [e.id, e]));
+
+  let attempted = 0;
+  let succeeded = 0;
+
+  for (const delivery of due as WebhookDelivery[]) {
+    const { data: claimed } = await supabase
+      .from('webhook_deliveries')
+      .update({ next_attempt_at: minutesFromNow(CLAIM_MINUTES) })
+      .eq('id', delivery.id)
+      .eq('status', 'pending')
+      .eq('next_attempt_at', delivery.next_attempt_at)
+      .select('id')
+      .maybeSingle();
+    if (!claimed) continue;
+
+    const endpoint = endpointsById.get(delivery.endpoint_id);
+    if (!endpoint?.enabled) {
+      await supabase
+        .from('webhook_deliveries')
+        .update({ status: 'failed', next_attempt_at: null, last_error: 'Endpoint disabled' })
+        .eq('id', delivery.id);
+      continue;
+    }
+
+    const result = await attemptWebhookDelivery(supabase, endpoint, delivery);
+    attempted++;
+    if (result.status === 'succeeded') succeeded++;
+  }
+
+  return { attempted, succeeded };
+}
@@ -0,0 +1,538 @@
+// =============================================================================
+// TEAM WORKSPACES
+// =============================================================================
+//
+// A workspace lets a team share one account: subscription, wallet, CRM leads
+// and analysis history (tables: workspaces, workspace_members,
+// workspace_invites).
+//
+// ACCOUNT MODEL:
+// ==============
+// Shared data lives under the workspace OWNER's user id. Routes resolve the
+// signed-in user with getAccountContext and use `account` (the owner's User)
+// for data and billing, and the signed-in user's id as the actor for spend
+// attribution. Users outside a workspace are their own account. Lead scoring
+// uses the owner's ICP settings; personal settings (export format) stay
+// per-user. On the Scale plan the account can instead be an agency client
+// sub-account picked in the sidebar (lib/client-accounts.ts).
+//
+// ROLES:
+// ======
+// - owner:  billing, roles, everything an admin can do (one per workspace)
+// - admin:  invite and remove members, manage integrations and webhooks
+// - member: use the shared CRM, history and wallet
+//
+// INVITES:
+// ========
+// Owners/admins invite by email. The invitee sees the invite in Settings >
+// Team while signed in with that email and accepts it there; they must not
+// be in another workspace or have their own active subscription.
+//
+// SPEND ATTRIBUTION:
+// ==================
+// Usage reservations pass `actorUserId` in their wallet metadata; a trigger
+// stores it in wallet_transactions.actor_user_id (refunds inherit it from
+// their reservation). getWorkspaceMemberSpend sums it per member.
+// =============================================================================
+
+import { createClient } from '@/lib/supabase/server';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { getUserById, getUserSubscription, type User } from '@/lib/data-store';
+import { getActiveClientId, getClientAccount, isAgencyPlan } from '@/lib/client-accounts';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type WorkspaceRole = 'owner' | 'admin' | 'member';
+
+export const WORKSPACE_ROLES: { role: WorkspaceRole; label: string; description: string }[] = [
+  { role: 'owner', label: 'Owner', description: 'Billing, roles and everything admins can do' },
+  { role: 'admin', label: 'Admin', description: 'Invite and remove members, manage integrations' },
+  { role: 'member', label: 'Member', description: 'Use the shared CRM, history and wallet' },
+];
+
+export interface Workspace {
+  id: string;
+  owner_user_id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkspaceMember {
+  user_id: string;
+  role: WorkspaceRole;
+  joined_at: string;
+  email: string;
+  full_name: string | null;
+  profile_picture: string | null;
+}
+
+export interface WorkspaceInvite {
+  id: string;
+  workspace_id: string;
+  email: string;
+  role: Exclude<WorkspaceRole, 'owner'>;
+  invited_by: string | null;
+  created_at: string;
+  expires_at: string;
+}
+
+export interface AccountContext {
+  /**
+   * Whose data and wallet the request works on: the workspace owner for
+   * members, or the agency client picked in the sidebar switcher
+   */
+  account: User;
+  /** The user's role in the account; 'owner' outside a workspace */
+  role: WorkspaceRole;
+  workspace: Workspace | null;
+  /** The agency's own account while a client sub-account is active */
+  agency: User | null;
+}
+
+export const MAX_WORKSPACE_MEMBERS = 25;
+const INVITE_EXPIRY_DAYS = 14;
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/** Owners and admins manage members, integrations and webhooks */
+export function canManageWorkspace(role: WorkspaceRole): boolean {
+  return role === 'owner' || role === 'admin';
+}
+
+// =============================================================================
+// ACCOUNT RESOLUTION
+// =============================================================================
+
+/**
+ * The user's workspace and role, or null outside a workspace.
+ */
+export async function getWorkspaceMembership(
+  userId: string,
+  client?: SupabaseClient
+): Promise<{ workspace: Workspace; role: WorkspaceRole } | null> {
+  const supabase = client ?? await createClient();
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('role, workspaces(*)')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error || !data?.workspaces) return null;
+  return {
+    workspace: data.workspaces as unknown as Workspace,
+    role: data.role as WorkspaceRole,
+  };
+}
+
+/**
+ * Resolves the account a signed-in user works in.
+ *
+ * @example
+ * const user = await getOrCreateUser(userEmail);
+ * const { account } = await getAccountContext(user);
+ * const lead = await getCRMLead(leadId, account.id);
+ */
+export async function getAccountContext(user: User, client?: SupabaseClient): Promise<AccountContext> {
+  const membership = await getWorkspaceMembership(user.id, client);
+  let account = user;
+  if (membership && membership.workspace.owner_user_id !== user.id) {
+    const owner = await getUserById(membership.workspace.owner_user_id, client);
+    if (!owner) {
+      throw new Error(`Workspace owner not found: ${membership.workspace.id}`);
+    }
+    account = owner;
+  }
+
+  const role = membership?.role ?? 'owner';
+  const workspace = membership?.workspace ?? null;
+
+  // Agency client switcher (lib/client-accounts.ts); ignored off the Scale plan
+  const activeClientId = isAgencyPlan(account.plan) ? await getActiveClientId() : null;
+  const clientAccount = activeClientId ? await getClientAccount(account.id, activeClientId, client) : null;
+  if (clientAccount) {
+    return { account: clientAccount, role, workspace, agency: account };
+  }
+
+  return { account, role, workspace, agency: null };
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Validates a workspace name (create or rename).
+ */
+export function parseWorkspaceName(raw: unknown): { success: true; name: string } | { success: false; error: string } {
+  const name = typeof raw === 'string' ? raw.trim() : '';
+  if (!name) {
+    return { success: false, error: 'Please enter a workspace name' };
+  }
+  if (name.length > 80) {
+    return { success: false, error: 'name must be 80 characters or fewer' };
+  }
+  return { success: true, name };
+}
+
+/**
+ * Validates an invite request body.
+ *
+ * @example
+ * parseWorkspaceInviteInput({ email: ' Sam@Acme.com ', role: 'member' });
+ * // { success: true, input: { email: 'sam@acme.com', role: 'member' } }
+ */
+export function parseWorkspaceInviteInput(
+  raw: unknown
+): { success: true; input: { email: string; role: WorkspaceInvite['role'] } } | { success: false; error: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { success: false, error: 'Request body must be an object' };
+  }
+  const body = raw as Record<string, unknown>;
+
+  const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+  if (!EMAIL_PATTERN.test(email)) {
+    return { success: false, error: 'Please enter a valid email address' };
+  }
+
+  const role = body.role ?? 'member';
+  if (role !== 'admin' && role !== 'member') {
+    return { success: false, error: 'role must be admin or member' };
+  }
+
+  return { success: true, input: { email, role } };
+}
+
+// =============================================================================
+// WORKSPACE OPERATIONS
+// =============================================================================
+
+/**
+ * Turns the user's account into a workspace they own.
+ */
+export async function createWorkspace(
+  owner: User,
+  name: string
+): Promise<{ success: boolean; error?: string; workspace?: Workspace }> {
+  if (await getWorkspaceMembership(owner.id)) {
+    return { success: false, error: 'You are already in a workspace.' };
+  }
+
+  const supabase = await createClient();
+  const now = new Date().toISOString();
+  const workspace: Workspace = {
+    id: generateId('ws'),
+    owner_user_id: owner.id,
+    name,
+    created_at: now,
+    updated_at: now,
+  };
+
+  const { error } = await supabase.from('workspaces').insert(workspace);
+  if (error) {
+    console.error('[Workspaces] Failed to create workspace:', error);
+    return { success: false, error: 'Failed to create workspace' };
+  }
+
+  const { error: memberError } = await supabase.from('workspace_members').insert({
+    workspace_id: workspace.id,
+    user_id: owner.id,
+    role: 'owner',
+    joined_at: now,
+  });
+
+  if (memberError) {
+    console.error('[Workspaces] Failed to add owner:', memberError);
+    await supabase.from('workspaces').delete().eq('id', workspace.id);
+    return { success: false, error: 'Failed to create workspace' };
+  }
+
+  return { success: true, workspace };
+}
+
+export async function renameWorkspace(workspaceId: string, name: string): Promise<Workspace | null> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('workspaces')
+    .update({ name, updated_at: new Date().toISOString() })
+    .eq('id', workspaceId)
+    .select()
+    .single();
+
+  if (error || !data) {
+    console.error('[Workspaces] Failed to rename workspace:', error);
+    return null;
+  }
+  return data as Workspace;
+}
+
+// =============================================================================
+// MEMBERS
+// =============================================================================
+
+/** Members with their profile, owner first */
+export async function getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+  const supabase = await createClient();
+  const { data: rows, error } = await supabase
+    .from('workspace_members')
+    .select('user_id, role, joined_at')
+    .eq('workspace_id', workspaceId)
+    .order('joined_at', { ascending: true });
+
+  if (error || !rows || rows.length === 0) return [];
+
+  const { data: users } = await supabase
+    .from('users')
+    .select('id, email, full_name, profile_picture')
+    .in('id', rows.map((row) => row.user_id));
+
+  const byId = new Map((users || []).map((u) => [u.id as string, u]));
+  const roleOrder: Record<WorkspaceRole, number> = { owner: 0, admin: 1, member: 2 };
+
+  return rows
+    .map((row) => {
+      const profile = byId.get(row.user_id);
+      return {
+        user_id: row.user_id,
+        role: row.role as WorkspaceRole,
+        joined_at: row.joined_at,
+        email: profile?.email ?? '',
+        full_name: profile?.full_name ?? null,
+        profile_picture: profile?.profile_picture ?? null,
+      };
+    })
+    .sort((a, b) => roleOrder[a.role] - roleOrder[b.role]);
+}
+
+/**
+ * Changes a member's role. The owner's role can't be changed here.
+ *
+ * @returns false if the user isn't a non-owner member of the workspace
+ */
+export async function updateWorkspaceMemberRole(
+  workspaceId: string,
+  userId: string,
+  role: Exclude<WorkspaceRole, 'owner'>
+): Promise<boolean> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .update({ role })
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .neq('role', 'owner')
+    .select('user_id');
+
+  if (error) {
+    console.error('[Workspaces] Failed to update member role:', error);
+    return false;
+  }
+  return (data?.length ?? 0) > 0;
+}
+
+/**
+ * Removes a member (or lets them leave). The owner can't be removed.
+ * Their work stays in the workspace.
+ */
+export async function removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .delete()
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .neq('role', 'owner')
+    .select('user_id');
+
+  if (error) {
+    console.error('[Workspaces] Failed to remove member:', error);
+    return false;
+  }
+  return (data?.length ?? 0) > 0;
+}
+
+/**
+ * Net credits each member spent on usage since `since` (charges minus
+ * refunds), keyed by user id.
+ */
+export async function getWorkspaceMemberSpend(accountId: string, since: string): Promise<Record<string, number>> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('wallet_transactions')
+    .select('actor_user_id, amount')
+    .eq('user_id', accountId)
+    .not('action_type', 'is', null)
+    .gte('created_at', since);
+
+  if (error || !data) return {};
+
+  const spend: Record<string, number> = {};
+  for (const row of data) {
+    const actor = row.actor_user_id || accountId;
+    spend[actor] = (spend[actor] || 0) - row.amount;
+  }
+  return spend;
+}
+
+// =============================================================================
+// INVITES
+// =============================================================================
+
+/** Unexpired invites for a workspace, newest first */
+export async function getWorkspaceInvites(workspaceId: string): Promise<WorkspaceInvite[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('workspace_invites')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error || !data) return [];
+  return data as WorkspaceInvite[];
+}
+
+/** Unexpired invites addressed to this email, with the workspace name */
+export async function getInvitesForEmail(email: string): Promise<(WorkspaceInvite & { workspace_name: string })[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('workspace_invites')
+    .select('*, workspaces(name)')
+    .eq('email', email.toLowerCase())
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error || !data) return [];
+  return data.map(({ workspaces, ...invite }) => ({
+    ...(invite as WorkspaceInvite),
+    workspace_name: (workspaces as { name?: string } | null)?.name ?? 'Workspace',
+  }));
+}
+
+/**
+ * Invites an email to the workspace. Re-inviting the same email refreshes
+ * the invite's role and expiry.
+ */
+export async function inviteWorkspaceMember(
+  workspaceId: string,
+  input: { email: string; role: WorkspaceInvite['role'] },
+  invitedBy: string
+): Promise<{ success: boolean; error?: string; invite?: WorkspaceInvite }> {
+  const supabase = await createClient();
+
+  const [members, invites] = await Promise.all([
+    getWorkspaceMembers(workspaceId),
+    getWorkspaceInvites(workspaceId),
+  ]);
+
+  if (members.some((member) => member.email.toLowerCase() === input.email)) {
+    return { success: false, error: 'This person is already in the workspace.' };
+  }
+
+  const pendingOthers = invites.filter((invite) => invite.email !== input.email).length;
+  if (members.length + pendingOthers >= MAX_WORKSPACE_MEMBERS) {
+    return { success: false, error: `Workspaces can have up to ${MAX_WORKSPACE_MEMBERS} members.` };
+  }
+
+  const now = new Date();
+  const { data, error } = await supabase
+    .from('workspace_invites')
+    .upsert(
+      {
+        id: generateId('wsi'),
+        workspace_id: workspaceId,
+        email: input.email,
+        role: input.role,
+        invited_by: invitedBy,
+        created_at: now.toISOString(),
+        expires_at: new Date(now.getTime() + INVITE_EXPIRY_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      },
+      { onConflict: 'workspace_id,email' }
+    )
+    .select()
+    .single();
+
+  if (error || !data) {
+    console.error('[Workspaces] Failed to create invite:', error);
+    return { success: false, error: 'Failed to send invite' };
+  }
+
+  return { success: true, invite: data as WorkspaceInvite };
+}
+
+/**
+ * Deletes an invite, either revoked by the workspace (pass workspaceId) or
+ * declined by the invitee (pass email).
+ */
+export async function deleteWorkspaceInvite(
+  id: string,
+  scope: { workspaceId: string } | { email: string }
+): Promise<boolean> {
+  const supabase = await createClient();
+  let query = supabase.from('workspace_invites').delete().eq('id', id);
+  query = 'workspaceId' in scope
+    ? query.eq('workspace_id', scope.workspaceId)
+    : query.eq('email', scope.email.toLowerCase());
+
+  const { data, error } = await query.select('id');
+  if (error) {
+    console.error('[Workspaces] Failed to delete invite:', error);
+    return false;
+  }
+  return (data?.length ?? 0) > 0;
+}
+
+/**
+ * Joins the workspace an invite is for. The invite must be addressed to the
+ * user's email.
+ */
+export async function acceptWorkspaceInvite(
+  id: string,
+  user: User
+): Promise<{ success: boolean; error?: string; status?: number; workspace?: Workspace }> {
+  const supabase = await createClient();
+  const { data: invite } = await supabase
+    .from('workspace_invites')
+    .select('*, workspaces(*)')
+    .eq('id', id)
+    .eq('email', user.email.toLowerCase())
+    .maybeSingle();
+
+  if (!invite || !invite.workspaces || new Date(invite.expires_at) <= new Date()) {
+    return { success: false, status: 404, error: 'Invite not found or expired' };
+  }
+
+  if (await getWorkspaceMembership(user.id)) {
+    return { success: false, status: 409, error: 'Leave your current workspace before joining another.' };
+  }
+
+  if (await getUserSubscription(user.id)) {
+    return {
+      success: false,
+      status: 409,
+      error: 'Cancel your own subscription before joining a workspace. The workspace plan covers your usage.',
+    };
+  }
+
+  const { error } = await supabase.from('workspace_members').insert({
+    workspace_id: invite.workspace_id,
+    user_id: user.id,
+    role: invite.role,
+    invited_by: invite.invited_by,
+    joined_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    console.error('[Workspaces] Failed to accept invite:', error);
+    return { success: false, status: 500, error: 'Failed to join workspace' };
+  }
+
+  await supabase.from('workspace_invites').delete().eq('id', id);
+  return { success: true, workspace: invite.workspaces as Workspace };
+}